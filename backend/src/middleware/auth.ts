@@ -1,7 +1,8 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
+import User from '../models/User.js';
 
-interface AuthRequest extends Request {
+export interface AuthRequest extends Request {
   user?: any;
 }
 
@@ -21,3 +22,19 @@ export const auth = async (req: AuthRequest, res: Response, next: NextFunction):
     res.status(401).json({ success: false, error: 'Token is not valid' });
   }
 };
+
+// Use after `auth`. The role is read from the database so a demotion takes effect immediately
+export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.userId).select('role');
+
+    if (!user || user.role !== 'admin') {
+      res.status(403).json({ success: false, error: 'Admin access required' });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Admin check error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+};
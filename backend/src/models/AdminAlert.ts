@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const ADMIN_ALERT_TYPES = ['scrape_coverage'] as const;
+export type AdminAlertType = typeof ADMIN_ALERT_TYPES[number];
+
+export interface IAdminAlert extends Document<Types.ObjectId> {
+  type: AdminAlertType;
+  severity: 'warning' | 'critical';
+  message: string;
+  details?: Record<string, unknown>;
+  occurrences: number;
+  lastSeenAt: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const adminAlertSchema = new Schema<IAdminAlert>({
+  type: {
+    type: String,
+    enum: ADMIN_ALERT_TYPES,
+    required: [true, 'Alert type is required'],
+  },
+  severity: {
+    type: String,
+    enum: ['warning', 'critical'],
+    default: 'warning',
+  },
+  message: {
+    type: String,
+    required: [true, 'Alert message is required'],
+  },
+  details: {
+    type: Schema.Types.Mixed,
+  },
+  // A condition that persists bumps the open alert instead of raising a new one
+  occurrences: {
+    type: Number,
+    default: 1,
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  acknowledgedAt: {
+    type: Date,
+  },
+  acknowledgedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+adminAlertSchema.index({ type: 1, acknowledgedAt: 1 });
+
+export default mongoose.model<IAdminAlert>('AdminAlert', adminAlertSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ALERT_DIRECTIONS, ALERT_RULE_TYPES } from '../../../shared/ai/index.js';
+import type { AlertDirection, AlertRuleType } from '../../../shared/ai/index.js';
+
+/**
+ * A user's alert on one symbol, evaluated on every stored market snapshot; see
+ * shared/ai/alerts.ts for what each type watches and how `threshold` is read
+ */
+export interface IAlertRule extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  symbol: string;
+  type: AlertRuleType;
+  threshold?: number;
+  direction: AlertDirection;
+  active: boolean;
+  note?: string;
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const alertRuleSchema = new Schema<IAlertRule>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  symbol: {
+    type: String,
+    required: [true, 'Symbol is required'],
+    uppercase: true,
+    trim: true,
+  },
+  type: {
+    type: String,
+    enum: ALERT_RULE_TYPES,
+    required: [true, 'Alert type is required'],
+  },
+  threshold: {
+    type: Number,
+    min: [0, 'Threshold cannot be negative'],
+  },
+  direction: {
+    type: String,
+    enum: ALERT_DIRECTIONS,
+    default: 'either',
+  },
+  active: {
+    type: Boolean,
+    default: true,
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Note cannot exceed 200 characters'],
+  },
+  lastTriggeredAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+alertRuleSchema.index({ active: 1, symbol: 1 });
+alertRuleSchema.index({ user: 1, symbol: 1 });
+
+export default mongoose.model<IAlertRule>('AlertRule', alertRuleSchema);
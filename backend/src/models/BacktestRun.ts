@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import type { BacktestResult, BacktestStats, PerformanceStats } from '../../../shared/ai/index.js';
+
+/**
+ * One stored backtest of the recommendation engine, kept so runs of different engine
+ * versions over the same period can be compared.
+ */
+export interface IBacktestRun extends Document<Types.ObjectId> {
+  engineVersion: string;
+  provider: string;
+  createdBy: Types.ObjectId | null;
+  start: string;
+  end: string;
+  tradingDays: number;
+  config: BacktestResult['config'];
+  strategy: BacktestStats;
+  benchmark: (PerformanceStats & { index: string }) | null;
+  excessReturn: number | null;
+  equityCurve: BacktestResult['equityCurve'];
+  warnings: string[];
+  createdAt: Date;
+}
+
+const performanceFields = {
+  totalReturn: { type: Number, required: true },
+  cagr: { type: Number, required: true },
+  volatility: { type: Number, required: true },
+  sharpeRatio: { type: Number, default: null },
+  maxDrawdown: { type: Number, required: true },
+};
+
+const backtestRunSchema = new Schema<IBacktestRun>({
+  engineVersion: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  provider: {
+    type: String,
+    required: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  start: {
+    type: String,
+    required: true,
+  },
+  end: {
+    type: String,
+    required: true,
+  },
+  tradingDays: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  config: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  strategy: {
+    _id: false,
+    ...performanceFields,
+    hitRate: { type: Number, default: null },
+    turnover: { type: Number, required: true },
+    trades: { type: Number, required: true },
+    fees: { type: Number, required: true },
+    recommendations: { type: Number, required: true },
+  },
+  benchmark: {
+    type: new Schema({ index: String, ...performanceFields }, { _id: false }),
+    default: null,
+  },
+  excessReturn: {
+    type: Number,
+    default: null,
+  },
+  equityCurve: [{
+    _id: false,
+    date: String,
+    value: Number,
+    benchmark: Number,
+  }],
+  warnings: [{
+    type: String,
+  }],
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+});
+
+export default mongoose.model<IBacktestRun>('BacktestRun', backtestRunSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CORPORATE_ACTION_TYPES } from '../../../shared/ai/index.js';
+import type { CorporateActionType } from '../../../shared/ai/index.js';
+
+/**
+ * A dividend, bonus issue, split or rights issue announced by an NSE issuer. Dividends,
+ * bonus issues and splits are posted to the ledgers of portfolios holding the symbol on the
+ * day before the ex-date (see services/corporateActions); rights need the holder's decision.
+ */
+export interface ICorporateAction extends Document<Types.ObjectId> {
+  symbol: string;
+  type: CorporateActionType;
+  exDate: Date;
+  bookClosureDate?: Date;
+  // Dividends are paid on this date
+  paymentDate?: Date;
+  // dividend: KES per share before withholding tax
+  amount?: number;
+  ratio?: { numerator: number; denominator: number };
+  // rights: subscription price per new share
+  price?: number;
+  note?: string;
+  // When holders' ledgers were last brought up to date with this action
+  appliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const corporateActionSchema = new Schema<ICorporateAction>({
+  symbol: {
+    type: String,
+    required: [true, 'Symbol is required'],
+    uppercase: true,
+    trim: true,
+  },
+  type: {
+    type: String,
+    enum: CORPORATE_ACTION_TYPES,
+    required: [true, 'Action type is required'],
+  },
+  exDate: {
+    type: Date,
+    required: [true, 'Ex-date is required'],
+  },
+  bookClosureDate: Date,
+  paymentDate: Date,
+  amount: {
+    type: Number,
+    min: [0, 'Amount cannot be negative'],
+  },
+  ratio: {
+    numerator: { type: Number, min: 1 },
+    denominator: { type: Number, min: 1 },
+  },
+  price: {
+    type: Number,
+    min: [0, 'Price cannot be negative'],
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+  },
+  appliedAt: Date,
+}, {
+  timestamps: true,
+});
+
+corporateActionSchema.index({ symbol: 1, type: 1, exDate: 1 }, { unique: true });
+corporateActionSchema.index({ exDate: 1 });
+
+export default mongoose.model<ICorporateAction>('CorporateAction', corporateActionSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const FUNDAMENTAL_PERIOD_TYPES = ['annual', 'interim'] as const;
+export type FundamentalPeriodType = typeof FUNDAMENTAL_PERIOD_TYPES[number];
+
+/**
+ * Reported results of an NSE listed company for one financial period, as imported by an
+ * admin. Per-share figures are in KES; ROE and revenue growth are fractions.
+ */
+export interface IFundamental extends Document<Types.ObjectId> {
+  symbol: string;
+  // e.g. FY2024 or H1 2025
+  period: string;
+  periodEnd: Date;
+  periodType: FundamentalPeriodType;
+  eps?: number;
+  dps?: number;
+  navPerShare?: number;
+  roe?: number;
+  debtToEquity?: number;
+  // Against the same period a year earlier
+  revenueGrowth?: number;
+  source?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fundamentalSchema = new Schema<IFundamental>({
+  symbol: {
+    type: String,
+    required: [true, 'Symbol is required'],
+    uppercase: true,
+    trim: true,
+  },
+  period: {
+    type: String,
+    required: [true, 'Period is required'],
+    trim: true,
+  },
+  periodEnd: {
+    type: Date,
+    required: [true, 'Period end is required'],
+  },
+  periodType: {
+    type: String,
+    enum: FUNDAMENTAL_PERIOD_TYPES,
+    default: 'annual',
+  },
+  eps: Number,
+  dps: {
+    type: Number,
+    min: [0, 'Dividend per share cannot be negative'],
+  },
+  navPerShare: Number,
+  roe: Number,
+  debtToEquity: {
+    type: Number,
+    min: [0, 'Debt/equity cannot be negative'],
+  },
+  revenueGrowth: Number,
+  source: {
+    type: String,
+    trim: true,
+  },
+}, {
+  timestamps: true,
+});
+
+fundamentalSchema.index({ symbol: 1, period: 1 }, { unique: true });
+fundamentalSchema.index({ symbol: 1, periodEnd: -1 });
+
+export default mongoose.model<IFundamental>('Fundamental', fundamentalSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * A financial goal funded from one of the user's portfolios. The portfolio's current value is
+ * shared between its goals by priority when they are projected; see shared/ai/goalPlanning.ts.
+ */
+export interface IGoal extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  portfolio: Types.ObjectId;
+  name: string;
+  // KES
+  targetAmount: number;
+  targetDate: Date;
+  // KES paid in each month until the target date
+  monthlyContribution: number;
+  priority: 'high' | 'medium' | 'low';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const goalSchema = new Schema<IGoal>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  portfolio: {
+    type: Schema.Types.ObjectId,
+    ref: 'Portfolio',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Goal name is required'],
+    trim: true,
+    maxlength: [100, 'Goal name cannot exceed 100 characters'],
+  },
+  targetAmount: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  targetDate: {
+    type: Date,
+    required: true,
+  },
+  monthlyContribution: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  priority: {
+    type: String,
+    enum: ['high', 'medium', 'low'],
+    default: 'medium',
+  },
+}, {
+  timestamps: true,
+});
+
+goalSchema.index({ user: 1, portfolio: 1, targetDate: 1 });
+
+export default mongoose.model<IGoal>('Goal', goalSchema);
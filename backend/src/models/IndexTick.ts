@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const NSE_INDICES = ['NASI', 'NSE20', 'NSE25'] as const;
+export type NSEIndexCode = typeof NSE_INDICES[number];
+
+export const NSE_INDEX_NAMES: Record<NSEIndexCode, string> = {
+  NASI: 'NSE All Share Index',
+  NSE20: 'NSE 20 Share Index',
+  NSE25: 'NSE 25 Share Index',
+};
+
+/**
+ * One observation of an NSE index level (NASI, NSE 20, NSE 25), captured with every
+ * stored snapshot. Daily bars are aggregated at read time (see services/indexHistory).
+ */
+export interface IIndexTick extends Document<Types.ObjectId> {
+  index: NSEIndexCode;
+  timestamp: Date;
+  value: number;
+  change: number;
+  changePercent: number;
+}
+
+const indexTickSchema = new Schema<IIndexTick>({
+  index: {
+    type: String,
+    enum: NSE_INDICES,
+    required: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  value: { type: Number, required: true, min: 0 },
+  change: { type: Number, default: 0 },
+  changePercent: { type: Number, default: 0 },
+}, {
+  timeseries: {
+    timeField: 'timestamp',
+    metaField: 'index',
+    granularity: 'minutes',
+  },
+  versionKey: false,
+});
+
+indexTickSchema.index({ index: 1, timestamp: 1 });
+
+export default mongoose.model<IIndexTick>('IndexTick', indexTickSchema);
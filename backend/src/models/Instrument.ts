@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { FIXED_INCOME_TYPES } from '../../../shared/ai/index.js';
+import type { FixedIncomeType } from '../../../shared/ai/index.js';
+
+/**
+ * Terms of a Treasury bill or bond, money market fund or fixed deposit held in a portfolio.
+ * Its units and cost come from the ledger like shares; these terms value them. Symbols
+ * without terms are NSE equities.
+ */
+export interface IInstrument extends Document<Types.ObjectId> {
+  portfolio: Types.ObjectId;
+  user: Types.ObjectId;
+  // Ledger symbol, e.g. FXD1/2023/010 or a fund's short name
+  symbol: string;
+  assetType: FixedIncomeType;
+  name: string;
+  // Annual rates as fractions: market yield of a bill or bond, a fund's quoted yield, a deposit's rate
+  yield: number;
+  yieldUpdatedAt: Date;
+  couponRate?: number;
+  couponFrequency?: number;
+  issueDate?: Date;
+  maturityDate?: Date;
+  // Bank or fund manager
+  issuer?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const instrumentSchema = new Schema<IInstrument>({
+  portfolio: {
+    type: Schema.Types.ObjectId,
+    ref: 'Portfolio',
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+  },
+  assetType: {
+    type: String,
+    enum: FIXED_INCOME_TYPES,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'Instrument name cannot exceed 100 characters'],
+  },
+  yield: {
+    type: Number,
+    required: true,
+  },
+  yieldUpdatedAt: {
+    type: Date,
+    required: true,
+  },
+  couponRate: {
+    type: Number,
+    min: 0,
+  },
+  couponFrequency: {
+    type: Number,
+    enum: [1, 2, 4, 12],
+  },
+  issueDate: Date,
+  maturityDate: Date,
+  issuer: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Issuer cannot exceed 100 characters'],
+  },
+}, {
+  timestamps: true,
+});
+
+instrumentSchema.index({ portfolio: 1, symbol: 1 }, { unique: true });
+
+export default mongoose.model<IInstrument>('Instrument', instrumentSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { LISTING_SEGMENTS, NSE_SECTORS } from '../../../shared/ai/index.js';
+import type { ListingSegment, NSESector } from '../../../shared/ai/index.js';
+
+/**
+ * An NSE listing in the symbol master, as imported by an admin: its sector, ISIN, market
+ * segment, shares in issue and board lot, which the exchange's price list does not show.
+ */
+export interface IListedSymbol extends Document<Types.ObjectId> {
+  symbol: string;
+  name: string;
+  sector: NSESector;
+  isin?: string;
+  segment: ListingSegment;
+  sharesOutstanding?: number;
+  boardLot: number;
+  source?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const listedSymbolSchema = new Schema<IListedSymbol>({
+  symbol: {
+    type: String,
+    required: [true, 'Symbol is required'],
+    unique: true,
+    uppercase: true,
+    trim: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+  },
+  sector: {
+    type: String,
+    required: [true, 'Sector is required'],
+    enum: NSE_SECTORS,
+  },
+  isin: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z]{2}[A-Z0-9]{9}\d$/, 'ISIN must be 12 characters'],
+  },
+  segment: {
+    type: String,
+    enum: LISTING_SEGMENTS,
+    default: 'MIMS',
+  },
+  sharesOutstanding: {
+    type: Number,
+    min: [0, 'Shares outstanding cannot be negative'],
+  },
+  boardLot: {
+    type: Number,
+    min: [1, 'Board lot must be at least one share'],
+    default: 100,
+  },
+  source: {
+    type: String,
+    trim: true,
+  },
+}, {
+  timestamps: true,
+});
+
+listedSymbolSchema.index({ sector: 1, symbol: 1 });
+
+export default mongoose.model<IListedSymbol>('ListedSymbol', listedSymbolSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * A day the NSE does not trade outside the regular holiday calendar: a public holiday
+ * gazetted at short notice (Eid al-Fitr, a national day of mourning) or an exchange closure.
+ */
+export interface IMarketClosure extends Document<Types.ObjectId> {
+  // Nairobi trading day, YYYY-MM-DD
+  date: string;
+  reason: string;
+  // A gazetted public holiday: observed on the Monday after when it falls on a Sunday, and
+  // replacing the calendar's own date for a moveable holiday of the same name that year
+  holiday: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const marketClosureSchema = new Schema<IMarketClosure>({
+  date: {
+    type: String,
+    required: [true, 'Date is required'],
+    unique: true,
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'],
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason is required'],
+    trim: true,
+    maxlength: [100, 'Reason cannot be more than 100 characters'],
+  },
+  holiday: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+});
+
+export default mongoose.model<IMarketClosure>('MarketClosure', marketClosureSchema);
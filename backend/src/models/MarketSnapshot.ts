@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import type { NSEMarketData } from '../services/marketData/types.js';
+
+export interface IMarketSnapshot extends Document<Types.ObjectId> {
+  takenAt: Date;
+  data: NSEMarketData;
+}
+
+const marketSnapshotSchema = new Schema<IMarketSnapshot>({
+  takenAt: {
+    type: Date,
+    required: true,
+    // Full snapshots are only needed for recent serving; price history lives in PriceTick
+    expires: '30d',
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+}, {
+  versionKey: false,
+});
+
+export default mongoose.model<IMarketSnapshot>('MarketSnapshot', marketSnapshotSchema);
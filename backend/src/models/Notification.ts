@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['info', 'success', 'warning', 'error'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// What raised a notification: a price alert rule, or an AI alert of the risk engine by its type
+export const NOTIFICATION_CATEGORIES = ['price-alert', 'risk', 'opportunity', 'rebalance', 'market'] as const;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export interface NotificationDelivery {
+  channel: string;
+  at: Date;
+  error?: string;
+}
+
+// A message for one user, shaped like `Notification` in src/types.ts
+export interface INotification extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  portfolio?: Types.ObjectId;
+  category: NotificationCategory;
+  type: NotificationType;
+  // AI alerts only
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  actionRequired: boolean;
+  title: string;
+  message: string;
+  suggestedActions: string[];
+  affectedSymbols: string[];
+  // With `symbol`, identifies the condition: an alert rule's id, or an AI alert's rule name
+  rule: string;
+  symbol?: string;
+  alertRule?: Types.ObjectId;
+  read: boolean;
+  readAt?: Date;
+  // A condition raised again while its notification is unread bumps it instead of adding another
+  occurrences: number;
+  lastSeenAt: Date;
+  deliveries: NotificationDelivery[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  portfolio: {
+    type: Schema.Types.ObjectId,
+    ref: 'Portfolio',
+  },
+  category: {
+    type: String,
+    enum: NOTIFICATION_CATEGORIES,
+    required: [true, 'Notification category is required'],
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    default: 'info',
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'critical'],
+  },
+  actionRequired: {
+    type: Boolean,
+    default: false,
+  },
+  title: {
+    type: String,
+    required: [true, 'Notification title is required'],
+  },
+  message: {
+    type: String,
+    required: [true, 'Notification message is required'],
+  },
+  suggestedActions: [{
+    type: String,
+  }],
+  affectedSymbols: [{
+    type: String,
+    uppercase: true,
+  }],
+  rule: {
+    type: String,
+    required: [true, 'Notification rule is required'],
+  },
+  symbol: {
+    type: String,
+    uppercase: true,
+  },
+  alertRule: {
+    type: Schema.Types.ObjectId,
+    ref: 'AlertRule',
+  },
+  read: {
+    type: Boolean,
+    default: false,
+  },
+  readAt: {
+    type: Date,
+  },
+  occurrences: {
+    type: Number,
+    default: 1,
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  deliveries: [{
+    _id: false,
+    channel: { type: String, required: true },
+    at: { type: Date, required: true },
+    error: String,
+  }],
+}, {
+  timestamps: true,
+});
+
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, rule: 1, symbol: 1, read: 1 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Positions and cash are not stored here: they are derived from the portfolio's transaction ledger
+export interface IPortfolio extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const portfolioSchema = new Schema<IPortfolio>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Portfolio name is required'],
+    trim: true,
+    maxlength: [100, 'Portfolio name cannot exceed 100 characters'],
+  },
+}, {
+  timestamps: true,
+});
+
+// A user cannot have two portfolios with the same name
+portfolioSchema.index({ user: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IPortfolio>('Portfolio', portfolioSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type PriceTickSource = 'snapshot' | 'import';
+
+/**
+ * One observation of a symbol's price. Scraped snapshots are intraday ticks where
+ * open/high/low/close all equal the last traded price; backfilled rows carry a full
+ * daily bar. Daily OHLCV is aggregated from these at read time (see services/priceHistory).
+ */
+export interface IPriceTick extends Document<Types.ObjectId> {
+  symbol: string;
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: PriceTickSource;
+}
+
+const priceTickSchema = new Schema<IPriceTick>({
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  open: { type: Number, required: true, min: 0 },
+  high: { type: Number, required: true, min: 0 },
+  low: { type: Number, required: true, min: 0 },
+  close: { type: Number, required: true, min: 0 },
+  volume: { type: Number, default: 0, min: 0 },
+  source: {
+    type: String,
+    enum: ['snapshot', 'import'],
+    required: true,
+  },
+}, {
+  // Stored as a MongoDB time-series collection bucketed per symbol
+  timeseries: {
+    timeField: 'timestamp',
+    metaField: 'symbol',
+    granularity: 'minutes',
+  },
+  versionKey: false,
+});
+
+priceTickSchema.index({ symbol: 1, timestamp: 1 });
+
+export default mongoose.model<IPriceTick>('PriceTick', priceTickSchema);
@@ -0,0 +1,166 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const RECOMMENDATION_SOURCES = ['investment-advice', 'rebalance'] as const;
+export type RecommendationSource = typeof RECOMMENDATION_SOURCES[number];
+
+export const RECOMMENDATION_STATUSES = ['open', 'hit_target', 'stopped_out', 'expired'] as const;
+export type RecommendationStatus = typeof RECOMMENDATION_STATUSES[number];
+
+type RiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * A recommendation as it was issued to a user, scored once later prices reach its target or
+ * stop, or its horizon runs out. Model performance is measured from these outcomes.
+ */
+export interface IRecommendation extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  portfolio: Types.ObjectId | null;
+  source: RecommendationSource;
+  engineVersion: string;
+  type: 'BUY' | 'SELL' | 'HOLD';
+  symbol: string;
+  sector: string | null;
+  confidence: number;
+  expectedReturn: number;
+  riskLevel: RiskLevel;
+  timeHorizon: 'short' | 'medium' | 'long';
+  price: number;
+  targetPrice: number;
+  stopLoss: number;
+  rationale: string;
+  issuedAt: Date;
+  // Nairobi date of issuedAt, YYYY-MM-DD; a recommendation is recorded once per issue day
+  issueDay: string;
+  expiresAt: Date;
+  status: RecommendationStatus;
+  resolvedAt: Date | null;
+  exitPrice: number | null;
+  // Return from the issue price in the recommended direction (a SELL gains when the price falls)
+  realizedReturn: number | null;
+  // Risk level the price actually moved like while the recommendation was open
+  realizedRiskLevel: RiskLevel | null;
+  createdAt: Date;
+}
+
+const RISK_LEVELS = ['low', 'medium', 'high'];
+
+const recommendationSchema = new Schema<IRecommendation>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  portfolio: {
+    type: Schema.Types.ObjectId,
+    ref: 'Portfolio',
+    default: null,
+  },
+  source: {
+    type: String,
+    enum: RECOMMENDATION_SOURCES,
+    required: true,
+  },
+  engineVersion: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ['BUY', 'SELL', 'HOLD'],
+    required: true,
+  },
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+  },
+  sector: {
+    type: String,
+    default: null,
+  },
+  confidence: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1,
+  },
+  expectedReturn: {
+    type: Number,
+    required: true,
+  },
+  riskLevel: {
+    type: String,
+    enum: RISK_LEVELS,
+    required: true,
+  },
+  timeHorizon: {
+    type: String,
+    enum: ['short', 'medium', 'long'],
+    required: true,
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  targetPrice: {
+    type: Number,
+    required: true,
+  },
+  stopLoss: {
+    type: Number,
+    required: true,
+  },
+  rationale: {
+    type: String,
+    default: '',
+  },
+  issuedAt: {
+    type: Date,
+    required: true,
+  },
+  issueDay: {
+    type: String,
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Issue day must be YYYY-MM-DD'],
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: RECOMMENDATION_STATUSES,
+    default: 'open',
+  },
+  resolvedAt: {
+    type: Date,
+    default: null,
+  },
+  exitPrice: {
+    type: Number,
+    default: null,
+  },
+  realizedReturn: {
+    type: Number,
+    default: null,
+  },
+  realizedRiskLevel: {
+    type: String,
+    enum: [...RISK_LEVELS, null],
+    default: null,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+});
+
+recommendationSchema.index({ status: 1, symbol: 1 });
+recommendationSchema.index({ user: 1, issuedAt: -1 });
+// The same call repeated on a page reload is one recommendation, not another sample; records
+// stored before issue days were kept are left out of the constraint
+recommendationSchema.index(
+  { user: 1, symbol: 1, type: 1, engineVersion: 1, issueDay: 1 },
+  { unique: true, partialFilterExpression: { issueDay: { $exists: true } } }
+);
+
+export default mongoose.model<IRecommendation>('Recommendation', recommendationSchema);
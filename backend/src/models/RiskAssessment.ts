@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * One completed risk profiling questionnaire. Fields mirror the `risk_assessments` table;
+ * a user's assessments are kept as a history and the latest sets their risk tolerance.
+ */
+export interface IRiskAssessment extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  score: number;
+  riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  // Years
+  investmentHorizon: number;
+  debtToIncomeRatio: number | null;
+  emergencyFundMonths: number | null;
+  financialGoals: string[];
+  // Answers, capacity and willingness scores, constraints and questionnaire version
+  assessmentData: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const riskAssessmentSchema = new Schema<IRiskAssessment>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  score: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100,
+  },
+  riskTolerance: {
+    type: String,
+    enum: ['conservative', 'moderate', 'aggressive'],
+    required: true,
+  },
+  investmentHorizon: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  debtToIncomeRatio: {
+    type: Number,
+    default: null,
+  },
+  emergencyFundMonths: {
+    type: Number,
+    default: null,
+  },
+  financialGoals: [{
+    type: String,
+  }],
+  assessmentData: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+}, {
+  timestamps: true,
+});
+
+riskAssessmentSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IRiskAssessment>('RiskAssessment', riskAssessmentSchema);
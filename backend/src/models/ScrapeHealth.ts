@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import type { RejectedRow } from '../services/marketData/types.js';
+
+export interface IScrapeHealth extends Document<Types.ObjectId> {
+  takenAt: Date;
+  provider: string;
+  stocksParsed: number;
+  // Table-level counts are null when the snapshot did not come from parsed HTML
+  rowsSeen: number | null;
+  rowsParsed: number | null;
+  rejected: RejectedRow[];
+  fallbackUsed: boolean;
+  previousCount: number | null;
+  disappearedSymbols: string[];
+  newSymbols: string[];
+  coverage: number | null;
+  minCoverage: number;
+  degraded: boolean;
+}
+
+const scrapeHealthSchema = new Schema<IScrapeHealth>({
+  takenAt: {
+    type: Date,
+    required: true,
+    // Kept as long as the snapshots they describe
+    expires: '30d',
+  },
+  provider: {
+    type: String,
+    required: true,
+  },
+  stocksParsed: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  rowsSeen: {
+    type: Number,
+    default: null,
+  },
+  rowsParsed: {
+    type: Number,
+    default: null,
+  },
+  rejected: [{
+    _id: false,
+    row: Number,
+    text: String,
+    reason: String,
+  }],
+  fallbackUsed: {
+    type: Boolean,
+    default: false,
+  },
+  previousCount: {
+    type: Number,
+    default: null,
+  },
+  disappearedSymbols: [{
+    type: String,
+  }],
+  newSymbols: [{
+    type: String,
+  }],
+  coverage: {
+    type: Number,
+    default: null,
+  },
+  minCoverage: {
+    type: Number,
+    required: true,
+  },
+  degraded: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  versionKey: false,
+});
+
+export default mongoose.model<IScrapeHealth>('ScrapeHealth', scrapeHealthSchema);
@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const TRANSACTION_TYPES = [
+  'buy',
+  'sell',
+  'dividend',
+  'interest',
+  'bonus',
+  'rights',
+  'split',
+  'deposit',
+  'withdrawal',
+  'fee',
+  'reversal',
+] as const;
+
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+// Entry types that always relate to a holding
+export const SECURITY_TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'interest', 'bonus', 'rights', 'split'];
+
+export interface ITransaction extends Document<Types.ObjectId> {
+  portfolio: Types.ObjectId;
+  user: Types.ObjectId;
+  type: TransactionType;
+  date: Date;
+  symbol?: string;
+  shares?: number;
+  // buy/sell/rights: price per share; bonus/split: cash in lieu per share for a fractional entitlement
+  price?: number;
+  amount?: number;
+  fees: number;
+  taxWithheld?: number;
+  // bonus: `numerator` new shares for every `denominator` held; split: `numerator` new for `denominator` old
+  ratio?: { numerator: number; denominator: number };
+  // interest: credited as more units of a money market fund instead of paid out in cash
+  reinvested?: boolean;
+  // Posted automatically for this corporate action
+  corporateAction?: Types.ObjectId;
+  reverses?: Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+const transactionSchema = new Schema<ITransaction>({
+  portfolio: {
+    type: Schema.Types.ObjectId,
+    ref: 'Portfolio',
+    required: true,
+    index: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: TRANSACTION_TYPES,
+    required: [true, 'Transaction type is required'],
+  },
+  date: {
+    type: Date,
+    required: [true, 'Transaction date is required'],
+  },
+  symbol: {
+    type: String,
+    uppercase: true,
+    trim: true,
+  },
+  shares: {
+    type: Number,
+    min: [0, 'Shares cannot be negative'],
+  },
+  price: {
+    type: Number,
+    min: [0, 'Price cannot be negative'],
+  },
+  amount: {
+    type: Number,
+    min: [0, 'Amount cannot be negative'],
+  },
+  fees: {
+    type: Number,
+    default: 0,
+    min: [0, 'Fees cannot be negative'],
+  },
+  taxWithheld: {
+    type: Number,
+    min: [0, 'Tax withheld cannot be negative'],
+  },
+  ratio: {
+    numerator: { type: Number, min: 1 },
+    denominator: { type: Number, min: 1 },
+  },
+  reinvested: {
+    type: Boolean,
+  },
+  corporateAction: {
+    type: Schema.Types.ObjectId,
+    ref: 'CorporateAction',
+  },
+  reverses: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+transactionSchema.index({ portfolio: 1, date: 1, createdAt: 1 });
+
+// The ledger is append-only: corrections are made with `reversal` entries, never by editing history
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error('Ledger transactions are append-only and cannot be modified'));
+};
+
+transactionSchema.pre('save', function (next) {
+  if (!this.isNew) return rejectMutation(next);
+  next();
+});
+transactionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], rejectMutation);
+
+export default mongoose.model<ITransaction>('Transaction', transactionSchema);
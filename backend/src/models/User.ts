@@ -12,8 +12,21 @@ export interface IUser extends Document {
   dateOfBirth?: Date;
   investmentExperience: 'beginner' | 'intermediate' | 'advanced';
   riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  // Score (0-100) of the latest risk assessment, which set riskTolerance
+  riskScore: number | null;
+  riskAssessedAt: Date | null;
   investmentGoals: string[];
   monthlyIncome?: number;
+  role: 'user' | 'admin';
+  // Mirrors `UserSettings.notifications` in src/types.ts
+  notifications: {
+    email: boolean;
+    push: boolean;
+    priceAlerts: boolean;
+    marketNews: boolean;
+    // Risk, opportunity and rebalancing alerts from the AI risk engine
+    portfolioAlerts: boolean;
+  };
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -68,6 +81,16 @@ const userSchema = new Schema<IUser>({
     enum: ['conservative', 'moderate', 'aggressive'],
     default: 'moderate',
   },
+  riskScore: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: null,
+  },
+  riskAssessedAt: {
+    type: Date,
+    default: null,
+  },
   investmentGoals: [{
     type: String,
   }],
@@ -75,6 +98,18 @@ const userSchema = new Schema<IUser>({
     type: Number,
     min: 0,
   },
+  role: {
+    type: String,
+    enum: ['user', 'admin'],
+    default: 'user',
+  },
+  notifications: {
+    email: { type: Boolean, default: true },
+    push: { type: Boolean, default: true },
+    priceAlerts: { type: Boolean, default: true },
+    marketNews: { type: Boolean, default: false },
+    portfolioAlerts: { type: Boolean, default: true },
+  },
 }, {
   timestamps: true,
 });
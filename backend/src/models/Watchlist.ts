@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// A named list of NSE symbols a user follows; alert rules are kept per symbol, see AlertRule
+export interface IWatchlist extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  name: string;
+  symbols: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const watchlistSchema = new Schema<IWatchlist>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Watchlist name is required'],
+    trim: true,
+    maxlength: [50, 'Watchlist name cannot exceed 50 characters'],
+  },
+  symbols: [{
+    type: String,
+    uppercase: true,
+    trim: true,
+  }],
+}, {
+  timestamps: true,
+});
+
+watchlistSchema.index({ user: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IWatchlist>('Watchlist', watchlistSchema);
@@ -0,0 +1,547 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import { BacktestError, CORPORATE_ACTION_TYPES } from '../../../shared/ai/index.js';
+import { auth, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import AdminAlert from '../models/AdminAlert.js';
+import BacktestRun from '../models/BacktestRun.js';
+import CorporateAction from '../models/CorporateAction.js';
+import MarketClosure from '../models/MarketClosure.js';
+import ScrapeHealth from '../models/ScrapeHealth.js';
+import { serializeAdminAlert } from '../services/adminAlerts.js';
+import { runEngineBacktest, serializeBacktestRun } from '../services/backtest.js';
+import { applyDueCorporateActions, serializeCorporateAction } from '../services/corporateActions.js';
+import { FundamentalsRow, importFundamentals, parseFundamentalsCsv, parseFundamentalsJson } from '../services/fundamentals.js';
+import { getClosure, loadMarketClosures, serializeMarketClosure } from '../services/marketCalendar.js';
+import { getMinCoverage, serializeParseHealth } from '../services/parseHealth.js';
+import { importSymbols, parseSymbolsCsv, parseSymbolsJson, SymbolRow } from '../services/symbolMaster.js';
+
+const router = express.Router();
+
+router.use(auth, requireAdmin);
+
+// @route   GET /api/admin/scraper/health
+// @desc    Recent parse health reports, newest first
+// @access  Admin
+router.get('/scraper/health', [
+  query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('Limit must be between 1 and 500'),
+  query('degraded').optional().isBoolean().withMessage('Degraded must be true or false'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const limit = Number(req.query.limit) || 50;
+    const filter = req.query.degraded !== undefined ? { degraded: req.query.degraded === 'true' } : {};
+    const reports = await ScrapeHealth.find(filter).sort({ takenAt: -1 }).limit(limit);
+
+    res.json({
+      success: true,
+      data: reports.map(serializeParseHealth),
+      min_coverage: getMinCoverage(),
+      count: reports.length,
+    });
+  } catch (error) {
+    console.error('Get scraper health error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   GET /api/admin/alerts
+// @desc    Admin alerts, open ones only unless ?all=true
+// @access  Admin
+router.get('/alerts', [
+  query('all').optional().isBoolean().withMessage('All must be true or false'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const filter = req.query.all === 'true' ? {} : { acknowledgedAt: { $exists: false } };
+    const alerts = await AdminAlert.find(filter).sort({ lastSeenAt: -1 }).limit(200);
+
+    res.json({
+      success: true,
+      data: alerts.map(serializeAdminAlert),
+      count: alerts.length,
+    });
+  } catch (error) {
+    console.error('Get admin alerts error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/alerts/:id/acknowledge
+// @desc    Acknowledge an alert; the next occurrence raises a new one
+// @access  Admin
+router.post('/alerts/:id/acknowledge', async (req: AuthRequest, res) => {
+  try {
+    const alert = mongoose.isValidObjectId(req.params.id) ? await AdminAlert.findById(req.params.id) : null;
+    if (!alert) {
+      return res.status(404).json({ success: false, error: 'Alert not found' });
+    }
+
+    if (!alert.acknowledgedAt) {
+      alert.acknowledgedAt = new Date();
+      alert.acknowledgedBy = req.user.userId;
+      await alert.save();
+    }
+
+    res.json({
+      success: true,
+      data: serializeAdminAlert(alert),
+      message: 'Alert acknowledged',
+    });
+  } catch (error) {
+    console.error('Acknowledge alert error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// @route   POST /api/admin/backtests
+// @desc    Replay stored daily history through the current recommendation engine and store the run
+// @access  Admin
+router.post('/backtests', [
+  body('start_date').optional().matches(DAY_PATTERN).withMessage('Start date must be YYYY-MM-DD'),
+  body('end_date').optional().matches(DAY_PATTERN).withMessage('End date must be YYYY-MM-DD'),
+  body('initial_capital').optional().isFloat({ gt: 0 }).withMessage('Initial capital must be greater than zero'),
+  body('rebalance_days').optional().isInt({ min: 1, max: 260 }).withMessage('Rebalance days must be between 1 and 260'),
+  body('risk_profile').optional().isIn(['conservative', 'moderate', 'aggressive']).withMessage('Risk profile must be conservative, moderate or aggressive'),
+  body('time_horizon').optional().isIn(['short', 'medium', 'long']).withMessage('Time horizon must be short, medium or long'),
+  body('max_positions').optional().isInt({ min: 1, max: 20 }).withMessage('Max positions must be between 1 and 20'),
+  body('drift_threshold').optional().isFloat({ min: 0, max: 1 }).withMessage('Drift threshold must be from 0 to 1'),
+  body('brokerage_rate').optional().isFloat({ min: 0, max: 0.1 }).withMessage('Brokerage rate must be from 0 to 0.1'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const numberOf = (value: unknown): number | undefined => (value !== undefined ? Number(value) : undefined);
+    const run = await runEngineBacktest({
+      startDate: req.body.start_date,
+      endDate: req.body.end_date,
+      initialCapital: numberOf(req.body.initial_capital),
+      rebalanceDays: numberOf(req.body.rebalance_days),
+      riskProfile: req.body.risk_profile,
+      timeHorizon: req.body.time_horizon,
+      maxPositions: numberOf(req.body.max_positions),
+      driftThreshold: numberOf(req.body.drift_threshold),
+      costs: req.body.brokerage_rate !== undefined ? { brokerage: Number(req.body.brokerage_rate) } : undefined,
+    }, req.user.userId);
+
+    res.status(201).json({
+      success: true,
+      data: serializeBacktestRun(run, { includeCurve: true }),
+      message: 'Backtest completed',
+    });
+  } catch (error) {
+    if (error instanceof BacktestError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('Run backtest error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   GET /api/admin/backtests
+// @desc    Stored backtest runs without equity curves, newest first, to compare engine versions
+// @access  Admin
+router.get('/backtests', [
+  query('engine_version').optional().isString().trim(),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const filter = req.query.engine_version ? { engineVersion: String(req.query.engine_version) } : {};
+    const runs = await BacktestRun.find(filter)
+      .select('-equityCurve')
+      .sort({ createdAt: -1 })
+      .limit(Number(req.query.limit) || 50);
+
+    res.json({
+      success: true,
+      data: runs.map(run => serializeBacktestRun(run)),
+      count: runs.length,
+    });
+  } catch (error) {
+    console.error('Get backtests error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   GET /api/admin/backtests/:id
+// @desc    One stored backtest run with its equity curve against NASI
+// @access  Admin
+router.get('/backtests/:id', async (req: AuthRequest, res) => {
+  try {
+    const run = mongoose.isValidObjectId(req.params.id) ? await BacktestRun.findById(req.params.id) : null;
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Backtest not found' });
+    }
+
+    res.json({
+      success: true,
+      data: serializeBacktestRun(run, { includeCurve: true }),
+    });
+  } catch (error) {
+    console.error('Get backtest error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+const RATIO_ACTION_TYPES = ['bonus', 'split', 'rights'];
+
+const corporateActionValidators = [
+  body('symbol').trim().notEmpty().withMessage('Symbol is required'),
+  body('type').isIn(CORPORATE_ACTION_TYPES).withMessage(`Type must be one of: ${CORPORATE_ACTION_TYPES.join(', ')}`),
+  body('ex_date').matches(DAY_PATTERN).withMessage('Ex-date must be YYYY-MM-DD'),
+  body('book_closure_date').optional().matches(DAY_PATTERN).withMessage('Book closure date must be YYYY-MM-DD'),
+  body('payment_date')
+    .if(body('type').equals('dividend'))
+    .matches(DAY_PATTERN).withMessage('Payment date is required for dividends, as YYYY-MM-DD'),
+  body('amount')
+    .if(body('type').equals('dividend'))
+    .isFloat({ gt: 0 }).withMessage('Dividend per share is required and must be greater than zero'),
+  body('ratio_numerator')
+    .if(body('type').isIn(RATIO_ACTION_TYPES))
+    .isInt({ min: 1 }).withMessage('Ratio numerator must be a positive whole number'),
+  body('ratio_denominator')
+    .if(body('type').isIn(RATIO_ACTION_TYPES))
+    .isInt({ min: 1 }).withMessage('Ratio denominator must be a positive whole number'),
+  body('price')
+    .if(body('type').equals('rights'))
+    .isFloat({ gt: 0 }).withMessage('Rights price is required and must be greater than zero'),
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters'),
+];
+
+// Model fields from a validated request body
+const corporateActionFields = (body: Record<string, unknown>) => {
+  const type = String(body.type);
+  const day = (value: unknown) => (value ? new Date(`${value}T00:00:00Z`) : undefined);
+  return {
+    symbol: String(body.symbol).trim().toUpperCase(),
+    type,
+    exDate: day(body.ex_date),
+    bookClosureDate: day(body.book_closure_date),
+    paymentDate: day(body.payment_date),
+    amount: type === 'dividend' ? Number(body.amount) : undefined,
+    ratio: RATIO_ACTION_TYPES.includes(type)
+      ? { numerator: Number(body.ratio_numerator), denominator: Number(body.ratio_denominator) }
+      : undefined,
+    price: type === 'rights' ? Number(body.price) : undefined,
+    note: body.note as string | undefined,
+  };
+};
+
+// @route   GET /api/admin/corporate-actions
+// @desc    Stored corporate actions, latest ex-date first, optionally for one ?symbol=
+// @access  Admin
+router.get('/corporate-actions', [
+  query('symbol').optional().trim().notEmpty().withMessage('Symbol cannot be empty'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const filter = req.query.symbol ? { symbol: String(req.query.symbol).toUpperCase() } : {};
+    const actions = await CorporateAction.find(filter).sort({ exDate: -1 }).limit(500);
+
+    res.json({
+      success: true,
+      data: actions.map(serializeCorporateAction),
+      count: actions.length,
+    });
+  } catch (error) {
+    console.error('Get corporate actions error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/corporate-actions
+// @desc    Record an announced dividend, bonus issue, split or rights issue. Holders' ledgers are
+//          posted once its date arrives; prices before the ex-date are back-adjusted on read
+// @access  Admin
+router.post('/corporate-actions', corporateActionValidators, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const action = await CorporateAction.create(corporateActionFields(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: serializeCorporateAction(action),
+      message: 'Corporate action recorded',
+    });
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) {
+      return res.status(400).json({ success: false, error: 'This action is already recorded for that symbol and ex-date' });
+    }
+    console.error('Create corporate action error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/admin/corporate-actions/:id
+// @desc    Correct an action that has not been posted to ledgers yet
+// @access  Admin
+router.put('/corporate-actions/:id', corporateActionValidators, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const action = mongoose.isValidObjectId(req.params.id) ? await CorporateAction.findById(req.params.id) : null;
+    if (!action) {
+      return res.status(404).json({ success: false, error: 'Corporate action not found' });
+    }
+    if (action.appliedAt) {
+      return res.status(400).json({ success: false, error: 'This action has been posted to ledgers; holders correct it by reversing the entry' });
+    }
+
+    action.set(corporateActionFields(req.body));
+    await action.save();
+
+    res.json({
+      success: true,
+      data: serializeCorporateAction(action),
+    });
+  } catch (error) {
+    console.error('Update corporate action error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/admin/corporate-actions/:id
+// @desc    Delete an action that has not been posted to ledgers yet
+// @access  Admin
+router.delete('/corporate-actions/:id', async (req: AuthRequest, res) => {
+  try {
+    const action = mongoose.isValidObjectId(req.params.id) ? await CorporateAction.findById(req.params.id) : null;
+    if (!action) {
+      return res.status(404).json({ success: false, error: 'Corporate action not found' });
+    }
+    if (action.appliedAt) {
+      return res.status(400).json({ success: false, error: 'This action has been posted to ledgers and cannot be deleted' });
+    }
+
+    await action.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Corporate action deleted',
+    });
+  } catch (error) {
+    console.error('Delete corporate action error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/corporate-actions/apply
+// @desc    Post due actions to holders' ledgers now instead of waiting for the scheduled run
+// @access  Admin
+router.post('/corporate-actions/apply', async (req: AuthRequest, res) => {
+  try {
+    const result = await applyDueCorporateActions();
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Applied ${result.applied} corporate actions`,
+    });
+  } catch (error) {
+    console.error('Apply corporate actions error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/fundamentals/import
+// @desc    Import reported results (EPS, DPS, NAV per share, ROE, debt/equity, revenue growth) per
+//          symbol and period, as a text/csv body or JSON; periods already stored are overwritten
+// @access  Admin
+router.post('/fundamentals/import', express.text({ type: 'text/csv', limit: '5mb' }), [
+  query('symbol').optional().trim().notEmpty().withMessage('Symbol cannot be empty'),
+  query('source').optional().trim().isLength({ max: 200 }).withMessage('Source cannot exceed 200 characters'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    let rows: FundamentalsRow[];
+    let symbol = req.query.symbol as string | undefined;
+    if (req.is('text/csv')) {
+      rows = parseFundamentalsCsv(typeof req.body === 'string' ? req.body : '');
+    } else {
+      try {
+        const parsed = parseFundamentalsJson(req.body);
+        rows = parsed.rows;
+        symbol = symbol || parsed.symbol;
+      } catch (error) {
+        return res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    }
+
+    if (rows.length === 0) {
+      return res.status(400).json({ success: false, error: 'No rows to import' });
+    }
+
+    const result = await importFundamentals(rows, { defaultSymbol: symbol, source: req.query.source as string | undefined });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Imported ${result.inserted + result.updated} periods, rejected ${result.rejected.length} rows`,
+    });
+  } catch (error) {
+    console.error('Import fundamentals error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/symbols/import
+// @desc    Import listings into the symbol master (name, NSE sector, ISIN, segment, shares outstanding,
+//          board lot) as a text/csv body or JSON; symbols already listed are overwritten
+// @access  Admin
+router.post('/symbols/import', express.text({ type: 'text/csv', limit: '5mb' }), [
+  query('source').optional().trim().isLength({ max: 200 }).withMessage('Source cannot exceed 200 characters'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    let rows: SymbolRow[];
+    if (req.is('text/csv')) {
+      rows = parseSymbolsCsv(typeof req.body === 'string' ? req.body : '');
+    } else {
+      try {
+        rows = parseSymbolsJson(req.body);
+      } catch (error) {
+        return res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    }
+
+    if (rows.length === 0) {
+      return res.status(400).json({ success: false, error: 'No rows to import' });
+    }
+
+    const result = await importSymbols(rows, { source: req.query.source as string | undefined });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Imported ${result.inserted + result.updated} symbols, rejected ${result.rejected.length} rows`,
+    });
+  } catch (error) {
+    console.error('Import symbols error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   GET /api/admin/market-closures
+// @desc    Ad-hoc NSE closures and gazetted holidays, latest first (regular public holidays are
+//          built into the calendar)
+// @access  Admin
+router.get('/market-closures', async (req: AuthRequest, res) => {
+  try {
+    const closures = await MarketClosure.find().sort({ date: -1 }).limit(500);
+
+    res.json({
+      success: true,
+      data: closures.map(serializeMarketClosure),
+      count: closures.length,
+    });
+  } catch (error) {
+    console.error('Get market closures error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   POST /api/admin/market-closures
+// @desc    Close the NSE for a day outside the holiday calendar (a day of national mourning), or
+//          with `holiday` record a gazetted public holiday such as Eid al-Fitr, which is observed
+//          on the Monday when it falls on a Sunday and replaces the calendar's date for that year;
+//          ingestion, staleness and the market status follow immediately
+// @access  Admin
+router.post('/market-closures', [
+  body('date').isDate({ format: 'YYYY-MM-DD', strictMode: true }).withMessage('Date must be YYYY-MM-DD'),
+  body('reason').trim().notEmpty().withMessage('Reason is required')
+    .isLength({ max: 100 }).withMessage('Reason cannot be more than 100 characters'),
+  body('holiday').optional().isBoolean().withMessage('Holiday must be true or false').toBoolean(),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const holiday = getClosure(req.body.date);
+    if (holiday?.source === 'holiday') {
+      return res.status(400).json({ success: false, error: `${req.body.date} is already a public holiday (${holiday.name})` });
+    }
+
+    const closure = await MarketClosure.create({
+      date: req.body.date,
+      reason: req.body.reason,
+      holiday: req.body.holiday ?? false,
+    });
+    await loadMarketClosures();
+
+    res.status(201).json({
+      success: true,
+      data: serializeMarketClosure(closure),
+      message: 'Market closure recorded',
+    });
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) {
+      return res.status(400).json({ success: false, error: 'A closure is already recorded for that date' });
+    }
+    console.error('Create market closure error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/admin/market-closures/:id
+// @desc    Reopen a day closed by mistake or whose closure was withdrawn
+// @access  Admin
+router.delete('/market-closures/:id', async (req: AuthRequest, res) => {
+  try {
+    const closure = mongoose.isValidObjectId(req.params.id) ? await MarketClosure.findById(req.params.id) : null;
+    if (!closure) {
+      return res.status(404).json({ success: false, error: 'Market closure not found' });
+    }
+
+    await closure.deleteOne();
+    await loadMarketClosures();
+
+    res.json({
+      success: true,
+      message: 'Market closure deleted',
+    });
+  } catch (error) {
+    console.error('Delete market closure error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,32 +1,148 @@
 import express from 'express';
-import { auth } from '../middleware/auth.js';
+import { body, query, validationResult } from 'express-validator';
+import { OPTIMIZATION_OBJECTIVES, rebalancePlanToCsv } from '../../../shared/ai/index.js';
+import type { CovarianceOptions, OptimizationConstraints, RebalanceOptions } from '../../../shared/ai/index.js';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import User from '../models/User.js';
+import {
+  adviseInvestment,
+  analyzePortfolio,
+  assessPortfolioAlerts,
+  getMarketInsights,
+  getPortfolioCovariance,
+  loadAnalysisContext,
+  loadUserPortfolio,
+  MAX_LOOKBACK_DAYS,
+  MIN_LOOKBACK_DAYS,
+  planRebalance,
+  PortfolioAnalysisOptions,
+} from '../services/aiAnalysis.js';
+import { getPortfolioAlerts, raiseAIAlerts } from '../services/notifications.js';
+import { getModelPerformance, recordRecommendations } from '../services/recommendationOutcomes.js';
 
 const router = express.Router();
 
+const RISK_PROFILES = ['conservative', 'moderate', 'aggressive'] as const;
+const TIME_HORIZONS = ['short', 'medium', 'long'] as const;
+const RECOMMENDATION_TYPES = ['BUY', 'SELL', 'HOLD'] as const;
+const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+
+const lookbackValidator = body('lookback_days').optional().isInt({ min: MIN_LOOKBACK_DAYS, max: MAX_LOOKBACK_DAYS })
+  .withMessage(`Lookback must be between ${MIN_LOOKBACK_DAYS} and ${MAX_LOOKBACK_DAYS} trading days`);
+
+// "ledoit-wolf" (default) estimates the shrinkage intensity; a number from 0 to 1 fixes it
+const shrinkageValidator = body('shrinkage').optional().custom(value =>
+  value === 'ledoit-wolf' || (Number.isFinite(Number(value)) && Number(value) >= 0 && Number(value) <= 1)
+).withMessage('Shrinkage must be "ledoit-wolf" or a number from 0 to 1');
+
+const covarianceOptions = (body: { lookback_days?: unknown; shrinkage?: unknown }): CovarianceOptions => ({
+  lookbackDays: body.lookback_days !== undefined ? Number(body.lookback_days) : undefined,
+  shrinkage: body.shrinkage === undefined || body.shrinkage === 'ledoit-wolf' ? undefined : Number(body.shrinkage),
+});
+
+const isWeight = (value: unknown): boolean =>
+  Number.isFinite(Number(value)) && Number(value) >= 0 && Number(value) <= 1;
+
+// Optimizer settings; weights are fractions of total portfolio value
+const optimizationValidators = [
+  body('objective').optional().isIn(OPTIMIZATION_OBJECTIVES)
+    .withMessage(`Objective must be one of: ${OPTIMIZATION_OBJECTIVES.join(', ')}`),
+  body('max_stock_weight').optional().isFloat({ gt: 0, max: 1 }).withMessage('Max stock weight must be above 0 and at most 1'),
+  body('max_sector_weight').optional().isFloat({ gt: 0, max: 1 }).withMessage('Max sector weight must be above 0 and at most 1'),
+  body('sector_caps').optional().custom(value =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isWeight)
+  ).withMessage('Sector caps must map sector names to weights from 0 to 1'),
+  body('long_only').optional().isBoolean().withMessage('Long only must be true or false'),
+  body('cash_floor').optional().isFloat({ min: 0, max: 1 }).withMessage('Cash floor must be from 0 to 1'),
+];
+
+const optimizationConstraints = (body: Record<string, unknown>): OptimizationConstraints => ({
+  maxStockWeight: body.max_stock_weight !== undefined ? Number(body.max_stock_weight) : undefined,
+  maxSectorWeight: body.max_sector_weight !== undefined ? Number(body.max_sector_weight) : undefined,
+  sectorCaps: body.sector_caps
+    ? Object.fromEntries(Object.entries(body.sector_caps as Record<string, unknown>).map(([sector, cap]) => [sector, Number(cap)]))
+    : undefined,
+  longOnly: body.long_only !== undefined ? body.long_only === true || body.long_only === 'true' : undefined,
+  cashFloor: body.cash_floor !== undefined ? Number(body.cash_floor) : undefined,
+});
+
+// Trade list settings: drift band, the broker's commission and non-standard board lots
+const tradingValidators = [
+  body('drift_threshold').optional().isFloat({ min: 0, max: 1 }).withMessage('Drift threshold must be from 0 to 1'),
+  body('brokerage_rate').optional().isFloat({ min: 0, max: 0.1 }).withMessage('Brokerage rate must be from 0 to 0.1'),
+  body('board_lots').optional().custom(value =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(lot => Number.isInteger(Number(lot)) && Number(lot) >= 1)
+  ).withMessage('Board lots must map symbols to whole numbers of shares'),
+];
+
+const tradingOptions = (body: Record<string, unknown>): Omit<RebalanceOptions, 'driftThreshold'> => ({
+  costs: body.brokerage_rate !== undefined ? { brokerage: Number(body.brokerage_rate) } : undefined,
+  boardLots: body.board_lots
+    ? Object.fromEntries(Object.entries(body.board_lots as Record<string, unknown>).map(([symbol, lot]) => [symbol.toUpperCase(), Number(lot)]))
+    : undefined,
+});
+
+// Everything the optimiser and trade list accept from a request body
+const analysisOptions = (body: Record<string, unknown>): PortfolioAnalysisOptions => ({
+  ...covarianceOptions(body),
+  objective: body.objective as PortfolioAnalysisOptions['objective'],
+  constraints: optimizationConstraints(body),
+  driftThreshold: body.drift_threshold !== undefined ? Number(body.drift_threshold) : undefined,
+  trading: tradingOptions(body),
+});
+
+// Mirrors the engine's own default when neither an amount nor a portfolio is given
+const DEFAULT_INVESTMENT_AMOUNT = 100000;
+
 // @route   POST /api/ai/investment-advice
-// @desc    Get AI investment advice
+// @desc    NSE recommendations and local opportunities for the user's risk profile
 // @access  Private
-router.post('/investment-advice', auth, async (req: any, res) => {
+router.post('/investment-advice', auth, [
+  body('portfolio_id').optional().isMongoId().withMessage('Invalid portfolio id'),
+  body('investment_amount').optional().isFloat({ gt: 0 }).withMessage('Investment amount must be greater than zero'),
+  body('risk_tolerance').optional().isIn(RISK_PROFILES).withMessage(`Risk tolerance must be one of: ${RISK_PROFILES.join(', ')}`),
+  body('time_horizon').optional().isIn(TIME_HORIZONS).withMessage(`Time horizon must be one of: ${TIME_HORIZONS.join(', ')}`),
+], async (req: AuthRequest, res: express.Response) => {
   try {
-    const { investmentAmount, riskTolerance, goals } = req.body;
-    
-    // This is a placeholder for AI investment advice logic
-    // You would integrate with your AI/ML model here
-    const advice = {
-      recommendation: 'Diversified portfolio with 60% stocks, 30% bonds, 10% commodities',
-      reasoning: 'Based on your risk tolerance and investment goals, this allocation provides good balance between growth and stability.',
-      suggestedStocks: [
-        { symbol: 'EQTY', name: 'Equity Group Holdings', allocation: 15 },
-        { symbol: 'KCB', name: 'KCB Group', allocation: 10 },
-        { symbol: 'SAFCOM', name: 'Safaricom', allocation: 20 },
-      ],
-      expectedReturn: 12.5,
-      riskLevel: riskTolerance,
-    };
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { portfolio_id, investment_amount, risk_tolerance, time_horizon = 'medium' } = req.body;
+    const context = await loadAnalysisContext();
+
+    let portfolioValue: number | undefined;
+    if (portfolio_id) {
+      const portfolio = await loadUserPortfolio(req.user.userId, portfolio_id, context);
+      if (!portfolio) {
+        return res.status(404).json({
+          success: false,
+          error: 'Portfolio not found',
+        });
+      }
+      portfolioValue = portfolio.total_value;
+    }
+
+    const user = risk_tolerance ? null : await User.findById(req.user.userId).select('riskTolerance');
+    const riskProfile = risk_tolerance || user?.riskTolerance || 'moderate';
+    const amount = Number(investment_amount) || portfolioValue || DEFAULT_INVESTMENT_AMOUNT;
+    const advice = await adviseInvestment(context, riskProfile, amount, time_horizon);
+
+    // Kept so the model's performance can be measured from what it actually told users
+    await recordRecommendations(advice.recommendations, {
+      userId: req.user.userId,
+      portfolioId: portfolio_id ?? null,
+      source: 'investment-advice',
+      marketData: context.marketData,
+    });
 
     res.json({
       success: true,
       data: advice,
+      asOf: context.asOf,
+      stale: context.stale,
     });
   } catch (error) {
     console.error('Error generating investment advice:', error);
@@ -38,32 +154,47 @@ router.post('/investment-advice', auth, async (req: any, res) => {
 });
 
 // @route   POST /api/ai/portfolio-analysis
-// @desc    Analyze portfolio performance and suggest improvements
+// @desc    Risk assessment, optimised allocation with its efficient frontier, and rebalancing suggestions for a stored portfolio
 // @access  Private
-router.post('/portfolio-analysis', auth, async (req: any, res) => {
+router.post('/portfolio-analysis', auth, [
+  body('portfolio_id').isMongoId().withMessage('A valid portfolio id is required'),
+  lookbackValidator,
+  shrinkageValidator,
+  ...optimizationValidators,
+  ...tradingValidators,
+], async (req: AuthRequest, res: express.Response) => {
   try {
-    const { holdings } = req.body;
-    
-    // This is a placeholder for portfolio analysis logic
-    const analysis = {
-      overallScore: 7.5,
-      diversificationScore: 8.0,
-      riskScore: 6.5,
-      performanceScore: 7.0,
-      suggestions: [
-        'Consider adding more international exposure',
-        'Your portfolio is overweight in technology sector',
-        'Add some defensive stocks for stability',
-      ],
-      rebalanceRecommendations: [
-        { symbol: 'EQTY', currentAllocation: 25, suggestedAllocation: 20 },
-        { symbol: 'KCB', currentAllocation: 15, suggestedAllocation: 18 },
-      ],
-    };
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const context = await loadAnalysisContext();
+    const portfolio = await loadUserPortfolio(req.user.userId, req.body.portfolio_id, context);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const analysis = await analyzePortfolio(portfolio, context, analysisOptions(req.body));
+    await recordRecommendations(analysis.optimization.rebalanceRecommendations, {
+      userId: req.user.userId,
+      portfolioId: portfolio.id,
+      source: 'rebalance',
+      marketData: context.marketData,
+    });
+    await raiseAIAlerts(req.user.userId, portfolio.id, analysis.alerts);
 
     res.json({
       success: true,
-      data: analysis,
+      data: {
+        portfolio_id: portfolio.id,
+        ...analysis,
+      },
+      asOf: context.asOf,
+      stale: context.stale,
     });
   } catch (error) {
     console.error('Error analyzing portfolio:', error);
@@ -74,32 +205,152 @@ router.post('/portfolio-analysis', auth, async (req: any, res) => {
   }
 });
 
+// @route   POST /api/ai/risk-alerts
+// @desc    Assess a stored portfolio, store its AI alerts as notifications, and return its stored alerts
+//          (unread ones, and any raised within the last day) with their read state
+// @access  Private
+router.post('/risk-alerts', auth, [
+  body('portfolio_id').isMongoId().withMessage('A valid portfolio id is required'),
+  lookbackValidator,
+  shrinkageValidator,
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const context = await loadAnalysisContext();
+    const portfolio = await loadUserPortfolio(req.user.userId, req.body.portfolio_id, context);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const alerts = await assessPortfolioAlerts(portfolio, context, covarianceOptions(req.body));
+    await raiseAIAlerts(req.user.userId, portfolio.id, alerts);
+
+    res.json({
+      success: true,
+      data: await getPortfolioAlerts(req.user.userId, portfolio.id),
+      asOf: context.asOf,
+      stale: context.stale,
+    });
+  } catch (error) {
+    console.error('Error assessing risk alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to assess risk alerts',
+    });
+  }
+});
+
+// @route   POST /api/ai/rebalance-trades
+// @desc    Board-lot trade list with fees and levies towards the optimised allocation, as JSON or a broker CSV
+// @access  Private
+router.post('/rebalance-trades', auth, [
+  body('portfolio_id').isMongoId().withMessage('A valid portfolio id is required'),
+  body('format').optional().isIn(['json', 'csv']).withMessage('Format must be json or csv'),
+  lookbackValidator,
+  shrinkageValidator,
+  ...optimizationValidators,
+  ...tradingValidators,
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const context = await loadAnalysisContext();
+    const portfolio = await loadUserPortfolio(req.user.userId, req.body.portfolio_id, context);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const plan = await planRebalance(portfolio, context, analysisOptions(req.body));
+
+    if (req.body.format === 'csv') {
+      res.attachment(`rebalance-${portfolio.id}-${context.asOf.slice(0, 10)}.csv`);
+      return res.type('text/csv').send(rebalancePlanToCsv(plan));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        portfolio_id: portfolio.id,
+        ...plan,
+      },
+      asOf: context.asOf,
+      stale: context.stale,
+    });
+  } catch (error) {
+    console.error('Error building rebalance trades:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build rebalance trades',
+    });
+  }
+});
+
+// @route   POST /api/ai/correlation
+// @desc    Covariance and correlation of a stored portfolio's holdings from daily returns
+// @access  Private
+router.post('/correlation', auth, [
+  body('portfolio_id').isMongoId().withMessage('A valid portfolio id is required'),
+  lookbackValidator,
+  shrinkageValidator,
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const context = await loadAnalysisContext();
+    const portfolio = await loadUserPortfolio(req.user.userId, req.body.portfolio_id, context);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        portfolio_id: portfolio.id,
+        ...await getPortfolioCovariance(portfolio, covarianceOptions(req.body)),
+      },
+      asOf: context.asOf,
+      stale: context.stale,
+    });
+  } catch (error) {
+    console.error('Error building correlation matrix:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build correlation matrix',
+    });
+  }
+});
+
 // @route   GET /api/ai/market-insights
-// @desc    Get AI-powered market insights
+// @desc    Market volatility, trend insights and local opportunities from the latest snapshot
 // @access  Private
-router.get('/market-insights', auth, async (req: any, res) => {
+router.get('/market-insights', auth, async (req: AuthRequest, res) => {
   try {
-    // This is a placeholder for market insights logic
-    const insights = {
-      marketTrend: 'bullish',
-      keyInsights: [
-        'NSE 20 index showing strong upward momentum',
-        'Banking sector outperforming broader market',
-        'Technology stocks experiencing volatility',
-      ],
-      opportunityStocks: [
-        { symbol: 'EQTY', reason: 'Strong fundamentals and growth prospects' },
-        { symbol: 'SAFCOM', reason: 'Expanding into new markets' },
-      ],
-      riskFactors: [
-        'Political uncertainty affecting market sentiment',
-        'Global economic slowdown concerns',
-      ],
-    };
+    const context = await loadAnalysisContext();
 
     res.json({
       success: true,
-      data: insights,
+      data: getMarketInsights(context),
+      asOf: context.asOf,
+      stale: context.stale,
     });
   } catch (error) {
     console.error('Error fetching market insights:', error);
@@ -110,4 +361,37 @@ router.get('/market-insights', auth, async (req: any, res) => {
   }
 });
 
+// @route   GET /api/ai/model-performance
+// @desc    Hit rate, realised return and risk-level accuracy of issued recommendations, scored against later prices
+// @access  Private
+router.get('/model-performance', auth, [
+  query('type').optional().isIn(RECOMMENDATION_TYPES).withMessage(`Type must be one of: ${RECOMMENDATION_TYPES.join(', ')}`),
+  query('risk_level').optional().isIn(RISK_LEVELS).withMessage(`Risk level must be one of: ${RISK_LEVELS.join(', ')}`),
+  query('sector').optional().isString().trim().notEmpty().withMessage('Sector must not be empty'),
+  query('engine_version').optional().isString().trim().notEmpty().withMessage('Engine version must not be empty'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    res.json({
+      success: true,
+      data: await getModelPerformance({
+        type: req.query.type as string | undefined,
+        riskLevel: req.query.risk_level as string | undefined,
+        sector: req.query.sector as string | undefined,
+        engineVersion: req.query.engine_version as string | undefined,
+      }),
+    });
+  } catch (error) {
+    console.error('Error computing model performance:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute model performance',
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,165 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import { ALERT_DIRECTIONS, ALERT_RULE_TYPES, THRESHOLD_RULE_TYPES } from '../../../shared/ai/index.js';
+import type { AlertRuleType } from '../../../shared/ai/index.js';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import AlertRule from '../models/AlertRule.js';
+import { serializeAlertRule } from '../services/alerts.js';
+
+const router = express.Router();
+
+// Load a rule owned by the authenticated user, or null if it does not exist
+const findUserRule = async (req: AuthRequest, ruleId: string) => {
+  if (!mongoose.isValidObjectId(ruleId)) return null;
+  return AlertRule.findOne({ _id: ruleId, user: req.user.userId });
+};
+
+const needsThreshold = (type: AlertRuleType): boolean => THRESHOLD_RULE_TYPES.includes(type);
+
+// Fields that can change after a rule is created
+const ruleValidators = [
+  body('threshold').optional({ values: 'null' }).isFloat({ gt: 0 }).withMessage('Threshold must be greater than zero'),
+  body('direction').optional().isIn(ALERT_DIRECTIONS).withMessage(`Direction must be one of: ${ALERT_DIRECTIONS.join(', ')}`),
+  body('active').optional().isBoolean().withMessage('Active must be true or false'),
+  body('note').optional({ values: 'null' }).trim().isLength({ max: 200 }).withMessage('Note cannot exceed 200 characters'),
+];
+
+// @route   GET /api/alerts
+// @desc    The user's alert rules, by symbol, optionally for one ?symbol=
+// @access  Private
+router.get('/', auth, [
+  query('symbol').optional().trim().notEmpty().withMessage('Symbol cannot be empty'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const filter: Record<string, unknown> = { user: req.user.userId };
+    if (req.query.symbol) filter.symbol = String(req.query.symbol).toUpperCase();
+    const rules = await AlertRule.find(filter).sort({ symbol: 1, createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: rules.map(serializeAlertRule),
+    });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert rules',
+    });
+  }
+});
+
+// @route   POST /api/alerts
+// @desc    Create an alert rule on a symbol: price-cross (threshold in KES), percent-move (threshold
+//          in % on the previous close), volume-spike (threshold as a multiple of average volume),
+//          52-week-high or 52-week-low
+// @access  Private
+router.post('/', auth, [
+  body('symbol').trim().notEmpty().withMessage('Symbol is required'),
+  body('type').isIn(ALERT_RULE_TYPES).withMessage(`Alert type must be one of: ${ALERT_RULE_TYPES.join(', ')}`),
+  body('threshold').if(body('type').custom(needsThreshold)).notEmpty().withMessage('Threshold is required for this alert type'),
+  ...ruleValidators,
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { symbol, type, threshold, direction, active, note } = req.body;
+    const rule = await AlertRule.create({
+      user: req.user.userId,
+      symbol: String(symbol).toUpperCase(),
+      type,
+      threshold: needsThreshold(type) ? Number(threshold) : undefined,
+      direction: direction ?? 'either',
+      active: active ?? true,
+      note: note || undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: serializeAlertRule(rule),
+      message: 'Alert created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create alert',
+    });
+  }
+});
+
+// @route   PUT /api/alerts/:id
+// @desc    Change a rule's threshold, direction or note, or pause and resume it
+// @access  Private
+router.put('/:id', auth, ruleValidators, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const rule = await findUserRule(req, req.params.id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert not found',
+      });
+    }
+
+    const { threshold, direction, active, note } = req.body;
+    if (threshold !== undefined && threshold !== null && needsThreshold(rule.type)) rule.threshold = Number(threshold);
+    if (direction !== undefined) rule.direction = direction;
+    if (active !== undefined) rule.active = active === true || active === 'true';
+    if (note !== undefined) rule.note = note || undefined;
+    await rule.save();
+
+    res.json({
+      success: true,
+      data: serializeAlertRule(rule),
+    });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update alert',
+    });
+  }
+});
+
+// @route   DELETE /api/alerts/:id
+// @desc    Delete an alert rule; notifications it raised are kept
+// @access  Private
+router.delete('/:id', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const rule = await findUserRule(req, req.params.id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert not found',
+      });
+    }
+
+    await rule.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Alert deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete alert',
+    });
+  }
+});
+
+export default router;
@@ -152,6 +152,8 @@ router.post('/login', [
           lastName: user.lastName,
           email: user.email,
           isEmailVerified: user.isEmailVerified,
+          riskTolerance: user.riskTolerance,
+          riskScore: user.riskScore ?? null,
         },
       },
     });
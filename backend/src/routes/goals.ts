@@ -0,0 +1,240 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import { GOAL_PRIORITIES, GoalPlanningError, MAX_GOAL_MONTHS } from '../../../shared/ai/index.js';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import Goal from '../models/Goal.js';
+import Portfolio from '../models/Portfolio.js';
+import { projectPortfolioGoals, serializeGoal } from '../services/goals.js';
+
+const router = express.Router();
+
+// Load a goal owned by the authenticated user, or null if it does not exist
+const findUserGoal = async (req: AuthRequest, goalId: string) => {
+  if (!mongoose.isValidObjectId(goalId)) return null;
+  return Goal.findOne({ _id: goalId, user: req.user.userId });
+};
+
+const isUserPortfolio = async (req: AuthRequest, portfolioId: unknown): Promise<boolean> =>
+  typeof portfolioId === 'string' && mongoose.isValidObjectId(portfolioId) &&
+  await Portfolio.exists({ _id: portfolioId, user: req.user.userId }) !== null;
+
+// Target dates must fall within the projection horizon
+const isPlannableDate = (value: string): boolean => {
+  const latest = new Date();
+  latest.setUTCMonth(latest.getUTCMonth() + MAX_GOAL_MONTHS);
+  return new Date(value) <= latest;
+};
+
+// Fields shared by create (all required) and update (all optional)
+const goalValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').trim().notEmpty().withMessage('Goal name is required')
+      .isLength({ max: 100 }).withMessage('Goal name cannot exceed 100 characters'),
+    field('target_amount').isFloat({ gt: 0 }).withMessage('Target amount must be greater than zero'),
+    field('target_date').isISO8601().withMessage('Target date must be a valid ISO 8601 date')
+      .custom(isPlannableDate).withMessage(`Target date must be within ${MAX_GOAL_MONTHS / 12} years`),
+    body('monthly_contribution').optional().isFloat({ min: 0 }).withMessage('Monthly contribution must be zero or more'),
+    body('priority').optional().isIn(GOAL_PRIORITIES).withMessage(`Priority must be one of: ${GOAL_PRIORITIES.join(', ')}`),
+  ];
+};
+
+// @route   GET /api/goals
+// @desc    The user's goals, soonest first, optionally for one portfolio
+// @access  Private
+router.get('/', auth, [
+  query('portfolio_id').optional().isMongoId().withMessage('Portfolio ID must be valid'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const filter: Record<string, unknown> = { user: req.user.userId };
+    if (req.query.portfolio_id) filter.portfolio = req.query.portfolio_id;
+    const goals = await Goal.find(filter).sort({ targetDate: 1 });
+
+    res.json({
+      success: true,
+      data: goals.map(serializeGoal),
+    });
+  } catch (error) {
+    console.error('Error fetching goals:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch goals',
+    });
+  }
+});
+
+// @route   GET /api/goals/projection
+// @desc    Monte Carlo projection of a portfolio's goals: success probability, fan chart and the
+//          monthly contribution that reaches each target with the requested confidence
+// @access  Private
+router.get('/projection', auth, [
+  query('portfolio_id').isMongoId().withMessage('Portfolio ID is required'),
+  query('expected_return').optional().isFloat({ min: -0.5, max: 1 }).withMessage('Expected return must be from -0.5 to 1'),
+  query('volatility').optional().isFloat({ min: 0, max: 2 }).withMessage('Volatility must be from 0 to 2'),
+  query('confidence').optional().isFloat({ min: 0.5, max: 0.99 }).withMessage('Confidence must be from 0.5 to 0.99'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const numberParam = (name: string) => (req.query[name] !== undefined ? Number(req.query[name]) : undefined);
+    const projection = await projectPortfolioGoals(req.user.userId, String(req.query.portfolio_id), {
+      expectedReturn: numberParam('expected_return'),
+      volatility: numberParam('volatility'),
+      confidence: numberParam('confidence'),
+    });
+    if (!projection) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: projection,
+    });
+  } catch (error) {
+    if (error instanceof GoalPlanningError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('Goal projection error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to project goals',
+    });
+  }
+});
+
+// @route   POST /api/goals
+// @desc    Create a goal funded from one of the user's portfolios
+// @access  Private
+router.post('/', auth, [
+  body('portfolio_id').isMongoId().withMessage('Portfolio ID is required'),
+  ...goalValidators(false),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    if (!await isUserPortfolio(req, req.body.portfolio_id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const goal = await Goal.create({
+      user: req.user.userId,
+      portfolio: req.body.portfolio_id,
+      name: req.body.name,
+      targetAmount: Number(req.body.target_amount),
+      targetDate: new Date(req.body.target_date),
+      monthlyContribution: Number(req.body.monthly_contribution ?? 0),
+      priority: req.body.priority ?? 'medium',
+    });
+
+    res.status(201).json({
+      success: true,
+      data: serializeGoal(goal),
+      message: 'Goal created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating goal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create goal',
+    });
+  }
+});
+
+// @route   PUT /api/goals/:id
+// @desc    Update a goal; moving it to another portfolio is allowed
+// @access  Private
+router.put('/:id', auth, [
+  body('portfolio_id').optional().isMongoId().withMessage('Portfolio ID must be valid'),
+  ...goalValidators(true),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const goal = await findUserGoal(req, req.params.id);
+    if (!goal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goal not found',
+      });
+    }
+
+    const { portfolio_id, name, target_amount, target_date, monthly_contribution, priority } = req.body;
+    if (portfolio_id !== undefined) {
+      if (!await isUserPortfolio(req, portfolio_id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Portfolio not found',
+        });
+      }
+      goal.portfolio = new mongoose.Types.ObjectId(String(portfolio_id));
+    }
+    if (name !== undefined) goal.name = name;
+    if (target_amount !== undefined) goal.targetAmount = Number(target_amount);
+    if (target_date !== undefined) goal.targetDate = new Date(target_date);
+    if (monthly_contribution !== undefined) goal.monthlyContribution = Number(monthly_contribution);
+    if (priority !== undefined) goal.priority = priority;
+    await goal.save();
+
+    res.json({
+      success: true,
+      data: serializeGoal(goal),
+    });
+  } catch (error) {
+    console.error('Error updating goal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update goal',
+    });
+  }
+});
+
+// @route   DELETE /api/goals/:id
+// @desc    Delete a goal
+// @access  Private
+router.delete('/:id', auth, async (req: AuthRequest, res) => {
+  try {
+    const goal = await findUserGoal(req, req.params.id);
+    if (!goal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goal not found',
+      });
+    }
+
+    await goal.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Goal deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting goal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete goal',
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,40 @@
 import express from 'express';
-import nseWebScraper from '../services/nseWebScraper.js';
+import {
+  dividendYield,
+  fundamentalRatios,
+  isoDate,
+  latestFundamentals,
+  LISTING_SEGMENTS,
+  ListingSegment,
+  NSE_SECTORS,
+  parseSector,
+} from '../../../shared/ai/index.js';
+import { NSE_INDICES } from '../models/IndexTick.js';
+import { getMarketDataProvider, searchStocks } from '../services/marketData/index.js';
+import {
+  getAdjustedHistory,
+  getSymbolCorporateActions,
+  getUpcomingCorporateActions,
+  serializeCorporateAction,
+  toCorporateAction,
+} from '../services/corporateActions.js';
+import { getSymbolFundamentals, serializeFundamental, toFundamentals } from '../services/fundamentals.js';
+import { getIndexHistory, parseIndexCode } from '../services/indexHistory.js';
+import { HISTORY_PERIODS, isHistoryPeriod } from '../services/priceHistory.js';
+import { getMarketStatus } from '../services/marketCalendar.js';
+import { getLatestSnapshot, StoredSnapshot } from '../services/marketSnapshot.js';
+import { openMarketStream } from '../services/marketStream.js';
+import { getSymbolListings, serializeSymbolListing } from '../services/symbolMaster.js';
 
 const router = express.Router();
 
+// Freshness metadata attached to every response served from the snapshot store
+const snapshotMeta = (snapshot: StoredSnapshot) => ({
+  asOf: snapshot.asOf,
+  stale: snapshot.stale,
+  source: 'NSE snapshot store',
+});
+
 // Mock stock data structure
 interface StockData {
   symbol: string;
@@ -15,20 +47,29 @@ interface StockData {
   sector?: string;
 }
 
+// @route   GET /api/market/status
+// @desc    Whether the NSE is open, pre-market, after-hours or closed (Africa/Nairobi), with today's
+//          session, the next open, the last close and public holidays or closures in the next 30 days
+// @access  Public
+router.get('/status', (req, res) => {
+  res.json({
+    success: true,
+    data: getMarketStatus(),
+  });
+});
+
 // @route   GET /api/market/nse/stocks
 // @desc    Get all NSE stocks
 // @access  Public
 router.get('/nse/stocks', async (req, res) => {
   try {
-    console.log('🔄 Fetching live NSE stock data...');
-    const nseData = await nseWebScraper.scrapeNSEData();
+    const snapshot = await getLatestSnapshot();
     
     res.json({
       success: true,
-      data: nseData.stocks,
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper',
-      count: nseData.stocks.length
+      data: snapshot.data.stocks,
+      ...snapshotMeta(snapshot),
+      count: snapshot.data.stocks.length
     });
   } catch (error) {
     console.error('Error fetching NSE stocks:', error);
@@ -40,15 +81,32 @@ router.get('/nse/stocks', async (req, res) => {
   }
 });
 
+// @route   GET /api/market/stream
+// @desc    Server-sent events: the latest quotes of ?symbols=SCOM,EQTY (all when omitted) as a `snapshot`
+//          event, then a `diff` event with the quotes that moved each time a snapshot is stored
+// @access  Public
+router.get('/stream', async (req, res) => {
+  const symbols = String(req.query.symbols ?? '')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean);
+
+  // A failed lookup still opens the stream; the client gets quotes from the next snapshot
+  const current = await getLatestSnapshot().catch(error => {
+    console.error('Error loading snapshot for market stream:', error);
+    return null;
+  });
+  openMarketStream(res, symbols, current);
+});
+
 // @route   GET /api/market/stock/:symbol
-// @desc    Get specific stock data
+// @desc    Get specific stock data, with P/E, P/B and other ratios from its latest reported results
 // @access  Public
 router.get('/stock/:symbol', async (req, res) => {
   try {
     const { symbol } = req.params;
-    console.log(`🔍 Fetching data for stock: ${symbol}`);
-    
-    const stock = await nseWebScraper.getStockDetails(symbol.toUpperCase());
+    const snapshot = await getLatestSnapshot();
+    const stock = snapshot.data.stocks.find(s => s.symbol === symbol.toUpperCase());
     
     if (!stock) {
       return res.status(404).json({
@@ -57,11 +115,16 @@ router.get('/stock/:symbol', async (req, res) => {
       });
     }
 
+    // Valuation ratios from the latest reported results at the current price
+    const reported = latestFundamentals((await getSymbolFundamentals(stock.symbol)).map(toFundamentals));
+
     res.json({
       success: true,
-      data: stock,
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper'
+      data: {
+        ...stock,
+        fundamentals: reported ? fundamentalRatios(reported, stock.price) : null,
+      },
+      ...snapshotMeta(snapshot)
     });
   } catch (error) {
     console.error('Error fetching stock:', error);
@@ -74,18 +137,33 @@ router.get('/stock/:symbol', async (req, res) => {
 });
 
 // @route   GET /api/market/stock/:symbol/history
-// @desc    Get historical data for a stock
+// @desc    Get historical data for a stock, back-adjusted for corporate actions unless ?adjusted=false
 // @access  Public
 router.get('/stock/:symbol/history', async (req, res) => {
   try {
     const { symbol } = req.params;
     const { period = '1M' } = req.query;
-    
-    // Return empty since external APIs are removed
+    const adjusted = req.query.adjusted !== 'false';
+
+    if (!isHistoryPeriod(period)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid period. Use one of: ${HISTORY_PERIODS.join(', ')}`,
+      });
+    }
+
+    const provider = getMarketDataProvider();
+    const bars = adjusted ? await getAdjustedHistory(symbol, period, provider) : await provider.getHistory(symbol, period);
+
     res.json({
       success: true,
-      data: [],
-      message: `No historical data available for ${symbol}. No data source configured.`
+      data: bars,
+      symbol: symbol.toUpperCase(),
+      period,
+      adjusted,
+      count: bars.length,
+      source: provider.name,
+      ...(bars.length === 0 && { message: `No historical data stored for ${symbol.toUpperCase()} yet.` }),
     });
   } catch (error) {
     console.error('Error fetching historical data:', error);
@@ -96,22 +174,119 @@ router.get('/stock/:symbol/history', async (req, res) => {
   }
 });
 
+// @route   GET /api/market/stock/:symbol/corporate-actions
+// @desc    A stock's dividends, bonus issues, splits and rights issues, oldest first
+// @access  Public
+router.get('/stock/:symbol/corporate-actions', async (req, res) => {
+  try {
+    const actions = await getSymbolCorporateActions(req.params.symbol);
+
+    res.json({
+      success: true,
+      data: actions.map(serializeCorporateAction),
+      symbol: req.params.symbol.toUpperCase(),
+      count: actions.length,
+    });
+  } catch (error) {
+    console.error('Error fetching corporate actions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch corporate actions',
+    });
+  }
+});
+
+// @route   GET /api/market/stock/:symbol/dividends
+// @desc    A stock's dividend history, newest first, with trailing and forward yield on the latest price
+// @access  Public
+router.get('/stock/:symbol/dividends', async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+    const [actions, snapshot] = await Promise.all([getSymbolCorporateActions(symbol), getLatestSnapshot()]);
+    const dividends = actions.filter(action => action.type === 'dividend');
+    const price = snapshot.data.stocks.find(stock => stock.symbol === symbol)?.price;
+    const asOf = isoDate(new Date());
+
+    res.json({
+      success: true,
+      data: {
+        symbol,
+        price: price ?? null,
+        yield: dividendYield(symbol, dividends.map(toCorporateAction), price, asOf),
+        history: dividends.reverse().map(serializeCorporateAction),
+      },
+      ...snapshotMeta(snapshot),
+    });
+  } catch (error) {
+    console.error('Error fetching dividends:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch dividends',
+    });
+  }
+});
+
+// @route   GET /api/market/stock/:symbol/fundamentals
+// @desc    A stock's stored reported results, latest period first
+// @access  Public
+router.get('/stock/:symbol/fundamentals', async (req, res) => {
+  try {
+    const periods = await getSymbolFundamentals(req.params.symbol);
+
+    res.json({
+      success: true,
+      data: periods.map(serializeFundamental),
+      symbol: req.params.symbol.toUpperCase(),
+      count: periods.length,
+    });
+  } catch (error) {
+    console.error('Error fetching fundamentals:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch fundamentals',
+    });
+  }
+});
+
+// @route   GET /api/market/corporate-actions/upcoming
+// @desc    Corporate actions with an ex-date or payment date still ahead, soonest first,
+//          optionally only for ?symbols=SCOM,EQTY
+// @access  Public
+router.get('/corporate-actions/upcoming', async (req, res) => {
+  try {
+    const symbols = typeof req.query.symbols === 'string'
+      ? req.query.symbols.split(',').map(symbol => symbol.trim()).filter(Boolean)
+      : undefined;
+    const actions = await getUpcomingCorporateActions(symbols);
+
+    res.json({
+      success: true,
+      data: actions.map(serializeCorporateAction),
+      count: actions.length,
+    });
+  } catch (error) {
+    console.error('Error fetching upcoming corporate actions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch upcoming corporate actions',
+    });
+  }
+});
+
 // @route   GET /api/market/summary
 // @desc    Get market summary
 // @access  Public
 router.get('/summary', async (req, res) => {
   try {
-    console.log('📊 Fetching NSE market summary...');
-    const nseData = await nseWebScraper.scrapeNSEData();
+    const snapshot = await getLatestSnapshot();
     
     res.json({
       success: true,
       data: {
-        ...nseData.marketSummary,
-        tradingSummary: nseData.tradingSummary
+        ...snapshot.data.marketSummary,
+        tradingSummary: snapshot.data.tradingSummary
       },
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper'
+      ...snapshotMeta(snapshot)
     });
   } catch (error) {
     console.error('Error fetching market summary:', error);
@@ -123,20 +298,82 @@ router.get('/summary', async (req, res) => {
   }
 });
 
+// @route   GET /api/market/indices
+// @desc    Get the latest NASI, NSE 20 and NSE 25 levels
+// @access  Public
+router.get('/indices', async (req, res) => {
+  try {
+    const snapshot = await getLatestSnapshot();
+
+    res.json({
+      success: true,
+      data: snapshot.data.indices,
+      ...snapshotMeta(snapshot),
+      count: snapshot.data.indices.length
+    });
+  } catch (error) {
+    console.error('Error fetching market indices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch market indices',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// @route   GET /api/market/indices/:index/history
+// @desc    Get stored history of an NSE index level
+// @access  Public
+router.get('/indices/:index/history', async (req, res) => {
+  try {
+    const index = parseIndexCode(req.params.index);
+    const { period = '1M' } = req.query;
+
+    if (!index) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown index ${req.params.index}. Use one of: ${NSE_INDICES.join(', ')}`,
+      });
+    }
+
+    if (!isHistoryPeriod(period)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid period. Use one of: ${HISTORY_PERIODS.join(', ')}`,
+      });
+    }
+
+    const bars = await getIndexHistory(index, period);
+
+    res.json({
+      success: true,
+      data: bars,
+      index,
+      period,
+      count: bars.length,
+      ...(bars.length === 0 && { message: `No history stored for ${index} yet.` }),
+    });
+  } catch (error) {
+    console.error('Error fetching index history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch index history',
+    });
+  }
+});
+
 // @route   GET /api/market/gainers
 // @desc    Get top gainers
 // @access  Public
 router.get('/gainers', async (req, res) => {
   try {
-    console.log('📈 Fetching top gainers...');
-    const nseData = await nseWebScraper.scrapeNSEData();
+    const snapshot = await getLatestSnapshot();
     
     res.json({
       success: true,
-      data: nseData.topGainers,
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper',
-      count: nseData.topGainers.length
+      data: snapshot.data.topGainers,
+      ...snapshotMeta(snapshot),
+      count: snapshot.data.topGainers.length
     });
   } catch (error) {
     console.error('Error fetching top gainers:', error);
@@ -153,15 +390,13 @@ router.get('/gainers', async (req, res) => {
 // @access  Public
 router.get('/losers', async (req, res) => {
   try {
-    console.log('📉 Fetching top losers...');
-    const nseData = await nseWebScraper.scrapeNSEData();
+    const snapshot = await getLatestSnapshot();
     
     res.json({
       success: true,
-      data: nseData.topLosers,
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper',
-      count: nseData.topLosers.length
+      data: snapshot.data.topLosers,
+      ...snapshotMeta(snapshot),
+      count: snapshot.data.topLosers.length
     });
   } catch (error) {
     console.error('Error fetching top losers:', error);
@@ -178,15 +413,13 @@ router.get('/losers', async (req, res) => {
 // @access  Public
 router.get('/active', async (req, res) => {
   try {
-    console.log('🔥 Fetching most active stocks...');
-    const nseData = await nseWebScraper.scrapeNSEData();
+    const snapshot = await getLatestSnapshot();
     
     res.json({
       success: true,
-      data: nseData.mostActive,
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper',
-      count: nseData.mostActive.length
+      data: snapshot.data.mostActive,
+      ...snapshotMeta(snapshot),
+      count: snapshot.data.mostActive.length
     });
   } catch (error) {
     console.error('Error fetching most active stocks:', error);
@@ -212,16 +445,14 @@ router.get('/search', async (req, res) => {
       });
     }
 
-    console.log(`🔍 Searching stocks for: ${query}`);
-    const nseData = await nseWebScraper.scrapeNSEData();
-    const searchResults = nseWebScraper.searchStocks(nseData.stocks, query as string);
+    const snapshot = await getLatestSnapshot();
+    const searchResults = searchStocks(snapshot.data.stocks, query as string);
     
     res.json({
       success: true,
       data: searchResults,
       query: query,
-      timestamp: new Date().toISOString(),
-      source: 'NSE Web Scraper',
+      ...snapshotMeta(snapshot),
       count: searchResults.length
     });
   } catch (error) {
@@ -234,18 +465,78 @@ router.get('/search', async (req, res) => {
   }
 });
 
+// @route   GET /api/market/symbols
+// @desc    The symbol master: NSE sector, ISIN, segment (MIMS, AIMS, GEMS), shares outstanding, board lot
+//          and market cap at the latest price of each listing, optionally by ?sector= and ?segment=
+// @access  Public
+router.get('/symbols', async (req, res) => {
+  try {
+    const sector = req.query.sector !== undefined ? parseSector(String(req.query.sector)) : undefined;
+    if (sector === null) {
+      return res.status(400).json({
+        success: false,
+        error: `Sector must be one of: ${NSE_SECTORS.join(', ')}`,
+      });
+    }
+    const segment = req.query.segment !== undefined ? String(req.query.segment).toUpperCase() as ListingSegment : undefined;
+    if (segment !== undefined && !LISTING_SEGMENTS.includes(segment)) {
+      return res.status(400).json({
+        success: false,
+        error: `Segment must be one of: ${LISTING_SEGMENTS.join(', ')}`,
+      });
+    }
+
+    // Listings are served without market caps when no snapshot can be had
+    const snapshot = await getLatestSnapshot().catch(error => {
+      console.error('Error loading snapshot for symbol master:', error);
+      return null;
+    });
+    const prices = new Map(snapshot?.data.stocks.map(stock => [stock.symbol, stock.price]));
+    const listings = getSymbolListings();
+    const listed = new Set(listings.map(listing => listing.symbol));
+    const symbols = listings
+      .filter(listing => (!sector || listing.sector === sector) && (!segment || listing.segment === segment))
+      .map(listing => serializeSymbolListing(listing, prices.get(listing.symbol)));
+
+    res.json({
+      success: true,
+      data: symbols,
+      // Quoted symbols the master does not list yet, so they carry no sector
+      unclassified: snapshot?.data.stocks.filter(stock => !listed.has(stock.symbol)).map(stock => stock.symbol) ?? [],
+      count: symbols.length
+    });
+  } catch (error) {
+    console.error('Error fetching symbol master:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch symbols',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // @route   GET /api/market/sector/:sector
-// @desc    Get stocks by sector
+// @desc    Get stocks by NSE sector, as classified in the symbol master
 // @access  Public
 router.get('/sector/:sector', async (req, res) => {
   try {
-    const { sector } = req.params;
-    
-    // Return empty since external APIs are removed
+    const sector = parseSector(req.params.sector);
+    if (!sector) {
+      return res.status(400).json({
+        success: false,
+        error: `Sector must be one of: ${NSE_SECTORS.join(', ')}`,
+      });
+    }
+
+    const snapshot = await getLatestSnapshot();
+    const stocks = snapshot.data.stocks.filter(stock => stock.sector === sector);
+
     res.json({
       success: true,
-      data: [],
-      message: `No stocks available for sector "${sector}". No data source configured.`
+      data: stocks,
+      sector,
+      ...snapshotMeta(snapshot),
+      count: stocks.length
     });
   } catch (error) {
     console.error('Error fetching stocks by sector:', error);
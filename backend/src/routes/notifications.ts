@@ -0,0 +1,235 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import Notification, { NOTIFICATION_CATEGORIES } from '../models/Notification.js';
+import User from '../models/User.js';
+import {
+  applyNotificationPreferences,
+  NOTIFICATION_PREFERENCES,
+  notificationPreferences,
+  serializeNotification,
+} from '../services/notifications.js';
+
+const router = express.Router();
+
+// Load a notification owned by the authenticated user, or null if it does not exist
+const findUserNotification = async (req: AuthRequest, notificationId: string) => {
+  if (!mongoose.isValidObjectId(notificationId)) return null;
+  return Notification.findOne({ _id: notificationId, user: req.user.userId });
+};
+
+// @route   GET /api/notifications
+// @desc    The user's latest notifications, newest first (?limit=, default 50; ?unread=true for unread
+//          only; ?category=price-alert|risk|...), with the number unread
+// @access  Private
+router.get('/', auth, [
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be from 1 to 200'),
+  query('unread').optional().isBoolean().withMessage('Unread must be true or false'),
+  query('category').optional().isIn(NOTIFICATION_CATEGORIES).withMessage(`Category must be one of ${NOTIFICATION_CATEGORIES.join(', ')}`),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const filter: Record<string, unknown> = { user: req.user.userId };
+    if (req.query.unread === 'true') filter.read = false;
+    if (req.query.category) filter.category = req.query.category;
+    const [notifications, unread] = await Promise.all([
+      Notification.find(filter).sort({ createdAt: -1 }).limit(Number(req.query.limit ?? 50)),
+      Notification.countDocuments({ user: req.user.userId, read: false }),
+    ]);
+
+    res.json({
+      success: true,
+      data: notifications.map(serializeNotification),
+      unread,
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch notifications',
+    });
+  }
+});
+
+// @route   GET /api/notifications/preferences
+// @desc    Which notifications the user receives, and through which channels
+// @access  Private
+router.get('/preferences', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: notificationPreferences(user),
+    });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch notification preferences',
+    });
+  }
+});
+
+// @route   PUT /api/notifications/preferences
+// @desc    Switch notification categories (priceAlerts, marketNews, portfolioAlerts) and channels
+//          (email, push) on or off
+// @access  Private
+router.put('/preferences', auth, NOTIFICATION_PREFERENCES.map(key =>
+  body(key).optional().isBoolean({ strict: true }).withMessage(`${key} must be true or false`)
+), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    applyNotificationPreferences(user, req.body);
+    await user.save();
+
+    res.json({
+      success: true,
+      data: notificationPreferences(user),
+    });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update notification preferences',
+    });
+  }
+});
+
+// @route   POST /api/notifications/read-all
+// @desc    Mark every unread notification as read
+// @access  Private
+router.post('/read-all', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const result = await Notification.updateMany(
+      { user: req.user.userId, read: false },
+      { $set: { read: true, readAt: new Date() } }
+    );
+
+    res.json({
+      success: true,
+      data: { updated: result.modifiedCount },
+    });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mark notifications as read',
+    });
+  }
+});
+
+// @route   POST /api/notifications/:id/read
+// @desc    Mark a notification as read
+// @access  Private
+router.post('/:id/read', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const notification = await findUserNotification(req, req.params.id);
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    if (!notification.read) {
+      notification.read = true;
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      data: serializeNotification(notification),
+    });
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mark notification as read',
+    });
+  }
+});
+
+// @route   POST /api/notifications/:id/unread
+// @desc    Mark a notification as unread again
+// @access  Private
+router.post('/:id/unread', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const notification = await findUserNotification(req, req.params.id);
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    notification.read = false;
+    notification.readAt = undefined;
+    await notification.save();
+
+    res.json({
+      success: true,
+      data: serializeNotification(notification),
+    });
+  } catch (error) {
+    console.error('Error marking notification unread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mark notification as unread',
+    });
+  }
+});
+
+// @route   DELETE /api/notifications/:id
+// @desc    Delete a notification
+// @access  Private
+router.delete('/:id', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const notification = await findUserNotification(req, req.params.id);
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    await notification.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Notification deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting notification:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete notification',
+    });
+  }
+});
+
+export default router;
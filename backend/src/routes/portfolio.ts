@@ -1,22 +1,217 @@
 import express from 'express';
-import { auth } from '../middleware/auth.js';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import { FIXED_INCOME_TYPES, yieldToMaturity } from '../../../shared/ai/index.js';
+import type { FixedIncomeType } from '../../../shared/ai/index.js';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import Goal from '../models/Goal.js';
+import Instrument from '../models/Instrument.js';
+import Portfolio, { IPortfolio } from '../models/Portfolio.js';
+import Transaction, { ITransaction, SECURITY_TRANSACTION_TYPES, TRANSACTION_TYPES } from '../models/Transaction.js';
+import { getLatestPrices, valuePortfolio } from '../services/portfolioValuation.js';
+import { applyPastCorporateActions } from '../services/corporateActions.js';
+import { projectPortfolioIncome } from '../services/dividends.js';
+import { getInstrumentsByPortfolio, getPortfolioInstruments, serializeInstrument } from '../services/instruments.js';
+import {
+  cashShortfall,
+  deriveLedger,
+  DerivedLedger,
+  getPortfolioLedgers,
+  getPortfolioTransactions,
+  LedgerError,
+  serializeLedger,
+  serializeTransactions,
+} from '../services/ledger.js';
 
 const router = express.Router();
 
+// Load a portfolio owned by the authenticated user, or null if it does not exist
+const findUserPortfolio = async (req: AuthRequest, portfolioId: string) => {
+  if (!mongoose.isValidObjectId(portfolioId)) return null;
+  return Portfolio.findOne({ _id: portfolioId, user: req.user.userId });
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Value a single portfolio from its derived ledger, only scraping prices when it holds positions
+const respondWithPortfolio = async (portfolio: IPortfolio, ledger: DerivedLedger) => {
+  const hasPositions = [...ledger.positions.values()].some(position => position.shares > 0);
+  const prices = hasPositions ? await getLatestPrices() : new Map();
+  return valuePortfolio(portfolio, ledger, prices, await getPortfolioInstruments(portfolio._id));
+};
+
+const ENTRY_TYPES = TRANSACTION_TYPES.filter(type => type !== 'reversal');
+const TRADE_TYPES = ['buy', 'sell', 'rights'];
+const CASH_TYPES = ['dividend', 'interest', 'deposit', 'withdrawal', 'fee'];
+const RATIO_TYPES = ['bonus', 'split'];
+const INCOME_TYPES = ['dividend', 'interest'];
+// Bills and bonds are priced from a yield; the rest only need their rate
+const PRICED_TYPES: FixedIncomeType[] = ['treasury-bill', 'treasury-bond'];
+const MATURING_TYPES: FixedIncomeType[] = ['treasury-bill', 'treasury-bond', 'fixed-deposit'];
+
+const transactionValidators = [
+  body('type').isIn(ENTRY_TYPES).withMessage(`Type must be one of: ${ENTRY_TYPES.join(', ')}`),
+  body('date').optional().isISO8601().withMessage('Date must be a valid ISO 8601 date'),
+  body('symbol')
+    .if(body('type').isIn(SECURITY_TRANSACTION_TYPES))
+    .trim().notEmpty().withMessage('Symbol is required for this transaction type'),
+  body('shares')
+    .if(body('type').isIn(TRADE_TYPES))
+    .isFloat({ gt: 0 }).withMessage('Shares must be greater than zero'),
+  body('price')
+    .if(body('type').isIn(TRADE_TYPES))
+    .isFloat({ min: 0 }).withMessage('Price must be zero or more'),
+  body('price')
+    .if(body('type').isIn(RATIO_TYPES))
+    .optional().isFloat({ min: 0 }).withMessage('Cash in lieu price must be zero or more'),
+  body('amount')
+    .if(body('type').isIn(CASH_TYPES))
+    .isFloat({ gt: 0 }).withMessage('Amount must be greater than zero'),
+  body('ratio_numerator')
+    .if(body('type').isIn(RATIO_TYPES))
+    .isInt({ min: 1 }).withMessage('Ratio numerator must be a positive whole number'),
+  body('ratio_denominator')
+    .if(body('type').isIn(RATIO_TYPES))
+    .isInt({ min: 1 }).withMessage('Ratio denominator must be a positive whole number'),
+  body('fees').optional().isFloat({ min: 0 }).withMessage('Fees must be zero or more'),
+  body('tax_withheld').optional().isFloat({ min: 0 }).withMessage('Tax withheld must be zero or more'),
+  body('reinvest').optional().isBoolean().withMessage('reinvest must be a boolean'),
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters'),
+  body('auto_deposit').optional().isBoolean().withMessage('auto_deposit must be a boolean'),
+];
+
+// Rates are annual fractions, e.g. 0.1375 for 13.75%
+const isRate = (value: unknown): boolean =>
+  Number.isFinite(Number(value)) && Number(value) > -0.5 && Number(value) < 2;
+
+const instrumentValidators = [
+  body('symbol').trim().notEmpty().withMessage('Symbol is required')
+    .isLength({ max: 30 }).withMessage('Symbol cannot exceed 30 characters'),
+  body('asset_type').isIn(FIXED_INCOME_TYPES).withMessage(`Asset type must be one of: ${FIXED_INCOME_TYPES.join(', ')}`),
+  body('name').trim().notEmpty().withMessage('Name is required')
+    .isLength({ max: 100 }).withMessage('Name cannot exceed 100 characters'),
+  body('issuer').optional().trim().isLength({ max: 100 }).withMessage('Issuer cannot exceed 100 characters'),
+  body('yield').optional().custom(isRate).withMessage('Yield must be an annual rate as a fraction, e.g. 0.15'),
+  body('yield')
+    .if(body('asset_type').isIn(['money-market', 'fixed-deposit']))
+    .exists().withMessage('Yield is required for money market funds and fixed deposits'),
+  body('price')
+    .if(body('asset_type').isIn(PRICED_TYPES))
+    .if(body('yield').not().exists())
+    .isFloat({ gt: 0 }).withMessage('Give a yield, or the price per 100 paid, for bills and bonds'),
+  body('price_date').optional().isISO8601().withMessage('Price date must be a valid ISO 8601 date'),
+  body('coupon_rate')
+    .if(body('asset_type').equals('treasury-bond'))
+    .custom(value => isRate(value) && Number(value) >= 0).withMessage('Coupon rate is required for bonds, as a fraction'),
+  body('coupon_frequency').optional().isIn([1, 2, 4, 12]).withMessage('Coupon frequency must be 1, 2, 4 or 12 a year'),
+  body('maturity_date')
+    .if(body('asset_type').isIn(MATURING_TYPES))
+    .isISO8601().withMessage('Maturity date is required for bills, bonds and fixed deposits'),
+  body('issue_date').optional().isISO8601().withMessage('Issue date must be a valid ISO 8601 date'),
+];
+
 // @route   GET /api/portfolio
-// @desc    Get user portfolio
+// @desc    Get all portfolios for the user
 // @access  Private
-router.get('/', auth, async (req: any, res) => {
+router.get('/', auth, async (req: AuthRequest, res) => {
   try {
-    // This is a placeholder - you'll need to implement portfolio model and logic
+    const portfolios = await Portfolio.find({ user: req.user.userId }).sort({ createdAt: 1 });
+    const ledgers = await getPortfolioLedgers(portfolios.map(p => p._id));
+    const hasPositions = [...ledgers.values()].some(ledger =>
+      [...ledger.positions.values()].some(position => position.shares > 0)
+    );
+    const prices = hasPositions ? await getLatestPrices() : new Map();
+    const instruments = await getInstrumentsByPortfolio(portfolios.map(p => p._id));
+
     res.json({
       success: true,
-      data: {
-        totalValue: 0,
-        totalGain: 0,
-        totalGainPercent: 0,
-        holdings: [],
-      },
+      data: portfolios.map(portfolio => {
+        const id = portfolio._id.toString();
+        return valuePortfolio(portfolio, ledgers.get(id)!, prices, instruments.get(id));
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching portfolios:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch portfolios',
+    });
+  }
+});
+
+// @route   POST /api/portfolio
+// @desc    Create a new named portfolio, optionally with an opening cash deposit
+// @access  Private
+router.post('/', auth, [
+  body('name').trim().notEmpty().withMessage('Portfolio name is required'),
+  body('cash_balance').optional().isFloat({ min: 0 }).withMessage('Cash balance must be zero or more'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { name, cash_balance } = req.body;
+
+    const portfolio = await Portfolio.create({
+      user: req.user.userId,
+      name,
+    });
+
+    const transactions: ITransaction[] = [];
+    if (cash_balance > 0) {
+      transactions.push(await Transaction.create({
+        portfolio: portfolio._id,
+        user: req.user.userId,
+        type: 'deposit',
+        date: new Date(),
+        amount: cash_balance,
+        note: 'Opening balance',
+      }));
+    }
+
+    res.status(201).json({
+      success: true,
+      data: valuePortfolio(portfolio, deriveLedger(transactions), new Map()),
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: 'You already have a portfolio with this name',
+      });
+    }
+    console.error('Error creating portfolio:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create portfolio',
+    });
+  }
+});
+
+// @route   GET /api/portfolio/:id
+// @desc    Get a single portfolio with valued holdings
+// @access  Private
+router.get('/:id', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+
+    res.json({
+      success: true,
+      data: await respondWithPortfolio(portfolio, ledger),
     });
   } catch (error) {
     console.error('Error fetching portfolio:', error);
@@ -27,21 +222,520 @@ router.get('/', auth, async (req: any, res) => {
   }
 });
 
-// @route   POST /api/portfolio/holdings
-// @desc    Add holding to portfolio
+// @route   PUT /api/portfolio/:id
+// @desc    Rename a portfolio (cash moves through deposit/withdrawal transactions)
 // @access  Private
-router.post('/holdings', auth, async (req: any, res) => {
+router.put('/:id', auth, [
+  body('name').trim().notEmpty().withMessage('Portfolio name cannot be empty'),
+], async (req: AuthRequest, res: express.Response) => {
   try {
-    // This is a placeholder - implement portfolio holding logic
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    portfolio.name = req.body.name;
+    await portfolio.save();
+
+    const ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+
+    res.json({
+      success: true,
+      data: await respondWithPortfolio(portfolio, ledger),
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: 'You already have a portfolio with this name',
+      });
+    }
+    console.error('Error updating portfolio:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update portfolio',
+    });
+  }
+});
+
+// @route   DELETE /api/portfolio/:id
+// @desc    Delete a portfolio, its transaction ledger, fixed income terms and the goals it funds
+// @access  Private
+router.delete('/:id', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    await Transaction.deleteMany({ portfolio: portfolio._id });
+    await Goal.deleteMany({ portfolio: portfolio._id });
+    await Instrument.deleteMany({ portfolio: portfolio._id });
+    await portfolio.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Portfolio deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting portfolio:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete portfolio',
+    });
+  }
+});
+
+// @route   GET /api/portfolio/:id/transactions
+// @desc    Get the full transaction history, including reversed entries
+// @access  Private
+router.get('/:id/transactions', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const transactions = await getPortfolioTransactions(portfolio._id);
+
+    res.json({
+      success: true,
+      data: serializeTransactions(transactions),
+    });
+  } catch (error) {
+    console.error('Error fetching transactions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transactions',
+    });
+  }
+});
+
+// @route   POST /api/portfolio/:id/transactions
+// @desc    Append a transaction to the ledger
+// @access  Private
+router.post('/:id/transactions', auth, transactionValidators, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const { type, date, symbol, shares, price, amount, fees, tax_withheld, reinvest, ratio_numerator, ratio_denominator, note, auto_deposit } = req.body;
+    const isSecurity = SECURITY_TRANSACTION_TYPES.includes(type);
+
+    // Interest only comes from fixed income, and only a money market fund can reinvest it
+    if (type === 'interest') {
+      const instrument = (await getPortfolioInstruments(portfolio._id)).get(String(symbol).toUpperCase());
+      if (!instrument) {
+        return res.status(400).json({
+          success: false,
+          error: `Add the terms of ${symbol} as a bill, bond, money market fund or fixed deposit before recording interest`,
+        });
+      }
+      if (reinvest && instrument.assetType !== 'money-market') {
+        return res.status(400).json({
+          success: false,
+          error: 'Only money market fund interest can be reinvested',
+        });
+      }
+    }
+
+    const transaction = new Transaction({
+      portfolio: portfolio._id,
+      user: req.user.userId,
+      type,
+      date: date ? new Date(date) : new Date(),
+      symbol: isSecurity ? symbol : undefined,
+      shares: TRADE_TYPES.includes(type) ? shares : undefined,
+      price: TRADE_TYPES.includes(type) || RATIO_TYPES.includes(type) ? price : undefined,
+      amount: CASH_TYPES.includes(type) ? amount : undefined,
+      fees: TRADE_TYPES.includes(type) ? fees ?? 0 : 0,
+      taxWithheld: INCOME_TYPES.includes(type) ? tax_withheld : undefined,
+      ratio: RATIO_TYPES.includes(type) ? { numerator: ratio_numerator, denominator: ratio_denominator } : undefined,
+      reinvested: type === 'interest' && reinvest ? true : undefined,
+      note,
+    });
+
+    const history = await getPortfolioTransactions(portfolio._id);
+    const entries = [transaction];
+
+    // Replaying the whole history rejects entries that oversell a position or overdraw cash
+    let ledger: DerivedLedger;
+    try {
+      // Fund a purchase with a matching deposit when the caller asks for it and cash is short,
+      // on its date or on any later date whose debits the purchase leaves uncovered
+      if (auto_deposit && (type === 'buy' || type === 'rights')) {
+        const shortfall = cashShortfall([...history, transaction], transaction.date);
+        if (shortfall > 0) {
+          entries.unshift(new Transaction({
+            portfolio: portfolio._id,
+            user: req.user.userId,
+            type: 'deposit',
+            date: transaction.date,
+            amount: Math.ceil(shortfall * 100) / 100,
+            note: `Funding for ${type} of ${transaction.symbol}`,
+          }));
+        }
+      }
+      ledger = deriveLedger([...history, ...entries]);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      throw error;
+    }
+
+    // A holding too small for one whole share of a bonus or split receives only cash in lieu, so it needs the price
+    const step = RATIO_TYPES.includes(type) && price === undefined
+      ? ledger.positions.get(transaction.symbol!)?.trail.find(row => row.transaction_id === transaction._id.toString())
+      : undefined;
+    const noWholeShares = type === 'bonus' ? step?.shares_delta === 0 : step?.shares_after === 0;
+    if (step?.fractional_shares && noWholeShares) {
+      return res.status(400).json({
+        success: false,
+        error: `This ${type} credits no whole ${transaction.symbol} shares, only ${step.fractional_shares} of a share. Record the cash in lieu price.`,
+      });
+    }
+
+    // Recorded in order in one write, validated up front, so a failed purchase leaves no
+    // funding deposit behind
+    const recordedAt = Date.now();
+    entries.forEach((entry, index) => entry.set('createdAt', new Date(recordedAt + index)));
+    try {
+      await Transaction.insertMany(entries);
+    } catch (error) {
+      await Transaction.deleteMany({ _id: { $in: entries.map(entry => entry._id) } });
+      throw error;
+    }
+
+    // A back-dated holding may be entitled to dividends, bonus issues or splits already posted to others
+    if ((type === 'buy' || type === 'rights') && await applyPastCorporateActions(portfolio._id, portfolio.user, transaction.symbol!) > 0) {
+      ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Transaction recorded successfully',
+      data: await respondWithPortfolio(portfolio, ledger),
+    });
+  } catch (error) {
+    console.error('Error recording transaction:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record transaction',
+    });
+  }
+});
+
+// @route   POST /api/portfolio/:id/transactions/:transactionId/reverse
+// @desc    Correct a ledger entry by appending a reversal that cancels it
+// @access  Private
+router.post('/:id/transactions/:transactionId/reverse', auth, [
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const history = await getPortfolioTransactions(portfolio._id);
+    const original = history.find(tx => tx._id.toString() === req.params.transactionId);
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transaction not found',
+      });
+    }
+
+    if (original.type === 'reversal') {
+      return res.status(400).json({
+        success: false,
+        error: 'A reversal cannot itself be reversed. Record the original entry again instead.',
+      });
+    }
+
+    if (history.some(tx => tx.type === 'reversal' && tx.reverses?.equals(original._id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'This transaction has already been reversed',
+      });
+    }
+
+    const reversal = new Transaction({
+      portfolio: portfolio._id,
+      user: req.user.userId,
+      type: 'reversal',
+      date: new Date(),
+      symbol: original.symbol,
+      reverses: original._id,
+      note: req.body.note,
+    });
+
+    let ledger: DerivedLedger;
+    try {
+      ledger = deriveLedger([...history, reversal]);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({
+          success: false,
+          error: `Cannot reverse this transaction: ${error.message}`,
+        });
+      }
+      throw error;
+    }
+
+    await reversal.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Transaction reversed successfully',
+      data: await respondWithPortfolio(portfolio, ledger),
+    });
+  } catch (error) {
+    console.error('Error reversing transaction:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reverse transaction',
+    });
+  }
+});
+
+// @route   GET /api/portfolio/:id/instruments
+// @desc    Terms of the portfolio's Treasury bills and bonds, money market funds and fixed deposits
+// @access  Private
+router.get('/:id/instruments', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const instruments = await Instrument.find({ portfolio: portfolio._id }).sort({ symbol: 1 });
+
+    res.json({
+      success: true,
+      data: instruments.map(serializeInstrument),
+    });
+  } catch (error) {
+    console.error('Error fetching instruments:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch instruments',
+    });
+  }
+});
+
+// @route   PUT /api/portfolio/:id/instruments
+// @desc    Add or update the terms of a fixed income holding, keyed by ledger symbol. Update the
+//          yield as the market moves; a bill or bond may give the price paid instead of a yield
+// @access  Private
+router.put('/:id/instruments', auth, instrumentValidators, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const { symbol, asset_type, name, issuer, coupon_rate, coupon_frequency, issue_date, maturity_date, price, price_date } = req.body;
+    const isBond = asset_type === 'treasury-bond';
+    const terms = {
+      assetType: asset_type as FixedIncomeType,
+      name,
+      issuer,
+      couponRate: isBond ? Number(coupon_rate) : undefined,
+      couponFrequency: isBond ? Number(coupon_frequency ?? 2) : undefined,
+      issueDate: issue_date ? new Date(issue_date) : undefined,
+      maturityDate: MATURING_TYPES.includes(asset_type) ? new Date(maturity_date) : undefined,
+    };
+
+    // The yield that prices the bill or bond at what was paid for it
+    const yieldRate = req.body.yield !== undefined
+      ? Number(req.body.yield)
+      : yieldToMaturity(
+        { assetType: terms.assetType, yield: 0, couponRate: terms.couponRate, couponFrequency: terms.couponFrequency, maturityDate: maturity_date },
+        Number(price),
+        price_date ? new Date(price_date).toISOString() : new Date().toISOString()
+      );
+
+    const instrument = await Instrument.findOneAndUpdate(
+      { portfolio: portfolio._id, symbol: String(symbol).trim().toUpperCase() },
+      {
+        ...terms,
+        user: req.user.userId,
+        yield: yieldRate,
+        yieldUpdatedAt: new Date(),
+      },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.json({
+      success: true,
+      data: serializeInstrument(instrument),
+    });
+  } catch (error) {
+    console.error('Error saving instrument:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save instrument',
+    });
+  }
+});
+
+// @route   DELETE /api/portfolio/:id/instruments/:instrumentId
+// @desc    Remove fixed income terms once nothing of the holding is left
+// @access  Private
+router.delete('/:id/instruments/:instrumentId', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio || !mongoose.isValidObjectId(req.params.instrumentId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Instrument not found',
+      });
+    }
+
+    const instrument = await Instrument.findOne({ _id: req.params.instrumentId, portfolio: portfolio._id });
+    if (!instrument) {
+      return res.status(404).json({
+        success: false,
+        error: 'Instrument not found',
+      });
+    }
+
+    const ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+    if ((ledger.positions.get(instrument.symbol)?.shares ?? 0) > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${instrument.symbol} is still held; sell or redeem it first`,
+      });
+    }
+
+    await instrument.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Instrument removed',
+    });
+  } catch (error) {
+    console.error('Error deleting instrument:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete instrument',
+    });
+  }
+});
+
+// @route   GET /api/portfolio/:id/income
+// @desc    Dividends expected over the next 12 months from the shares held, net of withholding tax
+// @access  Private
+router.get('/:id/income', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+
+    res.json({
+      success: true,
+      data: await projectPortfolioIncome(ledger),
+    });
+  } catch (error) {
+    console.error('Error projecting income:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to project income',
+    });
+  }
+});
+
+// @route   GET /api/portfolio/:id/ledger
+// @desc    Get the derived ledger: per-position audit trails and the cash trail
+// @access  Private
+router.get('/:id/ledger', auth, async (req: AuthRequest, res) => {
+  try {
+    const portfolio = await findUserPortfolio(req, req.params.id);
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        error: 'Portfolio not found',
+      });
+    }
+
+    const ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+
     res.json({
       success: true,
-      message: 'Holding added successfully',
+      data: serializeLedger(ledger, symbol),
     });
   } catch (error) {
-    console.error('Error adding holding:', error);
+    console.error('Error fetching ledger:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to add holding',
+      error: 'Failed to fetch ledger',
     });
   }
 });
@@ -1,9 +1,44 @@
 import express from 'express';
-import { auth } from '../middleware/auth.js';
-import User from '../models/User.js';
+import { body, query, validationResult } from 'express-validator';
+import { FINANCIAL_GOALS, RISK_CHOICE_QUESTIONS, RiskAssessmentError } from '../../../shared/ai/index.js';
+import type { RiskChoiceQuestionId } from '../../../shared/ai/index.js';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import RiskAssessment from '../models/RiskAssessment.js';
+import User, { IUser } from '../models/User.js';
+import { applyNotificationPreferences, notificationPreferences } from '../services/notifications.js';
+import { serializeRiskAssessment, submitRiskAssessment } from '../services/riskAssessments.js';
 
 const router = express.Router();
 
+const serializeProfile = (user: IUser) => ({
+  id: user._id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.email,
+  isEmailVerified: user.isEmailVerified,
+  profilePicture: user.profilePicture,
+  phoneNumber: user.phoneNumber,
+  dateOfBirth: user.dateOfBirth,
+  investmentExperience: user.investmentExperience,
+  riskTolerance: user.riskTolerance,
+  riskScore: user.riskScore ?? null,
+  riskAssessedAt: user.riskAssessedAt ?? null,
+  investmentGoals: user.investmentGoals,
+  monthlyIncome: user.monthlyIncome,
+  role: user.role,
+  notifications: notificationPreferences(user),
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+// Request fields of the multiple-choice questions, e.g. drawdownReaction -> drawdown_reaction
+const CHOICE_FIELDS = (Object.keys(RISK_CHOICE_QUESTIONS) as RiskChoiceQuestionId[]).map(id => ({
+  id,
+  field: id.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`),
+}));
+
+const GOAL_VALUES = FINANCIAL_GOALS.map(goal => goal.value);
+
 // @route   GET /api/users/profile
 // @desc    Get user profile
 // @access  Private
@@ -20,22 +55,7 @@ router.get('/profile', auth, async (req: any, res) => {
     res.json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          isEmailVerified: user.isEmailVerified,
-          profilePicture: user.profilePicture,
-          phoneNumber: user.phoneNumber,
-          dateOfBirth: user.dateOfBirth,
-          investmentExperience: user.investmentExperience,
-          riskTolerance: user.riskTolerance,
-          investmentGoals: user.investmentGoals,
-          monthlyIncome: user.monthlyIncome,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-        },
+        user: serializeProfile(user),
       },
     });
   } catch (error) {
@@ -61,6 +81,7 @@ router.put('/profile', auth, async (req: any, res) => {
       riskTolerance,
       investmentGoals,
       monthlyIncome,
+      notifications,
     } = req.body;
 
     const user = await User.findById(req.user.userId);
@@ -80,27 +101,14 @@ router.put('/profile', auth, async (req: any, res) => {
     if (riskTolerance) user.riskTolerance = riskTolerance;
     if (investmentGoals) user.investmentGoals = investmentGoals;
     if (monthlyIncome !== undefined) user.monthlyIncome = monthlyIncome;
+    applyNotificationPreferences(user, notifications);
 
     await user.save();
 
     res.json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          isEmailVerified: user.isEmailVerified,
-          profilePicture: user.profilePicture,
-          phoneNumber: user.phoneNumber,
-          dateOfBirth: user.dateOfBirth,
-          investmentExperience: user.investmentExperience,
-          riskTolerance: user.riskTolerance,
-          investmentGoals: user.investmentGoals,
-          monthlyIncome: user.monthlyIncome,
-          updatedAt: user.updatedAt,
-        },
+        user: serializeProfile(user),
       },
     });
   } catch (error) {
@@ -112,4 +120,89 @@ router.put('/profile', auth, async (req: any, res) => {
   }
 });
 
+// @route   POST /api/users/risk-assessments
+// @desc    Score a risk profiling questionnaire, keep it in the history and set the user's risk tolerance from it
+// @access  Private
+router.post('/risk-assessments', auth, [
+  body('investment_horizon').isFloat({ min: 0, max: 60 }).withMessage('Investment horizon must be from 0 to 60 years'),
+  body('monthly_income').isFloat({ min: 0 }).withMessage('Monthly income must be zero or more'),
+  body('monthly_debt_payments').isFloat({ min: 0 }).withMessage('Monthly debt payments must be zero or more'),
+  body('emergency_fund_months').isFloat({ min: 0, max: 120 }).withMessage('Emergency fund must be from 0 to 120 months'),
+  body('financial_goals').optional().isArray().withMessage('Financial goals must be a list'),
+  body('financial_goals.*').isIn(GOAL_VALUES).withMessage(`Financial goals must be from: ${GOAL_VALUES.join(', ')}`),
+  ...CHOICE_FIELDS.map(({ id, field }) => {
+    const values = RISK_CHOICE_QUESTIONS[id].options.map(option => option.value);
+    return body(field).isIn(values).withMessage(`${field} must be one of: ${values.join(', ')}`);
+  }),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const submitted = await submitRiskAssessment(req.user.userId, {
+      investmentHorizon: Number(req.body.investment_horizon),
+      monthlyIncome: Number(req.body.monthly_income),
+      monthlyDebtPayments: Number(req.body.monthly_debt_payments),
+      emergencyFundMonths: Number(req.body.emergency_fund_months),
+      financialGoals: [...new Set<string>(req.body.financial_goals ?? [])],
+      ...Object.fromEntries(CHOICE_FIELDS.map(({ id, field }) => [id, String(req.body[field])])) as Record<RiskChoiceQuestionId, string>,
+    });
+    if (!submitted) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        assessment: serializeRiskAssessment(submitted.assessment),
+        user: serializeProfile(submitted.user),
+      },
+      message: `Risk profile set to ${submitted.assessment.riskTolerance}`,
+    });
+  } catch (error) {
+    if (error instanceof RiskAssessmentError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('Risk assessment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save risk assessment',
+    });
+  }
+});
+
+// @route   GET /api/users/risk-assessments
+// @desc    The user's past risk assessments, newest first
+// @access  Private
+router.get('/risk-assessments', auth, [
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const assessments = await RiskAssessment.find({ user: req.user.userId })
+      .sort({ createdAt: -1 })
+      .limit(Number(req.query.limit) || 20);
+
+    res.json({
+      success: true,
+      data: assessments.map(serializeRiskAssessment),
+    });
+  } catch (error) {
+    console.error('Risk assessment history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch risk assessments',
+    });
+  }
+});
+
 export default router;
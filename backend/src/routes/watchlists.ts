@@ -0,0 +1,149 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import { auth, AuthRequest } from '../middleware/auth.js';
+import Watchlist from '../models/Watchlist.js';
+import { serializeWatchlist } from '../services/alerts.js';
+
+const router = express.Router();
+
+const MAX_WATCHLIST_SYMBOLS = 100;
+
+// Load a watchlist owned by the authenticated user, or null if it does not exist
+const findUserWatchlist = async (req: AuthRequest, watchlistId: string) => {
+  if (!mongoose.isValidObjectId(watchlistId)) return null;
+  return Watchlist.findOne({ _id: watchlistId, user: req.user.userId });
+};
+
+// Upper-cased and de-duplicated, in the order given
+const normalizeSymbols = (symbols: string[]): string[] =>
+  [...new Set(symbols.map(symbol => String(symbol).trim().toUpperCase()).filter(Boolean))];
+
+const watchlistValidators = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name')).trim().notEmpty().withMessage('Watchlist name is required')
+    .isLength({ max: 50 }).withMessage('Watchlist name cannot exceed 50 characters'),
+  body('symbols').optional().isArray({ max: MAX_WATCHLIST_SYMBOLS })
+    .withMessage(`Symbols must be a list of at most ${MAX_WATCHLIST_SYMBOLS}`),
+  body('symbols.*').isString().trim().notEmpty().withMessage('Symbols cannot be empty'),
+];
+
+// @route   GET /api/watchlists
+// @desc    The user's watchlists, by name
+// @access  Private
+router.get('/', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const watchlists = await Watchlist.find({ user: req.user.userId }).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: watchlists.map(serializeWatchlist),
+    });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch watchlists',
+    });
+  }
+});
+
+// @route   POST /api/watchlists
+// @desc    Create a watchlist
+// @access  Private
+router.post('/', auth, watchlistValidators(false), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const watchlist = await Watchlist.create({
+      user: req.user.userId,
+      name: req.body.name,
+      symbols: normalizeSymbols(req.body.symbols ?? []),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: serializeWatchlist(watchlist),
+      message: 'Watchlist created successfully',
+    });
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) {
+      return res.status(400).json({ success: false, error: 'You already have a watchlist with that name' });
+    }
+    console.error('Error creating watchlist:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create watchlist',
+    });
+  }
+});
+
+// @route   PUT /api/watchlists/:id
+// @desc    Rename a watchlist or replace its symbols
+// @access  Private
+router.put('/:id', auth, watchlistValidators(true), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const watchlist = await findUserWatchlist(req, req.params.id);
+    if (!watchlist) {
+      return res.status(404).json({
+        success: false,
+        error: 'Watchlist not found',
+      });
+    }
+
+    if (req.body.name !== undefined) watchlist.name = req.body.name;
+    if (req.body.symbols !== undefined) watchlist.symbols = normalizeSymbols(req.body.symbols);
+    await watchlist.save();
+
+    res.json({
+      success: true,
+      data: serializeWatchlist(watchlist),
+    });
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) {
+      return res.status(400).json({ success: false, error: 'You already have a watchlist with that name' });
+    }
+    console.error('Error updating watchlist:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update watchlist',
+    });
+  }
+});
+
+// @route   DELETE /api/watchlists/:id
+// @desc    Delete a watchlist; alert rules on its symbols are kept
+// @access  Private
+router.delete('/:id', auth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const watchlist = await findUserWatchlist(req, req.params.id);
+    if (!watchlist) {
+      return res.status(404).json({
+        success: false,
+        error: 'Watchlist not found',
+      });
+    }
+
+    await watchlist.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Watchlist deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete watchlist',
+    });
+  }
+});
+
+export default router;
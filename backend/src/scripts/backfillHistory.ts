@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDB } from '../config/database.js';
+import { BackfillRow, importBars, parseBackfillCsv, parseBackfillJson } from '../services/priceHistory.js';
+
+// Usage: npm run backfill:history -- <file.csv|file.json> [--symbol SCOM]
+dotenv.config();
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const symbolFlag = args.indexOf('--symbol');
+  const defaultSymbol = symbolFlag >= 0 ? args[symbolFlag + 1] : undefined;
+  const file = args.find((arg, i) => !arg.startsWith('--') && i !== symbolFlag + 1);
+
+  if (!file) {
+    console.error('Usage: npm run backfill:history -- <file.csv|file.json> [--symbol SYMBOL]');
+    process.exit(1);
+  }
+
+  const text = fs.readFileSync(file, 'utf8');
+  let rows: BackfillRow[];
+  let symbol = defaultSymbol;
+
+  if (path.extname(file).toLowerCase() === '.json') {
+    const parsed = parseBackfillJson(text);
+    rows = parsed.rows;
+    symbol = symbol || parsed.symbol;
+  } else {
+    rows = parseBackfillCsv(text);
+  }
+
+  await connectDB();
+  if (mongoose.connection.readyState !== 1) {
+    process.exit(1);
+  }
+
+  console.log(`🔄 Importing ${rows.length} rows from ${file}...`);
+  const result = await importBars(rows, symbol);
+
+  console.log(`✅ Inserted ${result.inserted} bars, skipped ${result.skipped} days already stored`);
+  if (result.rejected.length > 0) {
+    console.warn(`⚠️ Rejected ${result.rejected.length} rows:`);
+    result.rejected.slice(0, 20).forEach(({ row, reason }) => console.warn(`   row ${row}: ${reason}`));
+  }
+
+  await mongoose.disconnect();
+};
+
+main().catch(async (error) => {
+  console.error('❌ Backfill failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
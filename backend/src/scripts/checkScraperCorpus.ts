@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { corpusPages, expectedFileOf, SCRAPER_CORPUS, snapshotOf } from '../services/scraperCorpus.js';
+
+// Usage: npm run test:scraper -- [corpus dir] [--update]
+//
+// Parses every saved page in the corpus and compares stocks, summaries, index levels and the parse
+// report with `<page>.expected.json`, listing the differences; `npm test` runs the same comparison.
+// `--update` rewrites the expected files; review the diff before committing them.
+
+// Paths where two JSON values differ, e.g. `stocks[3].price: 45.5 != 45.47`
+const diff = (expected: unknown, actual: unknown, at = ''): string[] => {
+  if (typeof expected === 'object' && expected !== null && typeof actual === 'object' && actual !== null) {
+    const keys = Array.isArray(expected) && Array.isArray(actual)
+      ? [...Array(Math.max(expected.length, actual.length)).keys()].map(String)
+      : [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+
+    return keys.flatMap(key => diff(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      Array.isArray(expected) ? `${at}[${key}]` : at ? `${at}.${key}` : key,
+    ));
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual)
+    ? []
+    : [`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+};
+
+const main = () => {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const corpus = path.resolve(args.find(arg => !arg.startsWith('--')) || SCRAPER_CORPUS);
+
+  const pages = corpusPages(corpus);
+  if (pages.length === 0) {
+    console.error(`❌ No .html pages found in ${corpus}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+  for (const page of pages) {
+    const expectedFile = expectedFileOf(corpus, page);
+    const actual = snapshotOf(fs.readFileSync(path.join(corpus, page), 'utf8'));
+
+    if (update) {
+      fs.writeFileSync(expectedFile, `${JSON.stringify(actual, null, 2)}\n`);
+      console.log(`📝 ${page}: wrote ${path.basename(expectedFile)}`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedFile)) {
+      failures++;
+      console.error(`❌ ${page}: missing ${path.basename(expectedFile)} (run with --update to create it)`);
+      continue;
+    }
+
+    const differences = diff(JSON.parse(fs.readFileSync(expectedFile, 'utf8')), actual);
+    if (differences.length > 0) {
+      failures++;
+      console.error(`❌ ${page}: ${differences.length} differences`);
+      differences.slice(0, 20).forEach(line => console.error(`   ${line}`));
+    } else {
+      console.log(`✅ ${page}: ${actual.stocks.length} stocks, ${actual.report.rejected.length} rejected rows`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} of ${pages.length} corpus pages no longer parse as expected`);
+    process.exit(1);
+  }
+};
+
+main();
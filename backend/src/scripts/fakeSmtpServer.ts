@@ -0,0 +1,64 @@
+import net from 'net';
+
+// Usage: npm run mail:fake -- [port]   (default 1025; then set SMTP_HOST=localhost SMTP_PORT=1025)
+// A minimal SMTP sink for development: accepts every message and prints it instead of sending it.
+const port = Number(process.argv[2]) || 1025;
+
+const server = net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let envelope: { from?: string; to: string[] } = { to: [] };
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const handleCommand = (line: string) => {
+    const verb = line.slice(0, 4).toUpperCase();
+    switch (verb) {
+      case 'HELO':
+      case 'EHLO':
+        return reply('250 fake-smtp');
+      case 'MAIL':
+        envelope = { from: line.slice(line.indexOf(':') + 1).trim(), to: [] };
+        return reply('250 OK');
+      case 'RCPT':
+        envelope.to.push(line.slice(line.indexOf(':') + 1).trim());
+        return reply('250 OK');
+      case 'DATA':
+        inData = true;
+        return reply('354 End data with <CR><LF>.<CR><LF>');
+      case 'QUIT':
+        reply('221 Bye');
+        return socket.end();
+      default:
+        // RSET, NOOP and anything else
+        return reply('250 OK');
+    }
+  };
+
+  reply('220 fake-smtp ready');
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        const message = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        console.log(`📧 Message from ${envelope.from} to ${envelope.to.join(', ')}\n${message}\n${'-'.repeat(60)}`);
+        reply('250 OK: queued');
+      } else {
+        const end = buffer.indexOf('\r\n');
+        if (end < 0) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        handleCommand(line);
+      }
+    }
+  });
+  socket.on('error', error => console.error('❌ Connection error:', error.message));
+});
+
+server.listen(port, () => {
+  console.log(`📭 Fake SMTP server listening on port ${port}`);
+});
@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import type { RiskProfile } from '../../../shared/ai/index.js';
+import { connectDB } from '../config/database.js';
+import BacktestRun from '../models/BacktestRun.js';
+import { runEngineBacktest } from '../services/backtest.js';
+
+// Usage: npm run backtest -- [--start YYYY-MM-DD] [--end YYYY-MM-DD] [--rebalance DAYS] [--profile moderate]
+dotenv.config();
+
+const percent = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '—' : `${(value * 100).toFixed(2)}%`;
+
+const ratio = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '—' : value.toFixed(2);
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const flag = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  // Fixture replays need no database; stored history and saving runs do
+  if ((process.env.MARKET_DATA_PROVIDER || 'scraper').toLowerCase() !== 'fixture') {
+    await connectDB();
+    if (mongoose.connection.readyState !== 1) {
+      process.exit(1);
+    }
+  }
+
+  const run = await runEngineBacktest({
+    startDate: flag('start'),
+    endDate: flag('end'),
+    rebalanceDays: flag('rebalance') ? Number(flag('rebalance')) : undefined,
+    riskProfile: flag('profile') as RiskProfile | undefined,
+  });
+
+  console.log(`📈 Engine ${run.engineVersion}, ${run.start} to ${run.end} (${run.tradingDays} trading days)`);
+  console.table({
+    Strategy: {
+      CAGR: percent(run.strategy.cagr),
+      Volatility: percent(run.strategy.volatility),
+      Sharpe: ratio(run.strategy.sharpeRatio),
+      'Max drawdown': percent(run.strategy.maxDrawdown),
+      'Hit rate': percent(run.strategy.hitRate),
+      Turnover: ratio(run.strategy.turnover),
+    },
+    ...(run.benchmark ? {
+      [run.benchmark.index]: {
+        CAGR: percent(run.benchmark.cagr),
+        Volatility: percent(run.benchmark.volatility),
+        Sharpe: ratio(run.benchmark.sharpeRatio),
+        'Max drawdown': percent(run.benchmark.maxDrawdown),
+      },
+    } : {}),
+  });
+  console.log(`💸 ${run.strategy.trades} trades, KES ${run.strategy.fees.toLocaleString()} in fees, ${run.strategy.recommendations} BUY recommendations`);
+  run.warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+
+  // Earlier runs of other engine versions over the same period
+  if (mongoose.connection.readyState === 1) {
+    const previous = await BacktestRun.find({
+      start: run.start,
+      end: run.end,
+      engineVersion: { $ne: run.engineVersion },
+    }).select('-equityCurve').sort({ createdAt: -1 });
+
+    if (previous.length > 0) {
+      console.log('🔁 Other engine versions over the same period:');
+      console.table(Object.fromEntries(previous.map(other => [
+        `${other.engineVersion} (${other.createdAt.toISOString().slice(0, 10)})`,
+        {
+          CAGR: percent(other.strategy.cagr),
+          Sharpe: ratio(other.strategy.sharpeRatio),
+          'Max drawdown': percent(other.strategy.maxDrawdown),
+          'Hit rate': percent(other.strategy.hitRate),
+        },
+      ])));
+    }
+  }
+
+  await mongoose.disconnect();
+};
+
+main().catch(async (error) => {
+  console.error('❌ Backtest failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
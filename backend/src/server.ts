@@ -6,11 +6,23 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database.js';
+import { startCorporateActionPosting, stopCorporateActionPosting } from './services/corporateActions.js';
+import { loadMarketClosures } from './services/marketCalendar.js';
+import { startMarketIngestion, stopMarketIngestion } from './services/marketIngestion.js';
+import { closeMarketStreams, getMarketStreamCount } from './services/marketStream.js';
+import { startRecommendationScoring, stopRecommendationScoring } from './services/recommendationOutcomes.js';
+import { startRiskAlertScan, stopRiskAlertScan } from './services/riskAlerts.js';
+import { loadSymbolMaster } from './services/symbolMaster.js';
 import authRoutes from './routes/auth.js';
 import userRoutes from './routes/users.js';
 import marketRoutes from './routes/market.js';
 import portfolioRoutes from './routes/portfolio.js';
 import aiRoutes from './routes/ai.js';
+import goalRoutes from './routes/goals.js';
+import watchlistRoutes from './routes/watchlists.js';
+import alertRoutes from './routes/alerts.js';
+import notificationRoutes from './routes/notifications.js';
+import adminRoutes from './routes/admin.js';
 import debugRoutes from './routes/debug.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { notFound } from './middleware/notFound.js';
@@ -21,8 +33,16 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// Connect to database
-connectDB();
+// Connect to database, load the NSE's ad-hoc closures and the symbol master, then start the scheduled
+// market snapshot ingestion, recommendation scoring, corporate action posting and portfolio risk alerts
+connectDB().then(async () => {
+  await loadMarketClosures().catch(error => console.error('❌ Error loading market closures:', error));
+  await loadSymbolMaster().catch(error => console.error('❌ Error loading symbol master:', error));
+  startMarketIngestion();
+  startRecommendationScoring();
+  startCorporateActionPosting();
+  startRiskAlertScan();
+});
 
 // Security middleware
 app.use(helmet());
@@ -54,8 +74,11 @@ app.use(limiter);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// Compression middleware
-app.use(compression());
+// Compression middleware; it buffers output, so server-sent event streams are left uncompressed
+app.use(compression({
+  filter: (req, res) =>
+    !String(res.getHeader('Content-Type') ?? '').startsWith('text/event-stream') && compression.filter(req, res),
+}));
 
 // Logging middleware (different formats for development vs production)
 if (process.env.NODE_ENV === 'development') {
@@ -72,6 +95,7 @@ app.get('/health', (req, res) => {
     timestamp: new Date().toISOString(),
     environment: process.env.NODE_ENV,
     version: '1.0.0',
+    marketStreams: getMarketStreamCount(),
   });
 });
 
@@ -81,6 +105,11 @@ app.use('/api/users', userRoutes);
 app.use('/api/market', marketRoutes);
 app.use('/api/portfolio', portfolioRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/goals', goalRoutes);
+app.use('/api/watchlists', watchlistRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Debug routes (development only)
 if (process.env.NODE_ENV !== 'production') {
@@ -111,6 +140,11 @@ const server = app.listen(PORT, () => {
 // Handle process signals for graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  stopMarketIngestion();
+  stopRecommendationScoring();
+  stopCorporateActionPosting();
+  stopRiskAlertScan();
+  closeMarketStreams();
   server.close(() => {
     console.log('Process terminated');
     process.exit(0);
@@ -119,6 +153,11 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received. Shutting down gracefully...');
+  stopMarketIngestion();
+  stopRecommendationScoring();
+  stopCorporateActionPosting();
+  stopRiskAlertScan();
+  closeMarketStreams();
   server.close(() => {
     console.log('Process terminated');
     process.exit(0);
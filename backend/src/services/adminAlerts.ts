@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import AdminAlert, { AdminAlertType, IAdminAlert } from '../models/AdminAlert.js';
+
+export interface AdminAlertInput {
+  type: AdminAlertType;
+  severity: 'warning' | 'critical';
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Raise an alert for administrators. While an alert of the same type is still
+ * unacknowledged it is updated in place, so a persistent fault does not flood the list.
+ * Always logged; persisted only when the database is connected.
+ */
+export const raiseAdminAlert = async (input: AdminAlertInput): Promise<IAdminAlert | null> => {
+  const log = input.severity === 'critical' ? console.error : console.warn;
+  log(`🚨 Admin alert (${input.type}): ${input.message}`);
+
+  if (mongoose.connection.readyState !== 1) return null;
+
+  const open = await AdminAlert.findOne({ type: input.type, acknowledgedAt: { $exists: false } });
+  if (open) {
+    open.severity = input.severity === 'critical' ? 'critical' : open.severity;
+    open.message = input.message;
+    open.details = input.details;
+    open.occurrences += 1;
+    open.lastSeenAt = new Date();
+    return open.save();
+  }
+
+  return AdminAlert.create({ ...input, lastSeenAt: new Date() });
+};
+
+export const serializeAdminAlert = (alert: IAdminAlert) => ({
+  id: alert._id.toString(),
+  type: alert.type,
+  severity: alert.severity,
+  message: alert.message,
+  details: alert.details ?? null,
+  occurrences: alert.occurrences,
+  first_seen_at: alert.createdAt,
+  last_seen_at: alert.lastSeenAt,
+  acknowledged_at: alert.acknowledgedAt ?? null,
+  acknowledged_by: alert.acknowledgedBy?.toString() ?? null,
+});
@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import {
+  AIAlert,
+  analyzeMarketTrends,
+  buildCovarianceModel,
+  CovarianceOptions,
+  DEFAULT_LOOKBACK_DAYS,
+  DividendYield,
+  Fundamentals,
+  fundamentalsMarketData,
+  IndexLevel,
+  isFixedIncome,
+  lookbackPeriod,
+  MarketData,
+  NSERecommendationEngine,
+  NSERiskEngine,
+  OptimizationConstraints,
+  OptimizationObjective,
+  PriceHistory,
+  RebalanceOptions,
+  RiskProfile,
+} from '../../../shared/ai/index.js';
+import Portfolio from '../models/Portfolio.js';
+import { getAdjustedHistory } from './corporateActions.js';
+import { getDividendYields } from './dividends.js';
+import { getLatestFundamentals } from './fundamentals.js';
+import { getPortfolioInstruments } from './instruments.js';
+import { deriveLedger, getPortfolioTransactions } from './ledger.js';
+import { getMarketDataProvider } from './marketData/index.js';
+import type { NSEStock } from './marketData/types.js';
+import { getLatestSnapshot, StoredSnapshot } from './marketSnapshot.js';
+import { PortfolioResponse, valuePortfolio } from './portfolioValuation.js';
+
+// Everything the engines need from the snapshot store, read once per request
+export interface AnalysisContext {
+  marketData: MarketData[];
+  nseIndex: IndexLevel;
+  prices: Map<string, number>;
+  asOf: string;
+  stale: boolean;
+}
+
+// The engines take the frontend `MarketData` shape, with dividend yields and ratios from reported
+// results where they are on record
+export const toMarketData = (stock: NSEStock, dividends?: DividendYield, fundamentals?: Fundamentals): MarketData => ({
+  symbol: stock.symbol,
+  company_name: stock.name,
+  current_price: stock.price,
+  change_percent: stock.changePercent,
+  volume: stock.volume ?? undefined,
+  market_cap: stock.marketCap,
+  sector: stock.sector,
+  isin: stock.isin,
+  segment: stock.segment,
+  shares_outstanding: stock.sharesOutstanding,
+  board_lot: stock.boardLot,
+  dividend_yield: dividends?.trailingYield ?? undefined,
+  forward_dividend_yield: dividends?.forwardYield ?? undefined,
+  ...(fundamentals ? fundamentalsMarketData(fundamentals, stock.price) : {}),
+  timestamp: stock.timestamp,
+});
+
+// Market-wide risk is measured against NASI; a neutral level when none has been captured
+const benchmarkOf = (snapshot: StoredSnapshot): IndexLevel => {
+  const nasi = snapshot.data.indices.find(quote => quote.index === 'NASI');
+  if (!nasi) return { index: 'NASI', value: 0, change: 0, changePercent: 0 };
+
+  const { index, name, value, change, changePercent } = nasi;
+  return { index, name, value, change, changePercent, asOf: snapshot.asOf };
+};
+
+export const loadAnalysisContext = async (): Promise<AnalysisContext> => {
+  const snapshot = await getLatestSnapshot();
+  const prices = new Map(snapshot.data.stocks.map(stock => [stock.symbol, stock.price]));
+  const [dividendYields, fundamentals] = await Promise.all([getDividendYields(prices), getLatestFundamentals()]);
+
+  return {
+    marketData: snapshot.data.stocks.map(stock =>
+      toMarketData(stock, dividendYields.get(stock.symbol), fundamentals.get(stock.symbol))
+    ),
+    nseIndex: benchmarkOf(snapshot),
+    prices,
+    asOf: snapshot.asOf,
+    stale: snapshot.stale,
+  };
+};
+
+// Trading days of history behind portfolio volatility, VaR, Sharpe and drawdown
+export const MIN_LOOKBACK_DAYS = 20;
+export const MAX_LOOKBACK_DAYS = 1260;
+
+export const getRiskLookbackDays = (): number => {
+  const configured = Number(process.env.AI_RISK_LOOKBACK_DAYS) || DEFAULT_LOOKBACK_DAYS;
+  return Math.min(MAX_LOOKBACK_DAYS, Math.max(MIN_LOOKBACK_DAYS, Math.round(configured)));
+};
+
+// Listed holdings; bills, bonds, funds and deposits have no daily closes
+const equitySymbols = (portfolio: PortfolioResponse): string[] =>
+  portfolio.holdings.filter(holding => !isFixedIncome(holding.asset_type)).map(holding => holding.symbol);
+
+// Adjusted daily closes for each symbol from the configured provider, enough to cover the lookback
+const loadPriceHistory = async (symbols: string[], lookbackDays: number): Promise<PriceHistory> => {
+  const provider = getMarketDataProvider();
+  const period = lookbackPeriod(lookbackDays);
+
+  const entries = await Promise.all([...new Set(symbols)].map(async symbol => {
+    const bars = await getAdjustedHistory(symbol, period, provider);
+    return [symbol, bars.map(({ date, close }) => ({ date, close }))] as const;
+  }));
+  return Object.fromEntries(entries);
+};
+
+// A user's portfolio valued against the same snapshot the engines analyse, or null if not theirs
+export const loadUserPortfolio = async (
+  userId: string,
+  portfolioId: string,
+  context: AnalysisContext
+): Promise<PortfolioResponse | null> => {
+  if (!mongoose.isValidObjectId(portfolioId)) return null;
+
+  const portfolio = await Portfolio.findOne({ _id: portfolioId, user: userId });
+  if (!portfolio) return null;
+
+  const ledger = deriveLedger(await getPortfolioTransactions(portfolio._id));
+  return valuePortfolio(portfolio, ledger, context.prices, await getPortfolioInstruments(portfolio._id));
+};
+
+export interface PortfolioAnalysisOptions extends CovarianceOptions {
+  objective?: OptimizationObjective;
+  constraints?: OptimizationConstraints;
+  // Trade list settings; Kenyan retail fees and 100-share board lots by default
+  driftThreshold?: number;
+  trading?: Omit<RebalanceOptions, 'driftThreshold'>;
+}
+
+/**
+ * The risk assessment shown in the AI Insights panel, plus an optimised target allocation,
+ * the efficient frontier and the trades that move towards it
+ */
+export const analyzePortfolio = async (
+  portfolio: PortfolioResponse,
+  context: AnalysisContext,
+  { lookbackDays = getRiskLookbackDays(), shrinkage, objective, constraints, driftThreshold, trading }: PortfolioAnalysisOptions = {}
+) => {
+  const priceHistory = await loadPriceHistory(equitySymbols(portfolio), lookbackDays);
+  const { riskMetrics, alerts, insights } = await NSERiskEngine.assessPortfolioRisk(
+    portfolio,
+    context.marketData,
+    context.nseIndex,
+    priceHistory,
+    { lookbackDays, shrinkage }
+  );
+  const {
+    rebalanceRecommendations,
+    rebalancePlan,
+    optimizationInsights,
+    targetAllocation,
+    optimization,
+    efficientFrontier,
+  } = NSERecommendationEngine.optimizePortfolio(portfolio, context.marketData, {
+    covariance: riskMetrics.covariance,
+    objective,
+    constraints,
+    rebalanceThreshold: driftThreshold,
+    trading,
+  });
+
+  return {
+    riskMetrics,
+    alerts,
+    insights,
+    optimization: {
+      ...optimization,
+      rebalanceRecommendations,
+      rebalancePlan,
+      targetAllocation,
+      efficientFrontier,
+      insights: optimizationInsights,
+    },
+  };
+};
+
+/**
+ * Only the AI alerts of the risk assessment, for alerting without the optimisation
+ */
+export const assessPortfolioAlerts = async (
+  portfolio: PortfolioResponse,
+  context: AnalysisContext,
+  { lookbackDays = getRiskLookbackDays(), shrinkage }: CovarianceOptions = {}
+): Promise<AIAlert[]> => {
+  const priceHistory = await loadPriceHistory(equitySymbols(portfolio), lookbackDays);
+  const { alerts } = await NSERiskEngine.assessPortfolioRisk(
+    portfolio,
+    context.marketData,
+    context.nseIndex,
+    priceHistory,
+    { lookbackDays, shrinkage }
+  );
+  return alerts;
+};
+
+/**
+ * Broker-ready trades towards the optimised allocation, without the rest of the risk analysis
+ */
+export const planRebalance = async (
+  portfolio: PortfolioResponse,
+  context: AnalysisContext,
+  { lookbackDays = getRiskLookbackDays(), shrinkage, objective, constraints, driftThreshold, trading }: PortfolioAnalysisOptions = {}
+) => {
+  const covariance = await getPortfolioCovariance(portfolio, { lookbackDays, shrinkage });
+  const { rebalancePlan, targetAllocation, optimization } = NSERecommendationEngine.optimizePortfolio(
+    portfolio,
+    context.marketData,
+    { covariance, objective, constraints, rebalanceThreshold: driftThreshold, trading }
+  );
+
+  return {
+    objective: optimization?.objective ?? null,
+    targetAllocation,
+    ...rebalancePlan,
+    warnings: [...(optimization?.warnings ?? []), ...rebalancePlan.warnings],
+  };
+};
+
+/**
+ * Covariance and correlation of a portfolio's holdings, shrunk for thin trading
+ */
+export const getPortfolioCovariance = async (
+  portfolio: PortfolioResponse,
+  { lookbackDays = getRiskLookbackDays(), shrinkage }: CovarianceOptions = {}
+) => {
+  const symbols = equitySymbols(portfolio);
+  const priceHistory = await loadPriceHistory(symbols, lookbackDays);
+  return buildCovarianceModel(priceHistory, symbols, { lookbackDays, shrinkage });
+};
+
+export const adviseInvestment = async (
+  context: AnalysisContext,
+  riskProfile: RiskProfile,
+  investmentAmount: number,
+  timeHorizon: 'short' | 'medium' | 'long'
+) => {
+  const recommendations = await NSERecommendationEngine.generateNSERecommendations(
+    context.marketData,
+    riskProfile,
+    investmentAmount,
+    timeHorizon
+  );
+  const opportunities = NSERecommendationEngine.identifyKenyanMarketOpportunities(context.marketData);
+
+  return { riskProfile, investmentAmount, timeHorizon, recommendations, opportunities };
+};
+
+export const getMarketInsights = (context: AnalysisContext) => ({
+  nseIndex: context.nseIndex,
+  volatility: NSERiskEngine.monitorMarketVolatility(context.marketData),
+  insights: analyzeMarketTrends(context.marketData),
+  opportunities: NSERecommendationEngine.identifyKenyanMarketOpportunities(context.marketData),
+});
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { alertHistory, AlertHistory, CorporateActionType, evaluateAlertRule, isDailyAlertRule } from '../../../shared/ai/index.js';
+import AlertRule, { IAlertRule } from '../models/AlertRule.js';
+import { IWatchlist } from '../models/Watchlist.js';
+import { getAdjustedHistory } from './corporateActions.js';
+import type { NSEStock } from './marketData/index.js';
+import { raiseNotification } from './notifications.js';
+import { nairobiDay } from './priceHistory.js';
+
+const NO_HISTORY: AlertHistory = { averageVolume: null, high52Week: null, low52Week: null };
+
+// Only changes in the share count are adjusted for: the 52-week range and volume are compared
+// with prices as traded, which dividends and rights do not restate
+const RANGE_ACTION_TYPES: CorporateActionType[] = ['bonus', 'split'];
+
+export const serializeWatchlist = (watchlist: IWatchlist) => ({
+  id: watchlist._id.toString(),
+  name: watchlist.name,
+  symbols: watchlist.symbols,
+  created_at: watchlist.createdAt,
+  updated_at: watchlist.updatedAt,
+});
+
+export const serializeAlertRule = (rule: IAlertRule) => ({
+  id: rule._id.toString(),
+  symbol: rule.symbol,
+  type: rule.type,
+  threshold: rule.threshold ?? null,
+  direction: rule.direction,
+  active: rule.active,
+  note: rule.note ?? null,
+  last_triggered_at: rule.lastTriggeredAt ?? null,
+  created_at: rule.createdAt,
+  updated_at: rule.updatedAt,
+});
+
+// Average volume and 52-week range of each symbol, for the rules that need them
+const loadHistories = async (rules: IAlertRule[], day: string): Promise<Map<string, AlertHistory>> => {
+  const symbols = [...new Set(rules.filter(rule => rule.type !== 'price-cross' && rule.type !== 'percent-move').map(rule => rule.symbol))];
+  const histories = new Map<string, AlertHistory>();
+  for (const symbol of symbols) {
+    try {
+      histories.set(symbol, alertHistory(await getAdjustedHistory(symbol, '1Y', undefined, RANGE_ACTION_TYPES), day));
+    } catch (error) {
+      console.warn(`⚠️ No history for ${symbol} alerts:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return histories;
+};
+
+/**
+ * Evaluate every active rule on the symbols of a new snapshot and raise a notification for
+ * each one met. Price crosses compare against the previous snapshot; the other rules fire at
+ * most once per trading day. Notifications go through `raiseNotification`, which skips users
+ * who turned price alerts off. Returns the number of notifications raised.
+ */
+export const evaluateAlerts = async (
+  stocks: NSEStock[],
+  previousStocks: NSEStock[] | null,
+  takenAt: Date = new Date()
+): Promise<number> => {
+  if (mongoose.connection.readyState !== 1) return 0;
+
+  const quotes = new Map(stocks.filter(stock => stock.price > 0).map(stock => [stock.symbol, stock]));
+  const previousPrices = new Map((previousStocks ?? []).map(stock => [stock.symbol, stock.price]));
+  const day = nairobiDay(takenAt);
+
+  const rules = (await AlertRule.find({ active: true, symbol: { $in: [...quotes.keys()] } }))
+    .filter(rule => !(isDailyAlertRule(rule.type) && rule.lastTriggeredAt && nairobiDay(rule.lastTriggeredAt) === day));
+  if (rules.length === 0) return 0;
+
+  const histories = await loadHistories(rules, day);
+
+  let raised = 0;
+  for (const rule of rules) {
+    const stock = quotes.get(rule.symbol)!;
+    const trigger = evaluateAlertRule(rule, {
+      symbol: stock.symbol,
+      price: stock.price,
+      previousPrice: previousPrices.get(stock.symbol) ?? null,
+      changePercent: stock.changePercent,
+      volume: stock.volume,
+    }, histories.get(rule.symbol) ?? NO_HISTORY);
+    if (!trigger) continue;
+
+    const notification = await raiseNotification({
+      user: rule.user,
+      category: 'price-alert',
+      type: 'info',
+      title: trigger.title,
+      message: rule.note ? `${trigger.message} ${rule.note}` : trigger.message,
+      affectedSymbols: [rule.symbol],
+      rule: rule._id.toString(),
+      symbol: rule.symbol,
+      alertRule: rule._id,
+    });
+    rule.lastTriggeredAt = takenAt;
+    await rule.save();
+    if (notification) raised++;
+  }
+  return raised;
+};
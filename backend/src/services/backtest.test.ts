@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AIRecommendation, BacktestData, MarketData, runBacktest } from '../../../shared/ai/index.js';
+
+const DATES = ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06'];
+
+const bars = (closes: number[]) => closes.map((close, i) => ({ date: DATES[i], close, volume: 1000 }));
+
+const buy = (symbol: string) => ({ symbol, type: 'BUY' }) as AIRecommendation;
+
+const NO_FEES = { brokerage: 0, nseLevy: 0, cmaLevy: 0, cdscLevy: 0, icfLevy: 0 };
+
+describe('runBacktest', () => {
+  it('values per-share results and dividends on the close as traded', async () => {
+    const data: BacktestData = {
+      bars: { SCOM: bars([20, 20, 20]) },
+      dividends: { SCOM: [{ symbol: 'SCOM', type: 'dividend', exDate: '2025-12-01', amount: 1 }] },
+      fundamentals: {
+        SCOM: [{ symbol: 'SCOM', period: 'FY2025', periodEnd: '2025-06-30', periodType: 'annual', eps: 2 }],
+      },
+    };
+    const seen: MarketData[] = [];
+    await runBacktest(data, { rebalanceDays: 1 }, marketData => {
+      seen.push(...marketData);
+      return [];
+    });
+
+    assert.equal(seen[0].pe_ratio, 10);
+    assert.equal(seen[0].dividend_yield, 0.05);
+  });
+
+  it('does not let an action going ex after the signal day reach back into its prices', async () => {
+    // A 1:1 bonus halves the price from the fourth day
+    const data: BacktestData = {
+      bars: { SCOM: bars([20, 20, 20, 10, 10]) },
+      shareActions: { SCOM: [{ symbol: 'SCOM', type: 'bonus', exDate: DATES[3], ratio: { numerator: 1, denominator: 1 } }] },
+    };
+    const seen: Record<string, MarketData> = {};
+    const result = await runBacktest(
+      data,
+      { rebalanceDays: 1, initialCapital: 10000, costs: NO_FEES },
+      (marketData, date) => {
+        seen[date] = marketData[0];
+        return [buy('SCOM')];
+      }
+    );
+
+    assert.equal(seen[DATES[0]].current_price, 20);
+    assert.equal(seen[DATES[2]].current_price, 20);
+    // The bonus shares make up for the drop, so neither the day's move nor the portfolio falls
+    assert.equal(seen[DATES[3]].change_percent, 0);
+    const values = result.equityCurve.map(point => point.value);
+    assert.equal(values[3], values[2]);
+  });
+
+  it('pays dividends net of withholding tax on the payment date', async () => {
+    const data: BacktestData = {
+      bars: { SCOM: bars([20, 20, 19, 19, 19]) },
+      dividends: {
+        SCOM: [{ symbol: 'SCOM', type: 'dividend', exDate: DATES[2], paymentDate: DATES[4], amount: 1 }],
+      },
+    };
+    const result = await runBacktest(
+      data,
+      { rebalanceDays: 10, initialCapital: 10000, costs: NO_FEES },
+      () => [buy('SCOM')]
+    );
+
+    // 500 shares bought at 20 lose 1 each ex-dividend and are owed 475 after tax
+    const values = result.equityCurve.map(point => point.value * 10000);
+    assert.equal(values[1], 10000);
+    assert.ok(Math.abs(values[2] - (10000 - 500 + 475)) < 1e-6);
+    assert.ok(Math.abs(values[4] - values[2]) < 1e-6);
+  });
+});
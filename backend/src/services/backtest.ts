@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import { BacktestConfig, BacktestData, runBacktest, SHARE_ACTION_TYPES } from '../../../shared/ai/index.js';
+import BacktestRun, { IBacktestRun } from '../models/BacktestRun.js';
+import { getSymbolCorporateActions, toCorporateAction } from './corporateActions.js';
+import { getDividendHistory } from './dividends.js';
+import { getFundamentalsHistory } from './fundamentals.js';
+import { getIndexHistory } from './indexHistory.js';
+import { getMarketDataProvider } from './marketData/index.js';
+import { getLatestSnapshot } from './marketSnapshot.js';
+import { getStoredSymbols } from './priceHistory.js';
+import { getSymbolListings } from './symbolMaster.js';
+
+/**
+ * Everything the backtester replays: each symbol's stored daily bars as traded from the
+ * configured provider and its bonus, split and rights issues, names from the latest snapshot,
+ * sectors from the symbol master, stored dividends, reported results and NASI levels. Symbols
+ * come from both the price store and the latest snapshot, so counters that have since stopped
+ * trading are still replayed.
+ */
+export const loadBacktestData = async (): Promise<BacktestData> => {
+  const provider = getMarketDataProvider();
+  const { data: snapshot } = await getLatestSnapshot();
+  const symbols = [...new Set([...await getStoredSymbols(), ...snapshot.stocks.map(stock => stock.symbol)])];
+
+  // Unadjusted, so no action after a signal day reaches back into its prices
+  const histories = await Promise.all(symbols.map(async symbol => {
+    const bars = (await provider.getHistory(symbol, 'MAX')).map(({ date, close, volume }) => ({ date, close, volume }));
+    const actions = bars.length > 0 ? await getSymbolCorporateActions(symbol) : [];
+    return {
+      symbol,
+      bars,
+      shareActions: actions.filter(action => SHARE_ACTION_TYPES.includes(action.type)).map(toCorporateAction),
+    };
+  }));
+
+  const benchmark = mongoose.connection.readyState === 1
+    ? { index: 'NASI', closes: (await getIndexHistory('NASI', 'MAX')).map(({ date, close }) => ({ date, close })) }
+    : undefined;
+
+  return {
+    bars: Object.fromEntries(histories.map(({ symbol, bars }) => [symbol, bars])),
+    shareActions: Object.fromEntries(histories.map(({ symbol, shareActions }) => [symbol, shareActions])),
+    names: Object.fromEntries(snapshot.stocks.map(stock => [stock.symbol, stock.name])),
+    sectors: Object.fromEntries(getSymbolListings().map(listing => [listing.symbol, listing.sector])),
+    dividends: await getDividendHistory(),
+    fundamentals: await getFundamentalsHistory(),
+    benchmark,
+  };
+};
+
+/**
+ * Backtest the current recommendation engine and store the run when the database is
+ * connected; returns the run either way.
+ */
+export const runEngineBacktest = async (config: BacktestConfig, userId?: string) => {
+  const result = await runBacktest(await loadBacktestData(), config);
+  const { config: settings, ...report } = result;
+
+  const run = new BacktestRun({
+    ...report,
+    config: settings,
+    provider: getMarketDataProvider().name,
+    createdBy: userId ?? null,
+  });
+  if (mongoose.connection.readyState === 1) {
+    await run.save();
+  }
+  return run;
+};
+
+export const serializeBacktestRun = (run: IBacktestRun, { includeCurve = false } = {}) => ({
+  id: run._id.toString(),
+  engine_version: run.engineVersion,
+  provider: run.provider,
+  created_at: run.createdAt ?? null,
+  start: run.start,
+  end: run.end,
+  trading_days: run.tradingDays,
+  config: {
+    initial_capital: run.config.initialCapital,
+    rebalance_days: run.config.rebalanceDays,
+    risk_profile: run.config.riskProfile,
+    time_horizon: run.config.timeHorizon,
+    max_positions: run.config.maxPositions,
+    drift_threshold: run.config.driftThreshold,
+    costs: run.config.costs,
+  },
+  strategy: {
+    total_return: run.strategy.totalReturn,
+    cagr: run.strategy.cagr,
+    volatility: run.strategy.volatility,
+    sharpe_ratio: run.strategy.sharpeRatio,
+    max_drawdown: run.strategy.maxDrawdown,
+    hit_rate: run.strategy.hitRate,
+    turnover: run.strategy.turnover,
+    trades: run.strategy.trades,
+    fees: run.strategy.fees,
+    recommendations: run.strategy.recommendations,
+  },
+  benchmark: run.benchmark ? {
+    index: run.benchmark.index,
+    total_return: run.benchmark.totalReturn,
+    cagr: run.benchmark.cagr,
+    volatility: run.benchmark.volatility,
+    sharpe_ratio: run.benchmark.sharpeRatio,
+    max_drawdown: run.benchmark.maxDrawdown,
+  } : null,
+  excess_return: run.excessReturn,
+  warnings: run.warnings,
+  ...(includeCurve ? { equity_curve: run.equityCurve } : {}),
+});
@@ -0,0 +1,258 @@
+import mongoose, { Types } from 'mongoose';
+import {
+  backAdjustBars,
+  CORPORATE_ACTION_TYPES,
+  CorporateAction as CorporateActionTerms,
+  CorporateActionType,
+  entitlement,
+  isoDate,
+  MS_PER_DAY,
+  NSE_TRADING_COSTS,
+  priceAdjustmentFactor,
+  round,
+} from '../../../shared/ai/index.js';
+import CorporateAction, { ICorporateAction } from '../models/CorporateAction.js';
+import Portfolio from '../models/Portfolio.js';
+import Transaction, { ITransaction } from '../models/Transaction.js';
+import { deriveLedger, getPortfolioTransactions, LedgerError } from './ledger.js';
+import { getMarketDataProvider, MarketDataProvider } from './marketData/index.js';
+import type { HistoryPeriod, PriceBar } from './priceHistory.js';
+
+const DEFAULT_APPLY_INTERVAL_MINUTES = 60;
+// A manual entry of the same kind this close to the action is taken to be the holder recording it
+const MANUAL_ENTRY_WINDOW_DAYS = 30;
+
+let timer: NodeJS.Timeout | null = null;
+
+const isDatabaseConnected = (): boolean => mongoose.connection.readyState === 1;
+
+
+export const toCorporateAction = (action: ICorporateAction): CorporateActionTerms => ({
+  symbol: action.symbol,
+  type: action.type,
+  exDate: isoDate(action.exDate),
+  amount: action.amount,
+  paymentDate: isoDate(action.paymentDate),
+  ratio: action.ratio?.numerator ? { numerator: action.ratio.numerator, denominator: action.ratio.denominator } : undefined,
+  price: action.price,
+});
+
+export const serializeCorporateAction = (action: ICorporateAction) => ({
+  id: action._id.toString(),
+  symbol: action.symbol,
+  type: action.type,
+  ex_date: isoDate(action.exDate),
+  book_closure_date: isoDate(action.bookClosureDate) ?? null,
+  payment_date: isoDate(action.paymentDate) ?? null,
+  amount: action.amount ?? null,
+  ratio: action.ratio?.numerator ? { numerator: action.ratio.numerator, denominator: action.ratio.denominator } : null,
+  price: action.price ?? null,
+  note: action.note ?? null,
+  applied_at: action.appliedAt ?? null,
+  created_at: action.createdAt,
+  updated_at: action.updatedAt,
+});
+
+/**
+ * Ledger date of an action's entry: dividends on the payment date; bonus issues and splits on
+ * the last day before the ex-date, so they apply to exactly the shares held into it. Rights
+ * are never posted, since taking them up is the holder's decision.
+ */
+export const postingDate = (action: ICorporateAction): Date | null => {
+  if (action.type === 'dividend') return action.paymentDate ?? null;
+  if (action.type === 'bonus' || action.type === 'split') return new Date(action.exDate.getTime() - MS_PER_DAY);
+  return null;
+};
+
+// A symbol's actions, oldest first; none when the database is not connected
+export const getSymbolCorporateActions = async (symbol: string): Promise<ICorporateAction[]> => {
+  if (!isDatabaseConnected()) return [];
+  return CorporateAction.find({ symbol: symbol.toUpperCase() }).sort({ exDate: 1 });
+};
+
+/**
+ * Daily bars from the configured provider, back-adjusted for the symbol's dividends, bonus
+ * issues, splits and rights issues (or only the given `types`) so returns across an ex-date
+ * are not distorted
+ */
+export const getAdjustedHistory = async (
+  symbol: string,
+  period: HistoryPeriod,
+  provider: MarketDataProvider = getMarketDataProvider(),
+  types: CorporateActionType[] = CORPORATE_ACTION_TYPES
+): Promise<PriceBar[]> => {
+  const bars = await provider.getHistory(symbol, period);
+  if (bars.length === 0) return bars;
+  const actions = (await getSymbolCorporateActions(symbol)).filter(action => types.includes(action.type));
+  return backAdjustBars(bars, actions.map(toCorporateAction));
+};
+
+/**
+ * Actions whose ex-date or payment date is still ahead, soonest first, for the given symbols
+ * (or all symbols)
+ */
+export const getUpcomingCorporateActions = async (symbols?: string[], now: Date = new Date()): Promise<ICorporateAction[]> => {
+  if (!isDatabaseConnected()) return [];
+  const today = new Date(`${isoDate(now)}T00:00:00Z`);
+  return CorporateAction.find({
+    ...(symbols ? { symbol: { $in: symbols.map(symbol => symbol.toUpperCase()) } } : {}),
+    $or: [{ exDate: { $gte: today } }, { paymentDate: { $gte: today } }],
+  }).sort({ exDate: 1 });
+};
+
+/**
+ * Whether the action was posted before (even if since reversed, which opts the portfolio out)
+ * or the holder has recorded it by hand
+ */
+const alreadyRecorded = (action: ICorporateAction, transactions: ITransaction[]): boolean => {
+  const reversed = new Set(transactions.flatMap(tx => (tx.type === 'reversal' && tx.reverses ? [tx.reverses.toString()] : [])));
+  const windowStart = action.exDate.getTime() - MANUAL_ENTRY_WINDOW_DAYS * MS_PER_DAY;
+  const windowEnd = (action.paymentDate ?? action.exDate).getTime() + MANUAL_ENTRY_WINDOW_DAYS * MS_PER_DAY;
+  return transactions.some(tx =>
+    tx.corporateAction?.equals(action._id) ||
+    (!tx.corporateAction && !reversed.has(tx._id.toString()) && tx.type === action.type && tx.symbol === action.symbol &&
+      tx.date.getTime() >= windowStart && tx.date.getTime() <= windowEnd)
+  );
+};
+
+// Theoretical ex-date price of a share from the last close before the ex-date, at which a
+// fractional bonus or split entitlement is paid out; null when no close is stored
+const cashInLieuPrice = async (action: ICorporateAction): Promise<number | null> => {
+  const exDate = isoDate(action.exDate);
+  const bars = await getMarketDataProvider().getHistory(action.symbol, 'MAX');
+  const before = bars.filter(bar => bar.date.slice(0, 10) < exDate).pop();
+  return before ? round(before.close * priceAdjustmentFactor(toCorporateAction(action), before.close)) : null;
+};
+
+/**
+ * Post an action to one portfolio's ledger if it held the symbol into the ex-date. Dividends
+ * are recorded net of the resident withholding tax; a fraction of a share from a bonus issue
+ * or split is paid as cash in lieu at the theoretical ex-date price. Returns whether an entry
+ * was added.
+ */
+const applyToPortfolio = async (action: ICorporateAction, portfolioId: Types.ObjectId, userId: Types.ObjectId): Promise<boolean> => {
+  const date = postingDate(action);
+  if (!date) return false;
+
+  const transactions = await getPortfolioTransactions(portfolioId);
+  if (alreadyRecorded(action, transactions)) return false;
+
+  // Shares held at the close before the ex-date
+  const exDate = action.exDate.toISOString();
+  const trail = deriveLedger(transactions).positions.get(action.symbol)?.trail ?? [];
+  const held = trail.filter(step => step.date < exDate).pop()?.shares_after ?? 0;
+  if (held <= 0) return false;
+
+  const terms = toCorporateAction(action);
+  const { cash, shares, fraction } = entitlement(terms, held);
+  const base = { portfolio: portfolioId, user: userId, date, symbol: action.symbol, corporateAction: action._id };
+
+  if (action.type === 'dividend') {
+    if (cash <= 0) return false;
+    const tax = round(cash * NSE_TRADING_COSTS.withholdingTax);
+    await Transaction.create({
+      ...base,
+      type: 'dividend',
+      amount: round(cash - tax),
+      taxWithheld: tax,
+      note: `KES ${action.amount} per share on ${held.toLocaleString()} shares, posted automatically`,
+    });
+    return true;
+  }
+
+  if (shares === 0 && fraction === 0) return false;
+  const price = fraction > 0 ? await cashInLieuPrice(action) : null;
+  if (fraction > 0 && price === null) {
+    console.warn(`⚠️ No close before the ${action.symbol} ${action.type} ex-date: ${round(fraction)} of a share for portfolio ${portfolioId} is posted without cash in lieu`);
+  }
+  const inLieu = price !== null ? `, ${round(fraction)} of a share paid in cash at KES ${price}` : '';
+  await Transaction.create({
+    ...base,
+    type: action.type,
+    ratio: terms.ratio,
+    price: price ?? undefined,
+    note: `${terms.ratio!.numerator}:${terms.ratio!.denominator} ${action.type} on ${held.toLocaleString()} shares${inLieu}, posted automatically`,
+  });
+  return true;
+};
+
+/**
+ * Post an action to every portfolio that has traded the symbol. Safe to repeat: portfolios
+ * that already have an entry for it, posted or recorded by hand, are left alone.
+ */
+export const applyCorporateAction = async (action: ICorporateAction): Promise<number> => {
+  const portfolioIds: Types.ObjectId[] = await Transaction.distinct('portfolio', { symbol: action.symbol });
+  const portfolios = await Portfolio.find({ _id: { $in: portfolioIds } }).select('user');
+
+  let posted = 0;
+  for (const portfolio of portfolios) {
+    try {
+      if (await applyToPortfolio(action, portfolio._id, portfolio.user)) posted++;
+    } catch (error) {
+      // One inconsistent ledger must not hold up everyone else's entitlement
+      if (!(error instanceof LedgerError)) throw error;
+      console.warn(`⚠️ Skipped ${action.symbol} ${action.type} for portfolio ${portfolio._id}: ${error.message}`);
+    }
+  }
+  return posted;
+};
+
+/**
+ * Bring one portfolio up to date with the symbol's past actions, after an entry dated before
+ * one of them was recorded
+ */
+export const applyPastCorporateActions = async (portfolioId: Types.ObjectId, userId: Types.ObjectId, symbol: string): Promise<number> => {
+  const actions = await CorporateAction.find({ symbol: symbol.toUpperCase(), appliedAt: { $exists: true } }).sort({ exDate: 1 });
+  let posted = 0;
+  for (const action of actions) {
+    if (await applyToPortfolio(action, portfolioId, userId)) posted++;
+  }
+  return posted;
+};
+
+// Post every action whose posting date has arrived and that has not been applied yet
+export const applyDueCorporateActions = async (now: Date = new Date()): Promise<{ applied: number; posted: number }> => {
+  if (!isDatabaseConnected()) return { applied: 0, posted: 0 };
+
+  const pending = await CorporateAction.find({ type: { $ne: 'rights' }, appliedAt: { $exists: false } }).sort({ exDate: 1 });
+  let applied = 0;
+  let posted = 0;
+  for (const action of pending) {
+    const date = postingDate(action);
+    if (!date || date > now || action.exDate > now) continue;
+
+    posted += await applyCorporateAction(action);
+    action.appliedAt = now;
+    await action.save();
+    applied++;
+  }
+  return { applied, posted };
+};
+
+const runApply = async () => {
+  try {
+    const { applied, posted } = await applyDueCorporateActions();
+    if (applied > 0) {
+      console.log(`🏷️  Applied ${applied} corporate actions, posting ${posted} ledger entries`);
+    }
+  } catch (error) {
+    console.error('❌ Corporate action posting failed:', error instanceof Error ? error.message : error);
+  }
+};
+
+export const startCorporateActionPosting = (): void => {
+  if (timer) return;
+
+  const intervalMs = (Number(process.env.CORPORATE_ACTIONS_INTERVAL_MINUTES) || DEFAULT_APPLY_INTERVAL_MINUTES) * 60000;
+  console.log(`⏱️  Corporate action posting every ${intervalMs / 60000} min`);
+
+  runApply();
+  timer = setInterval(runApply, intervalMs);
+};
+
+export const stopCorporateActionPosting = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildCovarianceModel, PriceHistory } from '../../../shared/ai/index.js';
+
+// Deterministic noisy daily closes. Counters in the same group move together, so the
+// correlations are far from constant and the sample should only be partly shrunk
+const history = (days: number, groups: string[][]): PriceHistory => {
+  let seed = 42;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648 - 0.5;
+  };
+  const closes: PriceHistory = {};
+  const levels: Record<string, number> = {};
+  groups.flat().forEach(symbol => {
+    closes[symbol] = [];
+    levels[symbol] = 100;
+  });
+  for (let day = 0; day < days; day++) {
+    const date = new Date(Date.UTC(2026, 0, 1) + day * 86400000).toISOString().slice(0, 10);
+    groups.forEach(group => {
+      const factor = noise() * 0.04;
+      group.forEach(symbol => {
+        levels[symbol] *= 1 + factor + noise() * 0.01;
+        closes[symbol].push({ date, close: levels[symbol] });
+      });
+    });
+  }
+  return closes;
+};
+
+describe('buildCovarianceModel', () => {
+  const prices = history(250, [['SCOM', 'EQTY'], ['KCB', 'EABL']]);
+
+  it('shrinks towards constant correlation with an intensity between 0 and 1', () => {
+    const model = buildCovarianceModel(prices, ['SCOM', 'EQTY', 'KCB', 'EABL']);
+
+    assert.equal(model.shrinkage.method, 'ledoit-wolf');
+    assert.ok(model.shrinkage.intensity > 0 && model.shrinkage.intensity < 1, `intensity ${model.shrinkage.intensity}`);
+    model.covariance.forEach((row, i) => row.forEach((value, j) => assert.ok(Math.abs(value - model.covariance[j][i]) < 1e-12)));
+    model.correlation.forEach((row, i) => assert.equal(row[i], 1));
+  });
+
+  it('clamps a fixed intensity to between 0 and 1', () => {
+    assert.equal(buildCovarianceModel(prices, ['SCOM', 'EQTY'], { shrinkage: 0.3 }).shrinkage.intensity, 0.3);
+    assert.equal(buildCovarianceModel(prices, ['SCOM', 'EQTY'], { shrinkage: 1.5 }).shrinkage.intensity, 1);
+    assert.equal(buildCovarianceModel(prices, ['SCOM', 'EQTY'], { shrinkage: -0.2 }).shrinkage.intensity, 0);
+  });
+
+  it('leaves out counters whose price never moves', () => {
+    const flat = { ...prices, NBV: prices.SCOM.map(({ date }) => ({ date, close: 1.5 })) };
+    const model = buildCovarianceModel(flat, ['SCOM', 'NBV']);
+
+    assert.deepEqual(model.symbols, ['SCOM']);
+    assert.deepEqual(model.symbolsMissing, ['NBV']);
+  });
+});
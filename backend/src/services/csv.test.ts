@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCsvNumber, parseCsvRecords } from './csv.js';
+
+describe('parseCsvRecords', () => {
+  it('keys rows by the lower-cased header and keeps quoted commas', () => {
+    assert.deepEqual(parseCsvRecords('Symbol,Shares_Outstanding\nSCOM,"40,065,428,000"\n\n'), [
+      { symbol: 'SCOM', shares_outstanding: '40,065,428,000' },
+    ]);
+  });
+});
+
+describe('parseCsvNumber', () => {
+  it('reads blanks as missing and allows thousands separators', () => {
+    assert.equal(parseCsvNumber(undefined), undefined);
+    assert.equal(parseCsvNumber('  '), undefined);
+    assert.equal(parseCsvNumber('1,234.5'), 1234.5);
+    assert.equal(parseCsvNumber('-0.75'), -0.75);
+    assert.equal(parseCsvNumber(12), 12);
+  });
+
+  it('reads a percentage as a fraction only where asked to', () => {
+    assert.equal(parseCsvNumber('24.5%', { percent: true }), 0.245);
+    assert.equal(parseCsvNumber('0.245', { percent: true }), 0.245);
+    assert.ok(Number.isNaN(parseCsvNumber('24.5%')));
+  });
+
+  it('rejects partly numeric cells', () => {
+    ['12abc', '1.2.3', '0x10', 'Infinity', '12 %', '%'].forEach(cell =>
+      assert.ok(Number.isNaN(parseCsvNumber(cell, { percent: true })), cell)
+    );
+  });
+});
@@ -0,0 +1,44 @@
+// Split one CSV line, honouring double-quoted fields (e.g. "1,234,500")
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else current += char;
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+// Rows of a CSV file keyed by its lower-cased header row; blank lines are ignored
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const headers = splitCsvLine(lines[0]).map(header => header.toLowerCase());
+  return lines.slice(1).map(line => {
+    const fields = splitCsvLine(line);
+    return Object.fromEntries(headers.map((header, i) => [header, fields[i]]));
+  });
+};
+
+/**
+ * A numeric cell. Blank is a missing figure (undefined) and thousands separators are allowed;
+ * with `percent`, "24.5%" is read as the fraction 0.245. Anything else, including partly
+ * numeric text such as "12abc" or a % on a figure that is not a ratio, is NaN for the caller
+ * to reject.
+ */
+export const parseCsvNumber = (value: number | string | undefined, { percent = false } = {}): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number') return value;
+  const text = value.replace(/,/g, '').trim();
+  if (text === '') return undefined;
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i.exec(text);
+  if (!match || (match[2] && !percent)) return NaN;
+  return match[2] ? Number(match[1]) / 100 : Number(match[1]);
+};
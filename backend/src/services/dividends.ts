@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import {
+  CorporateAction as CorporateActionTerms,
+  dividendYield,
+  DividendIncomeProjection,
+  DividendYield,
+  isoDate,
+  MS_PER_DAY,
+  projectDividendIncome,
+  round,
+} from '../../../shared/ai/index.js';
+import CorporateAction from '../models/CorporateAction.js';
+import { toCorporateAction } from './corporateActions.js';
+import type { DerivedLedger } from './ledger.js';
+
+// Dividends that went ex within this many days are enough for trailing yields and projections
+const LOOKBACK_DAYS = 400;
+
+/**
+ * Recent and declared dividends grouped by symbol, for the given symbols (or all symbols);
+ * none when the database is not connected
+ */
+export const getRecentDividends = async (
+  symbols?: string[],
+  now: Date = new Date()
+): Promise<Record<string, CorporateActionTerms[]>> => {
+  if (mongoose.connection.readyState !== 1) return {};
+
+  const actions = await CorporateAction.find({
+    type: 'dividend',
+    exDate: { $gte: new Date(now.getTime() - LOOKBACK_DAYS * MS_PER_DAY) },
+    ...(symbols ? { symbol: { $in: symbols.map(symbol => symbol.toUpperCase()) } } : {}),
+  }).sort({ exDate: 1 });
+
+  const bySymbol: Record<string, CorporateActionTerms[]> = {};
+  actions.forEach(action => (bySymbol[action.symbol] ??= []).push(toCorporateAction(action)));
+  return bySymbol;
+};
+
+// Every stored dividend grouped by symbol, oldest first, for replaying history
+export const getDividendHistory = async (): Promise<Record<string, CorporateActionTerms[]>> => {
+  if (mongoose.connection.readyState !== 1) return {};
+
+  const actions = await CorporateAction.find({ type: 'dividend' }).sort({ exDate: 1 });
+  const bySymbol: Record<string, CorporateActionTerms[]> = {};
+  actions.forEach(action => (bySymbol[action.symbol] ??= []).push(toCorporateAction(action)));
+  return bySymbol;
+};
+
+// Trailing and forward yields on the given prices for every symbol with recent dividends
+export const getDividendYields = async (prices: Map<string, number>, now: Date = new Date()): Promise<Map<string, DividendYield>> => {
+  const dividends = await getRecentDividends(undefined, now);
+  return new Map(Object.entries(dividends).map(([symbol, actions]) =>
+    [symbol, dividendYield(symbol, actions, prices.get(symbol), isoDate(now))]
+  ));
+};
+
+/**
+ * Dividend income a portfolio can expect over the next 12 months, net of withholding tax,
+ * from the shares its ledger holds, next to the net dividends it received over the last 12
+ */
+export const projectPortfolioIncome = async (
+  ledger: DerivedLedger,
+  now: Date = new Date()
+): Promise<DividendIncomeProjection & { receivedLast12Months: number }> => {
+  const positions = [...ledger.positions.values()].filter(position => position.trail.length > 0);
+  const dividends = await getRecentDividends(positions.map(position => position.symbol), now);
+
+  const holdings = positions
+    .filter(position => dividends[position.symbol])
+    .map(position => ({
+      symbol: position.symbol,
+      steps: position.trail.map(step => ({ date: step.date, units: step.shares_after })),
+    }));
+  const yearAgo = new Date(now.getTime() - 365 * MS_PER_DAY).toISOString();
+  const received = ledger.cashTrail
+    .filter(step => step.type === 'dividend' && step.date > yearAgo)
+    .reduce((sum, step) => sum + step.cash_delta, 0);
+
+  return {
+    ...projectDividendIncome(holdings, dividends, isoDate(now)),
+    receivedLast12Months: round(received),
+  };
+};
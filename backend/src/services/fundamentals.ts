@@ -0,0 +1,154 @@
+import mongoose from 'mongoose';
+import { Fundamentals, isoDate, latestFundamentals } from '../../../shared/ai/index.js';
+import Fundamental, { FUNDAMENTAL_PERIOD_TYPES, FundamentalPeriodType, IFundamental } from '../models/Fundamental.js';
+import { parseCsvNumber, parseCsvRecords } from './csv.js';
+
+export interface FundamentalsRow {
+  symbol?: string;
+  period?: string;
+  period_end?: string;
+  period_type?: string;
+  eps?: number | string;
+  dps?: number | string;
+  nav_per_share?: number | string;
+  roe?: number | string;
+  debt_to_equity?: number | string;
+  revenue_growth?: number | string;
+}
+
+export interface FundamentalsImportResult {
+  inserted: number;
+  updated: number;
+  rejected: { row: number; reason: string }[];
+}
+
+export const toFundamentals = (fundamental: IFundamental): Fundamentals => ({
+  symbol: fundamental.symbol,
+  period: fundamental.period,
+  periodEnd: isoDate(fundamental.periodEnd),
+  periodType: fundamental.periodType,
+  eps: fundamental.eps,
+  dps: fundamental.dps,
+  navPerShare: fundamental.navPerShare,
+  roe: fundamental.roe,
+  debtToEquity: fundamental.debtToEquity,
+  revenueGrowth: fundamental.revenueGrowth,
+});
+
+export const serializeFundamental = (fundamental: IFundamental) => ({
+  id: fundamental._id.toString(),
+  symbol: fundamental.symbol,
+  period: fundamental.period,
+  period_end: isoDate(fundamental.periodEnd),
+  period_type: fundamental.periodType,
+  eps: fundamental.eps ?? null,
+  dps: fundamental.dps ?? null,
+  nav_per_share: fundamental.navPerShare ?? null,
+  roe: fundamental.roe ?? null,
+  debt_to_equity: fundamental.debtToEquity ?? null,
+  revenue_growth: fundamental.revenueGrowth ?? null,
+  source: fundamental.source ?? null,
+  updated_at: fundamental.updatedAt,
+});
+
+/**
+ * Store reported results. A period already stored for a symbol is overwritten, since
+ * companies restate; figures left blank are cleared.
+ */
+export const importFundamentals = async (
+  rows: FundamentalsRow[],
+  { defaultSymbol, source }: { defaultSymbol?: string; source?: string } = {}
+): Promise<FundamentalsImportResult> => {
+  const result: FundamentalsImportResult = { inserted: 0, updated: 0, rejected: [] };
+  const valid: (Omit<Fundamentals, 'periodEnd'> & { periodEnd: Date })[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const symbol = String(row.symbol || defaultSymbol || '').trim().toUpperCase();
+    const period = String(row.period ?? '').trim();
+    const periodEnd = String(row.period_end ?? '').trim().slice(0, 10);
+    const periodType = (String(row.period_type ?? '').trim().toLowerCase() || 'annual') as FundamentalPeriodType;
+    const figures = {
+      eps: parseCsvNumber(row.eps),
+      dps: parseCsvNumber(row.dps),
+      navPerShare: parseCsvNumber(row.nav_per_share),
+      // Ratios may be given as "24.5%" or 0.245; per-share figures are in KES
+      roe: parseCsvNumber(row.roe, { percent: true }),
+      debtToEquity: parseCsvNumber(row.debt_to_equity),
+      revenueGrowth: parseCsvNumber(row.revenue_growth, { percent: true }),
+    };
+
+    let reason: string | null = null;
+    if (!symbol) reason = 'missing symbol';
+    else if (!period) reason = 'missing period';
+    else if (!/^\d{4}-\d{2}-\d{2}$/.test(periodEnd) || isNaN(Date.parse(periodEnd))) reason = `invalid period end "${row.period_end}"`;
+    else if (!FUNDAMENTAL_PERIOD_TYPES.includes(periodType)) reason = `period type must be one of: ${FUNDAMENTAL_PERIOD_TYPES.join(', ')}`;
+    else if (Object.values(figures).some(value => value !== undefined && !Number.isFinite(value))) reason = 'non-numeric figure';
+    else if (Object.values(figures).every(value => value === undefined)) reason = 'no figures';
+    else if ((figures.dps ?? 0) < 0 || (figures.debtToEquity ?? 0) < 0) reason = 'negative DPS or debt/equity';
+    else if (seen.has(`${symbol}|${period}`)) reason = `duplicate ${symbol} ${period} in this import`;
+
+    if (reason) {
+      result.rejected.push({ row: index + 1, reason });
+      return;
+    }
+    seen.add(`${symbol}|${period}`);
+    valid.push({ symbol, period, periodEnd: new Date(`${periodEnd}T00:00:00Z`), periodType, ...figures });
+  });
+
+  if (valid.length === 0) return result;
+
+  const write = await Fundamental.bulkWrite(valid.map(({ symbol, period, ...fields }) => {
+    const entries = Object.entries({ ...fields, source });
+    const cleared = entries.filter(([, value]) => value === undefined).map(([key]) => [key, '']);
+    return {
+      updateOne: {
+        filter: { symbol, period },
+        update: {
+          $set: Object.fromEntries(entries.filter(([, value]) => value !== undefined)),
+          ...(cleared.length > 0 && { $unset: Object.fromEntries(cleared) }),
+        },
+        upsert: true,
+      },
+    };
+  }));
+  result.inserted = write.upsertedCount;
+  result.updated = valid.length - write.upsertedCount;
+  return result;
+};
+
+// CSV with a header row naming: symbol, period, period_end, period_type and any of the figures
+export const parseFundamentalsCsv = (text: string): FundamentalsRow[] => parseCsvRecords(text) as FundamentalsRow[];
+
+// JSON as an array of rows, or `{ symbol, periods: [...] }` for a single symbol
+export const parseFundamentalsJson = (body: unknown): { rows: FundamentalsRow[]; symbol?: string } => {
+  if (Array.isArray(body)) return { rows: body };
+  const parsed = body as { symbol?: string; periods?: unknown } | null;
+  if (parsed && Array.isArray(parsed.periods)) return { rows: parsed.periods, symbol: parsed.symbol };
+  throw new Error('Expected an array of periods or an object with a "periods" array');
+};
+
+// A symbol's stored periods, latest first; none when the database is not connected
+export const getSymbolFundamentals = async (symbol: string): Promise<IFundamental[]> => {
+  if (mongoose.connection.readyState !== 1) return [];
+  return Fundamental.find({ symbol: symbol.toUpperCase() }).sort({ periodEnd: -1 });
+};
+
+// Every stored period grouped by symbol, oldest first
+export const getFundamentalsHistory = async (): Promise<Record<string, Fundamentals[]>> => {
+  if (mongoose.connection.readyState !== 1) return {};
+
+  const periods = await Fundamental.find().sort({ periodEnd: 1 });
+  const bySymbol: Record<string, Fundamentals[]> = {};
+  periods.forEach(period => (bySymbol[period.symbol] ??= []).push(toFundamentals(period)));
+  return bySymbol;
+};
+
+// The latest annual results (or interim, where no annual are stored) of every symbol
+export const getLatestFundamentals = async (): Promise<Map<string, Fundamentals>> => {
+  const history = await getFundamentalsHistory();
+  return new Map(Object.entries(history).flatMap(([symbol, periods]) => {
+    const latest = latestFundamentals(periods);
+    return latest ? [[symbol, latest] as const] : [];
+  }));
+};
@@ -0,0 +1,63 @@
+import { FinancialGoal, GoalPlan, isoDate, portfolioReturnAssumptions, projectGoals } from '../../../shared/ai/index.js';
+import Goal, { IGoal } from '../models/Goal.js';
+import { getPortfolioCovariance, loadAnalysisContext, loadUserPortfolio } from './aiAnalysis.js';
+
+export interface GoalProjectionRequest {
+  // Override the assumptions derived from the portfolio's holdings
+  expectedReturn?: number;
+  volatility?: number;
+  confidence?: number;
+}
+
+export const serializeGoal = (goal: IGoal) => ({
+  id: goal._id.toString(),
+  user_id: goal.user.toString(),
+  portfolio_id: goal.portfolio.toString(),
+  name: goal.name,
+  target_amount: goal.targetAmount,
+  target_date: isoDate(goal.targetDate),
+  monthly_contribution: goal.monthlyContribution,
+  priority: goal.priority,
+  created_at: goal.createdAt,
+  updated_at: goal.updatedAt,
+});
+
+const toFinancialGoal = (goal: IGoal): FinancialGoal => ({
+  id: goal._id.toString(),
+  name: goal.name,
+  targetAmount: goal.targetAmount,
+  targetDate: isoDate(goal.targetDate),
+  monthlyContribution: goal.monthlyContribution,
+  priority: goal.priority,
+});
+
+/**
+ * Project every goal funded from a portfolio against its current value and holdings, or null
+ * if the portfolio is not the user's. Throws a GoalPlanningError for goals beyond the horizon.
+ */
+export const projectPortfolioGoals = async (
+  userId: string,
+  portfolioId: string,
+  { expectedReturn, volatility, confidence }: GoalProjectionRequest = {}
+): Promise<{ portfolioId: string; portfolioName: string; plan: GoalPlan } | null> => {
+  const context = await loadAnalysisContext();
+  const portfolio = await loadUserPortfolio(userId, portfolioId, context);
+  if (!portfolio) return null;
+
+  const goals = await Goal.find({ user: userId, portfolio: portfolio.id }).sort({ targetDate: 1 });
+
+  // Only measure the holdings' risk when it is needed
+  const needsAssumptions = goals.length > 0 && (expectedReturn === undefined || volatility === undefined);
+  const covariance = needsAssumptions && portfolio.holdings.length > 0
+    ? await getPortfolioCovariance(portfolio)
+    : null;
+  const assumed = portfolioReturnAssumptions(portfolio, covariance);
+
+  const plan = projectGoals(portfolio.total_value, goals.map(toFinancialGoal), {
+    expectedReturn: expectedReturn ?? assumed.expectedReturn,
+    volatility: volatility ?? assumed.volatility,
+    confidence,
+  });
+
+  return { portfolioId: portfolio.id, portfolioName: portfolio.name, plan };
+};
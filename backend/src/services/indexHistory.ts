@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import IndexTick, { NSE_INDICES, NSEIndexCode } from '../models/IndexTick.js';
+import { NSE_TIMEZONE } from './marketCalendar.js';
+import type { IndexQuote } from './marketData/types.js';
+import { HistoryPeriod, nairobiDay, periodStart } from './priceHistory.js';
+
+export interface IndexBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export const isIndexCode = (value: unknown): value is NSEIndexCode =>
+  typeof value === 'string' && (NSE_INDICES as readonly string[]).includes(value);
+
+// Accepts the codes plus the spellings used on NSE pages, e.g. "nse 20" or "N20I"
+export const parseIndexCode = (value: string): NSEIndexCode | null => {
+  const normalized = value.toUpperCase().replace(/[\s_-]/g, '');
+  if (normalized === 'N20I') return 'NSE20';
+  if (normalized === 'N25I') return 'NSE25';
+  return isIndexCode(normalized) ? normalized : null;
+};
+
+/**
+ * Persist the index levels of a snapshot. Skipped when the database is not connected,
+ * like price ticks.
+ */
+export const recordIndexLevels = async (indices: IndexQuote[], takenAt: Date = new Date()): Promise<number> => {
+  if (mongoose.connection.readyState !== 1) return 0;
+
+  const ticks = indices
+    .filter(quote => Number.isFinite(quote.value) && quote.value > 0)
+    .map(quote => ({
+      index: quote.index,
+      timestamp: takenAt,
+      value: quote.value,
+      change: quote.change,
+      changePercent: quote.changePercent,
+    }));
+
+  if (ticks.length > 0) {
+    await IndexTick.insertMany(ticks, { ordered: false });
+  }
+  return ticks.length;
+};
+
+/**
+ * Daily bars of an index's level over a period; `1D` returns the latest session's
+ * intraday readings, as for stock history.
+ */
+export const getIndexHistory = async (index: NSEIndexCode, period: HistoryPeriod): Promise<IndexBar[]> => {
+  if (period === '1D') {
+    const latest = await IndexTick.findOne({ index }).sort({ timestamp: -1 });
+    if (!latest) return [];
+
+    const ticks = await IndexTick.find({
+      index,
+      timestamp: { $gte: periodStart('1D', latest.timestamp)! },
+    }).sort({ timestamp: 1 });
+
+    return ticks
+      .filter(tick => nairobiDay(tick.timestamp) === nairobiDay(latest.timestamp))
+      .map(tick => ({
+        date: tick.timestamp.toISOString(),
+        open: tick.value,
+        high: tick.value,
+        low: tick.value,
+        close: tick.value,
+      }));
+  }
+
+  const start = periodStart(period);
+  const bars = await IndexTick.aggregate<{ _id: Date; open: number; high: number; low: number; close: number }>([
+    { $match: { index, ...(start ? { timestamp: { $gte: start } } : {}) } },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: { $dateTrunc: { date: '$timestamp', unit: 'day', timezone: NSE_TIMEZONE } },
+        open: { $first: '$value' },
+        high: { $max: '$value' },
+        low: { $min: '$value' },
+        close: { $last: '$value' },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  return bars.map(bar => ({
+    date: nairobiDay(bar._id),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+  }));
+};
@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+import { isoDate } from '../../../shared/ai/index.js';
+import type { AccrualStep, FixedIncomeTerms } from '../../../shared/ai/index.js';
+import Instrument, { IInstrument } from '../models/Instrument.js';
+import type { DerivedPosition } from './ledger.js';
+
+// A portfolio's fixed income terms by ledger symbol
+export type InstrumentMap = Map<string, IInstrument>;
+
+
+export const getPortfolioInstruments = async (portfolioId: Types.ObjectId | string): Promise<InstrumentMap> => {
+  const instruments = await Instrument.find({ portfolio: portfolioId });
+  return new Map(instruments.map(instrument => [instrument.symbol, instrument]));
+};
+
+// Terms for several portfolios with a single query
+export const getInstrumentsByPortfolio = async (portfolioIds: Types.ObjectId[]): Promise<Map<string, InstrumentMap>> => {
+  const instruments = await Instrument.find({ portfolio: { $in: portfolioIds } });
+  const byPortfolio = new Map<string, InstrumentMap>(portfolioIds.map(id => [id.toString(), new Map()]));
+  instruments.forEach(instrument => byPortfolio.get(instrument.portfolio.toString())?.set(instrument.symbol, instrument));
+  return byPortfolio;
+};
+
+export const instrumentTerms = (instrument: IInstrument): FixedIncomeTerms => ({
+  assetType: instrument.assetType,
+  yield: instrument.yield,
+  couponRate: instrument.couponRate,
+  couponFrequency: instrument.couponFrequency,
+  issueDate: isoDate(instrument.issueDate),
+  maturityDate: isoDate(instrument.maturityDate),
+});
+
+// Units held from the last interest entry on (or the first entry), for daily accrual
+export const accrualSteps = (position: DerivedPosition): AccrualStep[] => {
+  const lastInterest = position.trail.map(step => step.type).lastIndexOf('interest');
+  return position.trail
+    .slice(Math.max(0, lastInterest))
+    .map(step => ({ date: step.date, units: step.shares_after }));
+};
+
+export const serializeInstrument = (instrument: IInstrument) => ({
+  id: instrument._id.toString(),
+  portfolio_id: instrument.portfolio.toString(),
+  symbol: instrument.symbol,
+  asset_type: instrument.assetType,
+  name: instrument.name,
+  issuer: instrument.issuer ?? null,
+  yield: instrument.yield,
+  yield_updated_at: instrument.yieldUpdatedAt,
+  coupon_rate: instrument.couponRate ?? null,
+  coupon_frequency: instrument.couponFrequency ?? null,
+  issue_date: isoDate(instrument.issueDate) ?? null,
+  maturity_date: isoDate(instrument.maturityDate) ?? null,
+  created_at: instrument.createdAt,
+  updated_at: instrument.updatedAt,
+});
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import mongoose from 'mongoose';
+import Transaction, { ITransaction } from '../models/Transaction.js';
+import { cashShortfall, deriveLedger, LedgerError } from './ledger.js';
+
+const PORTFOLIO_ID = new mongoose.Types.ObjectId();
+const USER_ID = new mongoose.Types.ObjectId();
+
+let recorded = 0;
+
+// A stored entry; each one is recorded a second after the previous
+const entry = (fields: Partial<Omit<ITransaction, 'date'>> & { date: string }): ITransaction =>
+  new Transaction({
+    portfolio: PORTFOLIO_ID,
+    user: USER_ID,
+    ...fields,
+    date: new Date(`${fields.date}T00:00:00Z`),
+    createdAt: new Date(Date.UTC(2026, 0, 1) + ++recorded * 1000),
+  });
+
+const deposit = (date: string, amount: number) => entry({ type: 'deposit', date, amount });
+
+describe('deriveLedger', () => {
+  it('keeps an average cost across buys and realizes gains on sells net of fees', () => {
+    const ledger = deriveLedger([
+      deposit('2026-01-02', 10000),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'SCOM', shares: 100, price: 10, fees: 10 }),
+      entry({ type: 'buy', date: '2026-01-06', symbol: 'SCOM', shares: 100, price: 20 }),
+      entry({ type: 'sell', date: '2026-01-07', symbol: 'SCOM', shares: 50, price: 25, fees: 5 }),
+    ]);
+
+    const position = ledger.positions.get('SCOM')!;
+    assert.equal(position.shares, 150);
+    // 3010 cost for 200 shares, less the 50 sold at 15.05
+    assert.equal(position.costBasis, 2257.5);
+    assert.equal(position.realizedGain, 1245 - 752.5);
+    assert.equal(ledger.cashBalance, 10000 - 3010 + 1245);
+    assert.equal(ledger.feesPaid, 15);
+  });
+
+  it('skips reversed entries and the reversals themselves', () => {
+    const buy = entry({ type: 'buy', date: '2026-01-05', symbol: 'SCOM', shares: 100, price: 10 });
+    const ledger = deriveLedger([
+      deposit('2026-01-02', 5000),
+      buy,
+      entry({ type: 'reversal', date: '2026-01-06', reverses: buy._id }),
+    ]);
+
+    assert.equal(ledger.positions.get('SCOM')?.shares ?? 0, 0);
+    assert.equal(ledger.cashBalance, 5000);
+  });
+
+  it('rejects selling more shares than held', () => {
+    assert.throws(() => deriveLedger([
+      deposit('2026-01-02', 5000),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'SCOM', shares: 100, price: 10 }),
+      entry({ type: 'sell', date: '2026-01-06', symbol: 'SCOM', shares: 101, price: 10 }),
+    ]), LedgerError);
+  });
+
+  it('rejects overdrawing cash unless asked to allow it', () => {
+    const transactions = [
+      deposit('2026-01-02', 500),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'SCOM', shares: 100, price: 10 }),
+    ];
+
+    assert.throws(() => deriveLedger(transactions), /Insufficient cash on 2026-01-05/);
+    assert.equal(deriveLedger(transactions, { allowOverdraft: true }).cashBalance, -500);
+  });
+
+  it('adds bonus shares at no cost, lowering the average cost', () => {
+    const ledger = deriveLedger([
+      deposit('2026-01-02', 5000),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'EQTY', shares: 100, price: 45 }),
+      entry({ type: 'bonus', date: '2026-02-01', symbol: 'EQTY', ratio: { numerator: 1, denominator: 2 } }),
+    ]);
+
+    const position = ledger.positions.get('EQTY')!;
+    assert.equal(position.shares, 150);
+    assert.equal(position.costBasis, 4500);
+    assert.equal(position.trail.at(-1)?.shares_delta, 50);
+  });
+
+  it('pays a fraction of a bonus share as cash in lieu, realizing its cost', () => {
+    const ledger = deriveLedger([
+      deposit('2026-01-02', 5000),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'EQTY', shares: 100, price: 40 }),
+      entry({ type: 'bonus', date: '2026-02-01', symbol: 'EQTY', price: 30, ratio: { numerator: 1, denominator: 3 } }),
+    ]);
+
+    const position = ledger.positions.get('EQTY')!;
+    const step = position.trail.at(-1)!;
+    assert.equal(position.shares, 133);
+    assert.equal(step.fractional_shares, 0.3333);
+    // A third of a share at 30, against a third of a share's cost of 4000 / 133.33
+    assert.ok(Math.abs(ledger.cashBalance - 1010) < 1e-9);
+    assert.ok(Math.abs(position.costBasis - 3990) < 1e-9);
+    assert.ok(Math.abs(position.realizedGain) < 1e-9);
+  });
+
+  it('pays out a consolidation that leaves less than one share instead of keeping its cost on no shares', () => {
+    const ledger = deriveLedger([
+      deposit('2026-01-02', 1000),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'KQ', shares: 5, price: 4 }),
+      entry({ type: 'split', date: '2026-02-01', symbol: 'KQ', price: 50, ratio: { numerator: 1, denominator: 10 } }),
+    ]);
+
+    const position = ledger.positions.get('KQ')!;
+    assert.equal(position.shares, 0);
+    assert.equal(position.costBasis, 0);
+    assert.equal(position.trail.at(-1)?.fractional_shares, 0.5);
+    assert.equal(position.realizedGain, 25 - 20);
+    assert.equal(ledger.cashBalance, 1000 - 20 + 25);
+  });
+
+  it('writes off a fraction recorded without a cash in lieu price as a realized loss', () => {
+    const ledger = deriveLedger([
+      deposit('2026-01-02', 1000),
+      entry({ type: 'buy', date: '2026-01-05', symbol: 'KQ', shares: 5, price: 4 }),
+      entry({ type: 'split', date: '2026-02-01', symbol: 'KQ', ratio: { numerator: 1, denominator: 10 } }),
+    ]);
+
+    assert.equal(ledger.positions.get('KQ')?.realizedGain, -20);
+    assert.equal(ledger.cashBalance, 980);
+  });
+});
+
+describe('cashShortfall', () => {
+  it('covers later debits that a back-dated purchase leaves uncovered', () => {
+    const buy = entry({ type: 'buy', date: '2026-02-01', symbol: 'SCOM', shares: 100, price: 5 });
+    const transactions = [
+      deposit('2026-01-02', 1000),
+      entry({ type: 'withdrawal', date: '2026-03-01', amount: 900 }),
+      buy,
+    ];
+
+    // 500 remains on the purchase date, but the withdrawal then overdraws by 400
+    assert.equal(cashShortfall(transactions, buy.date), 400);
+  });
+
+  it('is zero when cash covers the purchase throughout', () => {
+    const buy = entry({ type: 'buy', date: '2026-02-01', symbol: 'SCOM', shares: 100, price: 5 });
+    assert.equal(cashShortfall([deposit('2026-01-02', 1000), buy], buy.date), 0);
+  });
+});
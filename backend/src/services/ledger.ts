@@ -0,0 +1,390 @@
+import { Types } from 'mongoose';
+import { round } from '../../../shared/ai/index.js';
+import Transaction, { ITransaction, TransactionType } from '../models/Transaction.js';
+
+// Tolerance for floating point drift when checking share and cash balances
+const EPSILON = 1e-6;
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+// One row of a position's audit trail: how a single ledger entry moved the position
+export interface PositionAuditStep {
+  transaction_id: string;
+  date: string;
+  type: TransactionType;
+  shares_delta: number;
+  shares_after: number;
+  cost_basis_after: number;
+  avg_cost_after: number;
+  cash_delta: number;
+  realized_gain: number;
+  // bonus/split: the part of a share not credited, paid out as cash in lieu
+  fractional_shares?: number;
+}
+
+export interface CashAuditStep {
+  transaction_id: string;
+  date: string;
+  type: TransactionType;
+  symbol?: string;
+  cash_delta: number;
+  cash_after: number;
+}
+
+export interface DerivedPosition {
+  symbol: string;
+  shares: number;
+  costBasis: number;
+  realizedGain: number;
+  dividends: number;
+  interest: number;
+  fees: number;
+  trail: PositionAuditStep[];
+}
+
+export interface DerivedLedger {
+  positions: Map<string, DerivedPosition>;
+  cashBalance: number;
+  realizedGain: number;
+  dividendIncome: number;
+  interestIncome: number;
+  feesPaid: number;
+  // Standalone `fee` entries (account charges), as opposed to fees paid on trades
+  otherFees: number;
+  netContributions: number;
+  cashTrail: CashAuditStep[];
+}
+
+export interface TransactionResponse {
+  id: string;
+  portfolio_id: string;
+  type: TransactionType;
+  date: string;
+  symbol?: string;
+  shares?: number;
+  price?: number;
+  amount?: number;
+  fees: number;
+  tax_withheld?: number;
+  ratio?: { numerator: number; denominator: number };
+  reinvested?: boolean;
+  corporate_action_id?: string;
+  reverses?: string;
+  reversed_by?: string;
+  note?: string;
+  created_at: string;
+}
+
+export interface LedgerResponse {
+  cash_balance: number;
+  cash_trail: CashAuditStep[];
+  positions: {
+    symbol: string;
+    shares: number;
+    cost_basis: number;
+    realized_gain: number;
+    dividends: number;
+    interest: number;
+    trail: PositionAuditStep[];
+  }[];
+}
+
+const sortKey = (tx: ITransaction): [number, number] => [
+  tx.date.getTime(),
+  // Unsaved candidate entries sort after everything recorded on the same date
+  tx.createdAt?.getTime() ?? Number.MAX_SAFE_INTEGER,
+];
+
+// Ledger order: trade date first, then the order entries were recorded
+export const sortTransactions = (transactions: ITransaction[]): ITransaction[] =>
+  [...transactions].sort((a, b) => {
+    const [aDate, aCreated] = sortKey(a);
+    const [bDate, bCreated] = sortKey(b);
+    return aDate - bDate || aCreated - bCreated;
+  });
+
+const emptyPosition = (symbol: string): DerivedPosition => ({
+  symbol,
+  shares: 0,
+  costBasis: 0,
+  realizedGain: 0,
+  dividends: 0,
+  interest: 0,
+  fees: 0,
+  trail: [],
+});
+
+/**
+ * Replay the ledger in order using the average cost method.
+ * Reversed entries and the reversals themselves are skipped, but stay in the stored history.
+ * Throws a LedgerError if the history would sell more shares than held or, unless
+ * `allowOverdraft` is set, overdraw cash.
+ */
+export const deriveLedger = (
+  transactions: ITransaction[],
+  { allowOverdraft = false, onCash }: { allowOverdraft?: boolean; onCash?: (date: string, balance: number) => void } = {}
+): DerivedLedger => {
+  const reversedIds = new Set(
+    transactions
+      .filter(tx => tx.type === 'reversal' && tx.reverses)
+      .map(tx => tx.reverses!.toString())
+  );
+
+  const ledger: DerivedLedger = {
+    positions: new Map(),
+    cashBalance: 0,
+    realizedGain: 0,
+    dividendIncome: 0,
+    interestIncome: 0,
+    feesPaid: 0,
+    otherFees: 0,
+    netContributions: 0,
+    cashTrail: [],
+  };
+
+  for (const tx of sortTransactions(transactions)) {
+    if (tx.type === 'reversal' || reversedIds.has(tx._id.toString())) continue;
+
+    const date = tx.date.toISOString();
+    const fees = tx.fees || 0;
+    const shares = tx.shares || 0;
+    const price = tx.price || 0;
+    const amount = tx.amount || 0;
+
+    let position: DerivedPosition | undefined;
+    if (tx.symbol) {
+      position = ledger.positions.get(tx.symbol);
+      if (!position) {
+        position = emptyPosition(tx.symbol);
+        ledger.positions.set(tx.symbol, position);
+      }
+    }
+
+    let cashDelta = 0;
+    let sharesDelta = 0;
+    let realizedGain = 0;
+    let fraction = 0;
+
+    switch (tx.type) {
+      case 'deposit':
+        cashDelta = amount;
+        ledger.netContributions += amount;
+        break;
+
+      case 'withdrawal':
+        cashDelta = -amount;
+        ledger.netContributions -= amount;
+        break;
+
+      case 'fee':
+        cashDelta = -amount;
+        ledger.feesPaid += amount;
+        ledger.otherFees += amount;
+        break;
+
+      case 'buy':
+      case 'rights': {
+        // Rights take-up is a purchase at the rights price; its cost folds into the average
+        const cost = shares * price + fees;
+        cashDelta = -cost;
+        sharesDelta = shares;
+        position!.shares += shares;
+        position!.costBasis += cost;
+        position!.fees += fees;
+        ledger.feesPaid += fees;
+        break;
+      }
+
+      case 'sell': {
+        if (shares > position!.shares + EPSILON) {
+          throw new LedgerError(
+            `Cannot sell ${shares} ${tx.symbol} on ${date.slice(0, 10)}: only ${position!.shares} held`
+          );
+        }
+        const avgCost = position!.shares > 0 ? position!.costBasis / position!.shares : 0;
+        const costOfSold = avgCost * shares;
+        const proceeds = shares * price - fees;
+        realizedGain = proceeds - costOfSold;
+        cashDelta = proceeds;
+        sharesDelta = -shares;
+        position!.shares -= shares;
+        position!.costBasis -= costOfSold;
+        position!.realizedGain += realizedGain;
+        position!.fees += fees;
+        ledger.realizedGain += realizedGain;
+        ledger.feesPaid += fees;
+        if (position!.shares < EPSILON) {
+          position!.shares = 0;
+          position!.costBasis = 0;
+        }
+        break;
+      }
+
+      case 'dividend':
+        // `amount` is the net cash received after withholding tax
+        cashDelta = amount;
+        position!.dividends += amount;
+        ledger.dividendIncome += amount;
+        break;
+
+      case 'interest':
+        // Net of withholding tax; a money market fund credits it as more units at 1 each
+        if (tx.reinvested) {
+          sharesDelta = amount;
+          position!.shares += amount;
+          position!.costBasis += amount;
+        } else {
+          cashDelta = amount;
+        }
+        position!.interest += amount;
+        ledger.interestIncome += amount;
+        break;
+
+      case 'bonus':
+      case 'split': {
+        // Share count changes at zero cost, so the average cost per share drops. Only whole
+        // shares are credited: the fraction left over is sold for cash in lieu at `price` (for
+        // nothing when no price is recorded), realizing its share of the cost basis
+        const { numerator = 1, denominator = 1 } = tx.ratio || {};
+        const held = position!.shares;
+        const entitled = tx.type === 'bonus'
+          ? held + (held * numerator) / denominator
+          : (held * numerator) / denominator;
+        const newTotal = Math.floor(entitled + EPSILON);
+        fraction = Math.max(0, entitled - newTotal);
+        if (fraction > EPSILON) {
+          const costOfFraction = (position!.costBasis * fraction) / entitled;
+          cashDelta = fraction * price;
+          realizedGain = cashDelta - costOfFraction;
+          position!.costBasis -= costOfFraction;
+          position!.realizedGain += realizedGain;
+          ledger.realizedGain += realizedGain;
+        } else {
+          fraction = 0;
+        }
+        sharesDelta = newTotal - held;
+        position!.shares = newTotal;
+        if (newTotal === 0) position!.costBasis = 0;
+        break;
+      }
+    }
+
+    ledger.cashBalance += cashDelta;
+    onCash?.(date, ledger.cashBalance);
+    if (ledger.cashBalance < -EPSILON && !allowOverdraft) {
+      throw new LedgerError(
+        `Insufficient cash on ${date.slice(0, 10)}: this entry would leave a balance of ${round(ledger.cashBalance)}. Record a deposit first.`
+      );
+    }
+
+    if (cashDelta !== 0) {
+      ledger.cashTrail.push({
+        transaction_id: tx._id.toString(),
+        date,
+        type: tx.type,
+        symbol: tx.symbol,
+        cash_delta: round(cashDelta),
+        cash_after: round(ledger.cashBalance),
+      });
+    }
+
+    if (position) {
+      position.trail.push({
+        transaction_id: tx._id.toString(),
+        date,
+        type: tx.type,
+        shares_delta: sharesDelta,
+        shares_after: position.shares,
+        cost_basis_after: round(position.costBasis),
+        avg_cost_after: position.shares > 0 ? round(position.costBasis / position.shares, 4) : 0,
+        cash_delta: round(cashDelta),
+        realized_gain: round(realizedGain),
+        ...(fraction > 0 && { fractional_shares: round(fraction, 4) }),
+      });
+    }
+  }
+
+  return ledger;
+};
+
+/**
+ * The deposit needed on `date` to keep cash from going negative then or on any later date,
+ * with every entry replayed; 0 when the balance already covers them
+ */
+export const cashShortfall = (transactions: ITransaction[], date: Date): number => {
+  const from = date.toISOString();
+  let lowest = 0;
+  deriveLedger(transactions, {
+    allowOverdraft: true,
+    onCash: (day, balance) => {
+      if (day >= from) lowest = Math.min(lowest, balance);
+    },
+  });
+  return Math.max(0, -lowest);
+};
+
+export const getPortfolioTransactions = async (portfolioId: Types.ObjectId): Promise<ITransaction[]> =>
+  sortTransactions(await Transaction.find({ portfolio: portfolioId }));
+
+// Load and derive the ledgers for several portfolios with a single query
+export const getPortfolioLedgers = async (portfolioIds: Types.ObjectId[]): Promise<Map<string, DerivedLedger>> => {
+  const transactions = await Transaction.find({ portfolio: { $in: portfolioIds } });
+  const byPortfolio = new Map<string, ITransaction[]>(portfolioIds.map(id => [id.toString(), []]));
+  transactions.forEach(tx => byPortfolio.get(tx.portfolio.toString())?.push(tx));
+
+  return new Map(
+    [...byPortfolio.entries()].map(([id, txs]) => [id, deriveLedger(txs)])
+  );
+};
+
+export const serializeTransaction = (tx: ITransaction, reversedBy?: string): TransactionResponse => ({
+  id: tx._id.toString(),
+  portfolio_id: tx.portfolio.toString(),
+  type: tx.type,
+  date: tx.date.toISOString(),
+  symbol: tx.symbol,
+  shares: tx.shares,
+  price: tx.price,
+  amount: tx.amount,
+  fees: tx.fees,
+  tax_withheld: tx.taxWithheld,
+  ratio: tx.ratio?.numerator ? { numerator: tx.ratio.numerator, denominator: tx.ratio.denominator } : undefined,
+  reinvested: tx.reinvested,
+  corporate_action_id: tx.corporateAction?.toString(),
+  reverses: tx.reverses?.toString(),
+  reversed_by: reversedBy,
+  note: tx.note,
+  created_at: tx.createdAt.toISOString(),
+});
+
+// Serialize a full history, linking each reversed entry to the reversal that cancelled it
+export const serializeTransactions = (transactions: ITransaction[]): TransactionResponse[] => {
+  const reversedBy = new Map(
+    transactions
+      .filter(tx => tx.type === 'reversal' && tx.reverses)
+      .map(tx => [tx.reverses!.toString(), tx._id.toString()])
+  );
+  return transactions.map(tx => serializeTransaction(tx, reversedBy.get(tx._id.toString())));
+};
+
+// Audit view of the derived ledger, optionally narrowed to a single symbol
+export const serializeLedger = (ledger: DerivedLedger, symbol?: string): LedgerResponse => ({
+  cash_balance: round(ledger.cashBalance),
+  cash_trail: ledger.cashTrail,
+  positions: [...ledger.positions.values()]
+    .filter(position => !symbol || position.symbol === symbol.toUpperCase())
+    .map(position => ({
+      symbol: position.symbol,
+      shares: position.shares,
+      cost_basis: round(position.costBasis),
+      realized_gain: round(position.realizedGain),
+      dividends: round(position.dividends),
+      interest: round(position.interest),
+      trail: position.trail,
+    })),
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import mongoose from 'mongoose';
+import MarketClosure from '../models/MarketClosure.js';
+import { getClosure, hasEidAlFitr, isTradingDay, loadMarketClosures } from './marketCalendar.js';
+
+type StoredClosure = { date: string; reason: string; holiday?: boolean };
+
+describe('market calendar holidays', () => {
+  let stored: StoredClosure[];
+
+  beforeEach(() => {
+    stored = [];
+    Object.defineProperty(mongoose.connection, 'readyState', { value: 1, configurable: true });
+    mock.method(MarketClosure, 'find', () => ({ select: () => ({ lean: async () => stored }) }));
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(async () => {
+    // Leave the calendar without stored closures for the next test
+    stored = [];
+    await loadMarketClosures();
+    mock.restoreAll();
+    delete (mongoose.connection as { readyState?: number }).readyState;
+  });
+
+  it('closes for Eid al-Fitr 2026', () => {
+    assert.equal(getClosure('2026-03-20')?.name, 'Eid al-Fitr');
+    assert.equal(isTradingDay('2026-03-20'), false);
+  });
+
+  it('closes for a gazetted Eid al-Fitr in a year without a listed date', async () => {
+    // Tuesday 2028-02-29 trades until the holiday is recorded
+    assert.equal(hasEidAlFitr(2028), false);
+    assert.equal(isTradingDay('2028-02-29'), true);
+
+    stored = [{ date: '2028-02-29', reason: 'Idd-ul-Fitr', holiday: true }];
+    await loadMarketClosures();
+
+    assert.equal(hasEidAlFitr(2028), true);
+    assert.deepEqual(getClosure('2028-02-29'), { date: '2028-02-29', name: 'Idd-ul-Fitr', source: 'holiday' });
+  });
+
+  it('observes a gazetted holiday on a Sunday on the Monday after', async () => {
+    stored = [{ date: '2028-02-27', reason: 'Eid al-Fitr', holiday: true }];
+    await loadMarketClosures();
+
+    assert.equal(getClosure('2028-02-28')?.name, 'Eid al-Fitr (observed)');
+  });
+
+  it('replaces the listed Eid al-Fitr with the gazetted one of the same year', async () => {
+    stored = [{ date: '2027-03-09', reason: 'Eid al-Fitr', holiday: true }];
+    await loadMarketClosures();
+
+    assert.equal(isTradingDay('2027-03-09'), false);
+    assert.equal(isTradingDay('2027-03-10'), true);
+  });
+
+  it('keeps ad-hoc closures out of the holiday calendar', async () => {
+    stored = [{ date: '2028-03-01', reason: 'National day of mourning' }];
+    await loadMarketClosures();
+
+    assert.equal(getClosure('2028-03-01')?.source, 'closure');
+  });
+});
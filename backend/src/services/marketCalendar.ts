@@ -0,0 +1,254 @@
+import mongoose from 'mongoose';
+import { isoDate } from '../../../shared/ai/index.js';
+import MarketClosure, { IMarketClosure } from '../models/MarketClosure.js';
+
+// NSE equities session: 09:00-15:00 East Africa Time on trading days. Kenya does not observe
+// daylight saving, so EAT is a fixed UTC+3.
+export const NSE_TIMEZONE = 'Africa/Nairobi';
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+const SESSION_OPEN_MINUTES = 9 * 60;
+const SESSION_CLOSE_MINUTES = 15 * 60;
+// Dashboard labels around the session, not exchange sessions: brokers take orders ahead of the
+// open, and closing prices and trade statistics are published after the close
+const PRE_MARKET_MINUTES = 8 * 60;
+const AFTER_HOURS_END_MINUTES = 17 * 60;
+const UPCOMING_CLOSURE_DAYS = 30;
+
+export const MARKET_STATUSES = ['open', 'closed', 'pre-market', 'after-hours'] as const;
+export type MarketStatus = typeof MARKET_STATUSES[number];
+
+export interface MarketClosureDay {
+  // Nairobi trading day, YYYY-MM-DD
+  date: string;
+  name: string;
+  // holiday: a public holiday, built in or recorded as gazetted; closure: an ad-hoc closure recorded by an admin
+  source: 'holiday' | 'closure';
+}
+
+export interface MarketCalendarStatus {
+  status: MarketStatus;
+  isOpen: boolean;
+  timezone: typeof NSE_TIMEZONE;
+  now: string;
+  // Today's session, or null when today is not a trading day
+  session: { open: string; close: string } | null;
+  nextOpen: string;
+  lastClose: string;
+  // Why the market is shut today, when today is a holiday or an ad-hoc closure
+  closure: MarketClosureDay | null;
+  // Holidays and closures falling on weekdays in the next 30 days
+  upcomingClosures: MarketClosureDay[];
+}
+
+// Eid al-Fitr follows the sighting of the moon and is gazetted each year; the 2027 date is the
+// expected one. Record the gazetted date as a holiday under /api/admin/market-closures when it
+// differs, or for a year not listed here, and it replaces this one
+const EID_AL_FITR_NAME = 'Eid al-Fitr';
+// Also the gazette's spelling, "Idd-ul-Fitr"
+const EID_AL_FITR_PATTERN = /^(eid|idd)\W*(al|ul)?\W*fitr/i;
+const EID_AL_FITR: Record<number, string> = {
+  2024: '2024-04-10',
+  2025: '2025-03-31',
+  2026: '2026-03-20',
+  2027: '2027-03-10',
+};
+
+// Fixed-date public holidays (month, day)
+const FIXED_HOLIDAYS: [number, number, string][] = [
+  [1, 1, "New Year's Day"],
+  [5, 1, 'Labour Day'],
+  [6, 1, 'Madaraka Day'],
+  [10, 10, 'Mazingira Day'],
+  [10, 20, 'Mashujaa Day'],
+  [12, 12, 'Jamhuri Day'],
+  [12, 25, 'Christmas Day'],
+  [12, 26, 'Boxing Day'],
+];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const dayOf = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const addDays = (day: string, days: number): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return isoDate(date);
+};
+
+const weekday = (day: string): number => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+const isWeekend = (day: string): boolean => weekday(day) === 0 || weekday(day) === 6;
+
+// Nairobi wall-clock date and minutes since midnight of an instant
+const nairobiClock = (now: Date): { day: string; minutes: number } => {
+  const nairobi = new Date(now.getTime() + EAT_OFFSET_MS);
+  return {
+    day: isoDate(nairobi),
+    minutes: nairobi.getUTCHours() * 60 + nairobi.getUTCMinutes(),
+  };
+};
+
+// The instant of a Nairobi wall-clock time on a day
+const atNairobi = (day: string, minutes: number): Date =>
+  new Date(new Date(`${day}T00:00:00Z`).getTime() + minutes * 60000 - EAT_OFFSET_MS);
+
+export const sessionOpenOn = (day: string): Date => atNairobi(day, SESSION_OPEN_MINUTES);
+// Daily bars are stamped at their session's close
+export const sessionCloseOn = (day: string): Date => atNairobi(day, SESSION_CLOSE_MINUTES);
+
+// Gregorian Easter Sunday (anonymous algorithm)
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dayOf(year, month, day);
+};
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+// Holidays and ad-hoc closures recorded by admins, by date; loaded at startup and after every change
+let gazettedHolidays = new Map<string, string>();
+let closures = new Map<string, string>();
+
+const gazettedIn = (year: number): [string, string][] =>
+  [...gazettedHolidays].filter(([day]) => day.startsWith(`${year}-`));
+
+/**
+ * Kenyan public holidays of a year by date: those fixed by the Public Holidays Act, Easter, and
+ * the holidays admins have recorded as gazetted. A holiday falling on a Sunday is observed on the
+ * Monday after (or the next free weekday when that is a holiday too).
+ */
+export const kenyanHolidays = (year: number): Map<string, string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const easter = easterSunday(year);
+  const gazetted = gazettedIn(year);
+  const eidGazetted = gazetted.some(([, name]) => EID_AL_FITR_PATTERN.test(name));
+  const listed: [string, string][] = [
+    ...FIXED_HOLIDAYS.map(([month, day, name]) => [dayOf(year, month, day), name] as [string, string]),
+    [addDays(easter, -2), 'Good Friday'],
+    [addDays(easter, 1), 'Easter Monday'],
+    ...(EID_AL_FITR[year] && !eidGazetted ? [[EID_AL_FITR[year], EID_AL_FITR_NAME] as [string, string]] : []),
+    ...gazetted,
+  ];
+
+  const holidays = new Map(listed);
+  listed
+    .filter(([day]) => weekday(day) === 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([day, name]) => {
+      let observed = addDays(day, 1);
+      while (holidays.has(observed) || isWeekend(observed)) observed = addDays(observed, 1);
+      holidays.set(observed, `${name} (observed)`);
+    });
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+export const serializeMarketClosure = (closure: IMarketClosure) => ({
+  id: closure._id.toString(),
+  date: closure.date,
+  reason: closure.reason,
+  holiday: closure.holiday ?? false,
+  created_at: closure.createdAt,
+});
+
+// Whether the calendar knows a year's Eid al-Fitr, built in or recorded
+export const hasEidAlFitr = (year: number): boolean =>
+  [...kenyanHolidays(year).values()].some(name => EID_AL_FITR_PATTERN.test(name));
+
+export const loadMarketClosures = async (): Promise<number> => {
+  if (mongoose.connection.readyState !== 1) return closures.size + gazettedHolidays.size;
+
+  const stored = await MarketClosure.find().select('date reason holiday').lean();
+  gazettedHolidays = new Map(stored.filter(closure => closure.holiday).map(closure => [closure.date, closure.reason]));
+  closures = new Map(stored.filter(closure => !closure.holiday).map(closure => [closure.date, closure.reason]));
+  holidayCache.clear();
+
+  const year = new Date().getUTCFullYear();
+  if (!hasEidAlFitr(year)) {
+    console.warn(`⚠️ No Eid al-Fitr date for ${year}; record it as a holiday under /api/admin/market-closures once gazetted`);
+  }
+  return closures.size + gazettedHolidays.size;
+};
+
+// Why the NSE is shut on a weekday, or null when it trades
+export const getClosure = (day: string): MarketClosureDay | null => {
+  const holiday = kenyanHolidays(Number(day.slice(0, 4))).get(day);
+  if (holiday) return { date: day, name: holiday, source: 'holiday' };
+  const reason = closures.get(day);
+  return reason ? { date: day, name: reason, source: 'closure' } : null;
+};
+
+export const isTradingDay = (day: string): boolean => !isWeekend(day) && !getClosure(day);
+
+export const isNseOpen = (now: Date = new Date()): boolean => {
+  const { day, minutes } = nairobiClock(now);
+  return isTradingDay(day) && minutes >= SESSION_OPEN_MINUTES && minutes < SESSION_CLOSE_MINUTES;
+};
+
+// The most recent session close at or before `now`
+export const lastSessionClose = (now: Date = new Date()): Date => {
+  const { day, minutes } = nairobiClock(now);
+  let close = minutes >= SESSION_CLOSE_MINUTES ? day : addDays(day, -1);
+  while (!isTradingDay(close)) close = addDays(close, -1);
+  return sessionCloseOn(close);
+};
+
+// The next session open after `now` (today's, before it opens)
+export const nextSessionOpen = (now: Date = new Date()): Date => {
+  const { day, minutes } = nairobiClock(now);
+  let open = minutes < SESSION_OPEN_MINUTES ? day : addDays(day, 1);
+  while (!isTradingDay(open)) open = addDays(open, 1);
+  return sessionOpenOn(open);
+};
+
+// Holidays and closures on weekdays from `from` for the given number of days
+export const upcomingClosures = (from: string, days: number = UPCOMING_CLOSURE_DAYS): MarketClosureDay[] =>
+  Array.from({ length: days }, (_, i) => addDays(from, i))
+    .filter(day => !isWeekend(day))
+    .map(getClosure)
+    .filter((closure): closure is MarketClosureDay => closure !== null);
+
+/**
+ * Where the NSE stands at `now`: open, pre-market or after-hours around a session, or closed,
+ * with today's session, the next open, the last close and upcoming holidays
+ */
+export const getMarketStatus = (now: Date = new Date()): MarketCalendarStatus => {
+  const { day, minutes } = nairobiClock(now);
+  const tradingDay = isTradingDay(day);
+
+  let status: MarketStatus = 'closed';
+  if (tradingDay) {
+    if (minutes >= SESSION_OPEN_MINUTES && minutes < SESSION_CLOSE_MINUTES) status = 'open';
+    else if (minutes >= PRE_MARKET_MINUTES && minutes < SESSION_OPEN_MINUTES) status = 'pre-market';
+    else if (minutes >= SESSION_CLOSE_MINUTES && minutes < AFTER_HOURS_END_MINUTES) status = 'after-hours';
+  }
+
+  return {
+    status,
+    isOpen: status === 'open',
+    timezone: NSE_TIMEZONE,
+    now: now.toISOString(),
+    session: tradingDay
+      ? { open: sessionOpenOn(day).toISOString(), close: sessionCloseOn(day).toISOString() }
+      : null,
+    nextOpen: nextSessionOpen(now).toISOString(),
+    lastClose: lastSessionClose(now).toISOString(),
+    closure: isWeekend(day) ? null : getClosure(day),
+    upcomingClosures: upcomingClosures(addDays(day, 1)),
+  };
+};
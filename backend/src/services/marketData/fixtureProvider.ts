@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import nseWebScraper from '../nseWebScraper.js';
+import { HistoryPeriod, periodStart, PriceBar } from '../priceHistory.js';
+import { getMostActive, getTopGainers, getTopLosers, indicesOf } from './quotes.js';
+import { MarketDataProvider, MarketSummaryData, NSEMarketData, NSEStock, ParseReport } from './types.js';
+
+const FIXTURE_EXTENSIONS = ['.html', '.htm', '.json'];
+
+/**
+ * Replays recorded market data from disk, for offline development and tests.
+ *
+ * `fixturePath` is either a single `.html`/`.json` file or a directory of them. Files are
+ * replayed in name order, one per `getQuotes()` call, looping after the last; `getSummary()`
+ * and `getStockDetails()` read the snapshot currently being replayed. HTML is parsed by the
+ * live scraper's parser; JSON holds `{ stocks, marketSummary, tradingSummary, indices }`,
+ * where `indices` is optional and defaults to the NASI level in `marketSummary`.
+ * Per-symbol history is read from `history/<SYMBOL>.json` next to the snapshots.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+  private readonly files: string[];
+  private readonly historyDir: string;
+  private position = -1;
+  private current: NSEMarketData | null = null;
+  private currentReport: ParseReport | null = null;
+
+  constructor(fixturePath: string) {
+    const resolved = path.resolve(fixturePath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Market fixture path not found: ${resolved}`);
+    }
+
+    if (fs.statSync(resolved).isDirectory()) {
+      this.files = fs.readdirSync(resolved)
+        .filter(file => FIXTURE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort()
+        .map(file => path.join(resolved, file));
+      this.historyDir = path.join(resolved, 'history');
+    } else {
+      this.files = [resolved];
+      this.historyDir = path.join(path.dirname(resolved), 'history');
+    }
+
+    if (this.files.length === 0) {
+      throw new Error(`No .html or .json market fixtures found in ${resolved}`);
+    }
+  }
+
+  private load(file: string): { data: NSEMarketData; report: ParseReport | null } {
+    const text = fs.readFileSync(file, 'utf8');
+
+    if (path.extname(file).toLowerCase() !== '.json') {
+      return nseWebScraper.parsePage(text, new Date().toISOString());
+    }
+
+    const recorded = JSON.parse(text) as Partial<NSEMarketData>;
+    if (!Array.isArray(recorded.stocks) || !recorded.marketSummary) {
+      throw new Error(`Market fixture ${file} must contain "stocks" and "marketSummary"`);
+    }
+    const stocks = recorded.stocks;
+    const data: NSEMarketData = {
+      stocks,
+      marketSummary: recorded.marketSummary,
+      indices: indicesOf({ indices: recorded.indices, marketSummary: recorded.marketSummary }),
+      tradingSummary: recorded.tradingSummary ?? {
+        totalShares: 0,
+        totalDeals: 0,
+        totalValue: 0,
+        participatingEquities: stocks.length,
+        gainers: stocks.filter(stock => stock.change > 0).length,
+        losers: stocks.filter(stock => stock.change < 0).length,
+      },
+      topGainers: getTopGainers(stocks),
+      topLosers: getTopLosers(stocks),
+      mostActive: getMostActive(stocks),
+    };
+    return { data, report: null };
+  }
+
+  private currentSnapshot(): NSEMarketData {
+    return this.current ?? this.advance();
+  }
+
+  private advance(): NSEMarketData {
+    this.position = (this.position + 1) % this.files.length;
+    const { data, report } = this.load(this.files[this.position]);
+    this.current = data;
+    this.currentReport = report;
+    return data;
+  }
+
+  async getQuotes(): Promise<NSEStock[]> {
+    return this.advance().stocks;
+  }
+
+  async getSummary(): Promise<MarketSummaryData> {
+    const { marketSummary, tradingSummary, indices } = this.currentSnapshot();
+    return { marketSummary, tradingSummary, indices };
+  }
+
+  // Periods are measured back from the last recorded bar so replays do not age out
+  async getHistory(symbol: string, period: HistoryPeriod): Promise<PriceBar[]> {
+    const file = path.join(this.historyDir, `${symbol.toUpperCase()}.json`);
+    if (!fs.existsSync(file)) return [];
+
+    const bars = (JSON.parse(fs.readFileSync(file, 'utf8')) as PriceBar[])
+      .slice()
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (bars.length === 0) return [];
+
+    const lastDate = new Date(bars[bars.length - 1].date);
+    if (period === '1D') return bars.slice(-1);
+
+    const start = periodStart(period, lastDate);
+    return start ? bars.filter(bar => new Date(bar.date) >= start) : bars;
+  }
+
+  async getStockDetails(symbol: string): Promise<NSEStock | null> {
+    return this.currentSnapshot().stocks.find(stock => stock.symbol === symbol.toUpperCase()) || null;
+  }
+
+  // Only HTML fixtures go through the parser; recorded JSON has nothing to report
+  getParseReport(): ParseReport | null {
+    return this.currentReport;
+  }
+}
@@ -0,0 +1,48 @@
+import { FixtureMarketDataProvider } from './fixtureProvider.js';
+import { getMostActive, getTopGainers, getTopLosers } from './quotes.js';
+import { ScraperMarketDataProvider } from './scraperProvider.js';
+import { MarketDataProvider, NSEMarketData } from './types.js';
+
+export * from './types.js';
+export { indicesOf, searchStocks } from './quotes.js';
+
+let provider: MarketDataProvider | null = null;
+
+/**
+ * The configured market data source: `MARKET_DATA_PROVIDER=scraper` (default) scrapes
+ * afx.kwayisi.org, `fixture` replays recorded files from `MARKET_FIXTURE_PATH`.
+ */
+export const getMarketDataProvider = (): MarketDataProvider => {
+  if (provider) return provider;
+
+  const name = (process.env.MARKET_DATA_PROVIDER || 'scraper').toLowerCase();
+  switch (name) {
+    case 'scraper':
+      provider = new ScraperMarketDataProvider();
+      break;
+    case 'fixture':
+      provider = new FixtureMarketDataProvider(process.env.MARKET_FIXTURE_PATH || 'fixtures/market');
+      break;
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${name}". Use "scraper" or "fixture".`);
+  }
+
+  console.log(`📡 Market data provider: ${provider.name}`);
+  return provider;
+};
+
+// Assemble a full snapshot. Quotes are requested first: fixture replays advance on getQuotes()
+export const fetchMarketSnapshot = async (source: MarketDataProvider = getMarketDataProvider()): Promise<NSEMarketData> => {
+  const stocks = await source.getQuotes();
+  const { marketSummary, tradingSummary, indices } = await source.getSummary();
+
+  return {
+    stocks,
+    marketSummary,
+    indices,
+    tradingSummary,
+    topGainers: getTopGainers(stocks),
+    topLosers: getTopLosers(stocks),
+    mostActive: getMostActive(stocks),
+  };
+};
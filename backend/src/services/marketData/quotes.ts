@@ -0,0 +1,36 @@
+import { IndexQuote, MarketSummary, NSEStock } from './types.js';
+
+export const getTopGainers = (stocks: NSEStock[], limit: number = 10): NSEStock[] =>
+  stocks
+    .filter(stock => stock.changePercent > 0)
+    .sort((a, b) => b.changePercent - a.changePercent)
+    .slice(0, limit);
+
+export const getTopLosers = (stocks: NSEStock[], limit: number = 10): NSEStock[] =>
+  stocks
+    .filter(stock => stock.changePercent < 0)
+    .sort((a, b) => a.changePercent - b.changePercent)
+    .slice(0, limit);
+
+export const getMostActive = (stocks: NSEStock[], limit: number = 10): NSEStock[] =>
+  stocks
+    .filter(stock => stock.volume !== null)
+    .sort((a, b) => (b.volume || 0) - (a.volume || 0))
+    .slice(0, limit);
+
+export const searchStocks = (stocks: NSEStock[], query: string): NSEStock[] => {
+  const searchTerm = query.toLowerCase();
+  return stocks.filter(stock =>
+    stock.symbol.toLowerCase().includes(searchTerm) ||
+    stock.name.toLowerCase().includes(searchTerm)
+  );
+};
+
+// Snapshots stored before index capture only carry NASI inside their market summary
+export const indicesOf = (data: { indices?: IndexQuote[]; marketSummary: MarketSummary }): IndexQuote[] => {
+  if (data.indices && data.indices.length > 0) return data.indices;
+  const { value, change, changePercent, timestamp } = data.marketSummary;
+  return value > 0
+    ? [{ index: 'NASI', name: 'NSE All Share Index', value, change, changePercent, timestamp }]
+    : [];
+};
@@ -0,0 +1,52 @@
+import nseWebScraper, { ParsedPage } from '../nseWebScraper.js';
+import { getHistory, HistoryPeriod, PriceBar } from '../priceHistory.js';
+import { MarketDataProvider, MarketSummaryData, NSEStock, ParseReport } from './types.js';
+
+// Quotes and summary come from the same page, so one fetch serves both for a short window
+const PAGE_CACHE_MS = 15 * 1000;
+
+export class ScraperMarketDataProvider implements MarketDataProvider {
+  readonly name = 'scraper';
+  private page: { parsed: ParsedPage; fetchedAt: number } | null = null;
+  private inFlight: Promise<ParsedPage> | null = null;
+
+  private async loadPage(): Promise<ParsedPage> {
+    if (this.page && Date.now() - this.page.fetchedAt < PAGE_CACHE_MS) {
+      return this.page.parsed;
+    }
+    if (!this.inFlight) {
+      this.inFlight = nseWebScraper.scrapeNSEData()
+        .then(parsed => {
+          this.page = { parsed, fetchedAt: Date.now() };
+          return parsed;
+        })
+        .finally(() => {
+          this.inFlight = null;
+        });
+    }
+    return this.inFlight;
+  }
+
+  async getQuotes(): Promise<NSEStock[]> {
+    return (await this.loadPage()).data.stocks;
+  }
+
+  async getSummary(): Promise<MarketSummaryData> {
+    const { marketSummary, tradingSummary, indices } = (await this.loadPage()).data;
+    return { marketSummary, tradingSummary, indices };
+  }
+
+  // The live page has no history; serve what ingestion and backfills have stored
+  async getHistory(symbol: string, period: HistoryPeriod): Promise<PriceBar[]> {
+    return getHistory(symbol, period);
+  }
+
+  async getStockDetails(symbol: string): Promise<NSEStock | null> {
+    const stocks = await this.getQuotes();
+    return stocks.find(stock => stock.symbol === symbol.toUpperCase()) || null;
+  }
+
+  getParseReport(): ParseReport | null {
+    return this.page?.parsed.report ?? null;
+  }
+}
@@ -0,0 +1,91 @@
+import type { ListingSegment, NSESector } from '../../../../shared/ai/index.js';
+import type { NSEIndexCode } from '../../models/IndexTick.js';
+import type { HistoryPeriod, PriceBar } from '../priceHistory.js';
+
+export interface NSEStock {
+  symbol: string;
+  name: string;
+  volume: number | null;
+  price: number;
+  change: number;
+  changePercent: number;
+  timestamp: string;
+  // Joined on from the symbol master when serving quotes; scraped quotes carry none of these
+  sector?: NSESector;
+  isin?: string;
+  segment?: ListingSegment;
+  sharesOutstanding?: number;
+  boardLot?: number;
+  marketCap?: number;
+}
+
+export interface MarketSummary {
+  index: string;
+  value: number;
+  change: number;
+  changePercent: number;
+  marketCap: string;
+  timestamp: string;
+}
+
+export interface IndexQuote {
+  index: NSEIndexCode;
+  name: string;
+  value: number;
+  change: number;
+  changePercent: number;
+  timestamp: string;
+}
+
+export interface TradingSummary {
+  totalShares: number;
+  totalDeals: number;
+  totalValue: number;
+  participatingEquities: number;
+  gainers: number;
+  losers: number;
+}
+
+export interface NSEMarketData {
+  stocks: NSEStock[];
+  marketSummary: MarketSummary;
+  indices: IndexQuote[];
+  topGainers: NSEStock[];
+  topLosers: NSEStock[];
+  mostActive: NSEStock[];
+  tradingSummary: TradingSummary;
+}
+
+export interface RejectedRow {
+  row: number;
+  text: string;
+  reason: string;
+}
+
+// What the HTML parser saw on one page, so silent layout breakage shows up as numbers
+export interface ParseReport {
+  rowsSeen: number;
+  rowsParsed: number;
+  rejected: RejectedRow[];
+  fallbackUsed: boolean;
+}
+
+export interface MarketSummaryData {
+  marketSummary: MarketSummary;
+  indices: IndexQuote[];
+  tradingSummary: TradingSummary;
+}
+
+/**
+ * A source of NSE market data. Routes and jobs only talk to this interface, so the
+ * live scraper can be swapped for recorded fixtures (or another feed) via configuration.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuotes(): Promise<NSEStock[]>;
+  getSummary(): Promise<MarketSummaryData>;
+  getHistory(symbol: string, period: HistoryPeriod): Promise<PriceBar[]>;
+  getStockDetails(symbol: string): Promise<NSEStock | null>;
+  // Parse diagnostics for the quotes last returned by getQuotes(), when they came from HTML
+  getParseReport?(): ParseReport | null;
+}
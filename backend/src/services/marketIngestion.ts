@@ -0,0 +1,70 @@
+import { isNseOpen, lastSessionClose, nextSessionOpen } from './marketCalendar.js';
+import { getIngestIntervalMs, getLatestSnapshotTime, ingestSnapshot } from './marketSnapshot.js';
+
+// While the market is shut the job wakes at least this often, so closures recorded or removed
+// in the meantime move the next run
+const MAX_IDLE_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Scrape while the market is open, plus once after the close (or at startup) whenever the
+ * stored snapshot predates the last session close, so closing prices are always captured.
+ */
+const shouldIngest = async (now: Date): Promise<boolean> => {
+  if (isNseOpen(now)) return true;
+  const takenAt = await getLatestSnapshotTime();
+  return !takenAt || takenAt.getTime() < lastSessionClose(now).getTime();
+};
+
+const runIngestion = async () => {
+  try {
+    if (await shouldIngest(new Date())) {
+      await ingestSnapshot();
+    }
+  } catch (error) {
+    console.error('❌ Market snapshot ingestion failed:', error instanceof Error ? error.message : error);
+  }
+};
+
+/**
+ * Wait one ingestion interval during the session; outside it, sleep until the next open on
+ * the NSE calendar (weekends, public holidays and closures skipped)
+ */
+const nextRunDelay = (now: Date): number => {
+  if (isNseOpen(now)) return getIngestIntervalMs();
+  return Math.min(nextSessionOpen(now).getTime() - now.getTime(), MAX_IDLE_MS);
+};
+
+const scheduleIngestion = (): void => {
+  timer = setTimeout(async () => {
+    await runIngestion();
+    if (running) scheduleIngestion();
+  }, nextRunDelay(new Date()));
+};
+
+export const startMarketIngestion = (): void => {
+  if (running) return;
+
+  if (process.env.MARKET_INGEST_ENABLED === 'false') {
+    console.log('⏸️  Market snapshot ingestion disabled (MARKET_INGEST_ENABLED=false)');
+    return;
+  }
+
+  const intervalMs = getIngestIntervalMs();
+  console.log(`⏱️  Market snapshot ingestion every ${intervalMs / 60000} min during NSE trading sessions`);
+
+  running = true;
+  runIngestion().then(() => {
+    if (running) scheduleIngestion();
+  });
+};
+
+export const stopMarketIngestion = (): void => {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import mongoose from 'mongoose';
+import AlertRule from '../models/AlertRule.js';
+import IndexTick from '../models/IndexTick.js';
+import MarketSnapshot from '../models/MarketSnapshot.js';
+import PriceTick from '../models/PriceTick.js';
+import ScrapeHealth from '../models/ScrapeHealth.js';
+import { ingestSnapshot, sessionTimeOf } from './marketSnapshot.js';
+
+process.env.MARKET_DATA_PROVIDER = 'fixture';
+
+// Friday 2026-10-16 closes at 12:00 UTC (15:00 Africa/Nairobi)
+const FRIDAY_CLOSE = '2026-10-16T12:00:00.000Z';
+
+describe('sessionTimeOf', () => {
+  it('keeps the scrape time during a session', () => {
+    const takenAt = new Date('2026-10-16T08:30:00Z');
+    assert.equal(sessionTimeOf(takenAt).toISOString(), takenAt.toISOString());
+  });
+
+  it('stamps weekend and pre-market scrapes at the last session close', () => {
+    assert.equal(sessionTimeOf(new Date('2026-10-17T09:00:00Z')).toISOString(), FRIDAY_CLOSE);
+    // Monday 08:30 Nairobi, before the open
+    assert.equal(sessionTimeOf(new Date('2026-10-19T05:30:00Z')).toISOString(), FRIDAY_CLOSE);
+  });
+
+  it('stamps a scrape just after the close at that close', () => {
+    assert.equal(sessionTimeOf(new Date('2026-10-16T12:05:00Z')).toISOString(), FRIDAY_CLOSE);
+  });
+});
+
+describe('ingestSnapshot', () => {
+  const priceTicks: { timestamp: Date }[] = [];
+  const indexTicks: { timestamp: Date }[] = [];
+  const snapshots: { takenAt: Date }[] = [];
+
+  beforeEach(() => {
+    // Pretend to be connected; every model call the ingest makes is stubbed below
+    Object.defineProperty(mongoose.connection, 'readyState', { value: 1, configurable: true });
+    mock.method(MarketSnapshot, 'findOne', () => ({ sort: () => ({ lean: async () => null }) }));
+    mock.method(MarketSnapshot, 'create', async (doc: { takenAt: Date }) => snapshots.push(doc));
+    mock.method(ScrapeHealth, 'create', async () => ({}));
+    mock.method(AlertRule, 'find', async () => []);
+    mock.method(PriceTick, 'insertMany', async (ticks: { timestamp: Date }[]) => priceTicks.push(...ticks));
+    mock.method(IndexTick, 'insertMany', async (ticks: { timestamp: Date }[]) => indexTicks.push(...ticks));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+    delete (mongoose.connection as { readyState?: number }).readyState;
+  });
+
+  it('stamps the ticks of a Saturday scrape at Friday\'s close, not on Saturday', async () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2026-10-17T09:00:00Z') });
+
+    const { takenAt } = await ingestSnapshot();
+
+    assert.equal(takenAt.toISOString(), '2026-10-17T09:00:00.000Z');
+    assert.equal(snapshots[0].takenAt.toISOString(), '2026-10-17T09:00:00.000Z');
+    assert.ok(priceTicks.length > 0);
+    assert.ok(priceTicks.every(tick => tick.timestamp.toISOString() === FRIDAY_CLOSE));
+    assert.ok(indexTicks.length > 0);
+    assert.ok(indexTicks.every(tick => tick.timestamp.toISOString() === FRIDAY_CLOSE));
+  });
+});
@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import MarketSnapshot from '../models/MarketSnapshot.js';
+import { evaluateAlerts } from './alerts.js';
+import { recordIndexLevels } from './indexHistory.js';
+import { isNseOpen, lastSessionClose } from './marketCalendar.js';
+import { fetchMarketSnapshot, getMarketDataProvider, indicesOf, NSEMarketData } from './marketData/index.js';
+import { publishSnapshot } from './marketStream.js';
+import { buildParseHealth, recordParseHealth } from './parseHealth.js';
+import { recordSnapshot } from './priceHistory.js';
+import { withSymbolMaster } from './symbolMaster.js';
+
+export interface StoredSnapshot {
+  data: NSEMarketData;
+  asOf: string;
+  stale: boolean;
+}
+
+const ingestIntervalMinutes = (): number =>
+  Math.max(1, Number(process.env.MARKET_INGEST_INTERVAL_MINUTES) || 5);
+
+// During the session a snapshot is stale once it misses roughly two ingestion runs
+const staleAfterMs = (): number =>
+  (Number(process.env.MARKET_STALE_AFTER_MINUTES) || ingestIntervalMinutes() * 2) * 60 * 1000;
+
+let latest: { data: NSEMarketData; takenAt: Date } | null = null;
+let inFlight: Promise<{ data: NSEMarketData; takenAt: Date }> | null = null;
+
+const isDatabaseConnected = (): boolean => mongoose.connection.readyState === 1;
+
+/**
+ * Outside trading hours a snapshot stays fresh as long as it was taken after the
+ * last session closed, since prices cannot have moved since.
+ */
+export const isSnapshotStale = (takenAt: Date, now: Date = new Date()): boolean =>
+  isNseOpen(now)
+    ? now.getTime() - takenAt.getTime() > staleAfterMs()
+    : takenAt.getTime() < lastSessionClose(now).getTime();
+
+export const getIngestIntervalMs = (): number => ingestIntervalMinutes() * 60 * 1000;
+
+/**
+ * When a snapshot's prices were set. Outside a session the board still shows the last session's
+ * closes and cumulative volume, so those ticks are stamped at that close; stamped at the scrape,
+ * a weekend or holiday scrape would add a daily bar for a day that never traded.
+ */
+export const sessionTimeOf = (takenAt: Date): Date => isNseOpen(takenAt) ? takenAt : lastSessionClose(takenAt);
+
+/**
+ * Fetch once from the configured provider and store the result as the latest snapshot and as price and index history ticks
+ * (stamped at the last session close when taken outside a session),
+ * together with a parse health report against the previous snapshot, then evaluate users' price alerts on it and push
+ * what moved to market stream subscribers. Concurrent callers share a single in-flight scrape.
+ */
+export const ingestSnapshot = async (): Promise<{ data: NSEMarketData; takenAt: Date }> => {
+  if (inFlight) return inFlight;
+
+  inFlight = (async () => {
+    const provider = getMarketDataProvider();
+    const data = await fetchMarketSnapshot(provider);
+    const takenAt = new Date();
+    const previous = await loadLatest();
+
+    // A failing health check must never cost us the snapshot itself
+    await recordParseHealth(buildParseHealth({
+      takenAt,
+      provider: provider.name,
+      stocks: data.stocks,
+      parse: provider.getParseReport?.() ?? null,
+      previousSymbols: previous ? previous.data.stocks.map(stock => stock.symbol) : null,
+    })).catch(error => console.error('❌ Error recording parse health:', error));
+
+    if (isDatabaseConnected()) {
+      await MarketSnapshot.create({ takenAt, data });
+    }
+    await recordSnapshot(data.stocks, sessionTimeOf(takenAt));
+    await recordIndexLevels(data.indices, sessionTimeOf(takenAt));
+    await evaluateAlerts(data.stocks, previous?.data.stocks ?? null, takenAt)
+      .catch(error => console.error('❌ Error evaluating price alerts:', error));
+
+    latest = { data, takenAt };
+    publishSnapshot(previous?.data.stocks ?? null, withSymbolMaster(data), takenAt);
+    console.log(`💾 Stored NSE snapshot of ${data.stocks.length} stocks as of ${takenAt.toISOString()}`);
+    return latest;
+  })();
+
+  try {
+    return await inFlight;
+  } finally {
+    inFlight = null;
+  }
+};
+
+// Latest snapshot known to this process, falling back to the database after a restart
+const loadLatest = async (): Promise<{ data: NSEMarketData; takenAt: Date } | null> => {
+  if (latest || !isDatabaseConnected()) return latest;
+
+  const stored = await MarketSnapshot.findOne().sort({ takenAt: -1 }).lean();
+  if (stored) {
+    // Snapshots stored before index capture have no `indices`
+    latest = { data: { ...stored.data, indices: indicesOf(stored.data) }, takenAt: stored.takenAt };
+  }
+  return latest;
+};
+
+export const getLatestSnapshotTime = async (): Promise<Date | null> =>
+  (await loadLatest())?.takenAt ?? null;
+
+/**
+ * Serve the latest stored snapshot, its quotes joined onto the symbol master. Only scrapes on
+ * demand when nothing has been stored yet (first start, or the ingestion job is disabled and
+ * no data exists).
+ */
+export const getLatestSnapshot = async (): Promise<StoredSnapshot> => {
+  const snapshot = (await loadLatest()) ?? await ingestSnapshot();
+
+  return {
+    data: withSymbolMaster(snapshot.data),
+    asOf: snapshot.takenAt.toISOString(),
+    stale: isSnapshotStale(snapshot.takenAt),
+  };
+};
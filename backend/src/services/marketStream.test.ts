@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, describe, it } from 'node:test';
+import type { Response } from 'express';
+import { closeMarketStreams, getMarketStreamCount, openMarketStream } from './marketStream.js';
+
+// A server that opens the stream once the test says the client is connected or gone
+const streamServer = async (ready: (res: http.ServerResponse) => Promise<void>) => {
+  const server = http.createServer(async (_req, res) => {
+    await ready(res);
+    openMarketStream(res as unknown as Response, [], null);
+  });
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` };
+};
+
+describe('openMarketStream', () => {
+  after(() => closeMarketStreams());
+
+  it('does not register a client that disconnected while the snapshot was loading', async () => {
+    let opened!: () => void;
+    const done = new Promise<void>(resolve => (opened = resolve));
+    const { server, url } = await streamServer(async res => {
+      await new Promise(resolve => res.on('close', resolve));
+      setImmediate(opened);
+    });
+    const request = http.get(url);
+    request.on('error', () => {});
+    setTimeout(() => request.destroy(), 20);
+
+    await done;
+    assert.equal(getMarketStreamCount(), 0);
+    server.close();
+  });
+
+  it('registers a connected client until it disconnects', async () => {
+    const { server, url } = await streamServer(async () => {});
+    const response = await new Promise<http.IncomingMessage>(resolve => http.get(url, resolve));
+    assert.equal(getMarketStreamCount(), 1);
+
+    response.destroy();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(getMarketStreamCount(), 0);
+    server.close();
+  });
+});
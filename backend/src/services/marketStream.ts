@@ -0,0 +1,148 @@
+import type { Response } from 'express';
+import type { NSEMarketData, NSEStock } from './marketData/index.js';
+
+// Comment lines keep idle connections open through proxies that drop silent ones
+const HEARTBEAT_MS = 25 * 1000;
+
+// Tells EventSource how long to wait before reconnecting after the stream drops
+const RETRY_MS = 5000;
+
+interface StreamClient {
+  res: Response;
+  // null for every symbol
+  symbols: Set<string> | null;
+}
+
+export interface SnapshotDiff {
+  asOf: string;
+  stale: boolean;
+  // Stocks that are new or whose quote moved since the previous snapshot
+  changed: NSEStock[];
+  // Symbols missing from the new snapshot
+  removed: string[];
+  marketSummary: NSEMarketData['marketSummary'] & { tradingSummary: NSEMarketData['tradingSummary'] };
+}
+
+const clients = new Set<StreamClient>();
+let heartbeat: NodeJS.Timeout | null = null;
+
+const quoteMoved = (previous: NSEStock, next: NSEStock): boolean =>
+  previous.price !== next.price ||
+  previous.change !== next.change ||
+  previous.changePercent !== next.changePercent ||
+  previous.volume !== next.volume ||
+  previous.name !== next.name;
+
+/**
+ * What changed between two snapshots. Every stock carries its scrape time, so quotes are
+ * compared on price, change and volume rather than as a whole.
+ */
+export const diffSnapshots = (previous: NSEStock[] | null, next: NSEStock[]): Pick<SnapshotDiff, 'changed' | 'removed'> => {
+  if (!previous) return { changed: next, removed: [] };
+
+  const before = new Map(previous.map(stock => [stock.symbol, stock]));
+  const after = new Set(next.map(stock => stock.symbol));
+  return {
+    changed: next.filter(stock => {
+      const old = before.get(stock.symbol);
+      return !old || quoteMoved(old, stock);
+    }),
+    removed: previous.filter(stock => !after.has(stock.symbol)).map(stock => stock.symbol),
+  };
+};
+
+const send = (client: StreamClient, event: string, data: unknown): void => {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const forClient = (client: StreamClient, stocks: NSEStock[]): NSEStock[] =>
+  client.symbols ? stocks.filter(stock => client.symbols!.has(stock.symbol)) : stocks;
+
+const summaryOf = (data: NSEMarketData): SnapshotDiff['marketSummary'] => ({
+  ...data.marketSummary,
+  tradingSummary: data.tradingSummary,
+});
+
+const startHeartbeat = (): void => {
+  if (heartbeat) return;
+  heartbeat = setInterval(() => clients.forEach(client => client.res.write(': ping\n\n')), HEARTBEAT_MS);
+};
+
+const stopHeartbeat = (): void => {
+  if (heartbeat && clients.size === 0) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+};
+
+/**
+ * Turn a response into a server-sent event stream of market snapshots for the given symbols
+ * (all when empty). The client first receives a `snapshot` event with the current quotes,
+ * then a `diff` event each time the ingestion job stores a snapshot that moved any of them.
+ */
+export const openMarketStream = (
+  res: Response,
+  symbols: string[],
+  current: { data: NSEMarketData; asOf: string; stale: boolean } | null
+): void => {
+  // The client may have gone while the caller was loading `current`, in which case 'close'
+  // has already fired and would never remove it
+  if (res.destroyed || res.socket?.destroyed !== false) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop reverse proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const client: StreamClient = { res, symbols: symbols.length > 0 ? new Set(symbols) : null };
+  clients.add(client);
+  startHeartbeat();
+
+  if (current) {
+    send(client, 'snapshot', {
+      asOf: current.asOf,
+      stale: current.stale,
+      stocks: forClient(client, current.data.stocks),
+      marketSummary: summaryOf(current.data),
+    });
+  }
+
+  res.on('close', () => {
+    clients.delete(client);
+    stopHeartbeat();
+  });
+};
+
+/**
+ * Push a newly stored snapshot to every subscriber, each receiving only its own symbols.
+ * Subscribers none of whose symbols moved still get the diff, empty, as a sign of life
+ * carrying the new `asOf`.
+ */
+export const publishSnapshot = (previous: NSEStock[] | null, data: NSEMarketData, takenAt: Date): void => {
+  if (clients.size === 0) return;
+
+  const { changed, removed } = diffSnapshots(previous, data.stocks);
+  const removedSymbols = new Set(removed);
+  const base = { asOf: takenAt.toISOString(), stale: false, marketSummary: summaryOf(data) };
+  clients.forEach(client => {
+    const diff: SnapshotDiff = {
+      ...base,
+      changed: forClient(client, changed),
+      removed: client.symbols ? [...removedSymbols].filter(symbol => client.symbols!.has(symbol)) : removed,
+    };
+    send(client, 'diff', diff);
+  });
+};
+
+export const getMarketStreamCount = (): number => clients.size;
+
+// End every open stream so the HTTP server can close on shutdown
+export const closeMarketStreams = (): void => {
+  clients.forEach(client => client.res.end());
+  clients.clear();
+  stopHeartbeat();
+};
@@ -0,0 +1,45 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import type { INotification } from '../../models/Notification.js';
+import { NotificationChannel, NotificationRecipient } from './types.js';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Sends notifications by email over SMTP. Any SMTP server will do, including a local fake
+ * one (`npm run mail:fake`) that prints what it receives.
+ */
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly name = 'email';
+  readonly preference = 'email' as const;
+  private readonly transporter: Transporter;
+
+  constructor(private readonly settings: SmtpSettings) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+    });
+  }
+
+  async deliver(notification: INotification, recipient: NotificationRecipient): Promise<void> {
+    const actions = notification.suggestedActions.length > 0
+      ? `\n\nSuggested actions:\n${notification.suggestedActions.map(action => `- ${action}`).join('\n')}`
+      : '';
+
+    await this.transporter.sendMail({
+      from: this.settings.from,
+      to: recipient.email,
+      subject: `Aiser: ${notification.title}`,
+      text: `Hi ${recipient.firstName},\n\n${notification.message}${actions}\n\n` +
+        'You can change which notifications you receive from the bell menu on your dashboard.',
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { EmailNotificationChannel } from './emailChannel.js';
+import { NotificationChannel } from './types.js';
+
+export * from './types.js';
+export { EmailNotificationChannel } from './emailChannel.js';
+
+let channels: NotificationChannel[] | null = null;
+
+/**
+ * The configured delivery channels. Email is on when `SMTP_HOST` is set; without it
+ * notifications are only listed in the app.
+ */
+export const getNotificationChannels = (): NotificationChannel[] => {
+  if (channels) return channels;
+
+  channels = [];
+  if (process.env.SMTP_HOST) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    channels.push(new EmailNotificationChannel({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from: process.env.NOTIFICATION_EMAIL_FROM || 'Aiser <alerts@aiser.local>',
+    }));
+    console.log(`📧 Email notifications via ${process.env.SMTP_HOST}:${port}`);
+  }
+  return channels;
+};
+
+// Add a channel alongside the configured ones, e.g. a push service
+export const registerNotificationChannel = (channel: NotificationChannel): void => {
+  getNotificationChannels().push(channel);
+};
@@ -0,0 +1,17 @@
+import type { INotification } from '../../models/Notification.js';
+
+export interface NotificationRecipient {
+  email: string;
+  firstName: string;
+}
+
+/**
+ * A way of delivering notifications beyond the in-app list. Each channel is switched on per
+ * user by the `UserSettings.notifications` flag it names, so a push channel can be added next
+ * to email without touching the code that raises notifications.
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  readonly preference: 'email' | 'push';
+  deliver(notification: INotification, recipient: NotificationRecipient): Promise<void>;
+}
@@ -0,0 +1,213 @@
+import mongoose, { Types } from 'mongoose';
+import type { AIAlert } from '../../../shared/ai/index.js';
+import Notification, { INotification, NotificationCategory, NotificationType } from '../models/Notification.js';
+import User, { IUser } from '../models/User.js';
+import { getNotificationChannels } from './notificationChannels/index.js';
+
+export const NOTIFICATION_PREFERENCES = ['email', 'push', 'priceAlerts', 'marketNews', 'portfolioAlerts'] as const;
+export type NotificationPreference = typeof NOTIFICATION_PREFERENCES[number];
+export type NotificationPreferences = Record<NotificationPreference, boolean>;
+
+// Used for users stored before a preference existed
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: true,
+  priceAlerts: true,
+  marketNews: false,
+  portfolioAlerts: true,
+};
+
+// The preference that switches each category of notification on or off
+const CATEGORY_PREFERENCES: Record<NotificationCategory, NotificationPreference> = {
+  'price-alert': 'priceAlerts',
+  market: 'marketNews',
+  risk: 'portfolioAlerts',
+  opportunity: 'portfolioAlerts',
+  rebalance: 'portfolioAlerts',
+};
+
+// A condition raised again this soon after its notification was last raised is folded into it
+const REPEAT_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export interface NotificationInput {
+  user: Types.ObjectId | string;
+  portfolio?: Types.ObjectId | string;
+  category: NotificationCategory;
+  type: NotificationType;
+  severity?: INotification['severity'];
+  actionRequired?: boolean;
+  title: string;
+  message: string;
+  suggestedActions?: string[];
+  affectedSymbols?: string[];
+  rule: string;
+  symbol?: string;
+  alertRule?: Types.ObjectId;
+}
+
+export const notificationPreferences = (user: IUser): NotificationPreferences =>
+  Object.fromEntries(NOTIFICATION_PREFERENCES.map(key =>
+    [key, typeof user.notifications?.[key] === 'boolean' ? user.notifications[key] : DEFAULT_PREFERENCES[key]]
+  )) as NotificationPreferences;
+
+// Set the boolean preferences present in `changes`, ignoring anything else
+export const applyNotificationPreferences = (user: IUser, changes: unknown): void => {
+  if (!changes || typeof changes !== 'object') return;
+  const values = changes as Partial<Record<NotificationPreference, unknown>>;
+  NOTIFICATION_PREFERENCES.forEach(key => {
+    const value = values[key];
+    if (typeof value === 'boolean') user.notifications[key] = value;
+  });
+};
+
+export const serializeNotification = (notification: INotification) => ({
+  id: notification._id.toString(),
+  category: notification.category,
+  type: notification.type,
+  severity: notification.severity ?? null,
+  action_required: notification.actionRequired,
+  title: notification.title,
+  message: notification.message,
+  suggested_actions: notification.suggestedActions,
+  affected_symbols: notification.affectedSymbols,
+  rule: notification.rule,
+  symbol: notification.symbol ?? null,
+  portfolio_id: notification.portfolio?.toString() ?? null,
+  alert_rule_id: notification.alertRule?.toString() ?? null,
+  occurrences: notification.occurrences,
+  timestamp: notification.createdAt,
+  last_seen_at: notification.lastSeenAt,
+  read: notification.read,
+  read_at: notification.readAt ?? null,
+});
+
+// Hand a new notification to every channel the user has switched on; failures are recorded, not thrown
+const deliver = async (notification: INotification, user: IUser, preferences: NotificationPreferences): Promise<void> => {
+  for (const channel of getNotificationChannels()) {
+    if (!preferences[channel.preference]) continue;
+    try {
+      await channel.deliver(notification, { email: user.email, firstName: user.firstName });
+      notification.deliveries.push({ channel: channel.name, at: new Date() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${channel.name} delivery of notification ${notification._id} failed:`, message);
+      notification.deliveries.push({ channel: channel.name, at: new Date(), error: message });
+    }
+  }
+  if (notification.deliveries.length > 0) await notification.save();
+};
+
+/**
+ * Store a notification for a user and deliver it through their channels, unless they have
+ * switched its category off. A condition (same rule, symbol and portfolio) raised again while
+ * its notification is unread, or within a day of it last being raised, only bumps that
+ * notification, so a lasting condition is delivered once. Returns the notification, or null
+ * when none was stored.
+ */
+export const raiseNotification = async (input: NotificationInput): Promise<INotification | null> => {
+  if (mongoose.connection.readyState !== 1) return null;
+
+  const user = await User.findById(input.user);
+  if (!user) return null;
+  const preferences = notificationPreferences(user);
+  if (!preferences[CATEGORY_PREFERENCES[input.category]]) return null;
+
+  const now = new Date();
+  const existing = await Notification.findOne({
+    user: user._id,
+    portfolio: input.portfolio ?? { $exists: false },
+    rule: input.rule,
+    symbol: input.symbol ?? { $exists: false },
+    $or: [{ read: false }, { lastSeenAt: { $gte: new Date(now.getTime() - REPEAT_AFTER_MS) } }],
+  }).sort({ lastSeenAt: -1 });
+
+  if (existing) {
+    existing.title = input.title;
+    existing.message = input.message;
+    existing.type = input.type;
+    existing.severity = input.severity;
+    existing.actionRequired = input.actionRequired ?? false;
+    existing.suggestedActions = input.suggestedActions ?? [];
+    existing.affectedSymbols = input.affectedSymbols ?? [];
+    existing.occurrences += 1;
+    existing.lastSeenAt = now;
+    return existing.save();
+  }
+
+  const notification = await Notification.create({ ...input, user: user._id, lastSeenAt: now });
+  await deliver(notification, user, preferences);
+  return notification;
+};
+
+const SEVERITY_TYPES: Record<AIAlert['severity'], NotificationType> = {
+  low: 'info',
+  medium: 'warning',
+  high: 'warning',
+  critical: 'error',
+};
+
+/**
+ * Store the AI alerts of a portfolio's risk analysis as notifications. An alert about a single
+ * symbol is kept per symbol; alerts without a stable rule name are keyed by their title.
+ */
+export const raiseAIAlerts = async (
+  userId: Types.ObjectId | string,
+  portfolioId: Types.ObjectId | string,
+  alerts: AIAlert[]
+): Promise<INotification[]> => {
+  const raised: INotification[] = [];
+  for (const alert of alerts) {
+    const notification = await raiseNotification({
+      user: userId,
+      portfolio: portfolioId,
+      category: alert.type,
+      type: SEVERITY_TYPES[alert.severity],
+      severity: alert.severity,
+      actionRequired: alert.actionRequired,
+      title: alert.title,
+      message: alert.message,
+      suggestedActions: alert.suggestedActions,
+      affectedSymbols: alert.affectedSymbols,
+      rule: alert.rule ?? alert.title,
+      symbol: alert.affectedSymbols.length === 1 ? alert.affectedSymbols[0] : undefined,
+    });
+    if (notification) raised.push(notification);
+  }
+  return raised;
+};
+
+// A stored AI alert in the shape the AI Insights panel shows
+export const toAIAlert = (notification: INotification): AIAlert => ({
+  id: notification._id.toString(),
+  rule: notification.rule,
+  type: notification.category as AIAlert['type'],
+  severity: notification.severity ?? 'medium',
+  title: notification.title,
+  message: notification.message,
+  actionRequired: notification.actionRequired,
+  suggestedActions: notification.suggestedActions,
+  affectedSymbols: notification.affectedSymbols,
+  timestamp: notification.lastSeenAt.toISOString(),
+  read: notification.read,
+});
+
+// AI alert categories, the ones stored against a portfolio
+const AI_ALERT_CATEGORIES: NotificationCategory[] = ['risk', 'opportunity', 'rebalance'];
+
+/**
+ * A portfolio's stored AI alerts: every unread one, and read ones raised within the last day
+ */
+export const getPortfolioAlerts = async (
+  userId: Types.ObjectId | string,
+  portfolioId: Types.ObjectId | string
+): Promise<AIAlert[]> => {
+  if (mongoose.connection.readyState !== 1) return [];
+
+  const notifications = await Notification.find({
+    user: userId,
+    portfolio: portfolioId,
+    category: { $in: AI_ALERT_CATEGORIES },
+    $or: [{ read: false }, { lastSeenAt: { $gte: new Date(Date.now() - REPEAT_AFTER_MS) } }],
+  }).sort({ lastSeenAt: -1 });
+  return notifications.map(toAIAlert);
+};
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { NSEWebScraper } from './nseWebScraper.js';
+import { corpusPages, expectedFileOf, SCRAPER_CORPUS, snapshotOf } from './scraperCorpus.js';
+
+// The saved page corpus; `npm run test:scraper -- --update` regenerates the expected files
+describe('NSEWebScraper corpus', () => {
+  const pages = corpusPages();
+
+  it('has saved pages to parse', () => {
+    assert.ok(pages.length > 0);
+  });
+
+  pages.forEach(page => {
+    it(`parses ${page} as expected`, () => {
+      const expectedFile = expectedFileOf(SCRAPER_CORPUS, page);
+      assert.ok(fs.existsSync(expectedFile), `missing ${path.basename(expectedFile)}`);
+
+      const actual = snapshotOf(fs.readFileSync(path.join(SCRAPER_CORPUS, page), 'utf8'));
+      // An expected file must not record a page that parses to nothing
+      assert.ok(actual.stocks.length > 0, `${page} parsed no stocks`);
+      assert.deepEqual(actual, JSON.parse(fs.readFileSync(expectedFile, 'utf8')));
+    });
+  });
+});
+
+describe('NSEWebScraper index levels', () => {
+  const timestamp = '2026-10-16T12:00:00.000Z';
+  const page = (body: string) => `<html><body>${body}<table><tr><td>SCOM</td><td>Safaricom</td><td>1,000</td><td>17.00</td><td>+0.20</td></tr></table></body></html>`;
+
+  it('keeps a NASI level printed next to its label', () => {
+    const { indices, marketSummary } = new NSEWebScraper().parseHTML(page('<div>NASI 160.13 (+2.27)</div>'), timestamp);
+
+    assert.deepEqual(indices.map(quote => [quote.index, quote.value]), [['NASI', 160.13]]);
+    assert.equal(marketSummary.value, 160.13);
+  });
+
+  it('does not take an unlabelled figure for the NASI level', () => {
+    const { indices, marketSummary } = new NSEWebScraper().parseHTML(page('<span>160.13 (+2.27)</span><span>182.50 (-1.10)</span>'), timestamp);
+
+    assert.deepEqual(indices, []);
+    assert.equal(marketSummary.value, 0);
+    assert.equal(marketSummary.change, 0);
+  });
+});
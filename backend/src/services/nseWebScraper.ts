@@ -1,41 +1,28 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
-
-interface NSEStock {
-  symbol: string;
-  name: string;
-  volume: number | null;
-  price: number;
-  change: number;
-  changePercent: number;
-  timestamp: string;
-}
-
-interface MarketSummary {
-  index: string;
-  value: number;
-  change: number;
-  changePercent: number;
-  marketCap: string;
-  timestamp: string;
-}
-
-interface NSEMarketData {
-  stocks: NSEStock[];
-  marketSummary: MarketSummary;
-  topGainers: NSEStock[];
-  topLosers: NSEStock[];
-  mostActive: NSEStock[];
-  tradingSummary: {
-    totalShares: number;
-    totalDeals: number;
-    totalValue: number;
-    participatingEquities: number;
-    gainers: number;
-    losers: number;
-  };
+import { NSE_INDEX_NAMES, NSEIndexCode } from '../models/IndexTick.js';
+import { IndexQuote, MarketSummary, NSEMarketData, NSEStock, ParseReport, TradingSummary } from './marketData/types.js';
+import { getMostActive, getTopGainers, getTopLosers } from './marketData/quotes.js';
+
+// Rejected rows kept per report; a broken layout can reject hundreds
+const MAX_REJECTED_ROWS = 50;
+
+// How each index is labelled on NSE pages (regex alternatives)
+const INDEX_LABELS: Record<NSEIndexCode, string> = {
+  NASI: '\\bNASI\\b|NSE All Share',
+  NSE20: '\\bNSE[- ]?20\\b|\\bN20I\\b',
+  NSE25: '\\bNSE[- ]?25\\b|\\bN25I\\b',
+};
+
+export interface ParsedPage {
+  data: NSEMarketData;
+  report: ParseReport;
 }
 
+/**
+ * Fetches and parses the afx.kwayisi.org NSE page. Parsing is separate from fetching so
+ * recorded HTML can be replayed through the same code (see marketData/fixtureProvider).
+ */
 export class NSEWebScraper {
   private readonly baseUrl = 'https://afx.kwayisi.org/nse/';
   private readonly headers = {
@@ -47,7 +34,7 @@ export class NSEWebScraper {
     'Upgrade-Insecure-Requests': '1',
   };
 
-  async scrapeNSEData(): Promise<NSEMarketData> {
+  async scrapeNSEData(): Promise<ParsedPage> {
     try {
       console.log('🔄 Scraping NSE data from afx.kwayisi.org...');
       
@@ -56,169 +43,243 @@ export class NSEWebScraper {
         timeout: 30000,
       });
 
-      const $ = cheerio.load(response.data);
-      const timestamp = new Date().toISOString();
+      const page = this.parsePage(response.data, new Date().toISOString());
+      const { data, report } = page;
 
-      // Extract market summary from the NASI section
-      const marketSummary = this.extractMarketSummary($, timestamp);
-      
-      // Extract all stock data from the main table
-      const stocks = this.extractStockData($, timestamp);
-      
-      // Calculate top gainers, losers, and most active
-      const topGainers = this.getTopGainers(stocks);
-      const topLosers = this.getTopLosers(stocks);
-      const mostActive = this.getMostActive(stocks);
-      
-      // Extract trading summary
-      const tradingSummary = this.extractTradingSummary($);
+      console.log(`✅ Successfully scraped ${data.stocks.length} NSE stocks`);
+      console.log(`📈 Top gainer: ${data.topGainers[0]?.symbol} (+${data.topGainers[0]?.changePercent?.toFixed(2)}%)`);
+      console.log(`📉 Top loser: ${data.topLosers[0]?.symbol} (${data.topLosers[0]?.changePercent?.toFixed(2)}%)`);
+      if (report.rejected.length > 0 || report.fallbackUsed) {
+        console.warn(`⚠️ Parsed ${report.rowsParsed}/${report.rowsSeen} table rows, ${report.rejected.length} rejected${report.fallbackUsed ? ', regex fallback used' : ''}`);
+      }
 
-      console.log(`✅ Successfully scraped ${stocks.length} NSE stocks`);
-      console.log(`📈 Top gainer: ${topGainers[0]?.symbol} (+${topGainers[0]?.changePercent?.toFixed(2)}%)`);
-      console.log(`📉 Top loser: ${topLosers[0]?.symbol} (${topLosers[0]?.changePercent?.toFixed(2)}%)`);
+      return page;
+    } catch (error) {
+      console.error('❌ Error scraping NSE data:', error);
+      throw new Error(`Failed to scrape NSE data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Parse a page of the afx.kwayisi.org NSE listing, stamping every row with `timestamp`
+  parseHTML(html: string, timestamp: string): NSEMarketData {
+    return this.parsePage(html, timestamp).data;
+  }
+
+  // As parseHTML, plus a report of which table rows were parsed or rejected and why
+  parsePage(html: string, timestamp: string): ParsedPage {
+    const $ = cheerio.load(html);
+
+    // Only index levels printed next to their name are kept; the market summary is the NASI one
+    const indices = this.extractIndices($, timestamp);
+    const marketSummary = this.extractMarketSummary($, timestamp, indices.find(quote => quote.index === 'NASI'));
+    
+    // Extract all stock data from the main table
+    const { stocks, report } = this.extractStockData($, timestamp);
+    
+    // Calculate top gainers, losers, and most active
+    const topGainers = getTopGainers(stocks);
+    const topLosers = getTopLosers(stocks);
+    const mostActive = getMostActive(stocks);
+    
+    // Extract trading summary
+    const tradingSummary = this.extractTradingSummary($);
 
-      return {
+    return {
+      data: {
         stocks,
         marketSummary,
+        indices,
         topGainers,
         topLosers,
         mostActive,
         tradingSummary,
-      };
-    } catch (error) {
-      console.error('❌ Error scraping NSE data:', error);
-      throw new Error(`Failed to scrape NSE data: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+      },
+      report,
+    };
   }
 
-  private extractMarketSummary($: cheerio.Root, timestamp: string): MarketSummary {
-    // Look for NASI index data
-    let indexValue = 0;
-    let indexChange = 0;
-    let indexChangePercent = 0;
-    let marketCap = '';
-
-    try {
-      // Extract NASI value from the page
-      const nasiText = $('body').text();
-      const nasiMatch = nasiText.match(/160\.13\s*\(\+2\.27\)/);
-      const marketCapMatch = nasiText.match(/KES\s*([\d\.]+)Tr/);
-      
-      if (nasiMatch) {
-        indexValue = 160.13;
-        indexChange = 2.27;
-        indexChangePercent = 1.44;
-      }
-      
-      if (marketCapMatch) {
-        marketCap = `KES ${marketCapMatch[1]} Trillion`;
-      }
-
-      // Try to extract current values dynamically
-      $('td, div, span').each((_, element) => {
-        const text = $(element).text().trim();
-        
-        // Look for NASI pattern
-        const nasiPattern = /(\d+\.\d+)\s*\(\+?(-?\d+\.\d+)\)/;
-        const match = text.match(nasiPattern);
-        
-        if (match && parseFloat(match[1]) > 100 && parseFloat(match[1]) < 300) {
-          indexValue = parseFloat(match[1]);
-          indexChange = parseFloat(match[2]);
-          // Calculate percentage
-          indexChangePercent = (indexChange / (indexValue - indexChange)) * 100;
-        }
+  // Index levels that appear next to their name, e.g. "NSE 20 Share Index 1,912.34 (+5.12)"
+  private extractIndices($: cheerio.Root, timestamp: string): IndexQuote[] {
+    const text = $('body').text().replace(/\s+/g, ' ');
+    const indices: IndexQuote[] = [];
+
+    for (const [index, label] of Object.entries(INDEX_LABELS) as [NSEIndexCode, string][]) {
+      const match = text.match(new RegExp(`(?:${label})[^0-9(]{0,40}?([\\d,]+\\.\\d+)\\s*\\(([+-]?[\\d.,]+)(%?)\\)`));
+      if (!match) continue;
+
+      const value = parseFloat(match[1].replace(/,/g, ''));
+      const reported = parseFloat(match[2].replace(/,/g, ''));
+      if (!Number.isFinite(value) || value <= 0 || !Number.isFinite(reported)) continue;
+
+      // Some layouts quote the move in percent rather than points
+      const isPercent = match[3] === '%';
+      const change = isPercent ? value - value / (1 + reported / 100) : reported;
+      const changePercent = isPercent ? reported : (change / (value - change)) * 100;
+
+      indices.push({
+        index,
+        name: NSE_INDEX_NAMES[index],
+        value,
+        change: Math.round(change * 100) / 100,
+        changePercent,
+        timestamp,
       });
-
-    } catch (error) {
-      console.warn('Warning: Could not extract market summary:', error);
     }
 
+    return indices;
+  }
+
+  // The NASI level as labelled on the page (zero when it is not), with the market cap
+  private extractMarketSummary($: cheerio.Root, timestamp: string, nasi?: IndexQuote): MarketSummary {
+    const marketCapMatch = $('body').text().match(/KES\s*([\d.]+)Tr/);
+    const marketCap = marketCapMatch ? `KES ${marketCapMatch[1]} Trillion` : '';
+
     return {
       index: 'NASI',
-      value: indexValue,
-      change: indexChange,
-      changePercent: indexChangePercent,
+      value: nasi?.value ?? 0,
+      change: nasi?.change ?? 0,
+      changePercent: nasi?.changePercent ?? 0,
       marketCap: marketCap || 'KES 2.5 Trillion',
       timestamp,
     };
   }
 
-  private extractStockData($: cheerio.Root, timestamp: string): NSEStock[] {
+  private extractStockData($: cheerio.Root, timestamp: string): { stocks: NSEStock[]; report: ParseReport } {
     const stocks: NSEStock[] = [];
+    const report: ParseReport = { rowsSeen: 0, rowsParsed: 0, rejected: [], fallbackUsed: false };
+    const seenSymbols = new Set<string>();
+
+    const reject = (row: number, text: string, reason: string) => {
+      if (report.rejected.length < MAX_REJECTED_ROWS) {
+        report.rejected.push({ row, text: text.replace(/\s+/g, ' ').slice(0, 120), reason });
+      }
+    };
+
+    // Symbol is usually 2-6 uppercase letters
+    const symbolPattern = /^[A-Z]{2,6}(-[A-Z0-9]+)?$/;
+
+    // Column of the ticker in each table: the one headed "Ticker", "Symbol" or "Code", so extra
+    // leading columns (a rank, a logo) do not shift the others
+    const tickerColumns = new Map<cheerio.Element, number | null>();
+    const headerTickerColumn = (row: cheerio.Element): number | null => {
+      const table = $(row).closest('table').get(0) as cheerio.Element | undefined;
+      if (!table) return null;
+      if (!tickerColumns.has(table)) {
+        const headers = $(table).find('th').map((_, th) => $(th).text().trim()).get() as string[];
+        const column = headers.findIndex(header => /^(ticker|symbol|code)$/i.test(header));
+        tickerColumns.set(table, column >= 0 ? column : null);
+      }
+      return tickerColumns.get(table) ?? null;
+    };
+
+    // Without a header, the first ticker-like cell after any leading rank numbers
+    const tickerColumnOf = (row: cheerio.Element, texts: string[]): number => {
+      const fromHeader = headerTickerColumn(row);
+      if (fromHeader !== null) return fromHeader;
+      const leading = texts.findIndex(text => !/^\d+$/.test(text));
+      return leading > 0 && symbolPattern.test(texts[leading]) ? leading : 0;
+    };
 
     try {
       // Find the main data table - look for rows with stock symbols
-      $('tr').each((_, row) => {
-        const cells = $(row).find('td');
-        
+      $('tr').each((index, row) => {
+        const texts = $(row).find('td').map((_, cell) => $(cell).text().trim()).get() as string[];
+        const column = tickerColumnOf(row, texts);
+        const cells = texts.slice(column);
+
         if (cells.length >= 4) {
-          const firstCell = $(cells[0]).text().trim();
-          const secondCell = $(cells[1]).text().trim();
-          const thirdCell = $(cells[2]).text().trim();
-          const fourthCell = $(cells[3]).text().trim();
-          const fifthCell = cells.length > 4 ? $(cells[4]).text().trim() : '';
-
-          // Check if this looks like a stock row (symbol is usually 2-6 uppercase letters)
-          const symbolPattern = /^[A-Z]{2,6}(-[A-Z0-9]+)?$/;
-          
-          if (symbolPattern.test(firstCell) && secondCell && fourthCell) {
-            try {
-              const symbol = firstCell;
-              const name = secondCell;
-              
-              // Parse volume (third cell) - can be "—" for no volume
-              let volume: number | null = null;
-              if (thirdCell && thirdCell !== '—' && thirdCell !== '') {
-                const volumeStr = thirdCell.replace(/,/g, '');
-                const volumeNum = parseFloat(volumeStr);
-                if (!isNaN(volumeNum)) {
-                  volume = volumeNum;
-                }
+          report.rowsSeen++;
+          const firstCell = cells[0];
+          const secondCell = cells[1];
+          const thirdCell = cells[2];
+          const fourthCell = cells[3];
+          const fifthCell = cells.length > 4 ? cells[4] : '';
+          const rowText = $(row).text().trim();
+
+          if (!symbolPattern.test(firstCell)) {
+            reject(index + 1, rowText, `${column > 0 ? 'ticker' : 'first'} cell "${firstCell.slice(0, 20)}" is not a ticker symbol`);
+            return;
+          }
+          if (!secondCell) {
+            reject(index + 1, rowText, 'missing company name');
+            return;
+          }
+          if (!fourthCell) {
+            reject(index + 1, rowText, 'missing price');
+            return;
+          }
+          if (seenSymbols.has(firstCell)) {
+            reject(index + 1, rowText, `duplicate row for ${firstCell}`);
+            return;
+          }
+
+          try {
+            const symbol = firstCell;
+            const name = secondCell;
+            
+            // Parse volume (third cell) - can be "—" for no volume
+            let volume: number | null = null;
+            if (thirdCell && thirdCell !== '—' && thirdCell !== '') {
+              const volumeStr = thirdCell.replace(/,/g, '');
+              const volumeNum = parseFloat(volumeStr);
+              if (!isNaN(volumeNum)) {
+                volume = volumeNum;
               }
+            }
 
-              // Parse price (fourth cell)
-              const priceStr = fourthCell.replace(/,/g, '');
-              const price = parseFloat(priceStr);
+            // Parse price (fourth cell)
+            const priceStr = fourthCell.replace(/,/g, '');
+            const price = parseFloat(priceStr);
 
-              // Parse change (fifth cell)
-              let change = 0;
-              if (fifthCell && fifthCell !== '—' && fifthCell !== '') {
-                const changeStr = fifthCell.replace(/\+/g, '');
-                change = parseFloat(changeStr);
-              }
+            // Parse change (fifth cell)
+            let change = 0;
+            if (fifthCell && fifthCell !== '—' && fifthCell !== '') {
+              const changeStr = fifthCell.replace(/\+/g, '');
+              change = parseFloat(changeStr);
+            }
 
-              // Calculate percentage change
-              const changePercent = price > 0 ? (change / (price - change)) * 100 : 0;
+            // Calculate percentage change
+            const changePercent = price > 0 ? (change / (price - change)) * 100 : 0;
 
-              if (!isNaN(price) && price > 0) {
-                stocks.push({
-                  symbol,
-                  name,
-                  volume,
-                  price,
-                  change,
-                  changePercent,
-                  timestamp,
-                });
-              }
-            } catch (error) {
-              console.warn(`Warning: Error parsing stock row for ${firstCell}:`, error);
+            if (isNaN(price) || price <= 0) {
+              reject(index + 1, rowText, `unparseable price "${fourthCell}"`);
+              return;
+            }
+            if (isNaN(change)) {
+              reject(index + 1, rowText, `unparseable change "${fifthCell}"`);
+              return;
             }
+
+            seenSymbols.add(symbol);
+            report.rowsParsed++;
+            stocks.push({
+              symbol,
+              name,
+              volume,
+              price,
+              change,
+              changePercent,
+              timestamp,
+            });
+          } catch (error) {
+            console.warn(`Warning: Error parsing stock row for ${firstCell}:`, error);
+            reject(index + 1, rowText, error instanceof Error ? error.message : 'parse error');
           }
         }
       });
 
       // Alternative approach: look for known stock patterns in the text
       if (stocks.length === 0) {
+        report.fallbackUsed = true;
         const bodyText = $('body').text();
+        // Numbers must be whitespace-separated; glued cell text cannot be split reliably
         const stockPatterns = [
-          /SCOM.*?Safaricom.*?(\d+,?\d*)\s*(\d+\.\d+)\s*([+-]?\d+\.\d+)/g,
-          /EQTY.*?Equity.*?(\d+,?\d*)\s*(\d+\.\d+)\s*([+-]?\d+\.\d+)/g,
-          /KCB.*?KCB Group.*?(\d+,?\d*)\s*(\d+\.\d+)\s*([+-]?\d+\.\d+)/g,
+          { symbol: 'SCOM', name: 'Safaricom PLC', pattern: /\bSCOM\b\D*?Safaricom\D*?\s([\d,]+)\s+(\d+\.\d+)\s+([+-]?\d+\.\d+)/g },
+          { symbol: 'EQTY', name: 'Equity Group Holdings PLC', pattern: /\bEQTY\b\D*?Equity\D*?\s([\d,]+)\s+(\d+\.\d+)\s+([+-]?\d+\.\d+)/g },
+          { symbol: 'KCB', name: 'KCB Group PLC', pattern: /\bKCB\b\D*?KCB Group\D*?\s([\d,]+)\s+(\d+\.\d+)\s+([+-]?\d+\.\d+)/g },
         ];
 
-        stockPatterns.forEach(pattern => {
+        stockPatterns.forEach(({ symbol, name, pattern }) => {
           let match;
           while ((match = pattern.exec(bodyText)) !== null) {
             try {
@@ -227,15 +288,18 @@ export class NSEWebScraper {
               const change = parseFloat(match[3]);
               const changePercent = (change / (price - change)) * 100;
 
-              stocks.push({
-                symbol: match[0].split(' ')[0],
-                name: match[0].split(' ')[1] || 'Unknown',
-                volume,
-                price,
-                change,
-                changePercent,
-                timestamp,
-              });
+              if (!seenSymbols.has(symbol) && price > 0) {
+                seenSymbols.add(symbol);
+                stocks.push({
+                  symbol,
+                  name,
+                  volume,
+                  price,
+                  change,
+                  changePercent,
+                  timestamp,
+                });
+              }
             } catch (error) {
               console.warn('Warning: Error parsing stock pattern:', error);
             }
@@ -247,11 +311,11 @@ export class NSEWebScraper {
       console.error('Error extracting stock data:', error);
     }
 
-    return stocks;
+    return { stocks, report };
   }
 
-  private extractTradingSummary($: cheerio.Root) {
-    const defaultSummary = {
+  private extractTradingSummary($: cheerio.Root): TradingSummary {
+    const defaultSummary: TradingSummary = {
       totalShares: 0,
       totalDeals: 0,
       totalValue: 0,
@@ -289,47 +353,6 @@ export class NSEWebScraper {
 
     return defaultSummary;
   }
-
-  private getTopGainers(stocks: NSEStock[], limit: number = 10): NSEStock[] {
-    return stocks
-      .filter(stock => stock.changePercent > 0)
-      .sort((a, b) => b.changePercent - a.changePercent)
-      .slice(0, limit);
-  }
-
-  private getTopLosers(stocks: NSEStock[], limit: number = 10): NSEStock[] {
-    return stocks
-      .filter(stock => stock.changePercent < 0)
-      .sort((a, b) => a.changePercent - b.changePercent)
-      .slice(0, limit);
-  }
-
-  private getMostActive(stocks: NSEStock[], limit: number = 10): NSEStock[] {
-    return stocks
-      .filter(stock => stock.volume !== null)
-      .sort((a, b) => (b.volume || 0) - (a.volume || 0))
-      .slice(0, limit);
-  }
-
-  // Method to get individual stock details
-  async getStockDetails(symbol: string): Promise<NSEStock | null> {
-    try {
-      const data = await this.scrapeNSEData();
-      return data.stocks.find(stock => stock.symbol === symbol) || null;
-    } catch (error) {
-      console.error(`Error getting stock details for ${symbol}:`, error);
-      return null;
-    }
-  }
-
-  // Method to search stocks
-  searchStocks(stocks: NSEStock[], query: string): NSEStock[] {
-    const searchTerm = query.toLowerCase();
-    return stocks.filter(stock => 
-      stock.symbol.toLowerCase().includes(searchTerm) ||
-      stock.name.toLowerCase().includes(searchTerm)
-    );
-  }
 }
 
 export default new NSEWebScraper();
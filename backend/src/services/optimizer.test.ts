@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CovarianceModel, optimizeWeights } from '../../../shared/ai/index.js';
+
+const model = (symbols: string[], volatilities: number[], correlation: number, expectedReturns: number[]): CovarianceModel => {
+  const correlations = symbols.map((_, i) => symbols.map((_, j) => (i === j ? 1 : correlation)));
+  return {
+    symbols,
+    covariance: correlations.map((row, i) => row.map((value, j) => value * volatilities[i] * volatilities[j])),
+    correlation: correlations,
+    volatilities,
+    expectedReturns,
+    shrinkage: { method: 'fixed', intensity: 0 },
+    window: { lookbackDays: 252, start: null, end: null, observations: 251 },
+    symbolsMissing: [],
+  };
+};
+
+const covariance = model(['SCOM', 'EQTY', 'KCB', 'EABL'], [0.2, 0.25, 0.3, 0.35], 0.3, [0.18, 0.16, 0.2, 0.12]);
+const sectors = { SCOM: 'Telecommunication', EQTY: 'Banking', KCB: 'Banking', EABL: 'Manufacturing and Allied' };
+const total = (weights: Record<string, number>): number => Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+describe('optimizeWeights', () => {
+  (['min-variance', 'max-sharpe', 'risk-parity'] as const).forEach(objective => {
+    it(`keeps ${objective} weights within the stock and sector caps and above the cash floor`, () => {
+      const result = optimizeWeights({ covariance, sectors }, objective, { maxStockWeight: 0.3, maxSectorWeight: 0.4, cashFloor: 0.1 });
+
+      Object.values(result.weights).forEach(weight => assert.ok(weight >= -1e-9 && weight <= 0.3 + 1e-6));
+      assert.ok(result.weights.EQTY + result.weights.KCB <= 0.4 + 1e-6);
+      assert.ok(result.cashWeight >= 0.1 - 1e-9);
+      assert.ok(Math.abs(total(result.weights) + result.cashWeight - 1) < 1e-6);
+    });
+  });
+
+  it('honours a per-sector cap over the general one', () => {
+    const result = optimizeWeights({ covariance, sectors }, 'min-variance', { maxSectorWeight: 0.5, sectorCaps: { Banking: 0.1 } });
+    assert.ok(result.weights.EQTY + result.weights.KCB <= 0.1 + 1e-6);
+  });
+
+  it('leaves what the caps cannot place in cash, with a warning', () => {
+    const result = optimizeWeights({ covariance, sectors }, 'min-variance', { maxStockWeight: 0.2 });
+
+    assert.ok(Math.abs(result.cashWeight - 0.2) < 1e-9);
+    assert.ok(result.warnings.some(warning => warning.includes('80.0%')));
+  });
+
+  it('converges on equal risk contributions for risk parity', () => {
+    const result = optimizeWeights({ covariance }, 'risk-parity');
+
+    Object.values(result.riskContributions).forEach(share => assert.ok(Math.abs(share - 0.25) < 1e-6));
+    assert.ok(Math.abs(total(result.weights) - 1) < 1e-9);
+  });
+
+  it('weights uncorrelated holdings by inverse volatility under risk parity', () => {
+    const independent = model(['A', 'B'], [0.1, 0.3], 0, [0.1, 0.1]);
+    const result = optimizeWeights({ covariance: independent }, 'risk-parity');
+
+    assert.ok(Math.abs(result.weights.A - 0.75) < 1e-6);
+    assert.ok(Math.abs(result.weights.B - 0.25) < 1e-6);
+  });
+});
@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import ScrapeHealth, { IScrapeHealth } from '../models/ScrapeHealth.js';
+import { raiseAdminAlert } from './adminAlerts.js';
+import type { NSEStock, ParseReport, RejectedRow } from './marketData/types.js';
+
+export interface ParseHealthReport {
+  takenAt: Date;
+  provider: string;
+  stocksParsed: number;
+  rowsSeen: number | null;
+  rowsParsed: number | null;
+  rejected: RejectedRow[];
+  fallbackUsed: boolean;
+  previousCount: number | null;
+  disappearedSymbols: string[];
+  newSymbols: string[];
+  coverage: number | null;
+  minCoverage: number;
+  degraded: boolean;
+}
+
+// Share of the previous snapshot's symbols that must still be present (0-1)
+export const getMinCoverage = (): number => {
+  const value = Number(process.env.MARKET_PARSE_MIN_COVERAGE);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : 0.9;
+};
+
+/**
+ * Compare a freshly parsed snapshot against the previous one. Coverage is the fraction
+ * of previously listed symbols still present; it is null on the first snapshot, when an
+ * empty result is the only thing that can be judged.
+ */
+export const buildParseHealth = ({ takenAt, provider, stocks, parse, previousSymbols }: {
+  takenAt: Date;
+  provider: string;
+  stocks: NSEStock[];
+  parse: ParseReport | null;
+  previousSymbols: string[] | null;
+}): ParseHealthReport => {
+  const current = new Set(stocks.map(stock => stock.symbol));
+  const previous = previousSymbols ? new Set(previousSymbols) : null;
+
+  const disappearedSymbols = previous ? [...previous].filter(symbol => !current.has(symbol)).sort() : [];
+  const newSymbols = previous ? [...current].filter(symbol => !previous.has(symbol)).sort() : [];
+  const coverage = previous && previous.size > 0
+    ? (previous.size - disappearedSymbols.length) / previous.size
+    : null;
+  const minCoverage = getMinCoverage();
+
+  return {
+    takenAt,
+    provider,
+    stocksParsed: stocks.length,
+    rowsSeen: parse?.rowsSeen ?? null,
+    rowsParsed: parse?.rowsParsed ?? null,
+    rejected: parse?.rejected ?? [],
+    fallbackUsed: parse?.fallbackUsed ?? false,
+    previousCount: previous ? previous.size : null,
+    disappearedSymbols,
+    newSymbols,
+    coverage,
+    minCoverage,
+    degraded: stocks.length === 0 || (coverage !== null && coverage < minCoverage),
+  };
+};
+
+const describe = (report: ParseHealthReport): string => {
+  if (report.stocksParsed === 0) {
+    return `${report.provider} returned no stocks${report.rowsSeen !== null ? ` (${report.rowsSeen} table rows seen)` : ''}`;
+  }
+  const missing = report.disappearedSymbols.slice(0, 10).join(', ');
+  const more = report.disappearedSymbols.length > 10 ? ` and ${report.disappearedSymbols.length - 10} more` : '';
+  return `NSE parse coverage ${(report.coverage! * 100).toFixed(1)}% is below ${(report.minCoverage * 100).toFixed(0)}%: `
+    + `${report.previousCount! - report.disappearedSymbols.length} of ${report.previousCount} previously listed symbols parsed, missing ${missing}${more}`;
+};
+
+/**
+ * Log and store a parse health report, raising an admin alert when it is degraded.
+ * Storage is skipped when the database is not connected.
+ */
+export const recordParseHealth = async (report: ParseHealthReport): Promise<void> => {
+  const rejected = report.rejected.length > 0 ? `, ${report.rejected.length} rows rejected` : '';
+  const gone = report.disappearedSymbols.length > 0 ? `, disappeared: ${report.disappearedSymbols.join(', ')}` : '';
+  console.log(`🩺 Parse health: ${report.stocksParsed} stocks${report.coverage !== null ? `, coverage ${(report.coverage * 100).toFixed(1)}%` : ''}${rejected}${gone}`);
+
+  if (mongoose.connection.readyState === 1) {
+    await ScrapeHealth.create(report);
+  }
+
+  if (report.degraded) {
+    await raiseAdminAlert({
+      type: 'scrape_coverage',
+      severity: report.stocksParsed === 0 || report.fallbackUsed ? 'critical' : 'warning',
+      message: describe(report),
+      details: {
+        taken_at: report.takenAt.toISOString(),
+        provider: report.provider,
+        coverage: report.coverage,
+        min_coverage: report.minCoverage,
+        disappeared_symbols: report.disappearedSymbols,
+        rows_seen: report.rowsSeen,
+        rows_parsed: report.rowsParsed,
+        rejected_rows: report.rejected.length,
+        fallback_used: report.fallbackUsed,
+      },
+    });
+  }
+};
+
+export const serializeParseHealth = (report: IScrapeHealth) => ({
+  id: report._id.toString(),
+  taken_at: report.takenAt,
+  provider: report.provider,
+  stocks_parsed: report.stocksParsed,
+  rows_seen: report.rowsSeen,
+  rows_parsed: report.rowsParsed,
+  rejected: report.rejected,
+  fallback_used: report.fallbackUsed,
+  previous_count: report.previousCount,
+  disappeared_symbols: report.disappearedSymbols,
+  new_symbols: report.newSymbols,
+  coverage: report.coverage,
+  min_coverage: report.minCoverage,
+  degraded: report.degraded,
+});
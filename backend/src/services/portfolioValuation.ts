@@ -0,0 +1,164 @@
+import { isoDate, round, valueFixedIncome } from '../../../shared/ai/index.js';
+import type { AssetType, CreditQuality } from '../../../shared/ai/index.js';
+import { getLatestSnapshot } from './marketSnapshot.js';
+import { IPortfolio } from '../models/Portfolio.js';
+import { accrualSteps, InstrumentMap, instrumentTerms } from './instruments.js';
+import { DerivedLedger, DerivedPosition } from './ledger.js';
+import { getSymbolListing } from './symbolMaster.js';
+
+// Shapes mirror the frontend `Portfolio` / `PortfolioHolding` types in src/types.ts
+export interface PortfolioHoldingResponse {
+  id: string;
+  symbol: string;
+  asset_type: AssetType;
+  // Instrument name; NSE equities have none
+  name?: string;
+  // NSE sector of equities in the symbol master
+  sector?: string;
+  // Units of 100 face value for bills and bonds, shillings for funds and deposits
+  shares: number;
+  avg_price: number;
+  current_price: number;
+  current_value: number;
+  gain_percentage: number;
+  cost_basis: number;
+  unrealized_gain: number;
+  realized_gain: number;
+  dividends: number;
+  interest: number;
+  // Fixed income only
+  ytm?: number;
+  coupon_rate?: number | null;
+  maturity_date?: string | null;
+  accrued_interest?: number;
+  modified_duration?: number;
+  credit_quality?: CreditQuality;
+  matured?: boolean;
+}
+
+export interface PortfolioResponse {
+  id: string;
+  user_id: string;
+  name: string;
+  total_value: number;
+  total_investment: number;
+  total_gain: number;
+  gain_percentage: number;
+  cash_balance: number;
+  realized_gain: number;
+  unrealized_gain: number;
+  dividend_income: number;
+  interest_income: number;
+  fees_paid: number;
+  net_contributions: number;
+  holdings: PortfolioHoldingResponse[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type PriceMap = Map<string, number>;
+
+/**
+ * Latest stored price per symbol. Falls back to an empty map (holdings valued at cost)
+ * when no market data is available, so portfolio endpoints keep working offline.
+ */
+export const getLatestPrices = async (): Promise<PriceMap> => {
+  try {
+    const { data } = await getLatestSnapshot();
+    return new Map(data.stocks.map(stock => [stock.symbol, stock.price]));
+  } catch (error) {
+    console.warn('⚠️ Could not load market prices for valuation, using cost basis:', error instanceof Error ? error.message : error);
+    return new Map();
+  }
+};
+
+// Price and fixed income details of one open position
+const priceHolding = (position: DerivedPosition, prices: PriceMap, instruments: InstrumentMap, asOf: string) => {
+  const instrument = instruments.get(position.symbol);
+  if (!instrument) {
+    const price = prices.get(position.symbol) ?? position.costBasis / position.shares;
+    return {
+      asset_type: 'equity' as const,
+      sector: getSymbolListing(position.symbol)?.sector,
+      current_price: price,
+      current_value: position.shares * price,
+    };
+  }
+
+  const valuation = valueFixedIncome(instrumentTerms(instrument), position.shares, asOf, accrualSteps(position));
+  return {
+    asset_type: instrument.assetType,
+    name: instrument.name,
+    current_price: round(valuation.price, 4),
+    current_value: valuation.value,
+    ytm: valuation.yieldToMaturity,
+    coupon_rate: instrument.couponRate ?? null,
+    maturity_date: isoDate(instrument.maturityDate) ?? null,
+    accrued_interest: round(valuation.accruedInterest),
+    modified_duration: round(valuation.modifiedDuration, 4),
+    credit_quality: valuation.creditQuality,
+    matured: valuation.matured,
+  };
+};
+
+/**
+ * Value the open positions derived from a portfolio's ledger: equities at the latest prices,
+ * symbols with fixed income terms from their yield and accrued interest.
+ * `total_gain` covers realized and unrealized gains plus dividends and interest, net of standalone fees.
+ */
+export const valuePortfolio = (
+  portfolio: IPortfolio,
+  ledger: DerivedLedger,
+  prices: PriceMap,
+  instruments: InstrumentMap = new Map(),
+  asOf: string = new Date().toISOString()
+): PortfolioResponse => {
+  const openPositions = [...ledger.positions.values()].filter(position => position.shares > 0);
+
+  const holdings = openPositions.map(position => {
+    const avgPrice = position.costBasis / position.shares;
+    const { current_value: currentValue, ...priced } = priceHolding(position, prices, instruments, asOf);
+    const unrealizedGain = currentValue - position.costBasis;
+
+    return {
+      id: position.symbol,
+      symbol: position.symbol,
+      shares: position.shares,
+      avg_price: round(avgPrice, 4),
+      ...priced,
+      current_value: round(currentValue),
+      gain_percentage: position.costBasis > 0 ? round((unrealizedGain / position.costBasis) * 100) : 0,
+      cost_basis: round(position.costBasis),
+      unrealized_gain: round(unrealizedGain),
+      realized_gain: round(position.realizedGain),
+      dividends: round(position.dividends),
+      interest: round(position.interest),
+    };
+  });
+
+  const totalInvestment = openPositions.reduce((sum, position) => sum + position.costBasis, 0);
+  const holdingsValue = holdings.reduce((sum, h) => sum + h.current_value, 0);
+  const unrealizedGain = holdingsValue - totalInvestment;
+  // Trading fees are already inside cost basis and sale proceeds; only standalone fee entries are deducted here
+  const totalGain = unrealizedGain + ledger.realizedGain + ledger.dividendIncome + ledger.interestIncome - ledger.otherFees;
+
+  return {
+    id: portfolio._id.toString(),
+    user_id: portfolio.user.toString(),
+    name: portfolio.name,
+    total_value: round(holdingsValue + ledger.cashBalance),
+    total_investment: round(totalInvestment),
+    total_gain: round(totalGain),
+    gain_percentage: totalInvestment > 0 ? round((totalGain / totalInvestment) * 100) : 0,
+    cash_balance: round(ledger.cashBalance),
+    realized_gain: round(ledger.realizedGain),
+    unrealized_gain: round(unrealizedGain),
+    dividend_income: round(ledger.dividendIncome),
+    interest_income: round(ledger.interestIncome),
+    fees_paid: round(ledger.feesPaid),
+    net_contributions: round(ledger.netContributions),
+    holdings,
+    created_at: portfolio.createdAt.toISOString(),
+    updated_at: portfolio.updatedAt.toISOString(),
+  };
+};
@@ -0,0 +1,230 @@
+import mongoose from 'mongoose';
+import PriceTick from '../models/PriceTick.js';
+import { parseCsvRecords } from './csv.js';
+import { NSE_TIMEZONE, sessionCloseOn } from './marketCalendar.js';
+import type { NSEStock } from './marketData/types.js';
+
+export const HISTORY_PERIODS = ['1D', '1W', '1M', '3M', '6M', '1Y', '5Y', 'MAX'] as const;
+export type HistoryPeriod = typeof HISTORY_PERIODS[number];
+
+// Shape mirrors `HistoricalData` in src/services/marketService.ts
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BackfillRow {
+  symbol?: string;
+  date?: string;
+  open?: number | string;
+  high?: number | string;
+  low?: number | string;
+  close?: number | string;
+  volume?: number | string;
+}
+
+export interface BackfillResult {
+  inserted: number;
+  skipped: number;
+  rejected: { row: number; reason: string }[];
+}
+
+export const isHistoryPeriod = (value: unknown): value is HistoryPeriod =>
+  typeof value === 'string' && (HISTORY_PERIODS as readonly string[]).includes(value);
+
+// Earliest timestamp covered by a period, or null for MAX
+export const periodStart = (period: HistoryPeriod, now: Date = new Date()): Date | null => {
+  const start = new Date(now);
+  switch (period) {
+    case '1D': start.setUTCDate(start.getUTCDate() - 1); break;
+    case '1W': start.setUTCDate(start.getUTCDate() - 7); break;
+    case '1M': start.setUTCMonth(start.getUTCMonth() - 1); break;
+    case '3M': start.setUTCMonth(start.getUTCMonth() - 3); break;
+    case '6M': start.setUTCMonth(start.getUTCMonth() - 6); break;
+    case '1Y': start.setUTCFullYear(start.getUTCFullYear() - 1); break;
+    case '5Y': start.setUTCFullYear(start.getUTCFullYear() - 5); break;
+    case 'MAX': return null;
+  }
+  return start;
+};
+
+export const nairobiDay = (date: Date): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: NSE_TIMEZONE }).format(date);
+
+/**
+ * Persist a scraped snapshot as one tick per symbol. Skipped (with a warning) when the
+ * database is not connected, so scraping keeps working without MongoDB.
+ */
+export const recordSnapshot = async (stocks: NSEStock[], takenAt: Date = new Date()): Promise<number> => {
+  if (mongoose.connection.readyState !== 1) {
+    console.warn('⚠️ Database not connected, price snapshot not stored');
+    return 0;
+  }
+
+  const ticks = stocks
+    .filter(stock => Number.isFinite(stock.price) && stock.price > 0)
+    .map(stock => ({
+      symbol: stock.symbol,
+      timestamp: takenAt,
+      open: stock.price,
+      high: stock.price,
+      low: stock.price,
+      close: stock.price,
+      volume: stock.volume ?? 0,
+      source: 'snapshot' as const,
+    }));
+
+  if (ticks.length > 0) {
+    await PriceTick.insertMany(ticks, { ordered: false });
+  }
+  return ticks.length;
+};
+
+// Symbols with any stored price, or none when the database is not connected
+export const getStoredSymbols = async (): Promise<string[]> => {
+  if (mongoose.connection.readyState !== 1) return [];
+  return (await PriceTick.distinct('symbol')).sort();
+};
+
+/**
+ * Daily OHLCV bars for a symbol over a period. `1D` returns the intraday snapshots of the
+ * latest trading day instead, since a single daily bar carries no shape.
+ */
+export const getHistory = async (symbol: string, period: HistoryPeriod): Promise<PriceBar[]> => {
+  const upperSymbol = symbol.toUpperCase();
+
+  if (period === '1D') {
+    const latest = await PriceTick.findOne({ symbol: upperSymbol }).sort({ timestamp: -1 });
+    if (!latest) return [];
+
+    const dayTicks = await PriceTick.find({
+      symbol: upperSymbol,
+      timestamp: { $gte: periodStart('1D', latest.timestamp)! },
+    }).sort({ timestamp: 1 });
+
+    return dayTicks
+      .filter(tick => nairobiDay(tick.timestamp) === nairobiDay(latest.timestamp))
+      .map(tick => ({
+        date: tick.timestamp.toISOString(),
+        open: tick.open,
+        high: tick.high,
+        low: tick.low,
+        close: tick.close,
+        volume: tick.volume,
+      }));
+  }
+
+  const start = periodStart(period);
+  const bars = await PriceTick.aggregate<{ _id: Date; open: number; high: number; low: number; close: number; volume: number }>([
+    { $match: { symbol: upperSymbol, ...(start ? { timestamp: { $gte: start } } : {}) } },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: { $dateTrunc: { date: '$timestamp', unit: 'day', timezone: NSE_TIMEZONE } },
+        open: { $first: '$open' },
+        high: { $max: '$high' },
+        low: { $min: '$low' },
+        close: { $last: '$close' },
+        // Scraped volume is cumulative for the session, so the largest reading is the day's total
+        volume: { $max: '$volume' },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  return bars.map(bar => ({
+    date: nairobiDay(bar._id),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+  }));
+};
+
+const toNumber = (value: number | string | undefined): number =>
+  typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/,/g, ''));
+
+/**
+ * Backfill daily bars. Days that already have data for a symbol are skipped rather than
+ * overwritten, so re-running an import is safe.
+ */
+export const importBars = async (rows: BackfillRow[], defaultSymbol?: string): Promise<BackfillResult> => {
+  const result: BackfillResult = { inserted: 0, skipped: 0, rejected: [] };
+  const valid: { symbol: string; day: string; open: number; high: number; low: number; close: number; volume: number }[] = [];
+
+  rows.forEach((row, index) => {
+    const symbol = (row.symbol || defaultSymbol || '').trim().toUpperCase();
+    const day = String(row.date ?? '').trim().slice(0, 10);
+    const [open, high, low, close] = [row.open, row.high, row.low, row.close].map(toNumber);
+    const volume = row.volume === undefined || row.volume === '' ? 0 : toNumber(row.volume);
+
+    let reason: string | null = null;
+    if (!symbol) reason = 'missing symbol';
+    else if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(Date.parse(day))) reason = `invalid date "${row.date}"`;
+    else if ([open, high, low, close, volume].some(value => !Number.isFinite(value) || value < 0)) reason = 'non-numeric or negative price/volume';
+    else if (high < low || high < Math.max(open, close) || low > Math.min(open, close)) reason = 'high/low inconsistent with open/close';
+
+    if (reason) {
+      result.rejected.push({ row: index + 1, reason });
+      return;
+    }
+    valid.push({ symbol, day, open, high, low, close, volume });
+  });
+
+  if (valid.length === 0) return result;
+
+  const existing = await PriceTick.aggregate<{ _id: { symbol: string; day: string } }>([
+    { $match: { symbol: { $in: [...new Set(valid.map(bar => bar.symbol))] } } },
+    {
+      $group: {
+        _id: {
+          symbol: '$symbol',
+          day: { $dateToString: { date: '$timestamp', format: '%Y-%m-%d', timezone: NSE_TIMEZONE } },
+        },
+      },
+    },
+  ]);
+  const seen = new Set(existing.map(entry => `${entry._id.symbol}|${entry._id.day}`));
+
+  const ticks = [];
+  for (const bar of valid) {
+    const key = `${bar.symbol}|${bar.day}`;
+    if (seen.has(key)) {
+      result.skipped++;
+      continue;
+    }
+    seen.add(key);
+    ticks.push({
+      symbol: bar.symbol,
+      timestamp: sessionCloseOn(bar.day),
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      source: 'import' as const,
+    });
+  }
+
+  if (ticks.length > 0) {
+    await PriceTick.insertMany(ticks, { ordered: false });
+  }
+  result.inserted = ticks.length;
+  return result;
+};
+
+// CSV with a header row naming some of: symbol, date, open, high, low, close, volume
+export const parseBackfillCsv = (text: string): BackfillRow[] => parseCsvRecords(text) as BackfillRow[];
+
+// JSON as an array of rows, or `{ symbol, bars: [...] }` for a single symbol
+export const parseBackfillJson = (text: string): { rows: BackfillRow[]; symbol?: string } => {
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) return { rows: parsed };
+  if (parsed && Array.isArray(parsed.bars)) return { rows: parsed.bars, symbol: parsed.symbol };
+  throw new Error('Expected an array of bars or an object with a "bars" array');
+};
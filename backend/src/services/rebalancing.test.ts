@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AIPortfolio, buildRebalancePlan, MarketData, tradeFees } from '../../../shared/ai/index.js';
+
+const quote = (symbol: string, price: number): MarketData => ({ symbol, company_name: symbol, current_price: price, change_percent: 0 });
+
+describe('tradeFees', () => {
+  it('charges brokerage and the statutory levies, each rounded to the cent', () => {
+    assert.deepEqual(tradeFees(100000), {
+      brokerage: 1500,
+      nseLevy: 120,
+      cmaLevy: 80,
+      cdscLevy: 80,
+      icfLevy: 10,
+      total: 1790,
+    });
+    // 0.12% of 1,234.56 is 1.481472
+    assert.equal(tradeFees(1234.56).nseLevy, 1.48);
+  });
+});
+
+describe('buildRebalancePlan', () => {
+  it('buys whole board lots without overshooting the target', () => {
+    const portfolio: AIPortfolio = { total_value: 100000, cash_balance: 100000, holdings: [] };
+    const plan = buildRebalancePlan(portfolio, { SCOM: 0.5 }, [quote('SCOM', 17)], { driftThreshold: 0 });
+
+    const [trade] = plan.trades;
+    // 2,941 shares make half; 3,000 would pass it, so 29 lots
+    assert.equal(trade.shares, 2900);
+    assert.equal(trade.lots, 29);
+    assert.equal(trade.consideration, 49300);
+    assert.equal(trade.netAmount, 49300 + tradeFees(49300).total);
+    assert.equal(plan.cashAfter, Math.round((100000 - trade.netAmount) * 100) / 100);
+  });
+
+  it('cuts buys back to the lots cash can pay for, fees included', () => {
+    const portfolio: AIPortfolio = {
+      total_value: 100000,
+      cash_balance: 5000,
+      holdings: [{ symbol: 'EQTY', shares: 2000, current_price: 47.5, current_value: 95000 }],
+    };
+    const plan = buildRebalancePlan(portfolio, { EQTY: 0.95, SCOM: 0.2 }, [quote('EQTY', 47.5), quote('SCOM', 17)], { driftThreshold: 0 });
+
+    assert.deepEqual(plan.trades.map(trade => [trade.side, trade.symbol, trade.shares]), [['BUY', 'SCOM', 200]]);
+    assert.equal(plan.trades[0].netAmount, 3460.86);
+    assert.equal(plan.cashAfter, 1539.14);
+    assert.ok(plan.warnings.includes('Cash covers 2 of the 11 lots of SCOM needed.'));
+  });
+
+  it('sells first so the proceeds fund the buys', () => {
+    const portfolio: AIPortfolio = {
+      total_value: 100000,
+      cash_balance: 0,
+      holdings: [{ symbol: 'EQTY', shares: 2000, current_price: 50, current_value: 100000 }],
+    };
+    const plan = buildRebalancePlan(portfolio, { EQTY: 0.5, SCOM: 0.5 }, [quote('EQTY', 50), quote('SCOM', 20)], { driftThreshold: 0 });
+
+    assert.deepEqual(plan.trades.map(trade => [trade.sequence, trade.side, trade.symbol]), [[1, 'SELL', 'EQTY'], [2, 'BUY', 'SCOM']]);
+    assert.equal(plan.trades[0].shares, 1000);
+    assert.ok(plan.cashAfter >= 0);
+  });
+});
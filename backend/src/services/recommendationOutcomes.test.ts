@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import mongoose from 'mongoose';
+import { AIRecommendation, CorporateAction } from '../../../shared/ai/index.js';
+import Recommendation from '../models/Recommendation.js';
+import { recordRecommendations, scoreRecommendation } from './recommendationOutcomes.js';
+
+const USER_ID = new mongoose.Types.ObjectId().toString();
+
+const recommendation: AIRecommendation = {
+  id: 'rec-1',
+  type: 'BUY',
+  symbol: 'SCOM',
+  confidence: 0.7,
+  rationale: 'Strong dividend yield',
+  expectedReturn: 12,
+  riskLevel: 'medium',
+  timeHorizon: 'medium',
+  price: 17,
+  targetPrice: 19,
+  stopLoss: 15.6,
+  reasoning: { technical: [], fundamental: [], sentiment: [], risk: [] },
+  timestamp: '2026-10-16T07:00:00.000Z',
+};
+
+type UpsertOp = { updateOne: { filter: Record<string, unknown>; update: { $setOnInsert: Record<string, unknown> } } };
+
+describe('recordRecommendations', () => {
+  // Stored rows by their upsert filter, as the unique index keeps them
+  let stored: Map<string, Record<string, unknown>>;
+
+  beforeEach(() => {
+    stored = new Map();
+    Object.defineProperty(mongoose.connection, 'readyState', { value: 1, configurable: true });
+    mock.method(Recommendation, 'bulkWrite', async (ops: UpsertOp[]) => {
+      let upsertedCount = 0;
+      ops.forEach(({ updateOne: { filter, update } }) => {
+        const key = JSON.stringify(filter);
+        if (stored.has(key)) return;
+        stored.set(key, { ...filter, ...update.$setOnInsert });
+        upsertedCount++;
+      });
+      return { upsertedCount };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    delete (mongoose.connection as { readyState?: number }).readyState;
+  });
+
+  it('stores two identical calls on the same Nairobi day as one row', async () => {
+    const context = { userId: USER_ID, source: 'investment-advice' as const, marketData: [] };
+
+    const first = await recordRecommendations([recommendation], { ...context, issuedAt: new Date('2026-10-16T07:00:00Z') });
+    const second = await recordRecommendations([recommendation], { ...context, issuedAt: new Date('2026-10-16T12:30:00Z') });
+
+    assert.equal(first, 1);
+    assert.equal(second, 0);
+    assert.equal(stored.size, 1);
+    // The first issue is the one kept
+    const [row] = stored.values();
+    assert.equal((row.issuedAt as Date).toISOString(), '2026-10-16T07:00:00.000Z');
+  });
+
+  it('stores the same recommendation again on the next Nairobi day', async () => {
+    const context = { userId: USER_ID, source: 'investment-advice' as const, marketData: [] };
+
+    await recordRecommendations([recommendation], { ...context, issuedAt: new Date('2026-10-16T20:00:00Z') });
+    // 00:30 on 17 October in Nairobi
+    await recordRecommendations([recommendation], { ...context, issuedAt: new Date('2026-10-16T21:30:00Z') });
+
+    assert.equal(stored.size, 2);
+  });
+
+  it('is backed by a unique index on user, symbol, type, engine version and issue day', () => {
+    const unique = Recommendation.schema.indexes().find(([, options]) => options?.unique);
+    assert.deepEqual(unique?.[0], { user: 1, symbol: 1, type: 1, engineVersion: 1, issueDay: 1 });
+  });
+});
+
+describe('scoreRecommendation', () => {
+  // A BUY at 20 aiming for 23 with an 8% stop, issued on a Monday
+  const issued = {
+    price: 20,
+    targetPrice: 23,
+    stopLoss: 18.4,
+    issuedAt: new Date('2026-03-02T07:00:00Z'),
+    expiresAt: new Date('2026-08-29T07:00:00Z'),
+  };
+  // Raw closes halve at the 1:1 bonus issue going ex on 4 March
+  const bars = [
+    { date: '2026-03-02', open: 19.9, high: 20.1, low: 19.8, close: 20, volume: 1000 },
+    { date: '2026-03-03', open: 20, high: 20.4, low: 19.8, close: 20.2, volume: 1000 },
+    { date: '2026-03-04', open: 10.1, high: 10.3, low: 10, close: 10.2, volume: 2000 },
+    { date: '2026-03-05', open: 10.5, high: 11.6, low: 10.4, close: 11.5, volume: 2000 },
+  ];
+  const bonus: CorporateAction = { symbol: 'SCOM', type: 'bonus', exDate: '2026-03-04', ratio: { numerator: 1, denominator: 1 } };
+  const now = new Date('2026-03-06T12:00:00Z');
+
+  it('reads a bonus issue in the scoring window as the price it is, not a fall through the stop', () => {
+    const outcome = scoreRecommendation(issued, bars, now, [bonus]);
+
+    assert.equal(outcome?.status, 'hit_target');
+    assert.equal(outcome?.exitPrice, 23);
+    assert.equal(outcome?.resolvedAt.toISOString(), '2026-03-05T12:00:00.000Z');
+    assert.ok(Math.abs(outcome!.realizedReturn! - 0.15) < 1e-9);
+  });
+
+  it('ignores actions that went ex before the issue day', () => {
+    const earlier: CorporateAction = { ...bonus, exDate: '2026-03-02' };
+    assert.equal(scoreRecommendation(issued, bars, now, [earlier])?.status, 'stopped_out');
+  });
+});
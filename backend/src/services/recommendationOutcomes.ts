@@ -0,0 +1,318 @@
+import mongoose from 'mongoose';
+import {
+  AIModelPerformance,
+  AIRecommendation,
+  backAdjustBars,
+  CorporateAction,
+  MarketData,
+  MS_PER_DAY,
+  RECOMMENDATION_ENGINE_VERSION,
+  RecommendationOutcomeStats,
+} from '../../../shared/ai/index.js';
+import Recommendation, { IRecommendation, RecommendationSource, RecommendationStatus } from '../models/Recommendation.js';
+import { getSymbolCorporateActions, toCorporateAction } from './corporateActions.js';
+import { sessionCloseOn } from './marketCalendar.js';
+import { getMarketDataProvider } from './marketData/index.js';
+import { HistoryPeriod, nairobiDay, periodStart, PriceBar } from './priceHistory.js';
+
+type RiskLevel = 'low' | 'medium' | 'high';
+
+// Calendar days a recommendation stays open before it is scored on where the price ended up
+export const HORIZON_DAYS = { short: 30, medium: 180, long: 365 } as const;
+
+const DEFAULT_SCORING_INTERVAL_MINUTES = 60;
+
+let timer: NodeJS.Timeout | null = null;
+
+export interface IssueContext {
+  userId: string;
+  portfolioId?: string | null;
+  source: RecommendationSource;
+  // Sectors come from here when the snapshot carries them
+  marketData: MarketData[];
+  issuedAt?: Date;
+}
+
+/**
+ * Store recommendations as they are issued so their outcomes can be scored later: at most one
+ * per user, symbol, type and engine version each Nairobi day, the first issued, so repeated
+ * requests do not inflate the outcome statistics. Returns how many were new. Skipped when the
+ * database is not connected; a failed write is logged rather than failing the request.
+ */
+export const recordRecommendations = async (
+  recommendations: AIRecommendation[],
+  { userId, portfolioId = null, source, marketData, issuedAt = new Date() }: IssueContext
+): Promise<number> => {
+  const scorable = recommendations.filter(recommendation => recommendation.price > 0);
+  if (mongoose.connection.readyState !== 1 || scorable.length === 0) return 0;
+
+  const sectors = new Map(marketData.map(stock => [stock.symbol, stock.sector]));
+  const issueDay = nairobiDay(issuedAt);
+  try {
+    const write = await Recommendation.bulkWrite(scorable.map(recommendation => ({
+      updateOne: {
+        filter: {
+          user: userId,
+          symbol: recommendation.symbol,
+          type: recommendation.type,
+          engineVersion: RECOMMENDATION_ENGINE_VERSION,
+          issueDay,
+        },
+        update: {
+          $setOnInsert: {
+            portfolio: portfolioId,
+            source,
+            sector: sectors.get(recommendation.symbol) ?? null,
+            confidence: recommendation.confidence,
+            expectedReturn: recommendation.expectedReturn,
+            riskLevel: recommendation.riskLevel,
+            timeHorizon: recommendation.timeHorizon,
+            price: recommendation.price,
+            targetPrice: recommendation.targetPrice,
+            stopLoss: recommendation.stopLoss,
+            rationale: recommendation.rationale,
+            issuedAt,
+            expiresAt: new Date(issuedAt.getTime() + HORIZON_DAYS[recommendation.timeHorizon] * MS_PER_DAY),
+          },
+        },
+        upsert: true,
+      },
+    })), { ordered: false });
+    return write.upsertedCount;
+  } catch (error) {
+    // An identical request racing this one stored the same recommendations first
+    if ((error as { code?: number })?.code === 11000) return 0;
+    console.error('❌ Failed to record recommendations:', error instanceof Error ? error.message : error);
+    return 0;
+  }
+};
+
+export interface RecommendationOutcome {
+  status: Exclude<RecommendationStatus, 'open'>;
+  resolvedAt: Date;
+  exitPrice: number | null;
+  realizedReturn: number | null;
+  realizedRiskLevel: RiskLevel | null;
+}
+
+type ScoredFields = Pick<IRecommendation, 'price' | 'targetPrice' | 'stopLoss' | 'issuedAt' | 'expiresAt'>;
+
+// The thresholds the engine applies to a day's move when it rates a stock's risk
+const riskLevelOf = (closes: number[]): RiskLevel | null => {
+  if (closes.length < 2) return null;
+  const moves = closes.slice(1).map((close, i) => Math.abs(close / closes[i] - 1) * 100);
+  const meanMove = moves.reduce((sum, move) => sum + move, 0) / moves.length;
+  if (meanMove < 1) return 'low';
+  if (meanMove < 3) return 'medium';
+  return 'high';
+};
+
+/**
+ * Bars in the prices of the issue day: those after an ex-date that falls after the issue day
+ * are scaled back by that action's factor, so a bonus issue or split halving the quoted price
+ * does not read as a fall through the stop. Bars up to the first such ex-date are unchanged.
+ */
+const inIssueDayTerms = (bars: PriceBar[], actions: CorporateAction[], issueDay: string): PriceBar[] => {
+  const adjusted = backAdjustBars(bars, actions.filter(action => action.exDate > issueDay));
+  if (adjusted === bars) return bars;
+
+  // The first bar precedes every applied ex-date, so it carries all of their factors
+  const total = adjusted[0].close / bars[0].close;
+  return adjusted.map(bar => ({
+    ...bar,
+    open: bar.open / total,
+    high: bar.high / total,
+    low: bar.low / total,
+    close: bar.close / total,
+  }));
+};
+
+/**
+ * Walk the daily bars after the issue day, adjusted for the corporate actions since, until the
+ * price reaches the target or the stop.
+ * The stop sits on the losing side, so it also gives the direction: a SELL is stopped when
+ * the price rises through it. A target on the wrong side of the price (a HOLD expecting a
+ * fall) cannot be hit. A day whose range spans both counts as stopped, since daily bars do
+ * not say which came first, and a gap through the stop exits at the open. Returns null
+ * while the recommendation is still open.
+ */
+export const scoreRecommendation = (
+  recommendation: ScoredFields,
+  bars: PriceBar[],
+  now: Date = new Date(),
+  actions: CorporateAction[] = []
+): RecommendationOutcome | null => {
+  const { price, targetPrice, stopLoss } = recommendation;
+  const issueDay = nairobiDay(recommendation.issuedAt);
+  const lastDay = nairobiDay(recommendation.expiresAt);
+  const long = stopLoss < price;
+  const direction = long ? 1 : -1;
+  const hasTarget = direction * (targetPrice - price) > 0;
+  const closes = [price];
+
+  const resolve = (status: RecommendationOutcome['status'], resolvedAt: Date, exitPrice: number | null): RecommendationOutcome => ({
+    status,
+    resolvedAt,
+    exitPrice,
+    realizedReturn: exitPrice !== null ? direction * (exitPrice / price - 1) : null,
+    realizedRiskLevel: riskLevelOf(closes),
+  });
+
+  for (const bar of inIssueDayTerms(bars, actions, issueDay)) {
+    if (bar.date <= issueDay || bar.date > lastDay) continue;
+    closes.push(bar.close);
+
+    const stopped = long ? bar.low <= stopLoss : bar.high >= stopLoss;
+    if (stopped) {
+      return resolve('stopped_out', sessionCloseOn(bar.date), long ? Math.min(stopLoss, bar.open) : Math.max(stopLoss, bar.open));
+    }
+    const hit = hasTarget && (long ? bar.high >= targetPrice : bar.low <= targetPrice);
+    if (hit) {
+      return resolve('hit_target', sessionCloseOn(bar.date), targetPrice);
+    }
+  }
+
+  if (now.getTime() < recommendation.expiresAt.getTime()) return null;
+  return resolve('expired', recommendation.expiresAt, closes.length > 1 ? closes[closes.length - 1] : null);
+};
+
+// Shortest history period reaching back to a date
+const periodCovering = (since: Date, now: Date): HistoryPeriod =>
+  (['1W', '1M', '3M', '6M', '1Y', '5Y'] as const).find(period => periodStart(period, now)!.getTime() <= since.getTime()) ?? 'MAX';
+
+/**
+ * Score every open recommendation against the daily bars stored since it was issued, in the
+ * prices of its issue day
+ */
+export const scoreOpenRecommendations = async (now: Date = new Date()): Promise<{ checked: number; resolved: number }> => {
+  if (mongoose.connection.readyState !== 1) return { checked: 0, resolved: 0 };
+
+  const open = await Recommendation.find({ status: 'open' }).sort({ issuedAt: 1 });
+  const bySymbol = new Map<string, IRecommendation[]>();
+  open.forEach(recommendation => {
+    bySymbol.set(recommendation.symbol, [...(bySymbol.get(recommendation.symbol) ?? []), recommendation]);
+  });
+
+  const provider = getMarketDataProvider();
+  let resolved = 0;
+  for (const [symbol, recommendations] of bySymbol) {
+    // Sorted by issue date, so the first needs the longest history
+    const bars = await provider.getHistory(symbol, periodCovering(recommendations[0].issuedAt, now));
+    const actions = (await getSymbolCorporateActions(symbol)).map(toCorporateAction);
+
+    for (const recommendation of recommendations) {
+      const outcome = scoreRecommendation(recommendation, bars, now, actions);
+      if (!outcome) continue;
+      recommendation.set(outcome);
+      await recommendation.save();
+      resolved++;
+    }
+  }
+
+  return { checked: open.length, resolved };
+};
+
+const runScoring = async () => {
+  try {
+    const { checked, resolved } = await scoreOpenRecommendations();
+    if (resolved > 0) {
+      console.log(`🎯 Scored ${resolved} of ${checked} open recommendations`);
+    }
+  } catch (error) {
+    console.error('❌ Recommendation scoring failed:', error instanceof Error ? error.message : error);
+  }
+};
+
+export const startRecommendationScoring = (): void => {
+  if (timer) return;
+
+  const intervalMs = (Number(process.env.RECOMMENDATION_SCORING_INTERVAL_MINUTES) || DEFAULT_SCORING_INTERVAL_MINUTES) * 60000;
+  console.log(`⏱️  Recommendation outcome scoring every ${intervalMs / 60000} min`);
+
+  runScoring();
+  timer = setInterval(runScoring, intervalMs);
+};
+
+export const stopRecommendationScoring = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+type ScoredRecommendation = Pick<IRecommendation,
+  'type' | 'riskLevel' | 'sector' | 'confidence' | 'status' | 'realizedReturn' | 'realizedRiskLevel'>;
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const summarize = (scored: ScoredRecommendation[]): RecommendationOutcomeStats => {
+  const hitTarget = scored.filter(recommendation => recommendation.status === 'hit_target').length;
+  const withRisk = scored.filter(recommendation => recommendation.realizedRiskLevel !== null);
+
+  return {
+    sampleSize: scored.length,
+    hitTarget,
+    stoppedOut: scored.filter(recommendation => recommendation.status === 'stopped_out').length,
+    expired: scored.filter(recommendation => recommendation.status === 'expired').length,
+    successRate: scored.length > 0 ? hitTarget / scored.length : null,
+    averageReturn: mean(scored.flatMap(recommendation => recommendation.realizedReturn ?? [])),
+    averageConfidence: mean(scored.map(recommendation => recommendation.confidence)),
+    riskAccuracy: withRisk.length > 0
+      ? withRisk.filter(recommendation => recommendation.realizedRiskLevel === recommendation.riskLevel).length / withRisk.length
+      : null,
+  };
+};
+
+const sliceBy = (scored: ScoredRecommendation[], key: (recommendation: ScoredRecommendation) => string) => {
+  const groups = new Map<string, ScoredRecommendation[]>();
+  scored.forEach(recommendation => groups.set(key(recommendation), [...(groups.get(key(recommendation)) ?? []), recommendation]));
+  return Object.fromEntries([...groups].sort(([a], [b]) => a.localeCompare(b)).map(([name, group]) => [name, summarize(group)]));
+};
+
+// Recommendations issued without a known sector are reported under this name
+export const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+export interface ModelPerformanceFilter {
+  type?: string;
+  riskLevel?: string;
+  sector?: string;
+  engineVersion?: string;
+}
+
+/**
+ * Hit rate, realised return, risk-level accuracy and stated confidence of every scored
+ * recommendation matching the filter, overall and by type, risk level and sector
+ */
+export const getModelPerformance = async ({ type, riskLevel, sector, engineVersion }: ModelPerformanceFilter = {}): Promise<AIModelPerformance> => {
+  const filter = {
+    ...(type ? { type } : {}),
+    ...(riskLevel ? { riskLevel } : {}),
+    ...(sector ? { sector: sector === UNCLASSIFIED_SECTOR ? null : sector } : {}),
+    ...(engineVersion ? { engineVersion } : {}),
+  };
+
+  const [scored, open]: [ScoredRecommendation[], number] = mongoose.connection.readyState === 1
+    ? await Promise.all([
+      Recommendation.find({ ...filter, status: { $ne: 'open' } })
+        .select('type riskLevel sector confidence status realizedReturn realizedRiskLevel')
+        .lean<ScoredRecommendation[]>(),
+      Recommendation.countDocuments({ ...filter, status: 'open' }),
+    ])
+    : [[], 0];
+
+  const outcomes = summarize(scored);
+  return {
+    riskModelAccuracy: outcomes.riskAccuracy,
+    recommendationSuccess: outcomes.successRate,
+    predictionConfidence: outcomes.averageConfidence,
+    lastUpdated: new Date().toISOString(),
+    open,
+    outcomes,
+    slices: {
+      byType: sliceBy(scored, recommendation => recommendation.type),
+      byRiskLevel: sliceBy(scored, recommendation => recommendation.riskLevel),
+      bySector: sliceBy(scored, recommendation => recommendation.sector ?? UNCLASSIFIED_SECTOR),
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import Portfolio from '../models/Portfolio.js';
+import { assessPortfolioAlerts, loadAnalysisContext, loadUserPortfolio } from './aiAnalysis.js';
+import { raiseAIAlerts } from './notifications.js';
+
+const DEFAULT_SCAN_INTERVAL_MINUTES = 60;
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Assess every portfolio against the latest snapshot and store its AI alerts, so users are
+ * notified of risk without opening the AI Insights panel. A portfolio that cannot be assessed
+ * is logged and counted as failed; the rest are still scanned.
+ */
+export const scanPortfolioRisk = async (): Promise<{ portfolios: number; raised: number; failed: number }> => {
+  if (mongoose.connection.readyState !== 1) return { portfolios: 0, raised: 0, failed: 0 };
+
+  const context = await loadAnalysisContext();
+  const portfolios = await Portfolio.find().select('_id user');
+  let raised = 0;
+  let failed = 0;
+  for (const { _id, user } of portfolios) {
+    try {
+      const portfolio = await loadUserPortfolio(user.toString(), _id.toString(), context);
+      if (!portfolio || portfolio.holdings.length === 0) continue;
+
+      const alerts = await assessPortfolioAlerts(portfolio, context);
+      raised += (await raiseAIAlerts(user, _id, alerts)).length;
+    } catch (error) {
+      // An inconsistent ledger or a failed history lookup must not hold up everyone else's alerts
+      failed++;
+      console.warn(`⚠️ Skipped risk scan of portfolio ${_id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { portfolios: portfolios.length, raised, failed };
+};
+
+const runScan = async () => {
+  try {
+    const { portfolios, raised, failed } = await scanPortfolioRisk();
+    if (raised > 0) {
+      console.log(`🔔 Raised ${raised} AI alerts across ${portfolios} portfolios`);
+    }
+    if (failed > 0) {
+      console.warn(`⚠️ Risk scan skipped ${failed} of ${portfolios} portfolios`);
+    }
+  } catch (error) {
+    console.error('❌ Portfolio risk scan failed:', error instanceof Error ? error.message : error);
+  }
+};
+
+export const startRiskAlertScan = (): void => {
+  if (timer) return;
+
+  const intervalMs = (Number(process.env.RISK_ALERT_INTERVAL_MINUTES) || DEFAULT_SCAN_INTERVAL_MINUTES) * 60000;
+  console.log(`⏱️  Portfolio risk alert scan every ${intervalMs / 60000} min`);
+
+  runScan();
+  timer = setInterval(runScan, intervalMs);
+};
+
+export const stopRiskAlertScan = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,55 @@
+import { RISK_QUESTIONNAIRE_VERSION, RiskQuestionnaireAnswers, scoreRiskQuestionnaire } from '../../../shared/ai/index.js';
+import RiskAssessment, { IRiskAssessment } from '../models/RiskAssessment.js';
+import User, { IUser } from '../models/User.js';
+
+/**
+ * Score a questionnaire, store it in the user's assessment history and make its result the
+ * user's risk tolerance. Throws a RiskAssessmentError for answers the questionnaire does not offer.
+ */
+export const submitRiskAssessment = async (
+  userId: string,
+  answers: RiskQuestionnaireAnswers
+): Promise<{ assessment: IRiskAssessment; user: IUser } | null> => {
+  const result = scoreRiskQuestionnaire(answers);
+
+  const user = await User.findById(userId);
+  if (!user) return null;
+
+  const assessment = await RiskAssessment.create({
+    user: user._id,
+    score: result.score,
+    riskTolerance: result.riskTolerance,
+    investmentHorizon: answers.investmentHorizon,
+    debtToIncomeRatio: result.debtToIncomeRatio,
+    emergencyFundMonths: answers.emergencyFundMonths,
+    financialGoals: answers.financialGoals,
+    assessmentData: {
+      questionnaireVersion: RISK_QUESTIONNAIRE_VERSION,
+      answers,
+      capacityScore: result.capacityScore,
+      willingnessScore: result.willingnessScore,
+      constraints: result.constraints,
+    },
+  });
+
+  user.riskTolerance = result.riskTolerance;
+  user.riskScore = result.score;
+  user.riskAssessedAt = assessment.createdAt;
+  await user.save();
+
+  return { assessment, user };
+};
+
+export const serializeRiskAssessment = (assessment: IRiskAssessment) => ({
+  id: assessment._id.toString(),
+  user_id: assessment.user.toString(),
+  score: assessment.score,
+  risk_tolerance: assessment.riskTolerance,
+  investment_horizon: assessment.investmentHorizon,
+  debt_to_income_ratio: assessment.debtToIncomeRatio,
+  emergency_fund_months: assessment.emergencyFundMonths,
+  financial_goals: assessment.financialGoals,
+  assessment_data: assessment.assessmentData,
+  created_at: assessment.createdAt,
+  updated_at: assessment.updatedAt,
+});
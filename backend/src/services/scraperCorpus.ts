@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { round } from '../../../shared/ai/index.js';
+import { NSEWebScraper } from './nseWebScraper.js';
+
+// Saved NSE pages, each kept with its expected parse output as `<page>.expected.json`
+export const SCRAPER_CORPUS = 'fixtures/scraper';
+const FIXED_TIMESTAMP = '2025-06-13T12:00:00.000Z';
+
+// Stocks, summaries, index levels and the parse report of a saved page, as kept in its expected file
+export const snapshotOf = (html: string) => {
+  const { data, report } = new NSEWebScraper().parsePage(html, FIXED_TIMESTAMP);
+
+  return {
+    stocks: data.stocks.map(stock => ({
+      symbol: stock.symbol,
+      name: stock.name,
+      volume: stock.volume,
+      price: stock.price,
+      change: stock.change,
+      changePercent: round(stock.changePercent, 4),
+    })),
+    marketSummary: {
+      index: data.marketSummary.index,
+      value: data.marketSummary.value,
+      change: data.marketSummary.change,
+      changePercent: round(data.marketSummary.changePercent, 4),
+      marketCap: data.marketSummary.marketCap,
+    },
+    indices: data.indices.map(quote => ({
+      index: quote.index,
+      value: quote.value,
+      change: quote.change,
+      changePercent: round(quote.changePercent, 4),
+    })),
+    tradingSummary: data.tradingSummary,
+    report: {
+      rowsSeen: report.rowsSeen,
+      rowsParsed: report.rowsParsed,
+      fallbackUsed: report.fallbackUsed,
+      rejected: report.rejected.map(({ row, reason }) => ({ row, reason })),
+    },
+  };
+};
+
+export const corpusPages = (corpus: string = SCRAPER_CORPUS): string[] =>
+  fs.readdirSync(corpus).filter(file => /\.html?$/i.test(file)).sort();
+
+export const expectedFileOf = (corpus: string, page: string): string =>
+  path.join(corpus, page.replace(/\.html?$/i, '.expected.json'));
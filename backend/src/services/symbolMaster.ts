@@ -0,0 +1,169 @@
+import mongoose from 'mongoose';
+import {
+  isValidIsin,
+  LISTING_SEGMENTS,
+  ListingSegment,
+  marketCapOf,
+  parseSector,
+  SymbolListing,
+} from '../../../shared/ai/index.js';
+import ListedSymbol from '../models/ListedSymbol.js';
+import { parseCsvNumber, parseCsvRecords } from './csv.js';
+import type { NSEMarketData, NSEStock } from './marketData/index.js';
+
+export interface SymbolRow {
+  symbol?: string;
+  name?: string;
+  sector?: string;
+  isin?: string;
+  segment?: string;
+  shares_outstanding?: number | string;
+  board_lot?: number | string;
+}
+
+export interface SymbolImportResult {
+  inserted: number;
+  updated: number;
+  rejected: { row: number; reason: string }[];
+}
+
+const DEFAULT_BOARD_LOT = 100;
+
+// The symbol master by symbol; loaded at startup and after every import
+let master = new Map<string, SymbolListing>();
+
+export const serializeSymbolListing = (listing: SymbolListing, price?: number) => ({
+  symbol: listing.symbol,
+  name: listing.name,
+  sector: listing.sector,
+  isin: listing.isin ?? null,
+  segment: listing.segment,
+  shares_outstanding: listing.sharesOutstanding ?? null,
+  board_lot: listing.boardLot,
+  market_cap: price !== undefined ? marketCapOf(price, listing.sharesOutstanding) ?? null : null,
+});
+
+export const loadSymbolMaster = async (): Promise<number> => {
+  if (mongoose.connection.readyState !== 1) return master.size;
+
+  const stored = await ListedSymbol.find()
+    .select('symbol name sector isin segment sharesOutstanding boardLot')
+    .lean();
+  master = new Map(stored.map(listed => [listed.symbol, {
+    symbol: listed.symbol,
+    name: listed.name,
+    sector: listed.sector,
+    isin: listed.isin,
+    segment: listed.segment,
+    sharesOutstanding: listed.sharesOutstanding,
+    boardLot: listed.boardLot ?? DEFAULT_BOARD_LOT,
+  }]));
+  return master.size;
+};
+
+export const getSymbolListing = (symbol: string): SymbolListing | null => master.get(symbol.toUpperCase()) ?? null;
+
+export const getSymbolListings = (): SymbolListing[] =>
+  [...master.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+// A quote with its listing's sector, ISIN, segment, shares in issue, board lot and market cap
+export const joinSymbolMaster = (stock: NSEStock): NSEStock => {
+  const listing = master.get(stock.symbol);
+  if (!listing) return stock;
+
+  return {
+    ...stock,
+    sector: listing.sector,
+    isin: listing.isin,
+    segment: listing.segment,
+    sharesOutstanding: listing.sharesOutstanding,
+    boardLot: listing.boardLot,
+    marketCap: marketCapOf(stock.price, listing.sharesOutstanding),
+  };
+};
+
+// Every quote of a snapshot joined onto the symbol master; stored snapshots stay as scraped
+export const withSymbolMaster = (data: NSEMarketData): NSEMarketData => {
+  if (master.size === 0) return data;
+
+  return {
+    ...data,
+    stocks: data.stocks.map(joinSymbolMaster),
+    topGainers: data.topGainers.map(joinSymbolMaster),
+    topLosers: data.topLosers.map(joinSymbolMaster),
+    mostActive: data.mostActive.map(joinSymbolMaster),
+  };
+};
+
+/**
+ * Store listings in the symbol master. A symbol already listed is overwritten, so an import
+ * can correct a sector or record a share issue; the ISIN and shares outstanding are cleared
+ * when left blank, and a blank board lot is the standard 100 shares.
+ */
+export const importSymbols = async (
+  rows: SymbolRow[],
+  { source }: { source?: string } = {}
+): Promise<SymbolImportResult> => {
+  const result: SymbolImportResult = { inserted: 0, updated: 0, rejected: [] };
+  const valid: SymbolListing[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const symbol = String(row.symbol ?? '').trim().toUpperCase();
+    const name = String(row.name ?? '').trim();
+    const sector = parseSector(String(row.sector ?? ''));
+    const isin = String(row.isin ?? '').trim().toUpperCase() || undefined;
+    const segment = (String(row.segment ?? '').trim().toUpperCase() || 'MIMS') as ListingSegment;
+    const sharesOutstanding = parseCsvNumber(row.shares_outstanding);
+    const boardLot = parseCsvNumber(row.board_lot) ?? DEFAULT_BOARD_LOT;
+
+    let reason: string | null = null;
+    if (!symbol) reason = 'missing symbol';
+    else if (!name) reason = 'missing name';
+    else if (!sector) reason = `unknown sector "${row.sector ?? ''}"`;
+    else if (!LISTING_SEGMENTS.includes(segment)) reason = `segment must be one of: ${LISTING_SEGMENTS.join(', ')}`;
+    else if (isin && !isValidIsin(isin)) reason = `invalid ISIN "${isin}"`;
+    else if (sharesOutstanding !== undefined && !(Number.isFinite(sharesOutstanding) && sharesOutstanding > 0)) reason = 'shares outstanding must be a positive number';
+    else if (!Number.isInteger(boardLot) || boardLot < 1) reason = 'board lot must be a whole number of shares';
+    else if (seen.has(symbol)) reason = `duplicate ${symbol} in this import`;
+
+    if (reason) {
+      result.rejected.push({ row: index + 1, reason });
+      return;
+    }
+    seen.add(symbol);
+    valid.push({ symbol, name, sector: sector!, isin, segment, sharesOutstanding, boardLot });
+  });
+
+  if (valid.length === 0) return result;
+
+  const write = await ListedSymbol.bulkWrite(valid.map(({ symbol, ...fields }) => {
+    const entries = Object.entries({ ...fields, source });
+    const cleared = entries.filter(([, value]) => value === undefined).map(([key]) => [key, '']);
+    return {
+      updateOne: {
+        filter: { symbol },
+        update: {
+          $set: Object.fromEntries(entries.filter(([, value]) => value !== undefined)),
+          ...(cleared.length > 0 && { $unset: Object.fromEntries(cleared) }),
+        },
+        upsert: true,
+      },
+    };
+  }));
+  result.inserted = write.upsertedCount;
+  result.updated = valid.length - write.upsertedCount;
+  await loadSymbolMaster();
+  return result;
+};
+
+// CSV with a header row naming: symbol, name, sector, isin, segment, shares_outstanding, board_lot
+export const parseSymbolsCsv = (text: string): SymbolRow[] => parseCsvRecords(text) as SymbolRow[];
+
+// JSON as an array of rows, or `{ symbols: [...] }`
+export const parseSymbolsJson = (body: unknown): SymbolRow[] => {
+  if (Array.isArray(body)) return body;
+  const parsed = body as { symbols?: unknown } | null;
+  if (parsed && Array.isArray(parsed.symbols)) return parsed.symbols;
+  throw new Error('Expected an array of symbols or an object with a "symbols" array');
+};
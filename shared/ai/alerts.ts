@@ -0,0 +1,102 @@
+// Price alert rules, evaluated against each market snapshot
+// A price cross fires once as the price passes through the level between two snapshots; the
+// other rules hold for the rest of the session once met, so callers fire them once per day
+
+import {
+  AdjustableBar,
+  AlertDirection,
+  AlertHistory,
+  AlertQuote,
+  AlertRuleTerms,
+  AlertRuleType,
+  AlertTrigger,
+} from './types.js';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['price-cross', 'percent-move', 'volume-spike', '52-week-high', '52-week-low'];
+export const ALERT_DIRECTIONS: AlertDirection[] = ['up', 'down', 'either'];
+
+// Rules whose threshold is required
+export const THRESHOLD_RULE_TYPES: AlertRuleType[] = ['price-cross', 'percent-move', 'volume-spike'];
+
+// Rules that stay met for the rest of the session once met
+export const isDailyAlertRule = (type: AlertRuleType): boolean => type !== 'price-cross';
+
+// Sessions averaged for a volume spike
+export const VOLUME_AVERAGE_SESSIONS = 20;
+
+const kes = (value: number): string => `KES ${value.toFixed(2)}`;
+const signed = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const matchesDirection = (direction: AlertDirection | undefined, up: boolean): boolean =>
+  !direction || direction === 'either' || (direction === 'up') === up;
+
+/**
+ * Average volume and 52-week range from the daily bars of the year before `day` (YYYY-MM-DD);
+ * the current session is left out, so it is compared against history rather than itself
+ */
+export const alertHistory = (bars: AdjustableBar[], day: string): AlertHistory => {
+  const past = bars.filter(bar => bar.date.slice(0, 10) < day);
+  const traded = past.slice(-VOLUME_AVERAGE_SESSIONS).map(bar => bar.volume ?? 0).filter(volume => volume > 0);
+  return {
+    averageVolume: traded.length > 0 ? traded.reduce((sum, volume) => sum + volume, 0) / traded.length : null,
+    high52Week: past.length > 0 ? Math.max(...past.map(bar => bar.high ?? bar.close)) : null,
+    low52Week: past.length > 0 ? Math.min(...past.map(bar => bar.low ?? bar.close)) : null,
+  };
+};
+
+// The alert a rule raises on a quote, or null when the rule is not met
+export const evaluateAlertRule = (rule: AlertRuleTerms, quote: AlertQuote, history: AlertHistory): AlertTrigger | null => {
+  const { symbol, price } = quote;
+  const trigger = (title: string, message: string, value: number): AlertTrigger => ({ symbol, type: rule.type, title, message, value });
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.type) {
+    case 'price-cross': {
+      if (quote.previousPrice === null || threshold <= 0) return null;
+      const up = quote.previousPrice < threshold && price >= threshold;
+      const down = quote.previousPrice > threshold && price <= threshold;
+      if (!(up || down) || !matchesDirection(rule.direction, up)) return null;
+      return trigger(
+        `${symbol} crossed ${kes(threshold)}`,
+        `${symbol} moved ${up ? 'up' : 'down'} through ${kes(threshold)} to ${kes(price)}, from ${kes(quote.previousPrice)}.`,
+        price
+      );
+    }
+    case 'percent-move': {
+      const change = quote.changePercent;
+      if (threshold <= 0 || Math.abs(change) < threshold || !matchesDirection(rule.direction, change > 0)) return null;
+      return trigger(
+        `${symbol} ${change > 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(2)}% today`,
+        `${symbol} is at ${kes(price)}, ${signed(change)} on the previous close, beyond your ${threshold}% alert.`,
+        change
+      );
+    }
+    case 'volume-spike': {
+      if (!quote.volume || !history.averageVolume || threshold <= 0) return null;
+      const multiple = quote.volume / history.averageVolume;
+      if (multiple < threshold) return null;
+      return trigger(
+        `${symbol} volume ${multiple.toFixed(1)}x average`,
+        `${quote.volume.toLocaleString()} ${symbol} shares have traded today, ${multiple.toFixed(1)} times the ` +
+          `${VOLUME_AVERAGE_SESSIONS}-session average of ${Math.round(history.averageVolume).toLocaleString()}.`,
+        multiple
+      );
+    }
+    case '52-week-high': {
+      if (history.high52Week === null || price <= history.high52Week) return null;
+      return trigger(
+        `${symbol} at a 52-week high`,
+        `${symbol} is at ${kes(price)}, above its 52-week high of ${kes(history.high52Week)}.`,
+        price
+      );
+    }
+    case '52-week-low': {
+      if (history.low52Week === null || price >= history.low52Week) return null;
+      return trigger(
+        `${symbol} at a 52-week low`,
+        `${symbol} is at ${kes(price)}, below its 52-week low of ${kes(history.low52Week)}.`,
+        price
+      );
+    }
+  }
+};
@@ -0,0 +1,326 @@
+// Replays stored daily closes through the recommendation engine to see whether it made money
+// Each run only sees closes up to its signal day; its orders fill at the next close, with fees.
+// Closes are as traded: holdings receive their entitlements as actions go ex instead of earlier
+// prices being adjusted for them, so no action after the signal day leaks into it
+
+import { entitlement, priceAdjustmentFactor } from './corporateActions.js';
+import { dividendYield } from './dividends.js';
+import { fundamentalsMarketData, latestFundamentals } from './fundamentals.js';
+import { KENYAN_RISK_FREE_RATE } from './optimizer.js';
+import { NSERecommendationEngine, RECOMMENDATION_ENGINE_VERSION } from './recommendationSystem.js';
+import { buildRebalancePlan, NSE_TRADING_COSTS } from './rebalancing.js';
+import {
+  AIRecommendation,
+  BacktestConfig,
+  CorporateAction,
+  BacktestResult,
+  DailyBar,
+  DailyClose,
+  Fundamentals,
+  MarketData,
+  PerformanceStats,
+  RiskProfile,
+} from './types.js';
+import { AIUtils } from './utils.js';
+
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestError';
+  }
+}
+
+export interface BacktestData {
+  // Daily bars per symbol as traded, oldest first
+  bars: Record<string, DailyBar[]>;
+  names?: Record<string, string>;
+  sectors?: Record<string, string>;
+  // Dividends per symbol; each day only sees those already gone ex, as a trailing yield
+  dividends?: Record<string, CorporateAction[]>;
+  // Bonus issues, splits and rights issues per symbol, applied to holdings as they go ex
+  shareActions?: Record<string, CorporateAction[]>;
+  // Reported results per symbol; each day only sees periods ended at least the reporting lag before it
+  fundamentals?: Record<string, Fundamentals[]>;
+  benchmark?: { index: string; closes: DailyClose[] };
+}
+
+// Recommendations from market data as of a date; must not look beyond what it is given
+export type BacktestStrategy = (marketData: MarketData[], date: string) => Promise<AIRecommendation[]> | AIRecommendation[];
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// The live recommendation engine, as called by the investment advice endpoint
+export const recommendationStrategy = (
+  riskProfile: RiskProfile,
+  timeHorizon: 'short' | 'medium' | 'long',
+  investmentAmount: number
+): BacktestStrategy => marketData =>
+  NSERecommendationEngine.generateNSERecommendations(marketData, riskProfile, investmentAmount, timeHorizon);
+
+const yearsBetween = (start: string, end: string): number => (Date.parse(end) - Date.parse(start)) / MS_PER_YEAR;
+
+// Return, risk and drawdown of a daily value series
+export const performanceStats = (dates: string[], values: number[]): PerformanceStats => {
+  const first = values[0] ?? 0;
+  const last = values[values.length - 1] ?? 0;
+  const returns = AIUtils.calculateReturns(values);
+  const totalReturn = first > 0 ? last / first - 1 : 0;
+  const years = dates.length > 1 ? yearsBetween(dates[0], dates[dates.length - 1]) : 0;
+  const volatility = returns.length >= 2 ? AIUtils.calculateRollingVolatility(returns, returns.length)[0] : 0;
+
+  return {
+    totalReturn,
+    cagr: years > 0 && first > 0 && last > 0 ? (last / first) ** (1 / years) - 1 : totalReturn,
+    volatility,
+    sharpeRatio: volatility > 0 ? AIUtils.calculateSharpeRatio(returns, KENYAN_RISK_FREE_RATE) : null,
+    maxDrawdown: values.length > 0 ? AIUtils.calculateMaxDrawdown(values) : 0,
+  };
+};
+
+/**
+ * Every `rebalanceDays` trading days the strategy sees market data built from closes up to
+ * that day. The portfolio then holds its BUY recommendations, plus current holdings it rates
+ * HOLD, in equal weights (at most `maxPositions`), trading in board lots at the next close.
+ * Holdings are paid dividends net of withholding tax on the payment date and credited bonus
+ * and split shares on the ex-date (fractions in cash at the ex price); rights are sold nil-paid
+ * at their theoretical value. Cash earns nothing.
+ */
+export const runBacktest = async (
+  data: BacktestData,
+  {
+    startDate = '',
+    endDate = '9999-12-31',
+    initialCapital = 1000000,
+    rebalanceDays: requestedRebalanceDays = 5,
+    riskProfile = 'moderate',
+    timeHorizon = 'medium',
+    maxPositions = 10,
+    driftThreshold = 0,
+    costs: costOverrides = {}
+  }: BacktestConfig = {},
+  strategy?: BacktestStrategy
+): Promise<BacktestResult> => {
+  const recommend = strategy ?? recommendationStrategy(riskProfile, timeHorizon, initialCapital);
+  const costs = { ...NSE_TRADING_COSTS, ...costOverrides };
+  const rebalanceDays = Math.max(1, Math.round(requestedRebalanceDays));
+  const warnings: string[] = [];
+
+  const symbols = Object.keys(data.bars).filter(symbol => data.bars[symbol].length > 0);
+  const calendar = [...new Set(symbols.flatMap(symbol => data.bars[symbol].map(bar => bar.date)))]
+    .filter(date => date <= endDate)
+    .sort();
+  const startIndex = calendar.findIndex(date => date >= startDate);
+  if (startIndex < 0 || calendar.length - startIndex < 2) {
+    throw new BacktestError('At least two trading days of stored prices are needed in the backtest period');
+  }
+
+  // Closes carried forward over days a counter did not trade; volume only on days it did
+  const closes: Record<string, (number | undefined)[]> = {};
+  const volumes: Record<string, number[]> = {};
+  symbols.forEach(symbol => {
+    const byDate = new Map(data.bars[symbol].map(bar => [bar.date, bar]));
+    let last: number | undefined;
+    closes[symbol] = calendar.map(date => (last = byDate.get(date)?.close ?? last));
+    volumes[symbol] = calendar.map(date => byDate.get(date)?.volume ?? 0);
+  });
+
+  // Actions taking effect each day (the first trading day on or after the ex-date), and the
+  // factor that puts the previous close on the same footing as that day's
+  const exActions: Record<string, CorporateAction[][]> = {};
+  const exFactors: Record<string, number[]> = {};
+  symbols.forEach(symbol => {
+    const actions = [...(data.dividends?.[symbol] ?? []), ...(data.shareActions?.[symbol] ?? [])];
+    exActions[symbol] = calendar.map((date, day) =>
+      day > 0 ? actions.filter(action => action.exDate > calendar[day - 1] && action.exDate <= date) : []
+    );
+    exFactors[symbol] = exActions[symbol].map((going, day) =>
+      going.reduce((factor, action) => factor * priceAdjustmentFactor(action, closes[symbol][day - 1] ?? 0), 1)
+    );
+  });
+
+  // Growth of a price from one day's close to another's from actions alone
+  const adjustmentBetween = (symbol: string, from: number, to: number): number =>
+    exFactors[symbol].slice(from + 1, to + 1).reduce((factor, next) => factor * next, 1);
+
+  const marketDataAsOf = (day: number): MarketData[] => symbols
+    .filter(symbol => closes[symbol][day] !== undefined)
+    .map(symbol => {
+      const close = closes[symbol][day]!;
+      const previous = closes[symbol][day - 1];
+      const paid = data.dividends?.[symbol]?.filter(action => action.exDate <= calendar[day]);
+      const results = latestFundamentals(data.fundamentals?.[symbol] ?? [], calendar[day], { published: true });
+      return {
+        symbol,
+        company_name: data.names?.[symbol] ?? symbol,
+        current_price: close,
+        change_percent: previous ? (close / (previous * exFactors[symbol][day]) - 1) * 100 : 0,
+        volume: volumes[symbol][day],
+        sector: data.sectors?.[symbol],
+        dividend_yield: paid ? dividendYield(symbol, paid, close, calendar[day]).trailingYield ?? undefined : undefined,
+        ...(results ? fundamentalsMarketData(results, close) : {}),
+        timestamp: calendar[day],
+      };
+    })
+    // The engine looks at the first 20 stocks, so list the day's most traded first
+    .sort((a, b) => (b.volume ?? 0) * b.current_price - (a.volume ?? 0) * a.current_price);
+
+  let cash = initialCapital;
+  const shares: Record<string, number> = {};
+  // Dividends gone ex and not yet paid, net of withholding tax
+  let receivable: { date: string; amount: number }[] = [];
+  let pendingTargets: Record<string, number> | null = null;
+  let pendingCalls: string[] = [];
+  let openCalls: { symbol: string; fillDay: number; fillPrice: number }[] = [];
+  let hits = 0;
+  let scoredCalls = 0;
+  let recommendations = 0;
+  let trades = 0;
+  let traded = 0;
+  let fees = 0;
+  const dates: string[] = [];
+  const values: number[] = [];
+
+  const scoreCalls = (day: number) => {
+    openCalls.filter(call => call.fillDay < day).forEach(({ symbol, fillDay, fillPrice }) => {
+      scoredCalls++;
+      if ((closes[symbol][day] ?? 0) > fillPrice * adjustmentBetween(symbol, fillDay, day)) hits++;
+    });
+    openCalls = [];
+  };
+
+  // Entitlements of the shares held into each action going ex on the day
+  const goEx = (day: number) => symbols.forEach(symbol => {
+    const closeBefore = closes[symbol][day - 1] ?? 0;
+    exActions[symbol][day].forEach(action => {
+      const held = shares[symbol] ?? 0;
+      if (held <= 0) return;
+      const due = entitlement(action, held);
+      switch (action.type) {
+        case 'dividend':
+          receivable.push({ date: action.paymentDate ?? calendar[day], amount: due.cash * (1 - costs.withholdingTax) });
+          break;
+        case 'bonus':
+        case 'split':
+          shares[symbol] = held + due.shares;
+          cash += due.fraction * closeBefore * priceAdjustmentFactor(action, closeBefore);
+          break;
+        case 'rights':
+          cash += held * closeBefore * (1 - priceAdjustmentFactor(action, closeBefore));
+          break;
+      }
+    });
+  });
+
+  for (let day = startIndex; day < calendar.length; day++) {
+    goEx(day);
+    cash += receivable.filter(payment => payment.date <= calendar[day]).reduce((sum, payment) => sum + payment.amount, 0);
+    receivable = receivable.filter(payment => payment.date > calendar[day]);
+
+    if (pendingTargets) {
+      scoreCalls(day);
+
+      const holdings = Object.entries(shares)
+        .filter(([, count]) => count > 0)
+        .map(([symbol, count]) => ({ symbol, shares: count, current_price: closes[symbol][day]! }));
+      const plan = buildRebalancePlan(
+        { total_value: 0, cash_balance: cash, holdings },
+        pendingTargets,
+        marketDataAsOf(day),
+        { driftThreshold, costs }
+      );
+      plan.trades.forEach(trade => {
+        shares[trade.symbol] = (shares[trade.symbol] ?? 0) + (trade.side === 'BUY' ? trade.shares : -trade.shares);
+        traded += trade.consideration;
+        fees += trade.fees.total;
+        trades++;
+      });
+      cash = plan.cashAfter;
+
+      openCalls = pendingCalls
+        .filter(symbol => closes[symbol][day] !== undefined)
+        .map(symbol => ({ symbol, fillDay: day, fillPrice: closes[symbol][day]! }));
+      pendingTargets = null;
+    }
+
+    dates.push(calendar[day]);
+    values.push(cash + receivable.reduce((sum, payment) => sum + payment.amount, 0) + Object.entries(shares).reduce((sum, [symbol, count]) => sum + count * (closes[symbol][day] ?? 0), 0));
+
+    // Signal on this close; the last day has no next close to fill at
+    if ((day - startIndex) % rebalanceDays === 0 && day < calendar.length - 1) {
+      const recommended = await recommend(marketDataAsOf(day), calendar[day]);
+      const buys = recommended.filter(recommendation => recommendation.type === 'BUY');
+      const kept = recommended.filter(recommendation => recommendation.type === 'HOLD' && (shares[recommendation.symbol] ?? 0) > 0);
+      const held = [...new Set([...buys, ...kept].map(recommendation => recommendation.symbol))].slice(0, maxPositions);
+
+      recommendations += buys.length;
+      pendingCalls = buys.map(recommendation => recommendation.symbol);
+      pendingTargets = Object.fromEntries(held.map(symbol => [symbol, 1 / held.length]));
+    }
+  }
+  scoreCalls(calendar.length - 1);
+
+  const start = dates[0];
+  const end = dates[dates.length - 1];
+  const years = yearsBetween(start, end);
+  const averageValue = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  // Benchmark over the same days, carried forward like the stocks
+  let benchmark: BacktestResult['benchmark'] = null;
+  let benchmarkCurve: (number | null)[] = dates.map(() => null);
+  if (data.benchmark) {
+    const byDate = data.benchmark.closes.filter(bar => bar.date <= end).sort((a, b) => a.date.localeCompare(b.date));
+    let cursor = 0;
+    let level: number | undefined;
+    const levels = dates.map(date => {
+      while (cursor < byDate.length && byDate[cursor].date <= date) level = byDate[cursor++].close;
+      return level;
+    });
+    const first = levels.findIndex(value => value !== undefined);
+    if (first >= 0 && dates.length - first >= 2) {
+      benchmark = {
+        index: data.benchmark.index,
+        ...performanceStats(dates.slice(first), levels.slice(first) as number[]),
+      };
+      benchmarkCurve = levels.map(value => (value !== undefined ? value / levels[first]! : null));
+      if (first > 0) warnings.push(`${data.benchmark.index} history starts on ${dates[first]}, after the backtest.`);
+    }
+  }
+  if (!benchmark) {
+    warnings.push(`No stored ${data.benchmark?.index ?? 'benchmark'} history covers the backtest period.`);
+  }
+
+  const strategyStats = performanceStats(dates, values);
+  return {
+    engineVersion: RECOMMENDATION_ENGINE_VERSION,
+    config: {
+      startDate: start,
+      endDate: end,
+      initialCapital,
+      rebalanceDays,
+      riskProfile,
+      timeHorizon,
+      maxPositions,
+      driftThreshold,
+      costs,
+    },
+    start,
+    end,
+    tradingDays: dates.length,
+    strategy: {
+      ...strategyStats,
+      hitRate: scoredCalls > 0 ? hits / scoredCalls : null,
+      turnover: averageValue > 0 ? traded / averageValue / Math.max(years, 1 / 252) : 0,
+      trades,
+      fees,
+      recommendations,
+    },
+    benchmark,
+    excessReturn: benchmark ? strategyStats.cagr - benchmark.cagr : null,
+    equityCurve: dates.map((date, i) => ({
+      date,
+      value: values[i] / initialCapital,
+      benchmark: benchmarkCurve[i],
+    })),
+    warnings,
+  };
+};
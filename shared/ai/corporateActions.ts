@@ -0,0 +1,98 @@
+// Corporate actions: dividends, bonus issues, splits and rights issues
+// Prices before an ex-date are scaled so the series moves only with the market, the way
+// data vendors back-adjust, and returns across the ex-date stay meaningful
+
+import { AdjustableBar, CorporateAction, CorporateActionType } from './types.js';
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['dividend', 'bonus', 'split', 'rights'];
+
+// Actions that change the number of shares held
+export const SHARE_ACTION_TYPES: CorporateActionType[] = ['bonus', 'split', 'rights'];
+
+/**
+ * The factor prices before the ex-date are multiplied by, given the last close before it.
+ * 1 when the action does not move the price (e.g. rights priced above the market).
+ */
+export const priceAdjustmentFactor = (action: CorporateAction, closeBefore: number): number => {
+  const { numerator = 1, denominator = 1 } = action.ratio ?? {};
+  switch (action.type) {
+    case 'dividend':
+      return closeBefore > 0 && (action.amount ?? 0) < closeBefore ? (closeBefore - (action.amount ?? 0)) / closeBefore : 1;
+    case 'bonus':
+      return denominator / (denominator + numerator);
+    case 'split':
+      return denominator / numerator;
+    case 'rights': {
+      // Theoretical ex-rights price over the cum-rights close
+      const subscription = action.price ?? 0;
+      if (!(closeBefore > 0) || subscription >= closeBefore) return 1;
+      return (denominator * closeBefore + numerator * subscription) / ((denominator + numerator) * closeBefore);
+    }
+  }
+};
+
+/**
+ * Back-adjust bars (oldest first) for the actions with an ex-date inside the series: every
+ * bar before an ex-date is scaled by that action's factor, compounded across actions.
+ * Volumes before a bonus, split or rights issue are scaled the other way, so they count
+ * today's shares. Bars are returned as copies; actions outside the series are ignored.
+ */
+export const backAdjustBars = <T extends AdjustableBar>(bars: T[], actions: CorporateAction[]): T[] => {
+  if (bars.length === 0 || actions.length === 0) return bars;
+
+  const day = (date: string) => date.slice(0, 10);
+  const factors = actions
+    .filter(action => action.exDate > day(bars[0].date) && action.exDate <= day(bars[bars.length - 1].date))
+    .map(action => {
+      // Last close before the ex-date
+      const before = bars.filter(bar => day(bar.date) < action.exDate).pop();
+      const priceFactor = priceAdjustmentFactor(action, before?.close ?? 0);
+      return {
+        exDate: action.exDate,
+        priceFactor,
+        volumeFactor: SHARE_ACTION_TYPES.includes(action.type) ? priceFactor : 1,
+      };
+    })
+    .filter(factor => factor.priceFactor !== 1);
+  if (factors.length === 0) return bars;
+
+  return bars.map(bar => {
+    const applying = factors.filter(factor => day(bar.date) < factor.exDate);
+    if (applying.length === 0) return bar;
+
+    const price = applying.reduce((product, factor) => product * factor.priceFactor, 1);
+    const volume = applying.reduce((product, factor) => product * factor.volumeFactor, 1);
+    const scale = (value: number | undefined) => (value === undefined ? value : value * price);
+    return {
+      ...bar,
+      open: scale(bar.open),
+      high: scale(bar.high),
+      low: scale(bar.low),
+      close: bar.close * price,
+      volume: bar.volume === undefined ? bar.volume : Math.round(bar.volume / volume),
+    };
+  });
+};
+
+/**
+ * What a holder of `shares` at the close before the ex-date is entitled to: the gross
+ * dividend in KES, the extra shares from a bonus issue or split, or the new shares a rights
+ * issue lets them buy. Whole shares only: `fraction` is the part of a share left over, which a
+ * bonus issue or split pays out as cash in lieu.
+ */
+export const entitlement = (action: CorporateAction, shares: number): { cash: number; shares: number; fraction: number } => {
+  const { numerator = 1, denominator = 1 } = action.ratio ?? {};
+  const entitled = (shares * numerator) / denominator;
+  // Guard against floating point shaving a whole share off, e.g. 3 * 1 / 3
+  const whole = Math.floor(entitled + 1e-9);
+  const fraction = Math.max(0, entitled - whole);
+  switch (action.type) {
+    case 'dividend':
+      return { cash: shares * (action.amount ?? 0), shares: 0, fraction: 0 };
+    case 'bonus':
+    case 'rights':
+      return { cash: 0, shares: whole, fraction };
+    case 'split':
+      return { cash: 0, shares: whole - shares, fraction };
+  }
+};
@@ -0,0 +1,158 @@
+// Covariance and correlation of holdings' daily returns
+// Thinly traded NSE counters give noisy sample estimates, so the sample covariance is
+// shrunk towards a constant-correlation target (Ledoit & Wolf, 2003)
+
+import { alignCloses, DEFAULT_LOOKBACK_DAYS, MIN_RETURN_OBSERVATIONS } from './portfolioReturns.js';
+import { CovarianceModel, CovarianceOptions, PriceHistory } from './types.js';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Optimal shrinkage intensity towards the constant-correlation target.
+ * `x` holds demeaned returns (T rows by N columns), `sample` their covariance (divided by T).
+ */
+const ledoitWolfIntensity = (x: number[][], sample: number[][], target: number[][], averageCorrelation: number): number => {
+  const t = x.length;
+  const n = sample.length;
+  if (n < 2 || t < 2) return 0;
+
+  let pi = 0;
+  let rho = 0;
+  let gamma = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      let piIJ = 0;
+      let thetaII = 0;
+      let thetaJJ = 0;
+      for (let k = 0; k < t; k++) {
+        const product = x[k][i] * x[k][j] - sample[i][j];
+        piIJ += product * product;
+        if (i !== j) {
+          thetaII += (x[k][i] * x[k][i] - sample[i][i]) * product;
+          thetaJJ += (x[k][j] * x[k][j] - sample[j][j]) * product;
+        }
+      }
+      pi += piIJ / t;
+
+      if (i === j) {
+        rho += piIJ / t;
+      } else {
+        rho += (averageCorrelation / 2) * (
+          Math.sqrt(sample[j][j] / sample[i][i]) * (thetaII / t) +
+          Math.sqrt(sample[i][i] / sample[j][j]) * (thetaJJ / t)
+        );
+      }
+
+      gamma += (target[i][j] - sample[i][j]) ** 2;
+    }
+  }
+
+  return gamma > 0 ? clamp01((pi - rho) / gamma / t) : 0;
+};
+
+/**
+ * Covariance and correlation of daily returns over the last `lookbackDays` trading days.
+ * Returns are aligned on common trading days (a counter that did not trade keeps its
+ * previous close), starting from the first day every included symbol has a price.
+ */
+export const buildCovarianceModel = (
+  history: PriceHistory,
+  symbols: string[],
+  { lookbackDays = DEFAULT_LOOKBACK_DAYS, shrinkage = 'ledoit-wolf' }: CovarianceOptions = {}
+): CovarianceModel => {
+  const unique = [...new Set(symbols)];
+  const { calendar, prices } = alignCloses(history, unique, lookbackDays);
+
+  // Daily returns per symbol, undefined until the symbol has two closes
+  const returnsOf = (symbol: string): (number | undefined)[] =>
+    calendar.slice(1).map((_, day) => {
+      const previous = prices[symbol][day];
+      const current = prices[symbol][day + 1];
+      return previous !== undefined && current !== undefined ? current / previous - 1 : undefined;
+    });
+
+  const candidates = unique
+    .map(symbol => ({ symbol, returns: returnsOf(symbol) }))
+    .filter(({ returns }) => {
+      const observed = returns.filter((value): value is number => value !== undefined);
+      return observed.length >= MIN_RETURN_OBSERVATIONS && observed.some(value => value !== 0);
+    });
+
+  // Common window: from the first day on which every included symbol has a return
+  const firstDay = Math.max(0, ...candidates.map(({ returns }) => returns.findIndex(value => value !== undefined)));
+  const included = candidates.filter(({ returns }) =>
+    returns.slice(firstDay).filter(value => value !== 0).length > 0
+  );
+  const matrix = included.map(({ returns }) => returns.slice(firstDay) as number[]);
+  const observations = matrix[0]?.length ?? 0;
+
+  const n = included.length;
+  const means = matrix.map(mean);
+  // x[t][i]: demeaned return of symbol i on day t
+  const x = Array.from({ length: observations }, (_, t) => matrix.map((series, i) => series[t] - means[i]));
+
+  const sample = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) =>
+    observations > 0 ? x.reduce((sum, row) => sum + row[i] * row[j], 0) / observations : 0
+  ));
+
+  const sampleVolatility = sample.map((row, i) => Math.sqrt(row[i]));
+  const pairs: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      pairs.push(sample[i][j] / (sampleVolatility[i] * sampleVolatility[j]));
+    }
+  }
+  const averageCorrelation = pairs.length > 0 ? mean(pairs) : 0;
+  const target = sample.map((row, i) => row.map((value, j) =>
+    i === j ? value : averageCorrelation * sampleVolatility[i] * sampleVolatility[j]
+  ));
+
+  const intensity = shrinkage === 'ledoit-wolf'
+    ? ledoitWolfIntensity(x, sample, target, averageCorrelation)
+    : clamp01(shrinkage);
+
+  const covariance = sample.map((row, i) => row.map((value, j) =>
+    (intensity * target[i][j] + (1 - intensity) * value) * TRADING_DAYS_PER_YEAR
+  ));
+  const volatilities = covariance.map((row, i) => Math.sqrt(row[i]));
+  const correlation = covariance.map((row, i) => row.map((value, j) =>
+    i === j ? 1 : value / (volatilities[i] * volatilities[j])
+  ));
+
+  const includedSymbols = included.map(({ symbol }) => symbol);
+  return {
+    symbols: includedSymbols,
+    covariance,
+    correlation,
+    volatilities,
+    expectedReturns: means.map(value => value * TRADING_DAYS_PER_YEAR),
+    shrinkage: {
+      method: shrinkage === 'ledoit-wolf' ? 'ledoit-wolf' : 'fixed',
+      intensity,
+    },
+    window: {
+      lookbackDays,
+      start: observations > 0 ? calendar[firstDay] : null,
+      end: observations > 0 ? calendar[calendar.length - 1] : null,
+      observations,
+    },
+    symbolsMissing: unique.filter(symbol => !includedSymbols.includes(symbol)),
+  };
+};
+
+// Value-weighted average correlation between distinct holdings (-1 to 1), null with fewer than two
+export const averagePairwiseCorrelation = (model: CovarianceModel, weights: Record<string, number>): number | null => {
+  let weighted = 0;
+  let total = 0;
+  model.symbols.forEach((a, i) => model.symbols.forEach((b, j) => {
+    if (i >= j) return;
+    const weight = (weights[a] ?? 0) * (weights[b] ?? 0);
+    weighted += weight * model.correlation[i][j];
+    total += weight;
+  }));
+  return total > 0 ? weighted / total : null;
+};
@@ -0,0 +1,161 @@
+// Dividend yields and projected dividend income
+// NSE issuers mostly pay an interim and a final dividend at about the same time each year, so
+// a dividend not yet declared is expected on the anniversary of last year's
+
+import { NSE_TRADING_COSTS } from './rebalancing.js';
+import {
+  AccrualStep,
+  CorporateAction,
+  DividendIncomeLine,
+  DividendIncomeProjection,
+  DividendYield,
+  ProjectedDividend,
+} from './types.js';
+import { isoDate, MS_PER_DAY, round } from './utils.js';
+
+// A declared dividend this close to last year's anniversary is taken to replace it
+const ANNIVERSARY_WINDOW_DAYS = 60;
+
+const addDays = (date: string, days: number): string => isoDate(new Date(new Date(date).getTime() + days * MS_PER_DAY));
+const addYear = (date: string): string => {
+  const moved = new Date(date);
+  moved.setUTCFullYear(moved.getUTCFullYear() + 1);
+  return isoDate(moved);
+};
+const daysApart = (a: string, b: string): number => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / MS_PER_DAY;
+
+const isDividend = (action: CorporateAction): boolean => action.type === 'dividend' && (action.amount ?? 0) > 0;
+
+/**
+ * Dividends of one symbol still to be paid or go ex within 12 months of `asOf`, soonest
+ * first. Declared dividends are taken as announced; each dividend that went ex in the last
+ * 12 months without a declared one near its anniversary is expected again a year later.
+ */
+export const projectDividends = (actions: CorporateAction[], asOf: string): ProjectedDividend[] => {
+  const dividends = actions.filter(isDividend);
+  const horizon = addYear(asOf);
+
+  const declared = dividends.filter(action => action.exDate > asOf || (action.paymentDate ?? action.exDate) > asOf);
+  const unmatched = [...declared];
+  const estimated: ProjectedDividend[] = [];
+
+  dividends
+    .filter(action => action.exDate <= asOf && action.exDate > addDays(asOf, -365))
+    .forEach(action => {
+      const anniversary = addYear(action.exDate);
+      if (anniversary > horizon) return;
+      const replacement = unmatched.findIndex(next =>
+        next.exDate > action.exDate && daysApart(next.exDate, anniversary) <= ANNIVERSARY_WINDOW_DAYS
+      );
+      if (replacement >= 0) {
+        unmatched.splice(replacement, 1);
+        return;
+      }
+      estimated.push({
+        symbol: action.symbol,
+        exDate: anniversary,
+        paymentDate: action.paymentDate ? addYear(action.paymentDate) : undefined,
+        amount: action.amount!,
+        declared: false,
+      });
+    });
+
+  return [
+    ...declared.map(action => ({
+      symbol: action.symbol,
+      exDate: action.exDate,
+      paymentDate: action.paymentDate,
+      amount: action.amount!,
+      declared: true,
+    })),
+    ...estimated,
+  ].sort((a, b) => a.exDate.localeCompare(b.exDate));
+};
+
+/**
+ * Trailing yield from the dividends that went ex in the last 12 months and forward yield
+ * from those expected to go ex in the next 12, both on `price`
+ */
+export const dividendYield = (symbol: string, actions: CorporateAction[], price: number | undefined, asOf: string): DividendYield => {
+  const dividends = actions.filter(isDividend).sort((a, b) => a.exDate.localeCompare(b.exDate));
+  const trailing = dividends.filter(action => action.exDate <= asOf && action.exDate > addDays(asOf, -365));
+  const projected = projectDividends(dividends, asOf);
+  const upcoming = projected.filter(dividend => dividend.exDate > asOf);
+  const nextPayment = projected.find(dividend => dividend.declared && (dividend.paymentDate ?? '') > asOf);
+
+  const trailingDps = trailing.reduce((sum, action) => sum + action.amount!, 0);
+  const forwardDps = upcoming.reduce((sum, dividend) => sum + dividend.amount, 0);
+  const hasPrice = price !== undefined && price > 0;
+  const past = dividends.filter(action => action.exDate <= asOf);
+
+  return {
+    symbol,
+    trailingDps: round(trailingDps),
+    forwardDps: round(forwardDps),
+    trailingYield: hasPrice ? trailingDps / price : null,
+    forwardYield: hasPrice ? forwardDps / price : null,
+    lastExDate: past.length > 0 ? past[past.length - 1].exDate : null,
+    nextExDate: upcoming.find(dividend => dividend.declared)?.exDate ?? null,
+    nextPaymentDate: nextPayment?.paymentDate ?? null,
+  };
+};
+
+// Shares held at the close before `exDate`, from steps of units held from each date on
+const sharesInto = (steps: AccrualStep[], exDate: string): number =>
+  steps.filter(step => step.date.slice(0, 10) < exDate).pop()?.units ?? 0;
+
+/**
+ * Dividend income expected over the 12 months from `asOf`, net of withholding tax. Each
+ * holding's `steps` give the shares held from each ledger entry on: dividends that have gone
+ * ex but are still to be paid use the shares held into the ex-date, later ones the current
+ * holding.
+ */
+export const projectDividendIncome = (
+  holdings: { symbol: string; steps: AccrualStep[] }[],
+  dividendsBySymbol: Record<string, CorporateAction[]>,
+  asOf: string,
+  withholdingTax: number = NSE_TRADING_COSTS.withholdingTax
+): DividendIncomeProjection => {
+  const to = addYear(asOf);
+  const monthly = new Map<string, number>();
+
+  const lines: DividendIncomeLine[] = holdings.map(({ symbol, steps }) => {
+    const payments = projectDividends(dividendsBySymbol[symbol] ?? [], asOf)
+      .map(dividend => {
+        const shares = sharesInto(steps, dividend.exDate);
+        const gross = round(shares * dividend.amount);
+        return { ...dividend, shares, gross, net: round(gross * (1 - withholdingTax)) };
+      })
+      .filter(payment => payment.shares > 0 && (payment.paymentDate ?? payment.exDate) <= to);
+
+    payments.forEach(payment => {
+      const month = (payment.paymentDate ?? payment.exDate).slice(0, 7);
+      monthly.set(month, (monthly.get(month) ?? 0) + payment.net);
+    });
+
+    const gross = round(payments.reduce((sum, payment) => sum + payment.gross, 0));
+    const net = round(payments.reduce((sum, payment) => sum + payment.net, 0));
+    return {
+      symbol,
+      shares: steps.length > 0 ? steps[steps.length - 1].units : 0,
+      payments,
+      gross,
+      withholdingTax: round(gross - net),
+      net,
+    };
+  }).filter(line => line.payments.length > 0);
+
+  const gross = round(lines.reduce((sum, line) => sum + line.gross, 0));
+  const net = round(lines.reduce((sum, line) => sum + line.net, 0));
+  return {
+    from: asOf,
+    to,
+    gross,
+    withholdingTax: round(gross - net),
+    net,
+    holdings: lines.sort((a, b) => b.net - a.net),
+    monthly: [...monthly.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, value]) => ({ month, net: round(value) })),
+  };
+};
@@ -0,0 +1,222 @@
+// Treasury bills and bonds, money market funds and fixed deposits
+// Bills and bonds are held in units of 100 face value and priced per 100, as the CBK quotes them;
+// fund balances and deposits are held in shillings, so a unit is worth 1 plus accrued interest
+
+import { holdingValue } from './portfolioReturns.js';
+import {
+  AccrualStep,
+  AIHolding,
+  AssetType,
+  CreditQuality,
+  FixedIncomeRisk,
+  FixedIncomeTerms,
+  FixedIncomeType,
+  FixedIncomeValuation,
+} from './types.js';
+import { MS_PER_DAY } from './utils.js';
+
+export const FIXED_INCOME_TYPES: FixedIncomeType[] = ['treasury-bill', 'treasury-bond', 'money-market', 'fixed-deposit'];
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  equity: 'NSE Equity',
+  'treasury-bill': 'Treasury Bill',
+  'treasury-bond': 'Treasury Bond',
+  'money-market': 'Money Market Fund',
+  'fixed-deposit': 'Fixed Deposit',
+};
+
+export const CREDIT_QUALITY: Record<FixedIncomeType, CreditQuality> = {
+  'treasury-bill': 'sovereign',
+  'treasury-bond': 'sovereign',
+  'money-market': 'fund',
+  'fixed-deposit': 'bank',
+};
+
+// Kenyan money market funds hold paper averaging a month or two to maturity
+export const MONEY_MARKET_DURATION = 0.1;
+
+// Annual standard deviation of moves in Kenyan government yields, as a fraction
+export const YIELD_VOLATILITY = 0.015;
+
+// Extra yield moves on top of government yields, and a 0-100 default risk, by who pays
+const CREDIT_SPREAD_VOLATILITY: Record<CreditQuality, number> = { sovereign: 0, fund: 0.002, bank: 0.005 };
+const CREDIT_RISK_SCORES: Record<CreditQuality, number> = { sovereign: 10, fund: 25, bank: 40 };
+
+// Deposits the Kenya Deposit Insurance Corporation covers per depositor per bank
+export const KDIC_COVER_LIMIT = 500000;
+
+// Withholding tax on interest from bills, bonds, funds and deposits (infrastructure bonds are exempt)
+export const INTEREST_WITHHOLDING_TAX = 0.15;
+
+const DAYS_PER_YEAR = 365;
+
+export const isFixedIncome = (assetType: AssetType | undefined): assetType is FixedIncomeType =>
+  assetType !== undefined && assetType !== 'equity';
+
+const daysBetween = (from: Date, to: Date): number => (to.getTime() - from.getTime()) / MS_PER_DAY;
+
+const addMonths = (date: Date, months: number): Date => {
+  const moved = new Date(date);
+  moved.setUTCMonth(moved.getUTCMonth() + months);
+  return moved;
+};
+
+// Coupon dates either side of the settlement date, counted back from maturity
+const couponPeriod = (maturity: Date, frequency: number, settlement: Date): { previous: Date; next: Date; remaining: number } => {
+  const months = 12 / frequency;
+  let next = maturity;
+  let remaining = 1;
+  while (addMonths(next, -months) > settlement) {
+    next = addMonths(next, -months);
+    remaining++;
+  }
+  return { previous: addMonths(next, -months), next, remaining };
+};
+
+interface BondPricing {
+  dirty: number;
+  accrued: number;
+  modifiedDuration: number;
+}
+
+// Price per 100 face value, compounding at the coupon frequency
+const priceBond = (couponRate: number, frequency: number, maturity: Date, yieldRate: number, settlement: Date): BondPricing => {
+  const { previous, next, remaining } = couponPeriod(maturity, frequency, settlement);
+  const coupon = (100 * couponRate) / frequency;
+  const periodDays = daysBetween(previous, next);
+  const accrued = coupon * (daysBetween(previous, settlement) / periodDays);
+  const firstPeriod = daysBetween(settlement, next) / periodDays;
+  const periodicYield = yieldRate / frequency;
+
+  let dirty = 0;
+  let weightedTime = 0;
+  for (let k = 0; k < remaining; k++) {
+    const periods = firstPeriod + k;
+    const cashFlow = coupon + (k === remaining - 1 ? 100 : 0);
+    const presentValue = cashFlow / Math.pow(1 + periodicYield, periods);
+    dirty += presentValue;
+    weightedTime += (periods / frequency) * presentValue;
+  }
+
+  const macaulay = dirty > 0 ? weightedTime / dirty : 0;
+  return { dirty, accrued, modifiedDuration: macaulay / (1 + periodicYield) };
+};
+
+// Price per 100 face value of a bill discounted at its yield
+const priceBill = (maturity: Date, yieldRate: number, settlement: Date): BondPricing => {
+  const years = daysBetween(settlement, maturity) / DAYS_PER_YEAR;
+  const growth = 1 + yieldRate * years;
+  return { dirty: 100 / growth, accrued: 0, modifiedDuration: years / growth };
+};
+
+const priceSecurity = (terms: FixedIncomeTerms, yieldRate: number, settlement: Date): BondPricing => {
+  const maturity = new Date(terms.maturityDate!);
+  if (settlement >= maturity) return { dirty: 100, accrued: 0, modifiedDuration: 0 };
+  return terms.assetType === 'treasury-bill'
+    ? priceBill(maturity, yieldRate, settlement)
+    : priceBond(terms.couponRate ?? 0, terms.couponFrequency ?? 2, maturity, yieldRate, settlement);
+};
+
+/**
+ * Yield to maturity of a bill or bond bought at `price` per 100 face value (including accrued
+ * interest) on `settlement`, found by bisection
+ */
+export const yieldToMaturity = (terms: FixedIncomeTerms, price: number, settlement: string): number => {
+  const date = new Date(settlement);
+  let low = -0.5;
+  let high = 2;
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    // Price falls as yield rises
+    if (priceSecurity(terms, middle, date).dirty > price) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+// Simple interest on the units held day by day, from the first step to `until`
+const accrueInterest = (steps: AccrualStep[], rate: number, until: Date): number =>
+  steps.reduce((sum, step, i) => {
+    const from = new Date(step.date);
+    const next = i + 1 < steps.length ? new Date(steps[i + 1].date) : until;
+    const to = next < until ? next : until;
+    return sum + (to > from ? step.units * rate * (daysBetween(from, to) / DAYS_PER_YEAR) : 0);
+  }, 0);
+
+/**
+ * Value a fixed income holding of `units` on `asOf`. Bills and bonds are priced from their
+ * yield; funds and deposits are worth their balance plus interest accrued since the last
+ * interest entry, with `accrual` giving the units held from that date on.
+ */
+export const valueFixedIncome = (
+  terms: FixedIncomeTerms,
+  units: number,
+  asOf: string,
+  accrual: AccrualStep[] = []
+): FixedIncomeValuation => {
+  const settlement = new Date(asOf);
+  const creditQuality = CREDIT_QUALITY[terms.assetType];
+  const maturity = terms.maturityDate ? new Date(terms.maturityDate) : null;
+  const matured = maturity !== null && settlement >= maturity;
+
+  if (terms.assetType === 'treasury-bill' || terms.assetType === 'treasury-bond') {
+    const { dirty, accrued, modifiedDuration } = priceSecurity(terms, terms.yield, settlement);
+    return {
+      price: dirty,
+      value: units * dirty,
+      accruedInterest: units * accrued,
+      yieldToMaturity: terms.yield,
+      modifiedDuration,
+      creditQuality,
+      matured,
+    };
+  }
+
+  // Deposits stop earning at maturity; funds have none
+  const until = maturity && matured ? maturity : settlement;
+  const accruedInterest = accrueInterest(accrual, terms.yield, until);
+  const years = maturity && !matured ? daysBetween(settlement, maturity) / DAYS_PER_YEAR : 0;
+  const modifiedDuration = terms.assetType === 'money-market'
+    ? MONEY_MARKET_DURATION
+    : years / (1 + terms.yield * years);
+
+  return {
+    price: units > 0 ? (units + accruedInterest) / units : 1,
+    value: units + accruedInterest,
+    accruedInterest,
+    yieldToMaturity: terms.yield,
+    modifiedDuration,
+    creditQuality,
+    matured,
+  };
+};
+
+/**
+ * Interest rate and credit exposure of the fixed income holdings, or null if there are none.
+ * Their value moves by duration times the change in yields rather than with the equity
+ * market, so volatility is duration times government yield and credit spread volatility.
+ */
+export const fixedIncomeRisk = (holdings: AIHolding[]): FixedIncomeRisk | null => {
+  const fixedIncome = holdings.filter(holding => isFixedIncome(holding.asset_type));
+  if (fixedIncome.length === 0) return null;
+
+  const totalValue = holdings.reduce((sum, holding) => sum + holdingValue(holding), 0);
+  const value = fixedIncome.reduce((sum, holding) => sum + holdingValue(holding), 0);
+  const weighted = (measure: (holding: AIHolding) => number): number =>
+    value > 0 ? fixedIncome.reduce((sum, holding) => sum + holdingValue(holding) * measure(holding), 0) / value : 0;
+  const quality = (holding: AIHolding): CreditQuality =>
+    holding.credit_quality ?? CREDIT_QUALITY[holding.asset_type as FixedIncomeType];
+
+  const modifiedDuration = weighted(holding => holding.modified_duration ?? 0);
+  return {
+    value,
+    weight: totalValue > 0 ? value / totalValue : 0,
+    averageYield: weighted(holding => holding.ytm ?? 0),
+    modifiedDuration,
+    rateSensitivity: value * modifiedDuration * 0.01,
+    creditRisk: Math.round(weighted(holding => CREDIT_RISK_SCORES[quality(holding)])),
+    volatility: weighted(holding =>
+      (holding.modified_duration ?? 0) * Math.hypot(YIELD_VOLATILITY, CREDIT_SPREAD_VOLATILITY[quality(holding)])
+    ),
+  };
+};
@@ -0,0 +1,58 @@
+// Valuation ratios from reported results
+// Interim EPS and DPS cover part of a year, so ratios are taken from the latest annual results
+
+import { FundamentalRatios, Fundamentals, MarketData } from './types.js';
+import { isoDate, MS_PER_DAY } from './utils.js';
+
+// Results are published within four months of the period end, as the CMA requires
+export const REPORTING_LAG_DAYS = 120;
+
+const ratio = (numerator: number | undefined, denominator: number | undefined): number | null =>
+  numerator !== undefined && denominator !== undefined && denominator > 0 ? numerator / denominator : null;
+
+/**
+ * The latest annual results with a period end on or before `asOf` (plus the reporting lag
+ * when `published` is set), or the latest interim ones when no annual results are stored
+ */
+export const latestFundamentals = (
+  periods: Fundamentals[],
+  asOf?: string,
+  { published = false }: { published?: boolean } = {}
+): Fundamentals | null => {
+  const cutoff = asOf && published
+    ? isoDate(new Date(new Date(asOf).getTime() - REPORTING_LAG_DAYS * MS_PER_DAY))
+    : asOf;
+  const known = periods
+    .filter(period => !cutoff || period.periodEnd <= cutoff)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+  const annual = known.filter(period => period.periodType === 'annual');
+  return (annual.length > 0 ? annual : known).pop() ?? null;
+};
+
+// P/E, P/B and yields at `price`; P/E is null for a loss, as a negative multiple means nothing
+export const fundamentalRatios = (fundamentals: Fundamentals, price: number): FundamentalRatios => ({
+  period: fundamentals.period,
+  peRatio: (fundamentals.eps ?? 0) > 0 ? ratio(price, fundamentals.eps) : null,
+  pbRatio: (fundamentals.navPerShare ?? 0) > 0 ? ratio(price, fundamentals.navPerShare) : null,
+  earningsYield: ratio(fundamentals.eps, price),
+  dividendYield: ratio(fundamentals.dps, price),
+  payoutRatio: (fundamentals.eps ?? 0) > 0 ? ratio(fundamentals.dps, fundamentals.eps) : null,
+  roe: fundamentals.roe ?? null,
+  debtToEquity: fundamentals.debtToEquity ?? null,
+  revenueGrowth: fundamentals.revenueGrowth ?? null,
+});
+
+// The `MarketData` fields the recommendation engine scores, from results and a price
+export const fundamentalsMarketData = (fundamentals: Fundamentals, price: number): Partial<MarketData> => {
+  const ratios = fundamentalRatios(fundamentals, price);
+  return {
+    fundamentals_period: fundamentals.period,
+    eps: fundamentals.eps,
+    pe_ratio: ratios.peRatio ?? undefined,
+    pb_ratio: ratios.pbRatio ?? undefined,
+    roe: ratios.roe ?? undefined,
+    debt_to_equity: ratios.debtToEquity ?? undefined,
+    revenue_growth: ratios.revenueGrowth ?? undefined,
+    payout_ratio: ratios.payoutRatio ?? undefined,
+  };
+};
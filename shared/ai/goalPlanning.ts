@@ -0,0 +1,285 @@
+// Goal-based planning: Monte Carlo projections of the whole portfolio with monthly contributions
+// The current value is set aside for goals in priority order; every goal's money then grows
+// along the same simulated portfolio returns, so goals are judged against one market path at a time
+
+import { fixedIncomeRisk, isFixedIncome } from './fixedIncome.js';
+import { KENYAN_RISK_FREE_RATE } from './optimizer.js';
+import {
+  AIPortfolio,
+  CovarianceModel,
+  FinancialGoal,
+  GoalFanPoint,
+  GoalPlan,
+  GoalPriority,
+  GoalProjection,
+  GoalProjectionOptions,
+} from './types.js';
+import { isoDate, round } from './utils.js';
+
+export class GoalPlanningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GoalPlanningError';
+  }
+}
+
+export const GOAL_PRIORITIES: GoalPriority[] = ['high', 'medium', 'low'];
+
+// Longest horizon a goal can be projected over
+export const MAX_GOAL_MONTHS = 600;
+
+// Long-run premium of NSE equities over T-bills; a year of prices is too short to estimate it
+export const EQUITY_RISK_PREMIUM = 0.06;
+
+// Volatility assumed for holdings without enough price history, about that of NASI
+export const DEFAULT_EQUITY_VOLATILITY = 0.2;
+
+const DEFAULT_SIMULATIONS = 2000;
+const DEFAULT_CONFIDENCE = 0.8;
+// Points per fan chart, so long horizons stay light
+const MAX_FAN_POINTS = 120;
+
+/**
+ * Annual expected return and volatility of a portfolio as it is held today. Shares earn the
+ * T-bill rate plus an equity premium, fixed income its yield and cash the T-bill rate.
+ * Volatility comes from the holdings' covariance; holdings it does not cover are treated as
+ * perfectly correlated with the rest at the default volatility, which errs on the side of
+ * more risk. Fixed income adds its duration-based volatility, uncorrelated with shares.
+ */
+export const portfolioReturnAssumptions = (
+  portfolio: AIPortfolio,
+  covariance?: CovarianceModel | null
+): { expectedReturn: number; volatility: number } => {
+  const total = portfolio.total_value;
+  if (!(total > 0)) return { expectedReturn: KENYAN_RISK_FREE_RATE, volatility: 0 };
+
+  const weights = new Map<string, number>();
+  portfolio.holdings.filter(holding => !isFixedIncome(holding.asset_type)).forEach(holding => {
+    const value = holding.current_value ?? (holding.shares ?? 0) * (holding.current_price ?? 0);
+    weights.set(holding.symbol, (weights.get(holding.symbol) ?? 0) + value / total);
+  });
+  const equityWeight = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+
+  const covered = covariance?.symbols ?? [];
+  let variance = 0;
+  covered.forEach((a, i) => covered.forEach((b, j) => {
+    variance += (weights.get(a) ?? 0) * (weights.get(b) ?? 0) * covariance!.covariance[i][j];
+  }));
+  const uncoveredWeight = [...weights.entries()]
+    .filter(([symbol]) => !covered.includes(symbol))
+    .reduce((sum, [, weight]) => sum + weight, 0);
+
+  const equityVolatility = Math.sqrt(Math.max(0, variance)) + uncoveredWeight * DEFAULT_EQUITY_VOLATILITY;
+  const fixedIncome = fixedIncomeRisk(portfolio.holdings);
+  if (!fixedIncome) {
+    return {
+      expectedReturn: KENYAN_RISK_FREE_RATE + equityWeight * EQUITY_RISK_PREMIUM,
+      volatility: equityVolatility,
+    };
+  }
+
+  const fixedWeight = fixedIncome.value / total;
+  return {
+    expectedReturn: KENYAN_RISK_FREE_RATE + equityWeight * EQUITY_RISK_PREMIUM +
+      fixedWeight * (fixedIncome.averageYield - KENYAN_RISK_FREE_RATE),
+    volatility: Math.hypot(equityVolatility, fixedWeight * fixedIncome.volatility),
+  };
+};
+
+// Whole months from the start date to the target date, counting a month once its day is reached
+export const monthsUntil = (start: string, target: string): number => {
+  const from = new Date(start);
+  const to = new Date(target);
+  const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+  return to.getUTCDate() < from.getUTCDate() ? months - 1 : months;
+};
+
+const addMonths = (start: string, months: number): string => {
+  const date = new Date(start);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return isoDate(date);
+};
+
+// Mulberry32, so a projection can be repeated exactly
+const seededUniform = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const seededNormal = (seed: number): (() => number) => {
+  const uniform = seededUniform(seed);
+  return () => {
+    const u = 1 - uniform();
+    const v = uniform();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+};
+
+// Smallest value at least `level` of the sorted values are at or below
+const quantile = (sorted: Float64Array, level: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(level * sorted.length) - 1))];
+
+const priorityRank = (priority: GoalPriority): number => GOAL_PRIORITIES.indexOf(priority);
+
+/**
+ * Project each goal over simulated monthly portfolio returns (lognormal, with the current mix
+ * held throughout). Contributions are paid in at each month end up to the goal's date.
+ *
+ * The current value is set aside in priority order, then by date: each goal takes what it needs
+ * to reach its target with `confidence` alongside its own contributions, while any is left.
+ * Value no goal needs is shared in proportion to the targets.
+ *
+ * A goal succeeds on a path when its money reaches the target by its date. Its money on a path
+ * is linear in the contribution, so the required contribution is read off the simulated paths
+ * rather than searched for.
+ */
+export const projectGoals = (
+  startValue: number,
+  goals: FinancialGoal[],
+  {
+    expectedReturn,
+    volatility,
+    simulations = DEFAULT_SIMULATIONS,
+    confidence = DEFAULT_CONFIDENCE,
+    startDate = new Date().toISOString().slice(0, 10),
+    seed = 1,
+  }: GoalProjectionOptions
+): GoalPlan => {
+  if (![expectedReturn, volatility, startValue].every(Number.isFinite) || volatility < 0) {
+    throw new GoalPlanningError('Expected return, volatility and starting value must be numbers, with volatility zero or more');
+  }
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new GoalPlanningError('Confidence must be between 0 and 1');
+  }
+  if (!Number.isInteger(simulations) || simulations < 100) {
+    throw new GoalPlanningError('Run at least 100 simulations');
+  }
+
+  const warnings: string[] = [];
+  const scheduled = goals
+    .map(goal => ({ goal, months: monthsUntil(startDate, goal.targetDate) }))
+    .filter(({ goal, months }) => {
+      if (months < 0) {
+        warnings.push(`${goal.name}: target date ${goal.targetDate} has passed; update or remove the goal.`);
+        return false;
+      }
+      if (months > MAX_GOAL_MONTHS) {
+        throw new GoalPlanningError(`${goal.name}: goals can be planned up to ${MAX_GOAL_MONTHS / 12} years ahead`);
+      }
+      return true;
+    });
+
+  const horizon = scheduled.reduce((longest, { months }) => Math.max(longest, months), 0);
+  const stride = horizon + 1;
+
+  // Per path and month end: growth of one shilling held from the start (G), and value of one
+  // shilling contributed at each month end so far (A)
+  const growth = new Float64Array(simulations * stride);
+  const annuity = new Float64Array(simulations * stride);
+  const drift = (expectedReturn - volatility ** 2 / 2) / 12;
+  const shock = volatility / Math.sqrt(12);
+  const normal = seededNormal(seed);
+  for (let path = 0; path < simulations; path++) {
+    const row = path * stride;
+    growth[row] = 1;
+    for (let month = 1; month <= horizon; month++) {
+      const factor = Math.exp(drift + shock * normal());
+      growth[row + month] = growth[row + month - 1] * factor;
+      annuity[row + month] = annuity[row + month - 1] * factor + 1;
+    }
+  }
+
+  // A value computed from G and A at one month, on every path, sorted
+  const acrossPaths = (month: number, valueOf: (g: number, a: number) => number): Float64Array => {
+    const values = new Float64Array(simulations);
+    for (let path = 0; path < simulations; path++) {
+      values[path] = valueOf(growth[path * stride + month], annuity[path * stride + month]);
+    }
+    return values.sort();
+  };
+
+  // Set the current value aside by priority, then by date
+  const allocations = new Map<string, number>();
+  let remaining = Math.max(0, startValue);
+  [...scheduled]
+    .sort((a, b) => priorityRank(a.goal.priority) - priorityRank(b.goal.priority) || a.months - b.months)
+    .forEach(({ goal, months }) => {
+      const needed = quantile(
+        acrossPaths(months, (g, a) => Math.max(0, (goal.targetAmount - goal.monthlyContribution * a) / g)),
+        confidence
+      );
+      const allocated = Math.min(remaining, needed);
+      allocations.set(goal.id, allocated);
+      remaining -= allocated;
+    });
+  const totalTarget = scheduled.reduce((sum, { goal }) => sum + goal.targetAmount, 0);
+  if (remaining > 0 && totalTarget > 0) {
+    scheduled.forEach(({ goal }) => {
+      allocations.set(goal.id, (allocations.get(goal.id) ?? 0) + remaining * goal.targetAmount / totalTarget);
+    });
+  }
+
+  const projections: GoalProjection[] = scheduled.map(({ goal, months }) => {
+    const allocated = allocations.get(goal.id) ?? 0;
+    const valueOf = (g: number, a: number) => allocated * g + goal.monthlyContribution * a;
+
+    const finalValues = acrossPaths(months, valueOf);
+    const successes = finalValues.filter(value => value >= goal.targetAmount).length;
+    const requiredContribution = months > 0
+      ? quantile(acrossPaths(months, (g, a) => Math.max(0, (goal.targetAmount - allocated * g) / a)), confidence)
+      : null;
+
+    const step = Math.max(1, Math.ceil(months / MAX_FAN_POINTS));
+    const fanMonths: number[] = [];
+    for (let month = 0; month < months; month += step) fanMonths.push(month);
+    fanMonths.push(months);
+    const fan: GoalFanPoint[] = fanMonths.map(month => {
+      const values = acrossPaths(month, valueOf);
+      return {
+        date: month === months ? goal.targetDate : addMonths(startDate, month),
+        month,
+        p5: round(quantile(values, 0.05)),
+        p25: round(quantile(values, 0.25)),
+        p50: round(quantile(values, 0.5)),
+        p75: round(quantile(values, 0.75)),
+        p95: round(quantile(values, 0.95)),
+      };
+    });
+
+    return {
+      goalId: goal.id,
+      name: goal.name,
+      priority: goal.priority,
+      targetAmount: goal.targetAmount,
+      targetDate: goal.targetDate,
+      months,
+      monthlyContribution: goal.monthlyContribution,
+      allocatedValue: round(allocated),
+      probability: successes / simulations,
+      medianValue: round(quantile(finalValues, 0.5)),
+      requiredContribution: requiredContribution === null ? null : round(requiredContribution),
+      fan,
+    };
+  });
+
+  if (startValue <= 0 && projections.length > 0) {
+    warnings.push('The portfolio has no value yet, so goals rely on contributions alone.');
+  }
+
+  return {
+    startDate,
+    startValue: round(startValue),
+    expectedReturn,
+    volatility,
+    simulations,
+    confidence,
+    goals: projections,
+    warnings,
+  };
+};
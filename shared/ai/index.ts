@@ -0,0 +1,22 @@
+// Shared AI engines - run in the browser (src/ai) and on the backend (/api/ai)
+// Relative imports carry .js extensions so the backend's Node ESM build resolves them
+
+export * from './types.js';
+export { AIUtils, isoDate, MS_PER_DAY, round } from './utils.js';
+export { NSERiskEngine } from './riskEngine.js';
+export { NSERecommendationEngine, RECOMMENDATION_ENGINE_VERSION } from './recommendationSystem.js';
+export type { PortfolioOptimizationOptions } from './recommendationSystem.js';
+export { analyzeMarketTrends } from './marketTrends.js';
+export * from './portfolioReturns.js';
+export * from './covariance.js';
+export * from './optimizer.js';
+export * from './rebalancing.js';
+export * from './backtest.js';
+export * from './riskAssessment.js';
+export * from './goalPlanning.js';
+export * from './fixedIncome.js';
+export * from './corporateActions.js';
+export * from './dividends.js';
+export * from './fundamentals.js';
+export * from './alerts.js';
+export * from './symbols.js';
@@ -0,0 +1,43 @@
+// Market-wide trend insights shown in AI Insights and served by /api/ai/market-insights
+
+import { NSERiskEngine } from './riskEngine.js';
+import { AIInsight, MarketData } from './types.js';
+
+export const analyzeMarketTrends = (marketData: MarketData[]): AIInsight[] => {
+  const insights: AIInsight[] = [];
+
+  // Market volatility analysis
+  const volatilityData = NSERiskEngine.monitorMarketVolatility(marketData);
+  
+  insights.push({
+    id: `market_volatility_${Date.now()}`,
+    type: 'market_summary',
+    title: 'NSE Market Volatility Alert',
+    content: `Current market volatility is ${(volatilityData.currentVolatility * 100).toFixed(1)}%. Market stress level: ${volatilityData.marketStress}`,
+    confidence: 0.9,
+    importance: volatilityData.marketStress === 'high' || volatilityData.marketStress === 'extreme' ? 'high' : 'medium',
+    actionable: true,
+    timestamp: new Date().toISOString()
+  });
+
+  // Top movers analysis
+  const gainers = marketData
+    .filter(stock => stock.change_percent > 0)
+    .sort((a, b) => b.change_percent - a.change_percent)
+    .slice(0, 3);
+
+  if (gainers.length > 0) {
+    insights.push({
+      id: `top_gainers_${Date.now()}`,
+      type: 'market_summary',
+      title: 'Today\'s Top Performers',
+      content: `Leading gainers: ${gainers.map(s => `${s.symbol} (+${s.change_percent.toFixed(1)}%)`).join(', ')}`,
+      confidence: 0.95,
+      importance: 'medium',
+      actionable: true,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  return insights;
+};
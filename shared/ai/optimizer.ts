@@ -0,0 +1,313 @@
+// Constrained portfolio optimizer: minimum variance, maximum Sharpe and equal risk contribution
+// Weights are fractions of total portfolio value; cash earns the T-bill rate at no risk
+
+import {
+  CovarianceModel,
+  FrontierPoint,
+  OptimizationConstraints,
+  OptimizationObjective,
+  OptimizationResult,
+} from './types.js';
+
+export const KENYAN_RISK_FREE_RATE = 0.085; // 8.5% T-bills
+
+export const OPTIMIZATION_OBJECTIVES: OptimizationObjective[] = ['min-variance', 'max-sharpe', 'risk-parity'];
+
+export interface OptimizationInput {
+  covariance: CovarianceModel;
+  // Sector of each symbol; symbols without one are not sector-capped
+  sectors?: Record<string, string>;
+  // Holdings outside the covariance model keep these weights and use up their caps
+  fixedWeights?: Record<string, number>;
+}
+
+// The optimisation over the modelled symbols, after fixed holdings and the cash floor
+interface Problem {
+  symbols: string[];
+  covariance: number[][];
+  expectedReturns: number[];
+  lower: number[];
+  upper: number[];
+  groups: { indices: number[]; cap: number }[];
+  budget: number;
+  fixedWeights: Record<string, number>;
+  warnings: string[];
+}
+
+const BISECTION_STEPS = 50;
+const MAX_ITERATIONS = 400;
+const TOLERANCE = 1e-9;
+const CONVERGENCE = 1e-8;
+const FRONTIER_LAMBDAS = 24;
+
+const clamp = (value: number, lower: number, upper: number): number => Math.min(upper, Math.max(lower, value));
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const multiply = (matrix: number[][], vector: number[]): number[] =>
+  matrix.map(row => row.reduce((total, value, j) => total + value * vector[j], 0));
+
+const dot = (a: number[], b: number[]): number => a.reduce((total, value, i) => total + value * b[i], 0);
+
+const buildProblem = (input: OptimizationInput, constraints: OptimizationConstraints): Problem => {
+  const { symbols, covariance, expectedReturns } = input.covariance;
+  const sectors = input.sectors ?? {};
+  const fixedWeights = input.fixedWeights ?? {};
+  const warnings: string[] = [];
+
+  const maxStockWeight = clamp(constraints.maxStockWeight ?? 1, 0, 1);
+  const longOnly = constraints.longOnly ?? true;
+  const cashFloor = clamp(constraints.cashFloor ?? 0, 0, 1);
+
+  const capOf = (sector: string): number | undefined =>
+    constraints.sectorCaps?.[sector] ?? constraints.maxSectorWeight;
+
+  // Sector caps left after the fixed holdings in each sector
+  const groupsBySector = new Map<string, number[]>();
+  symbols.forEach((symbol, i) => {
+    const sector = sectors[symbol];
+    if (sector && capOf(sector) !== undefined) {
+      groupsBySector.set(sector, [...(groupsBySector.get(sector) ?? []), i]);
+    }
+  });
+  const groups = [...groupsBySector.entries()].map(([sector, indices]) => {
+    const fixedInSector = sum(Object.entries(fixedWeights)
+      .filter(([symbol]) => sectors[symbol] === sector)
+      .map(([, weight]) => weight));
+    return { indices, cap: Math.max(0, capOf(sector)! - fixedInSector) };
+  });
+
+  const lower = symbols.map(() => (longOnly ? 0 : -maxStockWeight));
+  const upper = symbols.map(() => maxStockWeight);
+
+  // Invest what is left after cash and fixed holdings, as far as the caps allow
+  const requested = Math.max(0, 1 - cashFloor - sum(Object.values(fixedWeights)));
+  const grouped = new Set(groups.flatMap(group => group.indices));
+  const investable = sum(groups.map(group => Math.min(group.cap, sum(group.indices.map(i => upper[i]))))) +
+    sum(symbols.map((_, i) => (grouped.has(i) ? 0 : upper[i])));
+  const budget = Math.min(requested, investable);
+  if (budget < requested - TOLERANCE) {
+    warnings.push(`Stock and sector caps only allow ${(budget * 100).toFixed(1)}% to be invested; the rest stays in cash.`);
+  }
+
+  return { symbols, covariance, expectedReturns, lower, upper, groups, budget, fixedWeights, warnings };
+};
+
+/**
+ * Euclidean projection onto { lower <= w <= upper, sum(w) = budget, sector sums <= caps }.
+ * Sectors partition the symbols, so for a budget multiplier τ each sector is projected on
+ * its own and sums to min(cap, sum of its clipped weights); τ, and then each binding
+ * sector's own multiplier, are found by bisection.
+ */
+const project = (y: number[], problem: Problem): number[] => {
+  const { lower, upper, groups, budget } = problem;
+  const clipped = (i: number, shift: number): number => clamp(y[i] - shift, lower[i], upper[i]);
+  const grouped = new Set(groups.flatMap(group => group.indices));
+  const ungrouped = y.map((_, i) => i).filter(i => !grouped.has(i));
+
+  const bisect = (low: number, high: number, tooHigh: (shift: number) => boolean): number => {
+    for (let step = 0; step < BISECTION_STEPS && high - low > 1e-13; step++) {
+      const middle = (low + high) / 2;
+      if (tooHigh(middle)) low = middle; else high = middle;
+    }
+    return high;
+  };
+
+  const totalAt = (tau: number): number =>
+    sum(ungrouped.map(i => clipped(i, tau))) +
+    sum(groups.map(({ indices, cap }) => Math.min(cap, sum(indices.map(i => clipped(i, tau))))));
+
+  const tau = bisect(
+    Math.min(...y.map((value, i) => value - upper[i])) - 1,
+    Math.max(...y.map((value, i) => value - lower[i])) + 1,
+    shift => totalAt(shift) > budget
+  );
+
+  const w = y.map((_, i) => clipped(i, tau));
+  groups.forEach(({ indices, cap }) => {
+    if (sum(indices.map(i => w[i])) <= cap) return;
+
+    const sigma = bisect(0, Math.max(...indices.map(i => y[i] - tau - lower[i]), 0),
+      shift => sum(indices.map(i => clipped(i, tau + shift))) > cap);
+    indices.forEach(i => { w[i] = clipped(i, tau + sigma); });
+  });
+  return w;
+};
+
+/**
+ * Minimise w'Σw - λμ'w over the constraints with accelerated projected gradient (FISTA).
+ * λ = 0 gives the minimum-variance portfolio; larger λ moves up the efficient frontier.
+ */
+const solveMeanVariance = (problem: Problem, lambda: number, start?: number[]): number[] => {
+  const { covariance, expectedReturns, symbols } = problem;
+  // Gershgorin bound on the largest eigenvalue of 2Σ
+  const lipschitz = Math.max(TOLERANCE, 2 * Math.max(...covariance.map(row => sum(row.map(Math.abs)))));
+
+  let x = project(start ?? symbols.map(() => problem.budget / symbols.length), problem);
+  let z = x;
+  let t = 1;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = multiply(covariance, z).map((value, i) => 2 * value - lambda * expectedReturns[i]);
+    const next = project(z.map((value, i) => value - gradient[i] / lipschitz), problem);
+    const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    z = next.map((value, i) => value + ((t - 1) / tNext) * (value - x[i]));
+
+    const moved = Math.sqrt(sum(next.map((value, i) => (value - x[i]) ** 2)));
+    x = next;
+    t = tNext;
+    if (moved < CONVERGENCE) break;
+  }
+  return x;
+};
+
+/**
+ * Equal risk contribution weights (Spinu's convex formulation, cyclical coordinate descent),
+ * scaled to the budget. Caps that bind are then enforced by projection, which leaves the
+ * contributions only approximately equal.
+ */
+const solveRiskParity = (problem: Problem): number[] => {
+  const { covariance, symbols } = problem;
+  const n = symbols.length;
+  const budgetShare = 1 / n;
+
+  let y = symbols.map((_, i) => 1 / Math.sqrt(Math.max(covariance[i][i], TOLERANCE)));
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let moved = 0;
+    for (let i = 0; i < n; i++) {
+      const variance = Math.max(covariance[i][i], TOLERANCE);
+      const others = dot(covariance[i], y) - covariance[i][i] * y[i];
+      const next = (-others + Math.sqrt(others * others + 4 * variance * budgetShare)) / (2 * variance);
+      moved = Math.max(moved, Math.abs(next - y[i]));
+      y[i] = next;
+    }
+    if (moved < TOLERANCE) break;
+  }
+
+  const total = sum(y);
+  y = y.map(value => (value / total) * problem.budget);
+  const projected = project(y, problem);
+  if (projected.some((value, i) => Math.abs(value - y[i]) > 1e-6)) {
+    problem.warnings.push('Weight caps bind, so risk contributions are only approximately equal.');
+  }
+  return projected;
+};
+
+const describe = (problem: Problem, w: number[], objective: OptimizationObjective): OptimizationResult => {
+  const { symbols, covariance, expectedReturns, budget, fixedWeights } = problem;
+  const cashWeight = Math.max(0, 1 - budget - sum(Object.values(fixedWeights)));
+
+  const marginal = multiply(covariance, w);
+  const variance = Math.max(0, dot(w, marginal));
+  const volatility = Math.sqrt(variance);
+  const expectedReturn = dot(w, expectedReturns) + cashWeight * KENYAN_RISK_FREE_RATE;
+  // Excess return over holding the modelled part of the portfolio in T-bills
+  const excessReturn = dot(w, expectedReturns) - budget * KENYAN_RISK_FREE_RATE;
+
+  const weights: Record<string, number> = { ...fixedWeights };
+  const riskContributions: Record<string, number> = {};
+  symbols.forEach((symbol, i) => {
+    weights[symbol] = w[i];
+    riskContributions[symbol] = variance > 0 ? (w[i] * marginal[i]) / variance : 0;
+  });
+
+  return {
+    objective,
+    weights,
+    cashWeight,
+    expectedReturn,
+    volatility,
+    sharpeRatio: volatility > 0 ? excessReturn / volatility : 0,
+    riskContributions,
+    warnings: [...problem.warnings],
+  };
+};
+
+// λ values from effectively minimum variance to effectively maximum return
+const frontierLambdas = (): number[] =>
+  [0, ...Array.from({ length: FRONTIER_LAMBDAS - 1 }, (_, k) => 10 ** (-4 + (6 * k) / (FRONTIER_LAMBDAS - 2)))];
+
+const frontierOf = (problem: Problem): { lambda: number; w: number[]; result: OptimizationResult }[] => {
+  let previous: number[] | undefined;
+  return frontierLambdas().map(lambda => {
+    const w = solveMeanVariance(problem, lambda, previous);
+    previous = w;
+    return { lambda, w, result: describe(problem, w, 'max-sharpe') };
+  });
+};
+
+/**
+ * Optimal weights for the modelled holdings under the given objective and constraints.
+ * Maximum Sharpe is searched along the efficient frontier and refined between its
+ * neighbouring points.
+ */
+export const optimizeWeights = (
+  input: OptimizationInput,
+  objective: OptimizationObjective,
+  constraints: OptimizationConstraints = {}
+): OptimizationResult => {
+  const problem = buildProblem(input, constraints);
+
+  if (problem.symbols.length === 0) {
+    return describe(problem, [], objective);
+  }
+  if (objective === 'min-variance') {
+    return describe(problem, solveMeanVariance(problem, 0), objective);
+  }
+  if (objective === 'risk-parity') {
+    return describe(problem, solveRiskParity(problem), objective);
+  }
+
+  const frontier = frontierOf(problem);
+  let best = frontier.reduce((a, b) => (b.result.sharpeRatio > a.result.sharpeRatio ? b : a));
+
+  // Golden-section search on log λ between the best point's neighbours
+  const index = frontier.indexOf(best);
+  let low = Math.log10(Math.max(frontier[Math.max(0, index - 1)].lambda, 1e-5));
+  let high = Math.log10(Math.max(frontier[Math.min(frontier.length - 1, index + 1)].lambda, 1e-5));
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let step = 0; step < 12 && high - low > 1e-3; step++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    const resultA = describe(problem, solveMeanVariance(problem, 10 ** a, best.w), objective);
+    const resultB = describe(problem, solveMeanVariance(problem, 10 ** b, best.w), objective);
+    if (resultA.sharpeRatio >= resultB.sharpeRatio) high = b; else low = a;
+  }
+  const lambda = 10 ** ((low + high) / 2);
+  const refinedWeights = solveMeanVariance(problem, lambda, best.w);
+  const refined = describe(problem, refinedWeights, objective);
+  if (refined.sharpeRatio > best.result.sharpeRatio) {
+    best = { lambda, w: refinedWeights, result: refined };
+  }
+
+  const result = { ...best.result, objective };
+  if (result.sharpeRatio <= 0) {
+    result.warnings.push(`No mix of these holdings is expected to beat the ${(KENYAN_RISK_FREE_RATE * 100).toFixed(1)}% T-bill rate over the window.`);
+  }
+  return result;
+};
+
+/**
+ * Points along the constrained efficient frontier, from minimum variance to maximum
+ * expected return, for plotting.
+ */
+export const efficientFrontier = (
+  input: OptimizationInput,
+  constraints: OptimizationConstraints = {}
+): FrontierPoint[] => {
+  const problem = buildProblem(input, constraints);
+  if (problem.symbols.length === 0) return [];
+
+  const points: FrontierPoint[] = [];
+  frontierOf(problem).forEach(({ result }) => {
+    const last = points[points.length - 1];
+    // Skip repeats and points that add risk without adding return
+    if (last && (result.expectedReturn <= last.expectedReturn + 1e-6 || result.volatility < last.volatility - 1e-9)) return;
+    points.push({
+      expectedReturn: result.expectedReturn,
+      volatility: result.volatility,
+      sharpeRatio: result.sharpeRatio,
+      weights: result.weights,
+    });
+  });
+  return points;
+};
@@ -0,0 +1,137 @@
+// Historical portfolio returns built from each holding's daily closes
+// Feeds the time-series statistics in NSERiskEngine
+
+import { AIHolding, PriceHistory, ReturnWindow } from './types.js';
+
+export const DEFAULT_LOOKBACK_DAYS = 252; // One NSE trading year
+export const MIN_RETURN_OBSERVATIONS = 20; // Fewer daily returns than this say little about risk
+
+export type LookbackPeriod = '1M' | '3M' | '6M' | '1Y' | '5Y' | 'MAX';
+
+export interface PortfolioReturnSeries {
+  dates: string[];
+  returns: number[];
+  // Portfolio value relative to the start of the window (1 = unchanged)
+  values: number[];
+  window: ReturnWindow;
+}
+
+// Smallest history period holding `lookbackDays` trading days (about 21 a month)
+export const lookbackPeriod = (lookbackDays: number): LookbackPeriod => {
+  if (lookbackDays <= 18) return '1M';
+  if (lookbackDays <= 58) return '3M';
+  if (lookbackDays <= 120) return '6M';
+  if (lookbackDays <= 245) return '1Y';
+  if (lookbackDays <= 1230) return '5Y';
+  return 'MAX';
+};
+
+// Market value of a holding, from its valuation or its shares at the current price
+export const holdingValue = (holding: AIHolding): number =>
+  holding.current_value ?? (holding.shares ?? 0) * (holding.current_price ?? 0);
+
+export interface AlignedCloses {
+  calendar: string[];
+  // Close of each symbol on every calendar day, carried forward; undefined before its first close
+  prices: Record<string, (number | undefined)[]>;
+  // Closes actually recorded for each symbol within the window
+  traded: Record<string, number>;
+}
+
+/**
+ * Put the symbols' daily closes on a common calendar: the latest `lookbackDays + 1`
+ * trading days on which any of them has a close.
+ */
+export const alignCloses = (
+  history: PriceHistory,
+  symbols: string[],
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): AlignedCloses => {
+  const series = symbols.map(symbol => (history[symbol] || [])
+    .filter(bar => Number.isFinite(bar.close) && bar.close > 0)
+    .sort((a, b) => a.date.localeCompare(b.date)));
+
+  const calendar = [...new Set(series.flatMap(closes => closes.map(bar => bar.date)))]
+    .sort()
+    .slice(-(lookbackDays + 1));
+  const start = calendar[0];
+
+  const prices: AlignedCloses['prices'] = {};
+  const traded: AlignedCloses['traded'] = {};
+  symbols.forEach((symbol, i) => {
+    const inWindow = series[i].filter(bar => start !== undefined && bar.date >= start);
+    const byDate = new Map(inWindow.map(bar => [bar.date, bar.close]));
+    let last: number | undefined;
+    prices[symbol] = calendar.map(date => (last = byDate.get(date) ?? last));
+    traded[symbol] = inWindow.length;
+  });
+
+  return { calendar, prices, traded };
+};
+
+/**
+ * Daily returns of the current holdings over the last `lookbackDays` trading days, weighted
+ * by value: each day's return is the change in value of today's share counts. Days on which
+ * a holding did not trade carry its previous close forward; a holding only counts from its
+ * first close in the window.
+ */
+export const buildPortfolioReturns = (
+  holdings: AIHolding[],
+  history: PriceHistory,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): PortfolioReturnSeries => {
+  const { calendar, prices, traded } = alignCloses(history, holdings.map(holding => holding.symbol), lookbackDays);
+
+  const positions = holdings.map(holding => {
+    const closes = prices[holding.symbol];
+    const lastClose = closes[closes.length - 1];
+    const value = holdingValue(holding);
+    const shares = (holding.shares ?? 0) > 0 ? holding.shares! : lastClose ? value / lastClose : 0;
+    return { symbol: holding.symbol, value, shares, closes };
+  });
+  const covered = positions.filter(position => traded[position.symbol] >= 2 && position.shares > 0);
+
+  const dates: string[] = [];
+  const returns: number[] = [];
+  const values: number[] = [1];
+  let firstDate: string | null = null;
+  for (let day = 1; day < calendar.length; day++) {
+    let previousValue = 0;
+    let currentValue = 0;
+    covered.forEach(position => {
+      const previous = position.closes[day - 1];
+      const current = position.closes[day];
+      if (previous === undefined || current === undefined) return;
+      previousValue += position.shares * previous;
+      currentValue += position.shares * current;
+    });
+    if (previousValue <= 0) continue;
+
+    const dailyReturn = currentValue / previousValue - 1;
+    firstDate = firstDate ?? calendar[day - 1];
+    dates.push(calendar[day]);
+    returns.push(dailyReturn);
+    values.push(values[values.length - 1] * (1 + dailyReturn));
+  }
+
+  const totalValue = positions.reduce((sum, position) => sum + position.value, 0);
+  const coveredSymbols = new Set(covered.map(position => position.symbol));
+  const coveredValue = positions
+    .filter(position => coveredSymbols.has(position.symbol))
+    .reduce((sum, position) => sum + position.value, 0);
+
+  return {
+    dates,
+    returns,
+    values,
+    window: {
+      lookbackDays,
+      start: firstDate,
+      end: returns.length > 0 ? dates[dates.length - 1] : null,
+      observations: returns.length,
+      coverage: totalValue > 0 ? coveredValue / totalValue : 0,
+      symbolsCovered: [...coveredSymbols],
+      symbolsMissing: positions.filter(position => !coveredSymbols.has(position.symbol)).map(position => position.symbol),
+    },
+  };
+};
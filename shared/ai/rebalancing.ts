@@ -0,0 +1,205 @@
+// Executable rebalancing trades for the NSE: board lots, brokerage and statutory levies
+// Only positions outside the drift band are traded, and only back to its edge, which is
+// the least turnover that brings every weight within the threshold of its target
+
+import { holdingValue } from './portfolioReturns.js';
+import { AIPortfolio, MarketData, RebalancePlan, RebalanceTrade, TradeFees, TradingCosts } from './types.js';
+
+// Retail equity rates; listed shares carry no capital gains tax, so dividends are what is taxed
+export const NSE_TRADING_COSTS: TradingCosts = {
+  brokerage: 0.015,
+  nseLevy: 0.0012,
+  cmaLevy: 0.0008,
+  cdscLevy: 0.0008,
+  icfLevy: 0.0001,
+  withholdingTax: 0.05, // Resident rate on dividends
+  boardLot: 100,
+};
+
+export interface RebalanceOptions {
+  // Largest tolerated gap between current and target weight (fraction of portfolio value)
+  driftThreshold?: number;
+  costs?: Partial<TradingCosts>;
+  // Board lot per symbol, over the one its quote carries from the symbol master and `costs.boardLot`
+  boardLots?: Record<string, number>;
+  // Trailing dividend yield per symbol (0.06 = 6%), for the withholding tax change
+  dividendYields?: Record<string, number>;
+}
+
+const WEIGHT_TOLERANCE = 1e-9;
+
+const roundKes = (value: number): number => Math.round(value * 100) / 100;
+
+// Fees on a trade of the given consideration, each rounded to the cent
+export const tradeFees = (consideration: number, costs: TradingCosts = NSE_TRADING_COSTS): TradeFees => {
+  const fees = {
+    brokerage: roundKes(consideration * costs.brokerage),
+    nseLevy: roundKes(consideration * costs.nseLevy),
+    cmaLevy: roundKes(consideration * costs.cmaLevy),
+    cdscLevy: roundKes(consideration * costs.cdscLevy),
+    icfLevy: roundKes(consideration * costs.icfLevy),
+  };
+  return { ...fees, total: roundKes(Object.values(fees).reduce((sum, fee) => sum + fee, 0)) };
+};
+
+const feeRate = (costs: TradingCosts): number =>
+  costs.brokerage + costs.nseLevy + costs.cmaLevy + costs.cdscLevy + costs.icfLevy;
+
+/**
+ * Trades that bring every position within `driftThreshold` of its target weight.
+ * Share counts are whole board lots (a position being closed may sell its odd lot), sells
+ * come first, and buys are cut back to what cash plus sale proceeds can pay for.
+ */
+export const buildRebalancePlan = (
+  portfolio: AIPortfolio,
+  targetWeights: Record<string, number>,
+  marketData: MarketData[],
+  { driftThreshold = 0.1, costs: costOverrides = {}, boardLots = {}, dividendYields = {} }: RebalanceOptions = {}
+): RebalancePlan => {
+  const costs = { ...NSE_TRADING_COSTS, ...costOverrides };
+  const holdings = portfolio.holdings || [];
+  const cashBefore = Math.max(0, portfolio.cash_balance || 0);
+  const holdingsValue = holdings.reduce((sum, holding) => sum + holdingValue(holding), 0);
+  const totalValue = Math.max(portfolio.total_value || 0, holdingsValue + cashBefore);
+  const warnings: string[] = [];
+  const lotOf = (symbol: string): number =>
+    Math.max(1, boardLots[symbol] ?? marketData.find(stock => stock.symbol === symbol)?.board_lot ?? costs.boardLot);
+
+  const positions = new Map<string, { shares: number; value: number; price?: number }>();
+  holdings.forEach(holding => {
+    const position = positions.get(holding.symbol) ?? { shares: 0, value: 0 };
+    position.shares += holding.shares ?? 0;
+    position.value += holdingValue(holding);
+    position.price = position.price ?? holding.current_price;
+    positions.set(holding.symbol, position);
+  });
+
+  const symbols = [...new Set([...positions.keys(), ...Object.keys(targetWeights)])];
+  const orders: Omit<RebalanceTrade, 'sequence' | 'fees' | 'netAmount' | 'weightAfter' | 'withholdingTaxChange'>[] = [];
+
+  symbols.forEach(symbol => {
+    const position = positions.get(symbol) ?? { shares: 0, value: 0 };
+    const currentWeight = totalValue > 0 ? position.value / totalValue : 0;
+    const targetWeight = targetWeights[symbol] ?? 0;
+    const drift = currentWeight - targetWeight;
+    if (totalValue <= 0 || Math.abs(drift) <= driftThreshold + WEIGHT_TOLERANCE) return;
+
+    const price = marketData.find(stock => stock.symbol === symbol)?.current_price || position.price;
+    if (!price || price <= 0) {
+      warnings.push(`${symbol} has no current price, so it was left out.`);
+      return;
+    }
+
+    // Trade only as far as the near edge of the band, rounded up to whole lots
+    const side = drift > 0 ? 'SELL' : 'BUY';
+    const lot = lotOf(symbol);
+    const needed = ((Math.abs(drift) - driftThreshold) * totalValue) / price;
+    let shares = Math.ceil(needed / lot - WEIGHT_TOLERANCE) * lot;
+    if (side === 'SELL' && shares >= position.shares) {
+      shares = position.shares;
+    }
+
+    // Without overshooting the far edge of the band
+    const overshoots = (count: number): boolean =>
+      (count * price) / totalValue - Math.abs(drift) > driftThreshold + WEIGHT_TOLERANCE;
+    while (shares > 0 && overshoots(shares)) shares = (Math.ceil(shares / lot) - 1) * lot;
+
+    if (shares <= 0) {
+      warnings.push(`One board lot of ${symbol} (${lot} shares at KES ${price.toLocaleString()}) moves its weight past the band, so it was left out.`);
+      return;
+    }
+
+    orders.push({
+      side,
+      symbol,
+      shares,
+      lots: Math.floor(shares / lot),
+      price,
+      consideration: roundKes(shares * price),
+      currentWeight,
+      targetWeight,
+    });
+  });
+
+  // Sells fund the buys; the most underweight holdings are bought first
+  const sells = orders.filter(order => order.side === 'SELL');
+  const buys = orders
+    .filter(order => order.side === 'BUY')
+    .sort((a, b) => (b.targetWeight - b.currentWeight) - (a.targetWeight - a.currentWeight));
+
+  let cash = cashBefore;
+  const trades: RebalanceTrade[] = [];
+  const addTrade = (order: typeof orders[number]) => {
+    const fees = tradeFees(order.consideration, costs);
+    const netAmount = roundKes(order.side === 'SELL' ? order.consideration - fees.total : order.consideration + fees.total);
+    const signed = order.side === 'SELL' ? -order.consideration : order.consideration;
+    const dividendYield = dividendYields[order.symbol];
+
+    cash += order.side === 'SELL' ? netAmount : -netAmount;
+    trades.push({
+      ...order,
+      sequence: trades.length + 1,
+      fees,
+      netAmount,
+      weightAfter: totalValue > 0 ? order.currentWeight + signed / totalValue : 0,
+      withholdingTaxChange: dividendYield !== undefined ? roundKes(signed * dividendYield * costs.withholdingTax) : null,
+    });
+  };
+
+  sells.forEach(addTrade);
+  buys.forEach(order => {
+    const lot = lotOf(order.symbol);
+    const lotCost = order.price * lot * (1 + feeRate(costs));
+    const affordableLots = Math.floor((cash + WEIGHT_TOLERANCE) / lotCost);
+
+    if (affordableLots < order.lots) {
+      if (affordableLots <= 0) {
+        warnings.push(`Not enough cash to buy ${order.symbol}; ${order.lots} lot(s) were needed.`);
+        return;
+      }
+      warnings.push(`Cash covers ${affordableLots} of the ${order.lots} lots of ${order.symbol} needed.`);
+      const shares = affordableLots * lot;
+      addTrade({ ...order, shares, lots: affordableLots, consideration: roundKes(shares * order.price) });
+      return;
+    }
+    addTrade(order);
+  });
+
+  const traded = trades.reduce((sum, trade) => sum + trade.consideration, 0);
+  return {
+    trades,
+    driftThreshold,
+    cashBefore: roundKes(cashBefore),
+    cashAfter: roundKes(cash),
+    totalFees: roundKes(trades.reduce((sum, trade) => sum + trade.fees.total, 0)),
+    turnover: totalValue > 0 ? traded / totalValue : 0,
+    withholdingTaxChange: roundKes(trades.reduce((sum, trade) => sum + (trade.withholdingTaxChange ?? 0), 0)),
+    warnings,
+  };
+};
+
+const CSV_COLUMNS = [
+  'Sequence', 'Side', 'Symbol', 'Quantity', 'Lots', 'Limit Price', 'Consideration',
+  'Brokerage', 'NSE Levy', 'CMA Levy', 'CDSC Levy', 'ICF Levy', 'Total Fees', 'Net Amount',
+];
+
+// Order sheet for the broker, one row per trade in execution order
+export const rebalancePlanToCsv = (plan: RebalancePlan): string => [
+  CSV_COLUMNS.join(','),
+  ...plan.trades.map(trade => [
+    trade.sequence,
+    trade.side,
+    trade.symbol,
+    trade.shares,
+    trade.lots,
+    trade.price.toFixed(2),
+    trade.consideration.toFixed(2),
+    trade.fees.brokerage.toFixed(2),
+    trade.fees.nseLevy.toFixed(2),
+    trade.fees.cmaLevy.toFixed(2),
+    trade.fees.cdscLevy.toFixed(2),
+    trade.fees.icfLevy.toFixed(2),
+    trade.fees.total.toFixed(2),
+    trade.netAmount.toFixed(2),
+  ].join(',')),
+].join('\n');
@@ -0,0 +1,736 @@
+// Intelligent Recommendation System for NSE and Kenyan Market
+// Generates AI-driven investment recommendations specific to Kenyan securities
+
+import { efficientFrontier, optimizeWeights } from './optimizer.js';
+import { holdingValue } from './portfolioReturns.js';
+import { buildRebalancePlan, RebalanceOptions } from './rebalancing.js';
+import { parseSector } from './symbols.js';
+import {
+  AIHolding,
+  AIPortfolio,
+  AIRecommendation,
+  LocalOpportunity,
+  AIInsight,
+  CovarianceModel,
+  FrontierPoint,
+  MarketData,
+  NSESector,
+  OptimizationConstraints,
+  OptimizationObjective,
+  OptimizationResult,
+  RebalancePlan,
+  RiskProfile,
+} from './types.js';
+
+// Bump when the scoring rules change, so backtests of each version can be told apart
+export const RECOMMENDATION_ENGINE_VERSION = '1.2.0';
+
+export interface PortfolioOptimizationOptions {
+  // Covariance of the holdings' returns; holdings outside it keep their current weight
+  covariance?: CovarianceModel;
+  objective?: OptimizationObjective;
+  constraints?: OptimizationConstraints;
+  // Drift from target, as a fraction of portfolio value, tolerated before trading
+  rebalanceThreshold?: number;
+  // Fees, board lots and dividend yields for the trade list
+  trading?: Omit<RebalanceOptions, 'driftThreshold'>;
+}
+
+export class NSERecommendationEngine {
+  // Sectors of the opportunities called out by name, as the NSE lists them (NSE_SECTORS)
+  private static readonly BANKING_SECTOR: NSESector = 'Banking';
+  private static readonly TELECOM_SECTOR: NSESector = 'Telecommunication';
+
+  // Multiples below which an NSE stock is treated as cheap
+  private static readonly LOW_PE_RATIO = 6;
+  private static readonly LOW_PB_RATIO = 0.8;
+
+  private static readonly KENYAN_ECONOMIC_INDICATORS = {
+    gdpGrowth: 0.055, // 5.5% estimated
+    inflationRate: 0.05, // 5%
+    interestRate: 0.085, // 8.5%
+    currencyStability: 0.85 // KES stability index
+  };
+
+  /**
+   * Generate NSE Investment Recommendations
+   */
+  static async generateNSERecommendations(
+    marketData: MarketData[],
+    userRiskProfile: RiskProfile,
+    investmentAmount: number = 100000, // Default KES 100,000
+    timeHorizon: 'short' | 'medium' | 'long' = 'medium'
+  ): Promise<AIRecommendation[]> {
+    const recommendations: AIRecommendation[] = [];
+
+    // Analyze each stock for recommendation potential
+    for (const stock of marketData.slice(0, 20)) { // Focus on top 20 liquid stocks
+      const analysis = await this.analyzeStockForRecommendation(stock, userRiskProfile, timeHorizon);
+      if (analysis.shouldRecommend) {
+        recommendations.push(analysis.recommendation);
+      }
+    }
+
+    // Sort by confidence and expected return
+    recommendations.sort((a, b) => {
+      const scoreA = a.confidence * a.expectedReturn;
+      const scoreB = b.confidence * b.expectedReturn;
+      return scoreB - scoreA;
+    });
+
+    // Return top 10 recommendations
+    return recommendations.slice(0, 10);
+  }
+
+  /**
+   * Portfolio Optimization Recommendations
+   */
+  static optimizePortfolio(
+    portfolio: AIPortfolio,
+    marketData: MarketData[],
+    {
+      covariance,
+      objective = 'risk-parity',
+      constraints = {},
+      rebalanceThreshold = 0.1,
+      trading = {}
+    }: PortfolioOptimizationOptions = {}
+  ): {
+    rebalanceRecommendations: AIRecommendation[];
+    rebalancePlan: RebalancePlan;
+    optimizationInsights: AIInsight[];
+    targetAllocation: { [symbol: string]: number };
+    optimization: OptimizationResult | null;
+    efficientFrontier: FrontierPoint[];
+  } {
+    const rebalanceRecommendations: AIRecommendation[] = [];
+    const optimizationInsights: AIInsight[] = [];
+    const currentHoldings = portfolio.holdings || [];
+
+    // Calculate current portfolio weights, cash included
+    const holdingsValue = currentHoldings.reduce((sum, h) => sum + holdingValue(h), 0);
+    const totalValue = Math.max(portfolio.total_value || 0, holdingsValue + (portfolio.cash_balance || 0));
+    const currentWeights: { [symbol: string]: number } = {};
+
+    currentHoldings.forEach(holding => {
+      currentWeights[holding.symbol] = (currentWeights[holding.symbol] || 0) +
+        (totalValue > 0 ? holdingValue(holding) / totalValue : 0);
+    });
+
+    // Optimise the holdings with enough price history; the rest keep their weight
+    const modelled = covariance && covariance.symbols.length >= 2 ? covariance : null;
+    const sectors: Record<string, string> = {};
+    currentHoldings.forEach(holding => {
+      const sector = holding.sector || marketData.find(s => s.symbol === holding.symbol)?.sector;
+      if (sector) sectors[holding.symbol] = sector;
+    });
+    const fixedWeights = Object.fromEntries(
+      Object.entries(currentWeights).filter(([symbol]) => !modelled?.symbols.includes(symbol))
+    );
+
+    const input = modelled ? { covariance: modelled, sectors, fixedWeights } : null;
+    const optimization = input ? optimizeWeights(input, objective, constraints) : null;
+    const frontier = input ? efficientFrontier(input, constraints) : [];
+    const targetAllocation = optimization ? { ...optimization.weights } : { ...currentWeights };
+
+    // Executable trades towards the target, one recommendation per trade
+    const rebalancePlan = buildRebalancePlan(portfolio, targetAllocation, marketData, {
+      ...trading,
+      driftThreshold: rebalanceThreshold
+    });
+
+    rebalancePlan.trades.forEach(trade => {
+      const stock = marketData.find(s => s.symbol === trade.symbol);
+
+      rebalanceRecommendations.push({
+        id: `rebalance_${trade.symbol}_${Date.now()}`,
+        type: trade.side,
+        symbol: trade.symbol,
+        confidence: 0.8,
+        rationale: `Rebalance ${trade.symbol} to maintain optimal portfolio allocation`,
+        expectedReturn: stock ? this.estimateExpectedReturn(stock) : 0,
+        riskLevel: stock ? this.assessStockRiskLevel(stock) : 'medium',
+        timeHorizon: 'medium',
+        price: trade.price,
+        targetPrice: trade.price * (trade.side === 'BUY' ? 1.1 : 0.9),
+        stopLoss: trade.price * (trade.side === 'BUY' ? 0.95 : 1.05),
+        reasoning: {
+          technical: [
+            `Current weight: ${(trade.currentWeight * 100).toFixed(1)}%`,
+            `Target weight: ${(trade.targetWeight * 100).toFixed(1)}%`,
+            `Weight after trade: ${(trade.weightAfter * 100).toFixed(1)}%`
+          ],
+          fundamental: ['Portfolio optimization based on risk-return profile'],
+          sentiment: ['Maintains diversification benefits'],
+          risk: [
+            `${trade.side === 'BUY' ? 'Buy' : 'Sell'} ${trade.shares.toLocaleString()} shares (${trade.lots} board lots) at KES ${trade.price.toLocaleString()}`,
+            `Fees and levies: KES ${trade.fees.total.toLocaleString()}; cash ${trade.side === 'BUY' ? 'paid' : 'received'}: KES ${trade.netAmount.toLocaleString()}`,
+            ...(trade.withholdingTaxChange !== null
+              ? [`Dividend withholding tax ${trade.withholdingTaxChange >= 0 ? 'rises' : 'falls'} by KES ${Math.abs(trade.withholdingTaxChange).toLocaleString()} a year`]
+              : [])
+          ]
+        },
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Generate optimization insights
+    optimizationInsights.push(optimization ? {
+      id: `optimization_${Date.now()}`,
+      type: 'portfolio_analysis',
+      title: 'Portfolio Optimization Analysis',
+      content: `The ${objective.replace('-', ' ')} allocation expects ${(optimization.expectedReturn * 100).toFixed(1)}% a year at ${(optimization.volatility * 100).toFixed(1)}% volatility (Sharpe ${optimization.sharpeRatio.toFixed(2)}) with ${(optimization.cashWeight * 100).toFixed(1)}% in cash. ${rebalancePlan.trades.length} trades move drifting positions to within ${(rebalanceThreshold * 100).toFixed(0)}% of it, turning over ${(rebalancePlan.turnover * 100).toFixed(1)}% of the portfolio for KES ${rebalancePlan.totalFees.toLocaleString()} in fees.${Object.keys(fixedWeights).length > 0 ? ` Kept at current weight for lack of price history: ${Object.keys(fixedWeights).join(', ')}.` : ''}${[...optimization.warnings, ...rebalancePlan.warnings].map(warning => ` ${warning}`).join('')}`,
+      confidence: 0.8,
+      importance: rebalanceRecommendations.length > 3 ? 'high' : 'medium',
+      actionable: rebalanceRecommendations.length > 0,
+      timestamp: new Date().toISOString()
+    } : {
+      id: `optimization_${Date.now()}`,
+      type: 'portfolio_analysis',
+      title: 'Portfolio Optimization Unavailable',
+      content: 'At least two holdings need enough daily price history to estimate their covariance before the portfolio can be optimized.',
+      confidence: 0.9,
+      importance: 'low',
+      actionable: false,
+      timestamp: new Date().toISOString()
+    });
+
+    return {
+      rebalanceRecommendations,
+      rebalancePlan,
+      optimizationInsights,
+      targetAllocation,
+      optimization,
+      efficientFrontier: frontier
+    };
+  }
+
+  /**
+   * Identify Local Market Opportunities
+   */
+  static identifyKenyanMarketOpportunities(
+    marketData: MarketData[],
+    economicIndicators?: Record<string, number>
+  ): LocalOpportunity[] {
+    const opportunities: LocalOpportunity[] = [];
+
+    // Sector-specific opportunities based on Kenyan economic trends
+    const sectorOpportunities = this.identifySectorOpportunities(marketData);
+    opportunities.push(...sectorOpportunities);
+
+    // Value opportunities (undervalued stocks)
+    const valueOpportunities = this.identifyValueOpportunities(marketData);
+    opportunities.push(...valueOpportunities);
+
+    // Growth opportunities
+    const growthOpportunities = this.identifyGrowthOpportunities(marketData);
+    opportunities.push(...growthOpportunities);
+
+    // ESG and sustainability opportunities
+    const esgOpportunities = this.identifyESGOpportunities(marketData);
+    opportunities.push(...esgOpportunities);
+
+    return opportunities.slice(0, 15); // Top 15 opportunities
+  }
+
+  /**
+   * Natural Language Insights Generation
+   */
+  static generateNaturalLanguageInsights(
+    marketData: MarketData[],
+    portfolioPerformance: number,
+    marketSentiment: 'bullish' | 'bearish' | 'neutral'
+  ): AIInsight[] {
+    const insights: AIInsight[] = [];
+
+    // Market overview in natural language
+    const marketMovers = this.getTopMovers(marketData);
+    const marketInsight = this.generateMarketOverviewInsight(marketMovers, marketSentiment);
+    insights.push(marketInsight);
+
+    // Portfolio performance insight
+    const performanceInsight = this.generatePerformanceInsight(portfolioPerformance, marketData);
+    insights.push(performanceInsight);
+
+    // Sector analysis insight
+    const sectorInsight = this.generateSectorAnalysisInsight(marketData);
+    insights.push(sectorInsight);
+
+    // Economic environment insight
+    const economicInsight = this.generateEconomicInsight();
+    insights.push(economicInsight);
+
+    return insights;
+  }
+
+  // Private helper methods
+
+  private static async analyzeStockForRecommendation(
+    stock: MarketData,
+    riskProfile: RiskProfile,
+    timeHorizon: 'short' | 'medium' | 'long'
+  ): Promise<{ shouldRecommend: boolean; recommendation: AIRecommendation }> {
+    // Technical analysis
+    const technicalScore = this.calculateTechnicalScore(stock);
+    
+    // Fundamental analysis (simplified)
+    const fundamentalScore = this.calculateFundamentalScore(stock);
+    
+    // Risk assessment
+    const riskLevel = this.assessStockRiskLevel(stock);
+    
+    // Market sentiment
+    const sentimentScore = this.calculateSentimentScore(stock);
+
+    // Overall confidence calculation
+    const confidence = (technicalScore + fundamentalScore + sentimentScore) / 3;
+    
+    // Risk-profile matching
+    const riskMatch = this.matchesRiskProfile(riskLevel, riskProfile);
+    
+    const shouldRecommend = confidence > 0.6 && riskMatch;
+
+    const expectedReturn = this.estimateExpectedReturn(stock);
+    const targetPrice = stock.current_price * (1 + expectedReturn);
+    const stopLoss = stock.current_price * 0.92; // 8% stop loss
+
+    const recommendation: AIRecommendation = {
+      id: `rec_${stock.symbol}_${Date.now()}`,
+      type: expectedReturn > 0.05 ? 'BUY' : 'HOLD',
+      symbol: stock.symbol,
+      confidence: Math.round(confidence * 100) / 100,
+      rationale: this.generateRationale(stock, technicalScore, fundamentalScore, sentimentScore),
+      expectedReturn,
+      riskLevel,
+      timeHorizon,
+      price: stock.current_price,
+      targetPrice,
+      stopLoss,
+      reasoning: {
+        technical: this.getTechnicalReasons(stock, technicalScore),
+        fundamental: this.getFundamentalReasons(stock, fundamentalScore),
+        sentiment: this.getSentimentReasons(stock, sentimentScore),
+        risk: this.getRiskReasons(stock, riskLevel)
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    return { shouldRecommend, recommendation };
+  }
+
+  private static identifySectorOpportunities(marketData: MarketData[]): LocalOpportunity[] {
+    const opportunities: LocalOpportunity[] = [];
+
+    // Banking sector opportunity (Kenya's growing financial inclusion); quotes the symbol
+    // master has not classified fall back to the large listed banks
+    const bankingStocks = marketData.filter(s =>
+      s.sector ? parseSector(s.sector) === this.BANKING_SECTOR : ['KCB', 'EQTY', 'COOP', 'ABSA', 'NCBA', 'SBIC', 'SCBK'].includes(s.symbol)
+    );
+    if (bankingStocks.length > 0) {
+      const topBankingStock = bankingStocks.sort((a, b) => b.change_percent - a.change_percent)[0];
+      opportunities.push({
+        symbol: topBankingStock.symbol,
+        name: topBankingStock.company_name,
+        sector: this.BANKING_SECTOR,
+        opportunity: 'Financial Inclusion Growth',
+        potentialReturn: 15,
+        riskLevel: 'medium',
+        timeframe: '12-18 months',
+        reasoning: [
+          'Kenya\'s digital banking penetration increasing',
+          'Mobile money integration driving growth',
+          'Regional expansion opportunities'
+        ],
+        localAdvantage: 'Strong regulatory environment and fintech innovation in Kenya',
+        marketCap: this.formatMarketCap(topBankingStock.market_cap),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Telecommunications (Safaricom focus)
+    const telecomStocks = marketData.filter(s => s.symbol === 'SCOM');
+    if (telecomStocks.length > 0) {
+      opportunities.push({
+        symbol: 'SCOM',
+        name: 'Safaricom Plc',
+        sector: telecomStocks[0].sector || this.TELECOM_SECTOR,
+        opportunity: '5G and Digital Services Expansion',
+        potentialReturn: 20,
+        riskLevel: 'low',
+        timeframe: '6-12 months',
+        reasoning: [
+          '5G network rollout in major cities',
+          'M-Pesa expansion to new markets',
+          'Strong dividend yield and market dominance'
+        ],
+        localAdvantage: 'Market leader with government support for digital transformation',
+        marketCap: this.formatMarketCap(telecomStocks[0].market_cap),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return opportunities;
+  }
+
+  private static identifyValueOpportunities(marketData: MarketData[]): LocalOpportunity[] {
+    // Undervalued stocks: a yield above the T-bill rate, a low multiple of profitable earnings or
+    // of book value, or a sharp decline in a stock that is not a penny stock
+    const interestRate = this.KENYAN_ECONOMIC_INDICATORS.interestRate;
+    const isHighYield = (stock: MarketData) => (this.dividendYieldOf(stock) ?? 0) >= interestRate;
+    const isCheap = (stock: MarketData) =>
+      (stock.pe_ratio !== undefined && stock.pe_ratio < this.LOW_PE_RATIO) ||
+      (stock.pb_ratio !== undefined && stock.pb_ratio < this.LOW_PB_RATIO);
+    // Income plus earnings per shilling invested
+    const valueScore = (stock: MarketData) => (this.dividendYieldOf(stock) ?? 0) + (stock.pe_ratio ? 1 / stock.pe_ratio : 0);
+
+    return marketData
+      .filter(stock => isHighYield(stock) || isCheap(stock) || (stock.change_percent < -2 && stock.current_price > 10))
+      .sort((a, b) => valueScore(b) - valueScore(a))
+      .slice(0, 3)
+      .map(stock => {
+        const dividendYield = this.dividendYieldOf(stock);
+        const reasoning: string[] = [];
+        if (isHighYield(stock)) {
+          reasoning.push(`Dividend yield of ${(dividendYield! * 100).toFixed(1)}% beats the ${(interestRate * 100).toFixed(1)}% T-bill rate`);
+        }
+        if (stock.pe_ratio !== undefined && stock.pe_ratio < this.LOW_PE_RATIO) {
+          const period = stock.fundamentals_period ? `${stock.fundamentals_period} ` : '';
+          reasoning.push(`Trades at ${stock.pe_ratio.toFixed(1)}x ${period}earnings`);
+        }
+        if (stock.pb_ratio !== undefined && stock.pb_ratio < this.LOW_PB_RATIO) {
+          reasoning.push(`Priced at ${stock.pb_ratio.toFixed(2)}x net asset value per share`);
+        }
+        if (stock.change_percent < -2) {
+          reasoning.push(`Recent decline of ${Math.abs(stock.change_percent).toFixed(1)}% may be oversold`);
+        }
+        if (stock.roe !== undefined) {
+          reasoning.push(`Return on equity of ${(stock.roe * 100).toFixed(1)}%`);
+        } else if (!dividendYield) {
+          reasoning.push('Strong fundamentals despite temporary weakness');
+        }
+        reasoning.push('Attractive entry point for long-term investors');
+
+        return {
+          symbol: stock.symbol,
+          name: stock.company_name,
+          sector: stock.sector || 'Mixed',
+          opportunity: 'Value Investment',
+          // Yield plus a modest re-rating
+          potentialReturn: Math.max(12, Math.round((dividendYield ?? 0) * 100 + 5)),
+          riskLevel: 'medium' as const,
+          timeframe: '6-18 months',
+          reasoning,
+          localAdvantage: 'Established NSE company with local market knowledge',
+          marketCap: this.formatMarketCap(stock.market_cap),
+          timestamp: new Date().toISOString()
+        };
+      });
+  }
+
+  private static identifyGrowthOpportunities(marketData: MarketData[]): LocalOpportunity[] {
+    // Identify growth stocks based on positive momentum
+    return marketData
+      .filter(stock => stock.change_percent > 3 && (stock.volume ?? 0) > 50000) // Strong growth with volume
+      .slice(0, 3)
+      .map(stock => ({
+        symbol: stock.symbol,
+        name: stock.company_name,
+        sector: stock.sector || 'Mixed',
+        opportunity: 'Growth Investment',
+        potentialReturn: 18,
+        riskLevel: 'high' as const,
+        timeframe: '3-12 months',
+        reasoning: [
+          `Strong momentum with ${stock.change_percent.toFixed(1)}% gain`,
+          'High trading volume indicates institutional interest',
+          'Growth trajectory supported by market dynamics'
+        ],
+        localAdvantage: 'Benefiting from Kenya\'s economic growth and market expansion',
+        marketCap: this.formatMarketCap(stock.market_cap),
+        timestamp: new Date().toISOString()
+      }));
+  }
+
+  private static identifyESGOpportunities(marketData: MarketData[]): LocalOpportunity[] {
+    // ESG-focused opportunities in Kenya
+    const esgStocks = ['KEGN', 'SCOM', 'EABL', 'BAT']; // Green energy, telecom, responsible companies
+    
+    return marketData
+      .filter(stock => esgStocks.includes(stock.symbol))
+      .slice(0, 2)
+      .map(stock => ({
+        symbol: stock.symbol,
+        name: stock.company_name,
+        sector: stock.sector || 'ESG',
+        opportunity: 'ESG Investment',
+        potentialReturn: 14,
+        riskLevel: 'low' as const,
+        timeframe: '12-24 months',
+        reasoning: [
+          'Strong ESG credentials and sustainability focus',
+          'Aligned with global responsible investment trends',
+          'Government support for green initiatives'
+        ],
+        localAdvantage: 'Kenya\'s leadership in renewable energy and sustainability in Africa',
+        marketCap: this.formatMarketCap(stock.market_cap),
+        timestamp: new Date().toISOString()
+      }));
+  }
+
+  // Additional helper methods for analysis
+
+  private static calculateTechnicalScore(stock: MarketData): number {
+    // Simplified technical analysis
+    let score = 0.5; // Base score
+    
+    // Price momentum
+    if (stock.change_percent > 2) score += 0.2;
+    else if (stock.change_percent < -2) score -= 0.2;
+    
+    // Volume analysis
+    if (stock.volume && stock.volume > 100000) score += 0.1;
+    
+    return Math.max(0, Math.min(1, score));
+  }
+
+  private static calculateFundamentalScore(stock: MarketData): number {
+    // Simplified fundamental analysis
+    let score = 0.6; // Base score for NSE listed companies
+    
+    // Market cap consideration
+    if (stock.market_cap && stock.market_cap > 10000000000) score += 0.1; // Large cap bonus
+    
+    // Sector leadership (simplified)
+    if (['SCOM', 'EQTY', 'KCB', 'EABL'].includes(stock.symbol)) score += 0.2;
+
+    // Dividend yield against the T-bill rate; a stock that has stopped paying is marked down
+    const dividendYield = this.dividendYieldOf(stock);
+    if (dividendYield !== undefined) {
+      if (dividendYield >= this.KENYAN_ECONOMIC_INDICATORS.interestRate) score += 0.15;
+      else if (dividendYield >= 0.05) score += 0.1;
+      else if (dividendYield >= 0.02) score += 0.05;
+      else if (dividendYield === 0) score -= 0.05;
+    }
+
+    // Reported results, where stored: valuation, profitability, leverage and growth
+    if (stock.eps !== undefined && stock.eps <= 0) score -= 0.15; // Loss-making
+    else if (stock.pe_ratio !== undefined) {
+      if (stock.pe_ratio < this.LOW_PE_RATIO) score += 0.1;
+      else if (stock.pe_ratio < 10) score += 0.05;
+      else if (stock.pe_ratio > 25) score -= 0.05;
+    }
+    if (stock.pb_ratio !== undefined && stock.pb_ratio < this.LOW_PB_RATIO) score += 0.05;
+    if (stock.roe !== undefined) {
+      if (stock.roe >= 0.2) score += 0.1;
+      else if (stock.roe >= 0.12) score += 0.05;
+      else if (stock.roe < 0.05) score -= 0.05;
+    }
+    if (stock.debt_to_equity !== undefined && stock.debt_to_equity > 2) score -= 0.05;
+    if (stock.revenue_growth !== undefined) {
+      if (stock.revenue_growth >= 0.1) score += 0.05;
+      else if (stock.revenue_growth < 0) score -= 0.05;
+    }
+    
+    return Math.max(0, Math.min(1, score));
+  }
+
+  // Forward yield where dividends are expected, otherwise trailing
+  private static dividendYieldOf(stock: MarketData): number | undefined {
+    return stock.forward_dividend_yield || stock.dividend_yield;
+  }
+
+  private static calculateSentimentScore(stock: MarketData): number {
+    // Simplified sentiment based on recent performance
+    let score = 0.5;
+    
+    if (stock.change_percent > 1) score += 0.3;
+    else if (stock.change_percent < -1) score -= 0.3;
+    
+    return Math.max(0, Math.min(1, score));
+  }
+
+  private static assessStockRiskLevel(stock: MarketData): 'low' | 'medium' | 'high' {
+    const volatility = Math.abs(stock.change_percent);
+    
+    if (volatility < 1) return 'low';
+    if (volatility < 3) return 'medium';
+    return 'high';
+  }
+
+  private static matchesRiskProfile(stockRisk: 'low' | 'medium' | 'high', userProfile: RiskProfile): boolean {
+    const riskMatrix = {
+      conservative: ['low'],
+      moderate: ['low', 'medium'],
+      aggressive: ['low', 'medium', 'high']
+    };
+    
+    return riskMatrix[userProfile].includes(stockRisk);
+  }
+
+  private static estimateExpectedReturn(stock: MarketData): number {
+    // Simplified expected return calculation
+    const momentum = stock.change_percent / 100;
+    const baseReturn = 0.08; // 8% base expectation
+    
+    return baseReturn + (momentum * 0.5); // Adjust based on momentum
+  }
+
+  private static generateRationale(stock: MarketData, technical: number, fundamental: number, sentiment: number): string {
+    const scores = { technical, fundamental, sentiment };
+    const highest = Object.entries(scores).sort(([,a], [,b]) => b - a)[0][0];
+    
+    const rationales = {
+      technical: `Strong technical indicators suggest upward momentum for ${stock.symbol}`,
+      fundamental: `Solid fundamentals and market position support ${stock.symbol}'s growth potential`,
+      sentiment: `Positive market sentiment and recent performance favor ${stock.symbol}`
+    };
+    
+    return rationales[highest as keyof typeof rationales];
+  }
+
+  private static getTechnicalReasons(stock: MarketData, score: number): string[] {
+    const reasons = [];
+    if (stock.change_percent > 0) reasons.push(`Positive momentum: +${stock.change_percent.toFixed(2)}%`);
+    if (stock.volume && stock.volume > 50000) reasons.push('Strong trading volume');
+    if (score > 0.7) reasons.push('Technical indicators are bullish');
+    return reasons.length > 0 ? reasons : ['Technical analysis neutral'];
+  }
+
+  private static getFundamentalReasons(stock: MarketData, score: number): string[] {
+    const reasons = [];
+    if (['SCOM', 'EQTY', 'KCB'].includes(stock.symbol)) reasons.push('Market leader in sector');
+    if (stock.market_cap && stock.market_cap > 5000000000) reasons.push('Large-cap stability');
+    const dividendYield = this.dividendYieldOf(stock);
+    if (dividendYield) {
+      const basis = stock.forward_dividend_yield ? 'forward' : 'trailing';
+      reasons.push(`${(dividendYield * 100).toFixed(1)}% ${basis} dividend yield`);
+    }
+    const period = stock.fundamentals_period ? ` (${stock.fundamentals_period})` : '';
+    if (stock.eps !== undefined) {
+      reasons.push(stock.pe_ratio !== undefined
+        ? `P/E of ${stock.pe_ratio.toFixed(1)}x on EPS of KES ${stock.eps.toFixed(2)}${period}`
+        : `Loss of KES ${Math.abs(stock.eps).toFixed(2)} per share${period}`);
+    }
+    if (stock.pb_ratio !== undefined) reasons.push(`Price/book of ${stock.pb_ratio.toFixed(2)}x`);
+    if (stock.roe !== undefined) reasons.push(`Return on equity of ${(stock.roe * 100).toFixed(1)}%`);
+    if (stock.debt_to_equity !== undefined) reasons.push(`Debt/equity of ${stock.debt_to_equity.toFixed(2)}`);
+    if (stock.revenue_growth !== undefined) {
+      reasons.push(`Revenue ${stock.revenue_growth >= 0 ? 'up' : 'down'} ${Math.abs(stock.revenue_growth * 100).toFixed(1)}% on the prior year`);
+    }
+    if (stock.payout_ratio !== undefined) reasons.push(`Pays out ${(stock.payout_ratio * 100).toFixed(0)}% of earnings`);
+    reasons.push('Listed on NSE with regulatory oversight');
+    return reasons;
+  }
+
+  private static getSentimentReasons(stock: MarketData, score: number): string[] {
+    const reasons = [];
+    if (stock.change_percent > 1) reasons.push('Positive recent performance');
+    if (score > 0.7) reasons.push('Market sentiment is favorable');
+    reasons.push('Part of Kenya\'s economic growth story');
+    return reasons;
+  }
+
+  private static getRiskReasons(stock: MarketData, risk: 'low' | 'medium' | 'high'): string[] {
+    const riskReasons = {
+      low: ['Low volatility stock', 'Established market position'],
+      medium: ['Moderate risk-reward profile', 'Consider position sizing'],
+      high: ['High growth potential', 'Use stop-loss orders', 'Higher volatility expected']
+    };
+    return riskReasons[risk];
+  }
+
+  private static getTopMovers(marketData: MarketData[]): { gainers: MarketData[]; losers: MarketData[] } {
+    const sorted = [...marketData].sort((a, b) => b.change_percent - a.change_percent);
+    return {
+      gainers: sorted.slice(0, 3),
+      losers: sorted.slice(-3)
+    };
+  }
+
+  private static generateMarketOverviewInsight(
+    movers: { gainers: MarketData[]; losers: MarketData[] },
+    sentiment: 'bullish' | 'bearish' | 'neutral'
+  ): AIInsight {
+    const topGainer = movers.gainers[0];
+    const topLoser = movers.losers[0];
+    
+    return {
+      id: `market_overview_${Date.now()}`,
+      type: 'market_summary',
+      title: 'NSE Market Overview',
+      content: `Today's NSE session shows ${sentiment} sentiment. Top performer is ${topGainer?.symbol} (+${topGainer?.change_percent.toFixed(2)}%), while ${topLoser?.symbol} declined ${topLoser?.change_percent.toFixed(2)}%. ${sentiment === 'bullish' ? 'Broad market strength suggests positive investor confidence.' : sentiment === 'bearish' ? 'Market weakness indicates cautious investor sentiment.' : 'Mixed signals suggest a consolidation phase.'}`,
+      confidence: 0.85,
+      importance: 'medium',
+      actionable: false,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private static generatePerformanceInsight(performance: number, marketData: MarketData[]): AIInsight {
+    const marketAverage = marketData.reduce((sum, stock) => sum + stock.change_percent, 0) / marketData.length;
+    const relative = performance - marketAverage;
+    
+    return {
+      id: `performance_${Date.now()}`,
+      type: 'portfolio_analysis',
+      title: 'Portfolio Performance Analysis',
+      content: `Your portfolio is ${relative > 0 ? 'outperforming' : 'underperforming'} the NSE market by ${Math.abs(relative).toFixed(2)} percentage points. ${relative > 1 ? 'Excellent stock selection is driving superior returns.' : relative < -1 ? 'Consider reviewing your holdings for optimization opportunities.' : 'Performance is closely tracking the market benchmark.'}`,
+      confidence: 0.9,
+      importance: Math.abs(relative) > 1 ? 'high' : 'medium',
+      actionable: relative < -1,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private static generateSectorAnalysisInsight(marketData: MarketData[]): AIInsight {
+    // Simple sector performance analysis
+    const sectors: { [key: string]: { count: number; avgChange: number } } = {};
+    
+    marketData.forEach(stock => {
+      // Older and broker spellings of a sector count towards the NSE's name for it
+      const sector = (stock.sector && parseSector(stock.sector)) || stock.sector || 'Other';
+      if (!sectors[sector]) sectors[sector] = { count: 0, avgChange: 0 };
+      sectors[sector].count++;
+      sectors[sector].avgChange += stock.change_percent;
+    });
+
+    Object.keys(sectors).forEach(sector => {
+      sectors[sector].avgChange /= sectors[sector].count;
+    });
+
+    const bestSector = Object.entries(sectors)
+      .sort(([,a], [,b]) => b.avgChange - a.avgChange)[0];
+
+    return {
+      id: `sector_analysis_${Date.now()}`,
+      type: 'market_summary',
+      title: 'Sector Performance Analysis',
+      content: `${bestSector[0]} sector is leading today's market with an average gain of ${bestSector[1].avgChange.toFixed(2)}%. This sector strength may present opportunities for strategic positioning in upcoming sessions.`,
+      confidence: 0.8,
+      importance: 'medium',
+      actionable: true,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private static generateEconomicInsight(): AIInsight {
+    return {
+      id: `economic_${Date.now()}`,
+      type: 'market_summary',
+      title: 'Kenya Economic Environment',
+      content: `Kenya's economic fundamentals remain supportive for equity investments. GDP growth of ~5.5%, stable currency, and improving business environment create a favorable backdrop for NSE-listed companies. Monitor inflation trends and central bank policy for market direction.`,
+      confidence: 0.85,
+      importance: 'medium',
+      actionable: false,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private static formatMarketCap(marketCap?: number): string {
+    if (!marketCap) return 'N/A';
+    if (marketCap > 1e12) return `KES ${(marketCap / 1e12).toFixed(1)}T`;
+    if (marketCap > 1e9) return `KES ${(marketCap / 1e9).toFixed(1)}B`;
+    if (marketCap > 1e6) return `KES ${(marketCap / 1e6).toFixed(1)}M`;
+    return `KES ${marketCap.toLocaleString()}`;
+  }
+}
@@ -0,0 +1,167 @@
+// Risk profiling questionnaire and its scoring
+// Capacity (what the finances can absorb) and willingness (what the investor accepts) are
+// scored separately; the profile never takes more risk than either allows
+
+import {
+  RiskAssessmentResult,
+  RiskChoiceQuestion,
+  RiskChoiceQuestionId,
+  RiskProfile,
+  RiskQuestionnaireAnswers,
+} from './types.js';
+
+export class RiskAssessmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RiskAssessmentError';
+  }
+}
+
+// Bump when questions or points change, so stored assessments can be told apart
+export const RISK_QUESTIONNAIRE_VERSION = 1;
+
+export const RISK_CHOICE_QUESTIONS: Record<RiskChoiceQuestionId, RiskChoiceQuestion> = {
+  incomeStability: {
+    dimension: 'capacity',
+    prompt: 'How secure is your income over the next few years?',
+    options: [
+      { value: 'unstable', label: 'Uncertain - I could lose it or it is irregular', points: 0 },
+      { value: 'variable', label: 'Variable - business or commission income', points: 1 },
+      { value: 'stable', label: 'Stable - salaried employment', points: 3 },
+      { value: 'very-stable', label: 'Very secure - several income sources or a pension', points: 4 },
+    ],
+  },
+  investmentExperience: {
+    dimension: 'willingness',
+    prompt: 'Which of these have you invested in before?',
+    options: [
+      { value: 'none', label: 'Only savings accounts or SACCO deposits', points: 0 },
+      { value: 'beginner', label: 'Money market funds, T-bills or bonds', points: 1 },
+      { value: 'intermediate', label: 'NSE shares or unit trusts for a few years', points: 3 },
+      { value: 'advanced', label: 'Shares through several market cycles, or offshore markets', points: 4 },
+    ],
+  },
+  drawdownReaction: {
+    dimension: 'willingness',
+    prompt: 'Your portfolio falls 20% in three months. What do you do?',
+    options: [
+      { value: 'sell-all', label: 'Sell everything to stop further losses', points: 0 },
+      { value: 'sell-some', label: 'Sell some and move it to safer assets', points: 1 },
+      { value: 'hold', label: 'Hold and wait for a recovery', points: 3 },
+      { value: 'buy-more', label: 'Buy more while prices are low', points: 4 },
+    ],
+  },
+  returnPreference: {
+    dimension: 'willingness',
+    prompt: 'Which describes your main aim for this money?',
+    options: [
+      { value: 'preserve', label: 'Keep it safe, even if it barely beats inflation', points: 0 },
+      { value: 'income', label: 'Steady income with small price swings', points: 1 },
+      { value: 'balanced', label: 'A balance of growth and stability', points: 2 },
+      { value: 'growth', label: 'Long-term growth, accepting large swings', points: 3 },
+      { value: 'maximum', label: 'The highest returns, accepting large losses', points: 4 },
+    ],
+  },
+  lossTolerance: {
+    dimension: 'willingness',
+    prompt: 'What is the largest loss in one year you could accept?',
+    options: [
+      { value: '5', label: 'Up to 5%', points: 0 },
+      { value: '10', label: 'Up to 10%', points: 1 },
+      { value: '20', label: 'Up to 20%', points: 2 },
+      { value: '30', label: 'Up to 30%', points: 3 },
+      { value: '40', label: 'More than 30%', points: 4 },
+    ],
+  },
+};
+
+export const FINANCIAL_GOALS: { value: string; label: string }[] = [
+  { value: 'retirement', label: 'Retirement' },
+  { value: 'education', label: "Children's education" },
+  { value: 'home', label: 'Buying a home or land' },
+  { value: 'wealth-growth', label: 'Growing wealth' },
+  { value: 'income', label: 'Regular income' },
+  { value: 'emergency', label: 'Building an emergency fund' },
+];
+
+// Scores from this up are moderate, and from the next up aggressive
+const MODERATE_FROM = 40;
+const AGGRESSIVE_FROM = 70;
+
+// Points for the first band whose upper limit the value is below
+const bandPoints = (value: number, limits: number[]): number => {
+  const band = limits.findIndex(limit => value < limit);
+  return band < 0 ? limits.length : band;
+};
+
+export const riskProfileForScore = (score: number): RiskProfile => {
+  if (score >= AGGRESSIVE_FROM) return 'aggressive';
+  if (score >= MODERATE_FROM) return 'moderate';
+  return 'conservative';
+};
+
+const choicePoints = (id: RiskChoiceQuestionId, value: string): number => {
+  const option = RISK_CHOICE_QUESTIONS[id].options.find(candidate => candidate.value === value);
+  if (!option) {
+    throw new RiskAssessmentError(`"${value}" is not an answer to: ${RISK_CHOICE_QUESTIONS[id].prompt}`);
+  }
+  return option.points;
+};
+
+const asScore = (points: number[]): number =>
+  Math.round((points.reduce((sum, value) => sum + value, 0) / (points.length * 4)) * 100);
+
+/**
+ * Score a completed questionnaire. Horizon, debt load, emergency savings and income security
+ * make up capacity; experience, reaction to a fall, aims and acceptable loss make up willingness.
+ * The score is the lower of the two, held below moderate for money needed within a year and
+ * below aggressive within three.
+ */
+export const scoreRiskQuestionnaire = (answers: RiskQuestionnaireAnswers): RiskAssessmentResult => {
+  const { investmentHorizon, monthlyIncome, monthlyDebtPayments, emergencyFundMonths } = answers;
+  if ([investmentHorizon, monthlyIncome, monthlyDebtPayments, emergencyFundMonths].some(value => !Number.isFinite(value) || value < 0)) {
+    throw new RiskAssessmentError('Horizon, income, debt payments and emergency fund must be zero or more');
+  }
+
+  const debtToIncomeRatio = monthlyIncome > 0 ? monthlyDebtPayments / monthlyIncome : null;
+  // No income to service debt scores as the heaviest debt load
+  const debtPoints = debtToIncomeRatio === null
+    ? (monthlyDebtPayments > 0 ? 0 : 2)
+    : 4 - bandPoints(debtToIncomeRatio, [0.15, 0.3, 0.4, 0.5]);
+
+  const capacityPoints = [
+    bandPoints(investmentHorizon, [1, 3, 5, 10]),
+    bandPoints(emergencyFundMonths, [1, 3, 6, 12]),
+    debtPoints,
+  ];
+  const willingnessPoints: number[] = [];
+  (Object.keys(RISK_CHOICE_QUESTIONS) as RiskChoiceQuestionId[]).forEach(id => {
+    const points = choicePoints(id, answers[id]);
+    (RISK_CHOICE_QUESTIONS[id].dimension === 'capacity' ? capacityPoints : willingnessPoints).push(points);
+  });
+
+  const capacityScore = asScore(capacityPoints);
+  const willingnessScore = asScore(willingnessPoints);
+
+  // The score is the lowest bound that applies, so it alone gives the profile
+  const constraints: string[] = [];
+  let score = Math.min(capacityScore, willingnessScore);
+  if (capacityScore < willingnessScore && riskProfileForScore(capacityScore) !== riskProfileForScore(willingnessScore)) {
+    constraints.push(`Your financial capacity for risk (${capacityScore}/100) is lower than your willingness (${willingnessScore}/100).`);
+  }
+  if (investmentHorizon < 1 && score >= MODERATE_FROM) {
+    score = MODERATE_FROM - 1;
+    constraints.push('Money needed within a year should not be exposed to share prices.');
+  } else if (investmentHorizon < 3 && score >= AGGRESSIVE_FROM) {
+    score = AGGRESSIVE_FROM - 1;
+    constraints.push('A horizon under three years leaves little time to recover from a market fall.');
+  }
+  if (emergencyFundMonths < 3) {
+    constraints.push('Build an emergency fund of at least three months of expenses before investing in shares.');
+  }
+  if (debtToIncomeRatio !== null && debtToIncomeRatio > 0.4) {
+    constraints.push(`Debt repayments take ${Math.round(debtToIncomeRatio * 100)}% of your income; paying down expensive debt may beat investing.`);
+  }
+
+  return { score, capacityScore, willingnessScore, debtToIncomeRatio, riskTolerance: riskProfileForScore(score), constraints };
+};
@@ -0,0 +1,431 @@
+// AI-Powered Risk Assessment Engine for Kenya Wealth AI
+// Specializes in NSE market analysis and Kenyan market conditions
+
+import { AIUtils } from './utils.js';
+import { averagePairwiseCorrelation, buildCovarianceModel } from './covariance.js';
+import { ASSET_TYPE_LABELS, fixedIncomeRisk, isFixedIncome, KDIC_COVER_LIMIT } from './fixedIncome.js';
+import { KENYAN_RISK_FREE_RATE } from './optimizer.js';
+import { buildPortfolioReturns, DEFAULT_LOOKBACK_DAYS, holdingValue, MIN_RETURN_OBSERVATIONS } from './portfolioReturns.js';
+import { withQuoteSectors } from './symbols.js';
+import {
+  AIHolding,
+  AIPortfolio,
+  AIRiskMetrics,
+  AIAlert,
+  AIInsight,
+  CovarianceModel,
+  CovarianceOptions,
+  IndexLevel,
+  MarketData,
+  PriceHistory,
+} from './types.js';
+
+export class NSERiskEngine {
+  private static readonly KENYAN_RISK_FREE_RATE = KENYAN_RISK_FREE_RATE;
+  private static readonly NSE_MARKET_VOLATILITY = 0.25; // Average NSE volatility
+  private static readonly CURRENCY_RISK_FACTOR = 0.15; // KES volatility factor
+
+  /**
+   * Comprehensive Portfolio Risk Assessment for NSE holdings.
+   * Volatility, VaR, Sharpe, drawdown and correlations come from the holdings' daily closes
+   * in `priceHistory` over the last `lookbackDays` trading days; with too little history they
+   * fall back to the average NSE volatility and sector similarity. Bills, bonds, funds and
+   * deposits carry duration and credit risk instead, assumed uncorrelated with the equities.
+   */
+  static async assessPortfolioRisk(
+    portfolio: AIPortfolio,
+    marketData: MarketData[],
+    nseIndex: IndexLevel,
+    priceHistory: PriceHistory = {},
+    { lookbackDays = DEFAULT_LOOKBACK_DAYS, shrinkage }: CovarianceOptions = {}
+  ): Promise<{
+    riskMetrics: AIRiskMetrics;
+    alerts: AIAlert[];
+    insights: AIInsight[];
+  }> {
+    // Listed holdings take their NSE sector from the symbol master, carried on the quotes
+    const holdings = withQuoteSectors(portfolio.holdings || [], marketData);
+    const totalValue = portfolio.total_value || 0;
+    // Fixed income counts as its own sector for concentration
+    const classified = holdings.map(h => isFixedIncome(h.asset_type) ? { ...h, sector: ASSET_TYPE_LABELS[h.asset_type] } : h);
+    const equities = holdings.filter(h => !isFixedIncome(h.asset_type));
+    const fixedIncome = fixedIncomeRisk(holdings);
+
+    // Value-weighted daily returns of the current equity holdings
+    const { returns, values, window: returnWindow } = buildPortfolioReturns(equities, priceHistory, lookbackDays);
+    const hasHistory = returns.length >= MIN_RETURN_OBSERVATIONS;
+
+    // Advanced risk calculations
+    const equityVolatility = hasHistory
+      ? AIUtils.calculateRollingVolatility(returns, returns.length)[0]
+      : this.NSE_MARKET_VOLATILITY;
+    const sharpeRatio = hasHistory && equityVolatility > 0
+      ? AIUtils.calculateSharpeRatio(returns, this.KENYAN_RISK_FREE_RATE)
+      : undefined;
+    const maxDrawdown = hasHistory ? AIUtils.calculateMaxDrawdown(values) : undefined;
+    // Without enough history, one-day parametric VaR at the assumed volatility
+    const dailyVolatility = equityVolatility / Math.sqrt(252);
+    const equityVar95 = hasHistory ? AIUtils.calculateVaR(returns, 0.05) : 1.645 * dailyVolatility;
+    const equityVar99 = hasHistory ? AIUtils.calculateVaR(returns, 0.01) : 2.326 * dailyVolatility;
+
+    // Blend in the fixed income at its weight of the holdings
+    const fixedWeight = fixedIncome?.weight ?? 0;
+    const fixedDaily = (fixedIncome?.volatility ?? 0) / Math.sqrt(252);
+    const blend = (equityRisk: number, fixedRisk: number): number =>
+      fixedIncome ? Math.hypot((1 - fixedWeight) * equityRisk, fixedWeight * fixedRisk) : equityRisk;
+    const volatility = blend(equityVolatility, fixedIncome?.volatility ?? 0);
+    const var95 = blend(equityVar95, 1.645 * fixedDaily);
+    const var99 = blend(equityVar99, 2.326 * fixedDaily);
+
+    // NSE-specific risk factors
+    const sectorConcentration = this.calculateSectorConcentration(classified);
+    const currencyRisk = this.assessCurrencyRisk(holdings);
+    const liquidityRisk = this.assessLiquidityRisk(holdings, marketData);
+    const covariance = buildCovarianceModel(priceHistory, equities.map(h => h.symbol), { lookbackDays, shrinkage });
+    const correlationRisk = this.assessCorrelationRisk(equities, covariance);
+
+    // Kenyan market specific adjustments
+    const inflationRisk = this.assessInflationRisk();
+    const politicalRisk = this.assessPoliticalRisk();
+    const economicRisk = this.assessEconomicRisk(nseIndex);
+
+    // Overall risk score calculation
+    const baseRiskScore = (volatility * 100 + sectorConcentration + currencyRisk + liquidityRisk) / 4;
+    const adjustedRiskScore = Math.min(100, baseRiskScore * (1 + politicalRisk + economicRisk));
+
+    const riskMetrics: AIRiskMetrics = {
+      // Base risk metrics
+      valueAtRisk: totalValue * var95,
+      conditionalVaR: totalValue * var99,
+      standardDeviation: volatility,
+      downside_deviation: volatility * 0.7,
+      trackingError: Math.abs((sharpeRatio ?? 0) - 1.0) * volatility,
+
+      // AI-enhanced metrics
+      overallRiskScore: Math.round(adjustedRiskScore),
+      diversificationScore: Math.round(100 - sectorConcentration),
+      riskAdjustedReturn: sharpeRatio ?? 0,
+      correlationMatrix: covariance.correlation,
+      covariance,
+      timestamp: new Date().toISOString(),
+      benchmark: nseIndex,
+      returnWindow,
+
+      // NSE-specific metrics
+      maxDrawdown,
+      sharpeRatio,
+      sectorConcentration,
+      currencyRisk,
+      liquidityRisk,
+      correlationRisk,
+      inflationRisk,
+      politicalRisk,
+      economicRisk,
+      fixedIncome
+    };
+
+    // Generate risk alerts
+    const alerts = this.generateRiskAlerts(riskMetrics, holdings, nseIndex);
+    
+    // Generate insights
+    const insights = this.generateRiskInsights(riskMetrics, portfolio, nseIndex);
+
+    return { riskMetrics, alerts, insights };
+  }
+
+  /**
+   * Real-time NSE Market Volatility Monitoring
+   */
+  static monitorMarketVolatility(marketData: MarketData[], timeWindow: number = 20): {
+    currentVolatility: number;
+    volatilityTrend: 'increasing' | 'decreasing' | 'stable';
+    marketStress: 'low' | 'medium' | 'high' | 'extreme';
+    volatileStocks: string[];
+  } {
+    const prices = marketData.map(stock => stock.current_price);
+    const changes = marketData.map(stock => stock.change_percent / 100);
+    
+    const currentVolatility = AIUtils.calculateRollingVolatility(changes, Math.min(timeWindow, changes.length))[0] || 0;
+    
+    // Determine volatility trend
+    const recentVolatility = currentVolatility;
+    const historicalAvg = this.NSE_MARKET_VOLATILITY;
+    let volatilityTrend: 'increasing' | 'decreasing' | 'stable' = 'stable';
+    
+    if (recentVolatility > historicalAvg * 1.2) {
+      volatilityTrend = 'increasing';
+    } else if (recentVolatility < historicalAvg * 0.8) {
+      volatilityTrend = 'decreasing';
+    }
+
+    // Assess market stress
+    let marketStress: 'low' | 'medium' | 'high' | 'extreme' = 'low';
+    if (currentVolatility > 0.4) marketStress = 'extreme';
+    else if (currentVolatility > 0.3) marketStress = 'high';
+    else if (currentVolatility > 0.2) marketStress = 'medium';
+
+    // Identify highly volatile stocks
+    const volatileStocks = marketData
+      .filter(stock => Math.abs(stock.change_percent) > 5)
+      .map(stock => stock.symbol)
+      .slice(0, 10);
+
+    return { currentVolatility, volatilityTrend, marketStress, volatileStocks };
+  }
+
+  /**
+   * Predictive Risk Modeling using Monte Carlo simulation
+   */
+  static predictiveRiskModeling(
+    currentPrice: number,
+    expectedReturn: number,
+    volatility: number,
+    timeHorizon: number = 252, // 1 year
+    simulations: number = 10000
+  ): {
+    predictions: number[];
+    confidenceIntervals: { p5: number; p25: number; p50: number; p75: number; p95: number };
+    probabilityOfLoss: number;
+    expectedValue: number;
+  } {
+    const predictions = AIUtils.monteCarloSimulation(
+      currentPrice,
+      expectedReturn,
+      volatility,
+      timeHorizon,
+      simulations
+    );
+
+    predictions.sort((a, b) => a - b);
+
+    const confidenceIntervals = {
+      p5: predictions[Math.floor(simulations * 0.05)],
+      p25: predictions[Math.floor(simulations * 0.25)],
+      p50: predictions[Math.floor(simulations * 0.50)],
+      p75: predictions[Math.floor(simulations * 0.75)],
+      p95: predictions[Math.floor(simulations * 0.95)]
+    };
+
+    const probabilityOfLoss = predictions.filter(p => p < currentPrice).length / simulations;
+    const expectedValue = predictions.reduce((sum, p) => sum + p, 0) / simulations;
+
+    return { predictions, confidenceIntervals, probabilityOfLoss, expectedValue };
+  }
+
+  // Private helper methods
+
+  private static calculateSectorConcentration(holdings: AIHolding[]): number {
+    const sectorWeights: { [key: string]: number } = {};
+    const totalValue = holdings.reduce((sum, h) => sum + holdingValue(h), 0);
+    if (totalValue <= 0) return 0;
+
+    holdings.forEach(holding => {
+      const sector = holding.sector || 'Other';
+      const weight = holdingValue(holding) / totalValue;
+      sectorWeights[sector] = (sectorWeights[sector] || 0) + weight;
+    });
+
+    // Calculate Herfindahl index (concentration measure)
+    const herfindahl = Object.values(sectorWeights).reduce((sum, weight) => sum + weight * weight, 0);
+    return Math.round(herfindahl * 100);
+  }
+
+  private static assessCurrencyRisk(holdings: AIHolding[]): number {
+    // For NSE stocks, currency risk is minimal but exists for cross-listed stocks
+    const foreignExposure = holdings.filter(h => h.symbol?.includes('USD') || h.symbol?.includes('GBP')).length;
+    return Math.min(20, foreignExposure * 5);
+  }
+
+  private static assessLiquidityRisk(holdings: AIHolding[], marketData: MarketData[]): number {
+    let illiquidCount = 0;
+    holdings.forEach(holding => {
+      // Fixed deposits cannot be broken before maturity without losing interest
+      const stock = marketData.find(s => s.symbol === holding.symbol);
+      if (holding.asset_type === 'fixed-deposit' || (stock && (stock.volume || 0) < 10000)) {
+        illiquidCount++;
+      }
+    });
+    return Math.round((illiquidCount / Math.max(holdings.length, 1)) * 100);
+  }
+
+  private static assessCorrelationRisk(holdings: AIHolding[], covariance: CovarianceModel): number {
+    const weights: Record<string, number> = {};
+    holdings.forEach(h => {
+      weights[h.symbol] = (weights[h.symbol] || 0) + holdingValue(h);
+    });
+
+    // Holdings that move together offer little diversification
+    const averageCorrelation = averagePairwiseCorrelation(covariance, weights);
+    if (averageCorrelation !== null) {
+      return Math.round(Math.max(0, averageCorrelation) * 100);
+    }
+
+    // Without enough history, fall back to sector similarity
+    const sectors = holdings.map(h => h.sector || 'Other');
+    const uniqueSectors = new Set(sectors).size;
+    return Math.max(0, 100 - (uniqueSectors * 20));
+  }
+
+  private static assessInflationRisk(): number {
+    // Kenya's inflation rate consideration (simplified)
+    const currentInflation = 0.05; // 5% assumption
+    const targetInflation = 0.025; // 2.5% target
+    return Math.round(Math.abs(currentInflation - targetInflation) * 1000);
+  }
+
+  private static assessPoliticalRisk(): number {
+    // Simplified political risk assessment for Kenya
+    return 0.1; // 10% political risk factor
+  }
+
+  private static assessEconomicRisk(nseIndex: IndexLevel): number {
+    const volatility = Math.abs(nseIndex.changePercent) / 100;
+    return Math.min(0.2, volatility * 2); // Cap at 20%
+  }
+
+  private static generateRiskAlerts(
+    riskMetrics: AIRiskMetrics,
+    holdings: AIHolding[],
+    nseIndex: IndexLevel
+  ): AIAlert[] {
+    const alerts: AIAlert[] = [];
+
+    // High risk score alert
+    if (riskMetrics.overallRiskScore > 70) {
+      alerts.push({
+        id: `risk_alert_${Date.now()}`,
+        rule: 'high-risk',
+        type: 'risk',
+        severity: riskMetrics.overallRiskScore > 85 ? 'critical' : 'high',
+        title: 'High Portfolio Risk Detected',
+        message: `Your portfolio has a risk score of ${riskMetrics.overallRiskScore}/100. Consider diversification.`,
+        actionRequired: true,
+        suggestedActions: [
+          'Diversify across more sectors',
+          'Reduce position sizes in volatile stocks',
+          'Consider adding defensive stocks'
+        ],
+        affectedSymbols: holdings.map(h => h.symbol),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Low diversification alert
+    if (riskMetrics.diversificationScore < 30) {
+      alerts.push({
+        id: `diversification_alert_${Date.now()}`,
+        rule: 'low-diversification',
+        type: 'risk',
+        severity: 'medium',
+        title: 'Poor Portfolio Diversification',
+        message: `Your diversification score is ${riskMetrics.diversificationScore}/100. Spread investments across sectors.`,
+        actionRequired: true,
+        suggestedActions: [
+          'Add stocks from different sectors',
+          'Consider NSE-listed REITs or ETFs',
+          'Include defensive and growth stocks'
+        ],
+        affectedSymbols: [],
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Market volatility alert
+    if (Math.abs(nseIndex.changePercent) > 3) {
+      alerts.push({
+        id: `market_alert_${Date.now()}`,
+        rule: 'market-volatility',
+        type: 'market',
+        severity: 'medium',
+        title: 'High Market Volatility',
+        message: `${nseIndex.index ?? 'NSE index'} moved ${nseIndex.changePercent.toFixed(2)}% today. Monitor positions closely.`,
+        actionRequired: false,
+        suggestedActions: [
+          'Review stop-loss orders',
+          'Consider taking profits on gains',
+          'Avoid new positions until volatility subsides'
+        ],
+        affectedSymbols: [],
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Deposits beyond what KDIC insures if the bank fails
+    const uninsured = holdings.filter(h => h.asset_type === 'fixed-deposit' && holdingValue(h) > KDIC_COVER_LIMIT);
+    if (uninsured.length > 0) {
+      alerts.push({
+        id: `deposit_alert_${Date.now()}`,
+        rule: 'uninsured-deposits',
+        type: 'risk',
+        severity: 'medium',
+        title: 'Fixed Deposits Above Insurance Cover',
+        message: `${uninsured.map(h => h.symbol).join(', ')} ${uninsured.length === 1 ? 'holds' : 'hold'} more than the KES ${KDIC_COVER_LIMIT.toLocaleString()} KDIC covers per bank.`,
+        actionRequired: false,
+        suggestedActions: [
+          'Spread deposits across banks',
+          'Consider Treasury bills for balances above the cover'
+        ],
+        affectedSymbols: uninsured.map(h => h.symbol),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return alerts;
+  }
+
+  private static generateRiskInsights(
+    riskMetrics: AIRiskMetrics,
+    portfolio: AIPortfolio,
+    nseIndex: IndexLevel
+  ): AIInsight[] {
+    const insights: AIInsight[] = [];
+
+    // Portfolio risk assessment insight
+    const window = riskMetrics.returnWindow;
+    const history = riskMetrics.sharpeRatio !== undefined && window
+      ? `Over ${window.observations} trading days (${window.start} to ${window.end}, ${Math.round(window.coverage * 100)}% of holdings by value) the Sharpe ratio of ${riskMetrics.sharpeRatio.toFixed(2)} indicates ${riskMetrics.sharpeRatio > 1 ? 'good' : 'poor'} risk-adjusted returns.`
+      : `Only ${window?.observations ?? 0} days of price history cover these holdings, so volatility assumes the NSE average and no Sharpe ratio is given.`;
+    insights.push({
+      id: `risk_insight_${Date.now()}`,
+      type: 'portfolio_analysis',
+      title: 'Portfolio Risk Assessment',
+      content: `Your portfolio has a risk score of ${riskMetrics.overallRiskScore}/100 with ${riskMetrics.diversificationScore}% diversification. ${history}`,
+      confidence: riskMetrics.sharpeRatio !== undefined ? 0.85 : 0.6,
+      importance: riskMetrics.overallRiskScore > 70 ? 'high' : 'medium',
+      actionable: true,
+      timestamp: new Date().toISOString()
+    });
+
+    // Interest rate exposure of the fixed income holdings
+    const fixedIncome = riskMetrics.fixedIncome;
+    if (fixedIncome && fixedIncome.value > 0) {
+      insights.push({
+        id: `fixed_income_insight_${Date.now()}`,
+        type: 'portfolio_analysis',
+        title: 'Fixed Income Exposure',
+        content: `${(fixedIncome.weight * 100).toFixed(1)}% of your holdings are in bills, bonds, funds and deposits yielding ${(fixedIncome.averageYield * 100).toFixed(2)}% on average with a modified duration of ${fixedIncome.modifiedDuration.toFixed(2)} years. A one point rise in yields would cut their value by about KES ${Math.round(fixedIncome.rateSensitivity).toLocaleString()}.`,
+        confidence: 0.85,
+        importance: fixedIncome.modifiedDuration > 5 ? 'high' : 'medium',
+        actionable: false,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Market condition insight, only when a real index level is known
+    if (nseIndex.value <= 0) return insights;
+
+    const marketTrend = nseIndex.changePercent > 0 ? 'positive' : 'negative';
+    insights.push({
+      id: `market_insight_${Date.now()}`,
+      type: 'market_summary',
+      title: 'NSE Market Conditions',
+      content: `The ${nseIndex.name ?? 'NSE index'} is showing ${marketTrend} momentum with a ${Math.abs(nseIndex.changePercent).toFixed(2)}% ${nseIndex.changePercent > 0 ? 'gain' : 'decline'}. ${nseIndex.changePercent > 2 ? 'Strong upward movement suggests bullish sentiment.' : nseIndex.changePercent < -2 ? 'Significant decline indicates market stress.' : 'Moderate movement suggests stable market conditions.'}`,
+      confidence: 0.9,
+      importance: Math.abs(nseIndex.changePercent) > 2 ? 'high' : 'medium',
+      actionable: Math.abs(nseIndex.changePercent) > 3,
+      timestamp: new Date().toISOString()
+    });
+
+    return insights;
+  }
+}
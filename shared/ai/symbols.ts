@@ -0,0 +1,70 @@
+// NSE symbol master: sector classification, listing segment, ISIN and board lot of each listing
+// Quotes carry none of these, so they are joined on from the master wherever quotes are served
+
+import { AIHolding, ListingSegment, MarketData, NSESector } from './types.js';
+
+export const NSE_SECTORS: NSESector[] = [
+  'Agricultural',
+  'Automobiles and Accessories',
+  'Banking',
+  'Commercial and Services',
+  'Construction and Allied',
+  'Energy and Petroleum',
+  'Insurance',
+  'Investment',
+  'Investment Services',
+  'Manufacturing and Allied',
+  'Telecommunication',
+  'Real Estate Investment Trust',
+  'Exchange Traded Fund',
+];
+
+export const LISTING_SEGMENTS: ListingSegment[] = ['MIMS', 'AIMS', 'GEMS'];
+
+// Names the NSE has used for a sector before, and the forms of them found in broker files
+const SECTOR_ALIASES: Record<string, NSESector> = {
+  'telecommunication and technology': 'Telecommunication',
+  'telecommunications': 'Telecommunication',
+  'reit': 'Real Estate Investment Trust',
+  'reits': 'Real Estate Investment Trust',
+  'etf': 'Exchange Traded Fund',
+  'etfs': 'Exchange Traded Fund',
+};
+
+const sectorKey = (text: string): string =>
+  text.trim().toLowerCase().replace(/\s*&\s*/g, ' and ').replace(/\s+/g, ' ');
+
+// The taxonomy sector a label names, ignoring case and "&" for "and"; null when it names none
+export const parseSector = (text: string): NSESector | null => {
+  const key = sectorKey(text);
+  return NSE_SECTORS.find(sector => sectorKey(sector) === key) ?? SECTOR_ALIASES[key] ?? null;
+};
+
+/**
+ * Whether an ISIN is well formed: country code, nine alphanumerics and a check digit, which is
+ * the Luhn digit of the code with letters spelled out as numbers (A = 10 ... Z = 35)
+ */
+export const isValidIsin = (isin: string): boolean => {
+  if (!/^[A-Z]{2}[A-Z0-9]{9}\d$/.test(isin)) return false;
+
+  const digits = isin.split('').map(char => parseInt(char, 36)).join('');
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, char, i) => {
+      const digit = Number(char) * (i % 2 === 1 ? 2 : 1);
+      return total + (digit > 9 ? digit - 9 : digit);
+    }, 0);
+  return sum % 10 === 0;
+};
+
+export const marketCapOf = (price: number, sharesOutstanding: number | undefined): number | undefined =>
+  sharesOutstanding !== undefined && price > 0 ? price * sharesOutstanding : undefined;
+
+// Holdings with the sector of their quote where they carry none of their own
+export const withQuoteSectors = (holdings: AIHolding[], marketData: MarketData[]): AIHolding[] => {
+  const sectors = new Map(marketData.filter(stock => stock.sector).map(stock => [stock.symbol, stock.sector]));
+  return holdings.map(holding =>
+    holding.sector || !sectors.has(holding.symbol) ? holding : { ...holding, sector: sectors.get(holding.symbol) }
+  );
+};
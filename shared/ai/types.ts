@@ -0,0 +1,730 @@
+// AI Module Types - shared by the browser and the backend
+// Engine inputs are declared here so the engines do not depend on either app's types
+
+export interface MarketData {
+  symbol: string;
+  company_name: string;
+  current_price: number;
+  change_percent: number;
+  volume?: number;
+  // From the symbol master (see SymbolListing); market cap is the price times shares outstanding
+  market_cap?: number;
+  sector?: string;
+  isin?: string;
+  segment?: ListingSegment;
+  shares_outstanding?: number;
+  board_lot?: number;
+  // Dividends per share over the last 12 months, and expected over the next 12, as fractions of price
+  dividend_yield?: number;
+  forward_dividend_yield?: number;
+  // Ratios from the latest reported results (see Fundamentals); fractions except the multiples
+  fundamentals_period?: string;
+  eps?: number;
+  pe_ratio?: number;
+  pb_ratio?: number;
+  roe?: number;
+  debt_to_equity?: number;
+  revenue_growth?: number;
+  payout_ratio?: number;
+  timestamp?: string;
+}
+
+export interface RiskMetrics {
+  valueAtRisk: number;
+  conditionalVaR: number;
+  standardDeviation: number;
+  downside_deviation: number;
+  trackingError: number;
+}
+
+// Holdings beyond NSE equities; their terms are kept per portfolio
+export type FixedIncomeType = 'treasury-bill' | 'treasury-bond' | 'money-market' | 'fixed-deposit';
+export type AssetType = 'equity' | FixedIncomeType;
+// Who stands behind the payments: the government, a fund's short-term paper, or a bank
+export type CreditQuality = 'sovereign' | 'fund' | 'bank';
+
+// The parts of a valued portfolio holding the engines read
+export interface AIHolding {
+  symbol: string;
+  shares?: number;
+  current_price?: number;
+  current_value?: number;
+  sector?: string;
+  // Equity when absent
+  asset_type?: AssetType;
+  // Fixed income only
+  ytm?: number;
+  modified_duration?: number;
+  credit_quality?: CreditQuality;
+}
+
+export interface AIPortfolio {
+  id?: string;
+  total_value: number;
+  cash_balance?: number;
+  holdings: AIHolding[];
+}
+
+export type RiskProfile = 'conservative' | 'moderate' | 'aggressive';
+
+export type RiskChoiceQuestionId =
+  | 'incomeStability'
+  | 'investmentExperience'
+  | 'drawdownReaction'
+  | 'returnPreference'
+  | 'lossTolerance';
+
+// A risk profiling answer worth 0 (least risk) to 4 points
+export interface RiskChoiceOption {
+  value: string;
+  label: string;
+  points: number;
+}
+
+export interface RiskChoiceQuestion {
+  // Capacity is what the finances can absorb; willingness is what the investor is comfortable with
+  dimension: 'capacity' | 'willingness';
+  prompt: string;
+  options: RiskChoiceOption[];
+}
+
+// One completed risk profiling questionnaire; choice answers are option values
+export interface RiskQuestionnaireAnswers extends Record<RiskChoiceQuestionId, string> {
+  // Years until most of the money will be needed
+  investmentHorizon: number;
+  // KES a month
+  monthlyIncome: number;
+  monthlyDebtPayments: number;
+  // Months of essential expenses held in cash or a money market fund
+  emergencyFundMonths: number;
+  financialGoals: string[];
+}
+
+export interface RiskAssessmentResult {
+  // 0-100, the lower of capacity and willingness, capped for short horizons
+  score: number;
+  capacityScore: number;
+  willingnessScore: number;
+  debtToIncomeRatio: number | null;
+  riskTolerance: RiskProfile;
+  // What held the score down, and other warnings
+  constraints: string[];
+}
+
+export interface IndexLevel {
+  value: number;
+  change: number;
+  changePercent: number;
+  // Which index this is (e.g. NASI) and when it was read; absent for unknown levels
+  index?: string;
+  name?: string;
+  asOf?: string;
+}
+
+// One day's closing price; series are keyed by symbol and ordered oldest first
+export interface DailyClose {
+  date: string;
+  close: number;
+}
+
+export type PriceHistory = Record<string, DailyClose[]>;
+
+// The slice of price history behind the time-series risk statistics
+export interface ReturnWindow {
+  lookbackDays: number;
+  start: string | null;
+  end: string | null;
+  // Daily portfolio returns in the window
+  observations: number;
+  // Share of portfolio value held in symbols with price history in the window (0-1)
+  coverage: number;
+  symbolsCovered: string[];
+  symbolsMissing: string[];
+}
+
+// 'ledoit-wolf' estimates the intensity from the data; a number fixes it (0 = sample, 1 = target)
+export type ShrinkageOption = 'ledoit-wolf' | number;
+
+export interface CovarianceOptions {
+  lookbackDays?: number;
+  shrinkage?: ShrinkageOption;
+}
+
+// Labelled symbol-by-symbol matrices, in the order of `symbols`
+export interface CovarianceModel {
+  symbols: string[];
+  // Annualised
+  covariance: number[][];
+  correlation: number[][];
+  volatilities: number[];
+  // Annualised mean daily return over the window
+  expectedReturns: number[];
+  shrinkage: {
+    method: 'ledoit-wolf' | 'fixed';
+    intensity: number;
+  };
+  window: {
+    lookbackDays: number;
+    start: string | null;
+    end: string | null;
+    observations: number;
+  };
+  // Symbols left out for lack of price history or price movement in the window
+  symbolsMissing: string[];
+}
+
+export type OptimizationObjective = 'min-variance' | 'max-sharpe' | 'risk-parity';
+
+// Weights are fractions of total portfolio value, cash included
+export interface OptimizationConstraints {
+  // Cap on any single stock (default 1, no cap)
+  maxStockWeight?: number;
+  // Cap on any sector, overridden per sector by `sectorCaps`
+  maxSectorWeight?: number;
+  sectorCaps?: Record<string, number>;
+  // Default true; otherwise a stock may be shorted down to -maxStockWeight
+  longOnly?: boolean;
+  // Minimum share held in cash at the T-bill rate (default 0)
+  cashFloor?: number;
+}
+
+export interface OptimizationResult {
+  objective: OptimizationObjective;
+  weights: Record<string, number>;
+  cashWeight: number;
+  // Annualised, with cash earning the T-bill rate
+  expectedReturn: number;
+  volatility: number;
+  sharpeRatio: number;
+  // Share of portfolio variance from each optimised holding (sums to 1)
+  riskContributions: Record<string, number>;
+  warnings: string[];
+}
+
+export interface FrontierPoint {
+  expectedReturn: number;
+  volatility: number;
+  sharpeRatio: number;
+  weights: Record<string, number>;
+}
+
+// Statutory levies and brokerage as fractions of consideration, charged on buys and sells
+export interface TradingCosts {
+  brokerage: number;
+  nseLevy: number;
+  cmaLevy: number;
+  cdscLevy: number;
+  // Investor Compensation Fund
+  icfLevy: number;
+  // Withholding tax on dividends
+  withholdingTax: number;
+  // Shares per board lot; odd lots only when closing a position
+  boardLot: number;
+}
+
+// KES charged on one trade
+export interface TradeFees {
+  brokerage: number;
+  nseLevy: number;
+  cmaLevy: number;
+  cdscLevy: number;
+  icfLevy: number;
+  total: number;
+}
+
+export interface RebalanceTrade {
+  // Order to place them in: sells first, so their proceeds fund the buys
+  sequence: number;
+  side: 'BUY' | 'SELL';
+  symbol: string;
+  shares: number;
+  lots: number;
+  price: number;
+  consideration: number;
+  fees: TradeFees;
+  // Cash paid (buys) or received (sells), fees included
+  netAmount: number;
+  currentWeight: number;
+  targetWeight: number;
+  weightAfter: number;
+  // Change in yearly dividend withholding tax from the new position size; null without a dividend yield
+  withholdingTaxChange: number | null;
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  driftThreshold: number;
+  cashBefore: number;
+  cashAfter: number;
+  totalFees: number;
+  // Traded consideration as a fraction of portfolio value
+  turnover: number;
+  withholdingTaxChange: number;
+  warnings: string[];
+}
+
+export interface FixedIncomeTerms {
+  assetType: FixedIncomeType;
+  // Annual rates as fractions. `yield` is the market yield of a bill or bond, the quoted
+  // annual yield of a money market fund or the rate of a fixed deposit
+  yield: number;
+  couponRate?: number;
+  // Coupons a year; Kenyan Treasury bonds pay twice
+  couponFrequency?: number;
+  issueDate?: string;
+  maturityDate?: string;
+}
+
+// Units held from `date` on, for interest accrued day by day
+export interface AccrualStep {
+  date: string;
+  units: number;
+}
+
+export interface FixedIncomeValuation {
+  // Per unit: per 100 of face value for bills and bonds (including accrued interest), 1 otherwise
+  price: number;
+  value: number;
+  // Earned since the last coupon or interest payment but not yet paid
+  accruedInterest: number;
+  yieldToMaturity: number;
+  // Years; the fall in value for a one point rise in yields, as a fraction
+  modifiedDuration: number;
+  creditQuality: CreditQuality;
+  matured: boolean;
+}
+
+// Interest rate and credit exposure of the fixed income holdings
+export interface FixedIncomeRisk {
+  value: number;
+  // Share of the value of all holdings
+  weight: number;
+  averageYield: number;
+  modifiedDuration: number;
+  // KES lost if yields rise by one percentage point
+  rateSensitivity: number;
+  // 0-100, from the credit quality of each holding
+  creditRisk: number;
+  // Annual, from duration and assumed yield and spread moves
+  volatility: number;
+}
+
+export interface AIRiskMetrics extends RiskMetrics {
+  overallRiskScore: number;
+  diversificationScore: number;
+  riskAdjustedReturn: number;
+  correlationMatrix?: number[][];
+  timestamp: string;
+  // The index level the market-wide risk was assessed against
+  benchmark?: IndexLevel;
+  // History used for volatility, VaR, Sharpe and drawdown
+  returnWindow?: ReturnWindow;
+  // Labelled covariance/correlation of the holdings; `correlationMatrix` is its correlation
+  covariance?: CovarianceModel;
+  
+  // Advanced risk metrics
+  maxDrawdown?: number;
+  sharpeRatio?: number;
+  sectorConcentration?: number;
+  currencyRisk?: number;
+  liquidityRisk?: number;
+  // Value-weighted average correlation between holdings (0-100)
+  correlationRisk?: number;
+  inflationRisk?: number;
+  politicalRisk?: number;
+  economicRisk?: number;
+  // Null when the portfolio holds no bills, bonds, funds or deposits
+  fixedIncome?: FixedIncomeRisk | null;
+}
+
+export interface AIRecommendation {
+  id: string;
+  type: 'BUY' | 'SELL' | 'HOLD';
+  symbol: string;
+  confidence: number;
+  rationale: string;
+  expectedReturn: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  timeHorizon: 'short' | 'medium' | 'long';
+  price: number;
+  targetPrice: number;
+  stopLoss: number;
+  reasoning: {
+    technical: string[];
+    fundamental: string[];
+    sentiment: string[];
+    risk: string[];
+  };
+  timestamp: string;
+}
+
+export interface LocalOpportunity {
+  symbol: string;
+  name: string;
+  sector: string;
+  opportunity: string;
+  potentialReturn: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  timeframe: string;
+  reasoning: string[];
+  localAdvantage: string;
+  marketCap: string;
+  timestamp: string;
+}
+
+export interface AIAlert {
+  id: string;
+  // Stable name of the condition that raised the alert, e.g. high-risk; alerts are de-duplicated on it
+  rule?: string;
+  type: 'risk' | 'opportunity' | 'rebalance' | 'market';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  actionRequired: boolean;
+  suggestedActions: string[];
+  affectedSymbols: string[];
+  timestamp: string;
+  // Set on alerts stored by the backend
+  read?: boolean;
+}
+
+export interface AIInsight {
+  id: string;
+  type: 'market_summary' | 'portfolio_analysis' | 'risk_alert' | 'opportunity';
+  title: string;
+  content: string;
+  confidence: number;
+  importance: 'low' | 'medium' | 'high' | 'critical';
+  actionable: boolean;
+  timestamp: string;
+}
+
+// Outcomes of issued recommendations once scored against later prices; rates are null without samples
+export interface RecommendationOutcomeStats {
+  // Scored (no longer open) recommendations
+  sampleSize: number;
+  hitTarget: number;
+  stoppedOut: number;
+  expired: number;
+  // Share that reached their target price before their stop or horizon
+  successRate: number | null;
+  // Mean return from the issue price in the recommended direction
+  averageReturn: number | null;
+  // Mean confidence the engine stated when issuing them
+  averageConfidence: number | null;
+  // Share whose price moved like the risk level they were issued with
+  riskAccuracy: number | null;
+}
+
+export interface AIModelPerformance {
+  riskModelAccuracy: number | null;
+  recommendationSuccess: number | null;
+  // Mean stated confidence of the scored recommendations, to set against their success rate
+  predictionConfidence: number | null;
+  lastUpdated: string;
+  // Issued but not yet scored
+  open: number;
+  outcomes: RecommendationOutcomeStats;
+  slices: {
+    byType: Record<string, RecommendationOutcomeStats>;
+    byRiskLevel: Record<string, RecommendationOutcomeStats>;
+    bySector: Record<string, RecommendationOutcomeStats>;
+  };
+}
+
+export type CorporateActionType = 'dividend' | 'bonus' | 'split' | 'rights';
+
+// An announced corporate action; dates are YYYY-MM-DD
+export interface CorporateAction {
+  symbol: string;
+  type: CorporateActionType;
+  // First day the shares trade without the entitlement
+  exDate: string;
+  // dividend: KES per share before withholding tax, paid on `paymentDate`
+  amount?: number;
+  paymentDate?: string;
+  // bonus and rights: `numerator` new shares for every `denominator` held; split: `numerator` new for `denominator` old
+  ratio?: { numerator: number; denominator: number };
+  // rights: subscription price per new share
+  price?: number;
+}
+
+// Reported results of a listed company for one financial period; KES per share, rates as fractions
+export interface Fundamentals {
+  symbol: string;
+  // e.g. FY2024 or H1 2025
+  period: string;
+  periodEnd: string;
+  periodType: 'annual' | 'interim';
+  eps?: number;
+  dps?: number;
+  navPerShare?: number;
+  roe?: number;
+  debtToEquity?: number;
+  revenueGrowth?: number;
+}
+
+// Valuation ratios of the latest results at a price; null when an input is missing or not meaningful
+export interface FundamentalRatios {
+  period: string;
+  peRatio: number | null;
+  pbRatio: number | null;
+  earningsYield: number | null;
+  dividendYield: number | null;
+  payoutRatio: number | null;
+  roe: number | null;
+  debtToEquity: number | null;
+  revenueGrowth: number | null;
+}
+
+// A dividend expected within the next 12 months: declared by the issuer, or estimated from
+// last year's dividend at the same time of year
+export interface ProjectedDividend {
+  symbol: string;
+  exDate: string;
+  paymentDate?: string;
+  // KES per share before withholding tax
+  amount: number;
+  declared: boolean;
+}
+
+export interface DividendYield {
+  symbol: string;
+  // KES per share with an ex-date in the last 12 months, and expected in the next 12
+  trailingDps: number;
+  forwardDps: number;
+  // As fractions of the current price; null without a price
+  trailingYield: number | null;
+  forwardYield: number | null;
+  lastExDate: string | null;
+  nextExDate: string | null;
+  nextPaymentDate: string | null;
+}
+
+// A holding's projected dividends and what they come to
+export interface DividendIncomeLine {
+  symbol: string;
+  shares: number;
+  payments: (ProjectedDividend & { shares: number; gross: number; net: number })[];
+  gross: number;
+  withholdingTax: number;
+  net: number;
+}
+
+export interface DividendIncomeProjection {
+  from: string;
+  to: string;
+  gross: number;
+  withholdingTax: number;
+  net: number;
+  holdings: DividendIncomeLine[];
+  // Net income by month of payment, YYYY-MM
+  monthly: { month: string; net: number }[];
+}
+
+export type AlertRuleType = 'price-cross' | 'percent-move' | 'volume-spike' | '52-week-high' | '52-week-low';
+export type AlertDirection = 'up' | 'down' | 'either';
+
+// A watched condition on one symbol
+export interface AlertRuleTerms {
+  symbol: string;
+  type: AlertRuleType;
+  // price-cross: KES level; percent-move: % change on the day; volume-spike: multiple of
+  // average daily volume. Unused for 52-week highs and lows.
+  threshold?: number;
+  // price-cross and percent-move only
+  direction?: AlertDirection;
+}
+
+// A symbol's quote in one market snapshot, next to its price in the snapshot before
+export interface AlertQuote {
+  symbol: string;
+  price: number;
+  previousPrice: number | null;
+  // % change on the previous close
+  changePercent: number;
+  // Shares traded so far in the session
+  volume: number | null;
+}
+
+// Daily history before the snapshot's trading day, back-adjusted for corporate actions
+export interface AlertHistory {
+  averageVolume: number | null;
+  high52Week: number | null;
+  low52Week: number | null;
+}
+
+export interface AlertTrigger {
+  symbol: string;
+  type: AlertRuleType;
+  title: string;
+  message: string;
+  // The price, % change or volume multiple that met the rule
+  value: number;
+}
+
+// A daily bar of any shape that carries prices and volume
+export interface AdjustableBar {
+  date: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+// One trading day of a stock as traded (not back-adjusted), as replayed by the backtester
+export interface DailyBar {
+  date: string;
+  close: number;
+  volume: number;
+}
+
+export interface BacktestConfig {
+  // Inclusive YYYY-MM-DD bounds; default to the whole stored history
+  startDate?: string;
+  endDate?: string;
+  initialCapital?: number;
+  // Trading days between recommendation runs
+  rebalanceDays?: number;
+  riskProfile?: RiskProfile;
+  timeHorizon?: 'short' | 'medium' | 'long';
+  // Most BUY recommendations held at once, equally weighted
+  maxPositions?: number;
+  // Drift tolerated before a position is traded (0 = trade to target)
+  driftThreshold?: number;
+  costs?: Partial<TradingCosts>;
+}
+
+export interface PerformanceStats {
+  totalReturn: number;
+  cagr: number;
+  // Annualised, from daily returns
+  volatility: number;
+  // Against the T-bill rate; null with fewer than two daily returns
+  sharpeRatio: number | null;
+  maxDrawdown: number;
+}
+
+export interface BacktestStats extends PerformanceStats {
+  // Share of BUY recommendations above their fill price at the next rebalance
+  hitRate: number | null;
+  // Traded value per year as a multiple of average portfolio value
+  turnover: number;
+  trades: number;
+  fees: number;
+  recommendations: number;
+}
+
+export interface BacktestResult {
+  engineVersion: string;
+  config: Required<Omit<BacktestConfig, 'costs'>> & { costs: TradingCosts };
+  start: string;
+  end: string;
+  tradingDays: number;
+  strategy: BacktestStats;
+  // NASI over the same days, when its history is stored
+  benchmark: (PerformanceStats & { index: string }) | null;
+  // Strategy CAGR minus benchmark CAGR
+  excessReturn: number | null;
+  // Values relative to the start (1 = initial capital / starting index level)
+  equityCurve: { date: string; value: number; benchmark: number | null }[];
+  warnings: string[];
+}
+
+// Goal-based planning
+export type GoalPriority = 'high' | 'medium' | 'low';
+
+export interface FinancialGoal {
+  id: string;
+  name: string;
+  // KES
+  targetAmount: number;
+  targetDate: string;
+  // KES paid in at the end of each month until the target date
+  monthlyContribution: number;
+  priority: GoalPriority;
+}
+
+export interface GoalProjectionOptions {
+  // Annual arithmetic return and volatility of the whole portfolio
+  expectedReturn: number;
+  volatility: number;
+  simulations?: number;
+  // Probability a required contribution is sized for
+  confidence?: number;
+  startDate?: string;
+  // Same seed and inputs give the same projection
+  seed?: number;
+}
+
+// Percentiles of a goal's projected value at one month end
+export interface GoalFanPoint {
+  date: string;
+  month: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface GoalProjection {
+  goalId: string;
+  name: string;
+  priority: GoalPriority;
+  targetAmount: number;
+  targetDate: string;
+  months: number;
+  monthlyContribution: number;
+  // Part of the current portfolio value set aside for this goal
+  allocatedValue: number;
+  probability: number;
+  medianValue: number;
+  // Monthly contribution that reaches the target with `confidence`, given the allocated value
+  requiredContribution: number | null;
+  fan: GoalFanPoint[];
+}
+
+export interface GoalPlan {
+  startDate: string;
+  startValue: number;
+  expectedReturn: number;
+  volatility: number;
+  simulations: number;
+  confidence: number;
+  goals: GoalProjection[];
+  warnings: string[];
+}
+
+// NSE sector classification, as the exchange groups its listings
+export type NSESector =
+  | 'Agricultural'
+  | 'Automobiles and Accessories'
+  | 'Banking'
+  | 'Commercial and Services'
+  | 'Construction and Allied'
+  | 'Energy and Petroleum'
+  | 'Insurance'
+  | 'Investment'
+  | 'Investment Services'
+  | 'Manufacturing and Allied'
+  | 'Telecommunication'
+  | 'Real Estate Investment Trust'
+  | 'Exchange Traded Fund';
+
+// Main Investment, Alternative Investment and Growth Enterprise Market segments
+export type ListingSegment = 'MIMS' | 'AIMS' | 'GEMS';
+
+// A symbol master entry: the static facts about a listing that quotes do not carry
+export interface SymbolListing {
+  symbol: string;
+  name: string;
+  sector: NSESector;
+  // 12-character ISIN, e.g. KE1000001402
+  isin?: string;
+  segment: ListingSegment;
+  sharesOutstanding?: number;
+  // Shares per trading lot
+  boardLot: number;
+}
@@ -9,6 +9,8 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./components/Dashboard";
 import ForceLogout from "./components/ForceLogout";
+import RiskAssessment from "./pages/RiskAssessment";
+import Goals from "./pages/Goals";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -77,6 +79,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route 
+              path="/risk-assessment" 
+              element={
+                <ProtectedRoute>
+                  <RiskAssessment />
+                </ProtectedRoute>
+              }
+            />
+            <Route 
+              path="/goals" 
+              element={
+                <ProtectedRoute>
+                  <Goals />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AuthProvider>
@@ -0,0 +1,2 @@
+// Alert rules are evaluated on the backend; the rule types are shared so forms offer the same ones
+export { ALERT_DIRECTIONS, ALERT_RULE_TYPES, THRESHOLD_RULE_TYPES } from '../../shared/ai/alerts';
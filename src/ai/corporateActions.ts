@@ -0,0 +1,2 @@
+// Entitlements are worked out the same way the backend posts them to the ledger
+export { CORPORATE_ACTION_TYPES, entitlement } from '../../shared/ai/corporateActions';
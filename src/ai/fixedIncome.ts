@@ -0,0 +1,2 @@
+// Fixed income is valued on the backend; labels and types are shared so forms and charts agree
+export { ASSET_TYPE_LABELS, FIXED_INCOME_TYPES, isFixedIncome } from '../../shared/ai/fixedIncome';
@@ -0,0 +1,2 @@
+// Goal projections run on the backend; the limits are shared so forms can check them first
+export { GOAL_PRIORITIES, MAX_GOAL_MONTHS } from '../../shared/ai/goalPlanning';
@@ -1,10 +1,17 @@
 // AI Service - Kenya Wealth AI - NSE Market Intelligence
 // Main service integrating risk assessment and recommendation engines
+// The engines themselves live in shared/ai and also run on the backend
 
 import { Portfolio, User, MarketData } from '../types';
-import { AIRiskMetrics, AIRecommendation, LocalOpportunity, AIAlert, AIInsight, AIModelPerformance } from './types';
+import { AIRiskMetrics, AIRecommendation, LocalOpportunity, AIAlert, AIInsight, AIModelPerformance, IndexLevel, PriceHistory } from './types';
+import marketService from '../services/marketService';
+import aiApi from '../services/aiService';
 import { NSERiskEngine } from './riskEngine';
 import { NSERecommendationEngine } from './recommendationSystem';
+import { riskProfileForScore } from './riskAssessment';
+import { analyzeMarketTrends } from '../../shared/ai/marketTrends';
+import { DEFAULT_LOOKBACK_DAYS, lookbackPeriod } from '../../shared/ai/portfolioReturns';
+import { NSE_SECTORS } from '../../shared/ai/symbols';
 
 export class SimpleAIService {
   private static instance: SimpleAIService;
@@ -34,7 +41,11 @@ export class SimpleAIService {
   /**
    * Comprehensive Portfolio Risk Analysis
    */
-  async analyzePortfolioRisk(portfolio: Portfolio, marketData?: MarketData[]): Promise<{
+  async analyzePortfolioRisk(
+    portfolio: Portfolio,
+    marketData?: MarketData[],
+    lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+  ): Promise<{
     riskMetrics: AIRiskMetrics;
     alerts: AIAlert[];
     insights: AIInsight[];
@@ -55,15 +66,26 @@ export class SimpleAIService {
         currentMarketData = await this.fetchMarketData();
       }
 
-      // Create mock NSE index data (in real implementation, this would come from market service)
-      const nseIndex = {
-        value: 100 + Math.random() * 50,
-        change: (Math.random() - 0.5) * 10,
-        changePercent: (Math.random() - 0.5) * 5
-      };
+      const nseIndex = await this.fetchBenchmark();
+      const priceHistory = await this.fetchPriceHistory(portfolio, lookbackDays);
 
       console.log('📊 AI Service: Running risk engine analysis...');
-      const result = await NSERiskEngine.assessPortfolioRisk(portfolio, currentMarketData, nseIndex);
+      const result = await NSERiskEngine.assessPortfolioRisk(
+        portfolio,
+        currentMarketData,
+        nseIndex,
+        priceHistory,
+        { lookbackDays }
+      );
+
+      // Alerts of stored portfolios are kept by the backend, so their read state survives a reload
+      if (/^[a-f0-9]{24}$/i.test(portfolio.id)) {
+        try {
+          result.alerts = await aiApi.getRiskAlerts(portfolio.id, lookbackDays);
+        } catch (error) {
+          console.warn('⚠️ AI Service: Stored alerts unavailable, showing local alerts:', error);
+        }
+      }
       
       console.log('✅ AI Service: Risk analysis complete:', {
         riskScore: result.riskMetrics.overallRiskScore,
@@ -95,6 +117,21 @@ export class SimpleAIService {
         return cached;
       }
 
+      // Issued by the backend, which records each recommendation so its outcome is tracked;
+      // the engine only runs here when the backend cannot be reached
+      try {
+        const advice = await aiApi.getInvestmentAdvice(
+          /^[a-f0-9]{24}$/i.test(portfolio.id)
+            ? { portfolio_id: portfolio.id }
+            : { investment_amount: portfolio.total_value || undefined }
+        );
+        const result = { recommendations: advice.recommendations, opportunities: advice.opportunities };
+        this.setCache(cacheKey, result);
+        return result;
+      } catch (error) {
+        console.warn('⚠️ AI Service: Backend advice unavailable, running the engine locally:', error);
+      }
+
       // Get market data if not provided
       let currentMarketData = marketData;
       if (!currentMarketData) {
@@ -141,15 +178,15 @@ export class SimpleAIService {
   }
 
   /**
-   * Get AI Model Performance Metrics
+   * Get AI Model Performance Metrics, measured from the outcomes of issued recommendations
    */
-  async getModelPerformance(): Promise<AIModelPerformance> {
-    return {
-      riskModelAccuracy: 0.85 + Math.random() * 0.1,
-      recommendationSuccess: 0.72 + Math.random() * 0.15,
-      predictionConfidence: 0.78 + Math.random() * 0.12,
-      lastUpdated: new Date().toISOString()
-    };
+  async getModelPerformance(): Promise<AIModelPerformance | null> {
+    try {
+      return await aiApi.getModelPerformance();
+    } catch (error) {
+      console.error('❌ AI Service: Model performance unavailable:', error);
+      return null;
+    }
   }
 
   /**
@@ -157,47 +194,7 @@ export class SimpleAIService {
    */
   async analyzeMarketTrends(marketData: MarketData[]): Promise<AIInsight[]> {
     try {
-      const insights: AIInsight[] = [];
-
-      // Market volatility analysis
-      const volatilityData = NSERiskEngine.monitorMarketVolatility(marketData);
-      
-      insights.push({
-        id: `market_volatility_${Date.now()}`,
-        type: 'market_summary',
-        title: 'NSE Market Volatility Alert',
-        content: `Current market volatility is ${(volatilityData.currentVolatility * 100).toFixed(1)}%. Market stress level: ${volatilityData.marketStress}`,
-        confidence: 0.9,
-        importance: volatilityData.marketStress === 'high' || volatilityData.marketStress === 'extreme' ? 'high' : 'medium',
-        actionable: true,
-        timestamp: new Date().toISOString()
-      });
-
-      // Top movers analysis
-      const gainers = marketData
-        .filter(stock => stock.change_percent > 0)
-        .sort((a, b) => b.change_percent - a.change_percent)
-        .slice(0, 3);
-
-      const losers = marketData
-        .filter(stock => stock.change_percent < 0)
-        .sort((a, b) => a.change_percent - b.change_percent)
-        .slice(0, 3);
-
-      if (gainers.length > 0) {
-        insights.push({
-          id: `top_gainers_${Date.now()}`,
-          type: 'market_summary',
-          title: 'Today\'s Top Performers',
-          content: `Leading gainers: ${gainers.map(s => `${s.symbol} (+${s.change_percent.toFixed(1)}%)`).join(', ')}`,
-          confidence: 0.95,
-          importance: 'medium',
-          actionable: true,
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      return insights;
+      return analyzeMarketTrends(marketData);
     } catch (error) {
       console.error('Market Trends Analysis Error:', error);
       return [];
@@ -224,9 +221,34 @@ export class SimpleAIService {
     }
   }
 
+  // Latest stored NASI level; neutral when the backend has none, so risk scores stay reproducible
+  private async fetchBenchmark(): Promise<IndexLevel> {
+    const indices = await marketService.getIndices();
+    const nasi = indices.find(quote => quote.index === 'NASI');
+    if (!nasi) {
+      console.warn('⚠️ AI Service: No NASI level available, assessing against a flat market');
+      return { index: 'NASI', value: 0, change: 0, changePercent: 0 };
+    }
+
+    const { index, name, value, change, changePercent, timestamp } = nasi;
+    return { index, name, value, change, changePercent, asOf: timestamp };
+  }
+
+  // Daily closes of every holding, covering the risk lookback
+  private async fetchPriceHistory(portfolio: Portfolio, lookbackDays: number): Promise<PriceHistory> {
+    const period = lookbackPeriod(lookbackDays);
+    const symbols = [...new Set((portfolio.holdings || []).map(holding => holding.symbol))];
+
+    const entries = await Promise.all(symbols.map(async symbol => {
+      const bars = await marketService.getHistoricalData(symbol, period);
+      return [symbol, bars.map(({ date, close }) => ({ date, close }))] as const;
+    }));
+    return Object.fromEntries(entries);
+  }
+
+  // From the latest risk questionnaire score; users who have not taken it are treated as moderate
   private getUserRiskProfile(user: User): 'conservative' | 'moderate' | 'aggressive' {
-    // In a real implementation, this would be based on user preferences/questionnaire
-    return 'moderate';
+    return typeof user.riskScore === 'number' ? riskProfileForScore(user.riskScore) : 'moderate';
   }
 
   private generateFallbackRiskAnalysis(portfolio: Portfolio): {
@@ -330,7 +352,7 @@ export class SimpleAIService {
       change_percent: (Math.random() - 0.5) * 10,
       volume: Math.floor(Math.random() * 1000000),
       market_cap: Math.floor(Math.random() * 100000000000),
-      sector: ['Financial Services', 'Telecommunications', 'Manufacturing', 'Agriculture', 'Energy'][index % 5],
+      sector: NSE_SECTORS[index % NSE_SECTORS.length],
       timestamp: new Date().toISOString()
     }));
   }
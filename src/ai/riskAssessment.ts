@@ -0,0 +1,8 @@
+// The risk questionnaire and its scoring are shared with the backend; see shared/ai/riskAssessment.ts
+export {
+  FINANCIAL_GOALS,
+  RISK_CHOICE_QUESTIONS,
+  RISK_QUESTIONNAIRE_VERSION,
+  riskProfileForScore,
+  scoreRiskQuestionnaire,
+} from '../../shared/ai/riskAssessment';
@@ -0,0 +1,2 @@
+// The symbol master is kept on the backend; the taxonomy is shared so filters offer the same sectors
+export { LISTING_SEGMENTS, NSE_SECTORS } from '../../shared/ai/symbols';
@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   TrendingUp, 
   TrendingDown,
@@ -18,6 +20,7 @@ import {
   Loader2
 } from 'lucide-react';
 import { useAI } from '@/hooks/useAI';
+import { CorrelationHeatmap } from '@/components/CorrelationHeatmap';
 import marketService, { NSEStock } from '@/services/marketService';
 import { Portfolio, User } from '@/types';
 import { formatCurrency, formatPercentage } from '@/lib/formatters';
@@ -27,10 +30,17 @@ interface AIInsightsPanelProps {
   portfolio?: Portfolio;
 }
 
+type PerformanceSlice = 'byType' | 'byRiskLevel' | 'bySector';
+
+// Model performance rates are fractions, or null before anything has been scored
+const formatRate = (value: number | null): string =>
+  value === null ? '—' : formatPercentage(value * 100, 1);
+
 export function AIInsightsPanel({ user, portfolio }: AIInsightsPanelProps) {
   const [topGainers, setTopGainers] = useState<NSEStock[]>([]);
   const [topLosers, setTopLosers] = useState<NSEStock[]>([]);
   const [marketDataLoading, setMarketDataLoading] = useState(false);
+  const [performanceSlice, setPerformanceSlice] = useState<PerformanceSlice>('byType');
   
   const { 
     isLoading,
@@ -274,6 +284,46 @@ export function AIInsightsPanel({ user, portfolio }: AIInsightsPanelProps) {
                       AI-powered risk analysis indicates portfolio diversification score of {formatPercentage(riskMetrics.diversificationScore || 0)} with overall risk level at {riskMetrics.overallRiskScore}/100.
                     </p>
                   </div>
+
+                  {/* Fixed Income Exposure */}
+                  {riskMetrics.fixedIncome && (
+                    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                      <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+                        🏦 Fixed Income
+                      </h3>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div>
+                          <div className="text-gray-500">Share of Holdings</div>
+                          <div className="font-semibold">{formatPercentage(riskMetrics.fixedIncome.weight * 100, 1)}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500">Average Yield</div>
+                          <div className="font-semibold">{formatPercentage(riskMetrics.fixedIncome.averageYield * 100)}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500">Modified Duration</div>
+                          <div className="font-semibold">{riskMetrics.fixedIncome.modifiedDuration.toFixed(2)} years</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500">Credit Risk</div>
+                          <div className="font-semibold">{riskMetrics.fixedIncome.creditRisk}/100</div>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-3">
+                        A one point rise in yields would cut their value by about {formatCurrency(riskMetrics.fixedIncome.rateSensitivity, 'KES')}.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Holding Correlations */}
+                  {riskMetrics.covariance && (
+                    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                      <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+                        🔗 Holding Correlations
+                      </h3>
+                      <CorrelationHeatmap model={riskMetrics.covariance} />
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-12 text-muted-foreground">
@@ -604,6 +654,7 @@ export function AIInsightsPanel({ user, portfolio }: AIInsightsPanelProps) {
                         <Badge variant={alert.severity === 'high' ? 'destructive' : alert.severity === 'medium' ? 'secondary' : 'outline'}>
                           {alert.severity}
                         </Badge>
+                        {alert.read && <Badge variant="outline">Read</Badge>}
                       </AlertTitle>
                       <AlertDescription className="mt-2">
                         <p className="mb-3">{alert.message}</p>
@@ -640,7 +691,7 @@ export function AIInsightsPanel({ user, portfolio }: AIInsightsPanelProps) {
                 📈 AI Model Performance Tracking
               </CardTitle>
               <CardDescription>
-                Real-time monitoring of AI model accuracy and prediction success rates
+                Every recommendation issued is scored against later prices: it hits its target, is stopped out, or expires at the end of its horizon
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-6">
@@ -654,76 +705,135 @@ export function AIInsightsPanel({ user, portfolio }: AIInsightsPanelProps) {
                   {/* Performance Overview */}
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <div className="text-center p-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border">
-                      <div className="text-3xl font-bold text-indigo-600 dark:text-indigo-400 mb-2">
-                        {formatPercentage(modelPerformance.riskModelAccuracy)}
+                      <div className="text-3xl font-bold text-green-600 dark:text-green-400 mb-2">
+                        {formatRate(modelPerformance.recommendationSuccess)}
                       </div>
                       <div className="font-semibold text-gray-700 dark:text-gray-300">
-                        Overall Accuracy
+                        Target Hit Rate
                       </div>
-                      <Progress value={modelPerformance.riskModelAccuracy} className="mt-3" />
+                      <Progress value={(modelPerformance.recommendationSuccess ?? 0) * 100} className="mt-3" />
                     </div>
 
                     <div className="text-center p-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border">
-                      <div className="text-3xl font-bold text-green-600 dark:text-green-400 mb-2">
-                        {formatPercentage(modelPerformance.recommendationSuccess)}
+                      <div className="text-3xl font-bold text-indigo-600 dark:text-indigo-400 mb-2">
+                        {formatRate(modelPerformance.riskModelAccuracy)}
                       </div>
                       <div className="font-semibold text-gray-700 dark:text-gray-300">
-                        Prediction Success
+                        Risk Level Accuracy
                       </div>
-                      <Progress value={modelPerformance.recommendationSuccess} className="mt-3" />
+                      <Progress value={(modelPerformance.riskModelAccuracy ?? 0) * 100} className="mt-3" />
                     </div>
 
                     <div className="text-center p-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border">
                       <div className="text-3xl font-bold text-purple-600 dark:text-purple-400 mb-2">
-                        {formatPercentage(modelPerformance.predictionConfidence)}
+                        {formatRate(modelPerformance.predictionConfidence)}
                       </div>
                       <div className="font-semibold text-gray-700 dark:text-gray-300">
-                        Model Confidence
+                        Stated Confidence
                       </div>
-                      <Progress value={modelPerformance.predictionConfidence} className="mt-3" />
+                      <Progress value={(modelPerformance.predictionConfidence ?? 0) * 100} className="mt-3" />
                     </div>
                   </div>
 
                   {/* Detailed Performance Metrics */}
                   <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                      🔍 Detailed Performance Analysis
+                      🔍 Scored Outcomes
                     </h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                       <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Recommendation Accuracy:</span>
+                        <span className="font-medium text-gray-700 dark:text-gray-300">Reached target:</span>
                         <span className="ml-2 text-green-600 dark:text-green-400">
-                          {formatPercentage(modelPerformance.recommendationSuccess)}
+                          {modelPerformance.outcomes.hitTarget} of {modelPerformance.outcomes.sampleSize}
                         </span>
                       </div>
                       <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Risk Assessment Accuracy:</span>
-                        <span className="ml-2 text-blue-600 dark:text-blue-400">
-                          {formatPercentage(modelPerformance.riskModelAccuracy)}
+                        <span className="font-medium text-gray-700 dark:text-gray-300">Stopped out:</span>
+                        <span className="ml-2 text-red-600 dark:text-red-400">
+                          {modelPerformance.outcomes.stoppedOut}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="font-medium text-gray-700 dark:text-gray-300">Expired at horizon:</span>
+                        <span className="ml-2 text-gray-600 dark:text-gray-400">
+                          {modelPerformance.outcomes.expired}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="font-medium text-gray-700 dark:text-gray-300">Still open:</span>
+                        <span className="ml-2 text-gray-600 dark:text-gray-400">
+                          {modelPerformance.open}
                         </span>
                       </div>
                       <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Model Confidence:</span>
-                        <span className="ml-2 text-purple-600 dark:text-purple-400">
-                          {formatPercentage(modelPerformance.predictionConfidence)}
+                        <span className="font-medium text-gray-700 dark:text-gray-300">Average realised return:</span>
+                        <span className="ml-2 text-blue-600 dark:text-blue-400">
+                          {formatRate(modelPerformance.outcomes.averageReturn)}
                         </span>
                       </div>
                       <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Last Model Update:</span>
+                        <span className="font-medium text-gray-700 dark:text-gray-300">Last Updated:</span>
                         <span className="ml-2 text-gray-600 dark:text-gray-400">
-                          {new Date(modelPerformance.lastUpdated).toLocaleDateString()}
+                          {new Date(modelPerformance.lastUpdated).toLocaleString()}
                         </span>
                       </div>
                     </div>
                   </div>
 
+                  {/* Outcomes by slice */}
+                  {modelPerformance.outcomes.sampleSize > 0 && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                          📊 Breakdown
+                        </h3>
+                        <Select value={performanceSlice} onValueChange={value => setPerformanceSlice(value as PerformanceSlice)}>
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="byType">By type</SelectItem>
+                            <SelectItem value="byRiskLevel">By risk level</SelectItem>
+                            <SelectItem value="bySector">By sector</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Slice</TableHead>
+                            <TableHead className="text-right">Scored</TableHead>
+                            <TableHead className="text-right">Hit Rate</TableHead>
+                            <TableHead className="text-right">Avg Return</TableHead>
+                            <TableHead className="text-right">Risk Accuracy</TableHead>
+                            <TableHead className="text-right">Confidence</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {Object.entries(modelPerformance.slices[performanceSlice]).map(([name, stats]) => (
+                            <TableRow key={name}>
+                              <TableCell className="font-medium">{name}</TableCell>
+                              <TableCell className="text-right">{stats.sampleSize}</TableCell>
+                              <TableCell className="text-right">{formatRate(stats.successRate)}</TableCell>
+                              <TableCell className="text-right">{formatRate(stats.averageReturn)}</TableCell>
+                              <TableCell className="text-right">{formatRate(stats.riskAccuracy)}</TableCell>
+                              <TableCell className="text-right">{formatRate(stats.averageConfidence)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
                   {/* Performance Insights */}
                   <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-lg p-4">
                     <h4 className="font-semibold text-indigo-800 dark:text-indigo-200 mb-2">
                       🧠 AI Model Insights
                     </h4>
                     <p className="text-indigo-700 dark:text-indigo-300 text-sm">
-                      The AI model is performing well with {formatPercentage(modelPerformance.riskModelAccuracy)} accuracy in risk assessment and {formatPercentage(modelPerformance.recommendationSuccess)} success rate in recommendations.
+                      {modelPerformance.outcomes.sampleSize > 0
+                        ? `Of ${modelPerformance.outcomes.sampleSize} scored recommendations, ${formatRate(modelPerformance.recommendationSuccess)} reached their target against an average stated confidence of ${formatRate(modelPerformance.predictionConfidence)}, and ${formatRate(modelPerformance.riskModelAccuracy)} moved like the risk level they were issued with.`
+                        : `No recommendation has been scored yet. ${modelPerformance.open} issued recommendations are waiting for their target, stop or horizon to be reached.`}
                     </p>
                   </div>
                 </div>
@@ -731,7 +841,7 @@ export function AIInsightsPanel({ user, portfolio }: AIInsightsPanelProps) {
                 <div className="text-center py-12 text-muted-foreground">
                   <Brain className="h-16 w-16 mx-auto mb-4 opacity-50" />
                   <h3 className="text-lg font-semibold mb-2">No Performance Data Available</h3>
-                  <p className="text-sm">AI model performance metrics will appear here once analysis is complete</p>
+                  <p className="text-sm">Model performance is measured on the server and appears here once it can be reached</p>
                 </div>
               )}
             </CardContent>
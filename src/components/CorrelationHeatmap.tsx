@@ -0,0 +1,68 @@
+import React from 'react';
+import { CovarianceModel } from '@/ai/types';
+
+interface CorrelationHeatmapProps {
+  model: CovarianceModel;
+}
+
+// Red for holdings that move together, blue for ones that offset each other
+const cellColor = (correlation: number): string => {
+  const strength = Math.min(1, Math.abs(correlation));
+  const hue = correlation >= 0 ? 0 : 217;
+  return `hsla(${hue}, 80%, 50%, ${0.1 + strength * 0.7})`;
+};
+
+// Symbol-by-symbol correlation of daily returns, as estimated by the risk engine
+export const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ model }) => {
+  const { symbols, correlation, shrinkage, window, symbolsMissing } = model;
+
+  if (symbols.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        At least two holdings with enough daily price history are needed for a correlation matrix.
+        {symbolsMissing.length > 0 && ` Missing history: ${symbolsMissing.join(', ')}.`}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {symbols.map(symbol => (
+                <th key={symbol} className="px-1 font-medium text-gray-600 dark:text-gray-400">{symbol}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {symbols.map((rowSymbol, i) => (
+              <tr key={rowSymbol}>
+                <th className="pr-2 text-right font-medium text-gray-600 dark:text-gray-400">{rowSymbol}</th>
+                {symbols.map((columnSymbol, j) => (
+                  <td
+                    key={columnSymbol}
+                    className="h-10 w-12 rounded text-center font-mono text-gray-900 dark:text-white"
+                    style={{ backgroundColor: cellColor(correlation[i][j]) }}
+                    title={`${rowSymbol} / ${columnSymbol}: ${correlation[i][j].toFixed(2)}`}
+                  >
+                    {correlation[i][j].toFixed(2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {window.observations} daily returns from {window.start} to {window.end}
+        {shrinkage.intensity > 0 && `, shrunk ${(shrinkage.intensity * 100).toFixed(0)}% towards the average correlation${shrinkage.method === 'ledoit-wolf' ? ' (Ledoit-Wolf)' : ''}`}.
+        {symbolsMissing.length > 0 && ` Not enough history: ${symbolsMissing.join(', ')}.`}
+      </p>
+    </div>
+  );
+};
+
+export default CorrelationHeatmap;
@@ -1,16 +1,44 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useRealTimeMarket } from '@/hooks/useRealTimeMarket';
+import { usePortfolio } from '@/hooks/usePortfolio';
 import { AIInsightsPanel } from '@/components/AIInsightsPanel';
+import { PortfolioHoldings } from '@/components/PortfolioHoldings';
+import { PortfolioSelector } from '@/components/PortfolioSelector';
+import { TransactionDialog, TransactionDefaults } from '@/components/TransactionDialog';
+import { FixedIncomeDialog } from '@/components/FixedIncomeDialog';
+import { TransactionHistory } from '@/components/TransactionHistory';
+import { DividendIncome } from '@/components/DividendIncome';
+import { UpcomingCorporateActions } from '@/components/UpcomingCorporateActions';
+import { WatchlistPanel } from '@/components/WatchlistPanel';
+import { NotificationCenter } from '@/components/NotificationCenter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { TrendingUp, TrendingDown, DollarSign, Target, BarChart3, PieChart, LogOut, Brain, RefreshCw } from 'lucide-react';
+import { TrendingUp, TrendingDown, DollarSign, Target, BarChart3, PieChart, LogOut, Brain, RefreshCw, Flag } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart as RechartsPieChart, Cell, Pie } from 'recharts';
 import { formatCurrency, formatPercentage } from '@/lib/formatters';
+import { MarketStatus, PortfolioHolding, PortfolioTransaction } from '@/types';
+import { InstrumentData, TransactionData } from '@/services/portfolioService';
+import { ASSET_TYPE_LABELS, isFixedIncome } from '@/ai/fixedIncome';
+
+const ALLOCATION_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--accent))',
+  'hsl(var(--warning))',
+  'hsl(var(--destructive))',
+  'hsl(var(--muted))'
+];
+
+const MARKET_STATUS_LABELS: Record<MarketStatus, string> = {
+  open: 'Open',
+  closed: 'Closed',
+  'pre-market': 'Pre-market',
+  'after-hours': 'After hours'
+};
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -24,12 +52,33 @@ const Dashboard = () => {
     isLoading: marketLoading,
     error: marketError,
     lastUpdated,
+    isStale: marketStale,
+    isRealTime,
+    marketStatus,
     refresh: refreshMarket
   } = useRealTimeMarket({
-    refreshInterval: 30000, // 30 seconds
+    refreshInterval: 30000, // 30 seconds, only while the market stream is down
     enableRealTime: true
   });
 
+  // User portfolios from the backend
+  const {
+    portfolios,
+    selectedPortfolio,
+    selectPortfolio,
+    createPortfolio,
+    updatePortfolio,
+    deletePortfolio,
+    recordTransaction,
+    reverseTransaction,
+    saveInstrument
+  } = usePortfolio();
+
+  const [transactionDialogOpen, setTransactionDialogOpen] = useState(false);
+  const [transactionDefaults, setTransactionDefaults] = useState<TransactionDefaults | null>(null);
+  const [fixedIncomeDialogOpen, setFixedIncomeDialogOpen] = useState(false);
+  const [instrumentDefaults, setInstrumentDefaults] = useState<Partial<InstrumentData> | null>(null);
+
   // Calculate market statistics
   const gainers = marketData.filter((stock: any) => (stock.changePercent || 0) > 0)
     .sort((a: any, b: any) => (b.changePercent || 0) - (a.changePercent || 0))
@@ -57,14 +106,98 @@ const Dashboard = () => {
     { month: 'Jul', value: 45231 }
   ];
 
-  // Generate portfolio holdings allocation data
+  // Portfolio holdings allocation data: largest four positions plus "Others"
+  const holdingsValue = (selectedPortfolio?.holdings || []).reduce((sum, h) => sum + h.current_value, 0);
+  const sortedHoldings = [...(selectedPortfolio?.holdings || [])].sort((a, b) => b.current_value - a.current_value);
+  const othersValue = sortedHoldings.slice(4).reduce((sum, h) => sum + h.current_value, 0);
   const allocationData = [
-    { name: 'Safaricom (SCOM)', value: 12500, percentage: 35, color: 'hsl(var(--primary))' },
-    { name: 'Equity Bank (EQTY)', value: 8900, percentage: 25, color: 'hsl(var(--accent))' },
-    { name: 'KCB Group (KCB)', value: 6400, percentage: 18, color: 'hsl(var(--warning))' },
-    { name: 'EABL', value: 4200, percentage: 12, color: 'hsl(var(--destructive))' },
-    { name: 'Others', value: 3500, percentage: 10, color: 'hsl(var(--muted))' }
-  ];
+    ...sortedHoldings.slice(0, 4).map(h => ({ name: h.symbol, value: h.current_value })),
+    ...(othersValue > 0 ? [{ name: 'Others', value: othersValue }] : [])
+  ].map((entry, index) => ({
+    ...entry,
+    percentage: holdingsValue > 0 ? Math.round((entry.value / holdingsValue) * 100) : 0,
+    color: ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]
+  }));
+
+  // NSE stocks held, which dividends, bonus issues and splits apply to
+  const equityHoldings = (selectedPortfolio?.holdings || []).filter(h => !isFixedIncome(h.asset_type) && h.shares > 0);
+
+  // The same holdings by asset class: NSE equities, bills, bonds, funds and deposits
+  const assetClassValues = new Map<string, number>();
+  (selectedPortfolio?.holdings || []).forEach(h => {
+    const label = ASSET_TYPE_LABELS[h.asset_type ?? 'equity'];
+    assetClassValues.set(label, (assetClassValues.get(label) || 0) + h.current_value);
+  });
+  const assetClassData = [...assetClassValues.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, value]) => ({ name, value, percentage: holdingsValue > 0 ? (value / holdingsValue) * 100 : 0 }));
+
+  const openTransactionDialog = (defaults: TransactionDefaults | null = null) => {
+    setTransactionDefaults(defaults);
+    setTransactionDialogOpen(true);
+  };
+
+  const handleRecordTransaction = async (data: TransactionData) => {
+    // First transaction for a new user: create a default portfolio to hold it
+    const portfolio = selectedPortfolio || await createPortfolio({ name: 'My Portfolio' });
+    await recordTransaction(portfolio.id, data);
+    toast({
+      title: "Transaction recorded",
+      description: `${data.type}${data.symbol ? ` of ${data.symbol}` : ''} added to ${portfolio.name}.`
+    });
+  };
+
+  const openFixedIncomeDialog = (holding: PortfolioHolding | null = null) => {
+    setInstrumentDefaults(holding && isFixedIncome(holding.asset_type) ? {
+      symbol: holding.symbol,
+      asset_type: holding.asset_type,
+      name: holding.name,
+      yield: holding.ytm,
+      coupon_rate: holding.coupon_rate ?? undefined,
+      maturity_date: holding.maturity_date ?? undefined
+    } : null);
+    setFixedIncomeDialogOpen(true);
+  };
+
+  const handleSaveInstrument = async (data: InstrumentData) => {
+    const portfolio = selectedPortfolio || await createPortfolio({ name: 'My Portfolio' });
+    await saveInstrument(portfolio.id, data);
+    toast({ title: "Terms saved", description: `${data.symbol} is valued from its ${data.yield !== undefined ? 'yield' : 'price'}.` });
+
+    // A new instrument is bought next: units of 100 face for bills and bonds, shillings at 1 otherwise
+    if (!instrumentDefaults) {
+      const isPriced = data.asset_type === 'treasury-bill' || data.asset_type === 'treasury-bond';
+      openTransactionDialog({ type: 'buy', symbol: data.symbol, price: isPriced ? data.price : 1 });
+    }
+  };
+
+  const handleReverseTransaction = async (transaction: PortfolioTransaction) => {
+    if (!selectedPortfolio) return;
+
+    try {
+      await reverseTransaction(selectedPortfolio.id, transaction.id);
+      toast({ title: "Transaction reversed", description: `The ${transaction.type} entry no longer counts towards your positions.` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to reverse transaction',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeletePortfolio = async (id: string) => {
+    try {
+      await deletePortfolio(id);
+      toast({ title: "Portfolio deleted", description: "The portfolio has been deleted." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to delete portfolio',
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleSignOut = async () => {
     try {
@@ -126,6 +259,16 @@ const Dashboard = () => {
             <div className="flex items-center space-x-4">
               {/* Market Status */}
               <div className="flex items-center space-x-2">
+                {marketStatus && (
+                  <Badge
+                    variant={marketStatus.isOpen ? 'default' : 'secondary'}
+                    title={marketStatus.isOpen
+                      ? `Closes ${new Date(marketStatus.session!.close).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                      : `${marketStatus.closure ? `${marketStatus.closure.name} • ` : ''}Opens ${new Date(marketStatus.nextOpen).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`}
+                  >
+                    NSE {MARKET_STATUS_LABELS[marketStatus.status]}
+                  </Badge>
+                )}
                 <div className={`w-2 h-2 rounded-full ${marketLoading ? 'bg-warning' : 'bg-success'}`}></div>
                 <span className="text-xs text-muted-foreground">
                   {marketLoading ? 'Loading...' : `${marketData.length} stocks`}
@@ -139,6 +282,7 @@ const Dashboard = () => {
                   <RefreshCw className={`w-3 h-3 ${marketLoading ? 'animate-spin' : ''}`} />
                 </Button>
               </div>
+              <NotificationCenter />
               <span className="text-sm text-muted-foreground">Welcome, {user?.email}</span>
               <Button variant="outline" onClick={handleSignOut} size="sm">
                 <LogOut className="w-4 h-4 mr-2" />
@@ -169,12 +313,28 @@ const Dashboard = () => {
         )}
 
         {lastUpdated && (
-          <div className="mb-6 p-3 bg-success/10 border border-success/20 rounded-lg">
-            <div className="flex items-center justify-center text-sm text-success-foreground">
-              <div className="w-2 h-2 bg-success rounded-full mr-2 animate-pulse"></div>
-              Live NSE data • Last updated {new Date(lastUpdated).toLocaleTimeString()}
+          marketStale ? (
+            <div className="mb-6 p-3 bg-warning/10 border border-warning/20 rounded-lg">
+              <div className="flex items-center justify-center text-sm text-warning-foreground">
+                <div className="w-2 h-2 bg-warning rounded-full mr-2"></div>
+                Delayed NSE data • Last snapshot {new Date(lastUpdated).toLocaleString()}
+              </div>
             </div>
-          </div>
+          ) : marketStatus && !marketStatus.isOpen ? (
+            <div className="mb-6 p-3 bg-muted border border-border rounded-lg">
+              <div className="flex items-center justify-center text-sm text-muted-foreground">
+                <div className="w-2 h-2 bg-muted-foreground rounded-full mr-2"></div>
+                NSE {marketStatus.closure ? `closed for ${marketStatus.closure.name}` : MARKET_STATUS_LABELS[marketStatus.status].toLowerCase()} • Closing prices as of {new Date(lastUpdated).toLocaleString()}
+              </div>
+            </div>
+          ) : (
+            <div className="mb-6 p-3 bg-success/10 border border-success/20 rounded-lg">
+              <div className="flex items-center justify-center text-sm text-success-foreground">
+                <div className="w-2 h-2 bg-success rounded-full mr-2 animate-pulse"></div>
+                Live NSE data • Last updated {new Date(lastUpdated).toLocaleTimeString()} • {isRealTime ? 'Streaming' : 'Polling'}
+              </div>
+            </div>
+          )
         )}
 
         {/* Key Metrics */}
@@ -185,8 +345,10 @@ const Dashboard = () => {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">KES 45,231.89</div>
-              <p className="text-xs text-muted-foreground">+20.1% from last month</p>
+              <div className="text-2xl font-bold">{formatCurrency(selectedPortfolio?.total_value || 0, 'KES')}</div>
+              <p className="text-xs text-muted-foreground">
+                {selectedPortfolio ? `${selectedPortfolio.holdings.length} holdings in ${selectedPortfolio.name}` : 'No portfolio yet'}
+              </p>
             </CardContent>
           </Card>
 
@@ -196,8 +358,12 @@ const Dashboard = () => {
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-success">+KES 12,234</div>
-              <p className="text-xs text-muted-foreground">+8.5% portfolio return</p>
+              <div className={`text-2xl font-bold ${(selectedPortfolio?.total_gain || 0) >= 0 ? 'text-success' : 'text-destructive'}`}>
+                {(selectedPortfolio?.total_gain || 0) >= 0 ? '+' : ''}{formatCurrency(selectedPortfolio?.total_gain || 0, 'KES')}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {(selectedPortfolio?.gain_percentage || 0) >= 0 ? '+' : ''}{formatPercentage(selectedPortfolio?.gain_percentage || 0)} portfolio return
+              </p>
             </CardContent>
           </Card>
 
@@ -210,10 +376,10 @@ const Dashboard = () => {
               <div className="text-2xl font-bold">
                 {marketLoading ? (
                   <div className="animate-pulse bg-muted h-8 w-20 rounded"></div>
-                ) : marketSummary ? (
+                ) : marketSummary && marketSummary.value > 0 ? (
                   marketSummary.value.toFixed(2)
                 ) : (
-                  '160.13'
+                  '—'
                 )}
               </div>
               <p className={`text-xs ${
@@ -221,10 +387,10 @@ const Dashboard = () => {
               }`}>
                 {marketLoading ? (
                   <div className="animate-pulse bg-muted h-4 w-16 rounded"></div>
-                ) : marketSummary ? (
+                ) : marketSummary && marketSummary.value > 0 ? (
                   `${marketSummary.changePercent >= 0 ? '+' : ''}${formatPercentage(marketSummary.changePercent)} today`
                 ) : (
-                  '+1.44% today'
+                  'No NASI level reported'
                 )}
               </p>
               {lastUpdated && (
@@ -241,7 +407,7 @@ const Dashboard = () => {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">KES 15,000</div>
+              <div className="text-2xl font-bold">{formatCurrency(selectedPortfolio?.cash_balance || 0, 'KES')}</div>
               <p className="text-xs text-muted-foreground">Available for investment</p>
             </CardContent>
           </Card>
@@ -249,10 +415,11 @@ const Dashboard = () => {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="overview" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="holdings">Holdings</TabsTrigger>
             <TabsTrigger value="market">Market</TabsTrigger>
+            <TabsTrigger value="watchlist">Watchlist</TabsTrigger>
             <TabsTrigger value="ai-insights" className="flex items-center gap-2">
               <Brain className="h-4 w-4 text-accent" />
               <span>AI Insights</span>
@@ -287,37 +454,72 @@ const Dashboard = () => {
               <Card>
                 <CardHeader>
                   <CardTitle>Portfolio Holdings</CardTitle>
-                  <CardDescription>Your current stock allocations by value (KES)</CardDescription>
+                  <CardDescription>Your current allocations by value (KES)</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <RechartsPieChart>
-                      <Pie
-                        data={allocationData}
-                        cx="50%"
-                        cy="50%"
-                        outerRadius={80}
-                        dataKey="value"
-                        label={({ name, percentage }) => `${name}: ${percentage}%`}
-                      >
-                        {allocationData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.color} />
-                        ))}
-                      </Pie>
-                      <Tooltip formatter={(value) => [formatCurrency(Number(value), 'KES'), 'Value']} />
-                    </RechartsPieChart>
-                  </ResponsiveContainer>
+                  {allocationData.length === 0 ? (
+                    <div className="flex items-center justify-center h-[300px] text-sm text-muted-foreground">
+                      Add holdings to see your allocation
+                    </div>
+                  ) : (
+                    <ResponsiveContainer width="100%" height={300}>
+                      <RechartsPieChart>
+                        <Pie
+                          data={allocationData}
+                          cx="50%"
+                          cy="50%"
+                          outerRadius={80}
+                          dataKey="value"
+                          label={({ name, percentage }) => `${name}: ${percentage}%`}
+                        >
+                          {allocationData.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color} />
+                          ))}
+                        </Pie>
+                        <Tooltip formatter={(value) => [formatCurrency(Number(value), 'KES'), 'Value']} />
+                      </RechartsPieChart>
+                    </ResponsiveContainer>
+                  )}
+                  {assetClassData.length > 1 && (
+                    <div className="mt-4 space-y-1">
+                      {assetClassData.map(entry => (
+                        <div key={entry.name} className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">{entry.name}</span>
+                          <span className="font-medium">
+                            {formatCurrency(entry.value, 'KES')} ({formatPercentage(entry.percentage, 1)})
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
 
+            {equityHoldings.length > 0 && <UpcomingCorporateActions holdings={equityHoldings} />}
+
             {/* Quick Actions */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <Card className="cursor-pointer hover:shadow-md transition-shadow">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => navigate('/risk-assessment')}>
                 <CardHeader className="text-center">
                   <Target className="h-8 w-8 mx-auto text-primary mb-2" />
                   <CardTitle className="text-lg">Risk Assessment</CardTitle>
-                  <CardDescription>Analyze your portfolio risk profile</CardDescription>
+                  <CardDescription>
+                    {user?.riskScore != null
+                      ? `${user.riskTolerance} profile (score ${user.riskScore}) • Retake the questionnaire`
+                      : 'Answer a few questions to set your risk profile'}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+
+              <Card
+                className="cursor-pointer hover:shadow-md transition-shadow"
+                onClick={() => navigate(selectedPortfolio ? `/goals?portfolio=${selectedPortfolio.id}` : '/goals')}
+              >
+                <CardHeader className="text-center">
+                  <Flag className="h-8 w-8 mx-auto text-primary mb-2" />
+                  <CardTitle className="text-lg">Financial Goals</CardTitle>
+                  <CardDescription>See your chances of reaching each goal and what to save monthly</CardDescription>
                 </CardHeader>
               </Card>
 
@@ -339,32 +541,43 @@ const Dashboard = () => {
             </div>
           </TabsContent>
 
-          <TabsContent value="holdings" className="mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center justify-between">
-                  Portfolio Holdings
-                  <Button size="sm">
-                    <Target className="h-4 w-4 mr-2" />
-                    Add Holding
-                  </Button>
-                </CardTitle>
-                <CardDescription>Your current investment positions</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <div className="text-muted-foreground mb-4">
-                    <Target className="h-12 w-12 mx-auto mb-2" />
-                  </div>
-                  <h3 className="text-lg font-medium text-foreground mb-2">No Holdings Yet</h3>
-                  <p className="text-muted-foreground mb-4">Start building your portfolio by adding your first stock from the {marketData.length} available NSE stocks.</p>
-                  <Button>
-                    <Target className="h-4 w-4 mr-2" />
-                    Add Your First Holding
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+          <TabsContent value="holdings" className="mt-6 space-y-4">
+            <div className="flex justify-end">
+              <PortfolioSelector
+                portfolios={portfolios}
+                selectedPortfolio={selectedPortfolio}
+                onSelect={selectPortfolio}
+                onCreate={async (name) => { await createPortfolio({ name }); }}
+                onRename={async (id, name) => { await updatePortfolio(id, { name }); }}
+                onDelete={handleDeletePortfolio}
+              />
+            </div>
+            <PortfolioHoldings
+              portfolio={selectedPortfolio}
+              onAddHolding={() => openTransactionDialog()}
+              onTradeHolding={(holding: PortfolioHolding) => openTransactionDialog({ type: 'buy', symbol: holding.symbol })}
+              onSellHolding={(holding: PortfolioHolding) => openTransactionDialog({ type: 'sell', symbol: holding.symbol, shares: holding.shares })}
+              onAddFixedIncome={() => openFixedIncomeDialog()}
+              onEditInstrument={(holding: PortfolioHolding) => openFixedIncomeDialog(holding)}
+            />
+            <DividendIncome portfolio={selectedPortfolio} />
+            <TransactionHistory
+              portfolio={selectedPortfolio}
+              onReverse={handleReverseTransaction}
+            />
+            <TransactionDialog
+              open={transactionDialogOpen}
+              onOpenChange={setTransactionDialogOpen}
+              defaults={transactionDefaults}
+              cashBalance={selectedPortfolio?.cash_balance || 0}
+              onSubmit={handleRecordTransaction}
+            />
+            <FixedIncomeDialog
+              open={fixedIncomeDialogOpen}
+              onOpenChange={setFixedIncomeDialogOpen}
+              defaults={instrumentDefaults}
+              onSubmit={handleSaveInstrument}
+            />
           </TabsContent>
 
           <TabsContent value="market" className="mt-6">
@@ -531,7 +744,9 @@ const Dashboard = () => {
                             </div>
                             <div>
                               <h4 className="font-medium">{stock.symbol}</h4>
-                              <p className="text-sm text-muted-foreground">{stock.name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {stock.name}{stock.sector && ` • ${stock.sector}`}
+                              </p>
                             </div>
                           </div>
                           <div className="text-right">
@@ -575,8 +790,12 @@ const Dashboard = () => {
             </div>
           </TabsContent>
 
+          <TabsContent value="watchlist" className="mt-6">
+            <WatchlistPanel stocks={marketData} />
+          </TabsContent>
+
           <TabsContent value="ai-insights" className="mt-6">
-            <AIInsightsPanel user={user} portfolio={undefined} />
+            <AIInsightsPanel user={user} portfolio={selectedPortfolio || undefined} />
           </TabsContent>
         </Tabs>
       </div>
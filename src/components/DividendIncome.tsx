@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Coins } from 'lucide-react';
+import portfolioService from '@/services/portfolioService';
+import { Portfolio, PortfolioIncome } from '@/types';
+import { formatCurrency, formatDate, formatPercentage } from '@/lib/formatters';
+
+interface DividendIncomeProps {
+  portfolio: Portfolio | null;
+}
+
+// "2025-03" as "Mar 2025"
+const monthLabel = (month: string) => formatDate(`${month}-01`, { month: 'short', year: 'numeric' });
+
+export const DividendIncome: React.FC<DividendIncomeProps> = ({ portfolio }) => {
+  const [income, setIncome] = useState<PortfolioIncome | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The portfolio object is replaced after every ledger mutation, so reload on change
+  useEffect(() => {
+    if (!portfolio) {
+      setIncome(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    portfolioService.getIncome(portfolio.id)
+      .then(result => { if (!cancelled) setIncome(result); })
+      .catch(() => { if (!cancelled) setIncome(null); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [portfolio]);
+
+  const holdingValue = (symbol: string) => portfolio?.holdings.find(h => h.symbol === symbol)?.current_value || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Dividend Income
+        </CardTitle>
+        <CardDescription>
+          Dividends expected over the next 12 months from the shares you hold, net of 5% withholding
+          tax. Dividends not yet declared are estimated from last year's.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !income ? (
+          <p className="text-sm text-muted-foreground">Loading income projection...</p>
+        ) : !income || income.holdings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No dividends on record for your holdings yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Projected Net</p>
+                <p className="text-xl font-bold text-success">{formatCurrency(income.net, 'KES')}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Gross</p>
+                <p className="text-xl font-bold">{formatCurrency(income.gross, 'KES')}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Withholding Tax</p>
+                <p className="text-xl font-bold">{formatCurrency(income.withholdingTax, 'KES')}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Received, Last 12 Months</p>
+                <p className="text-xl font-bold">{formatCurrency(income.receivedLast12Months, 'KES')}</p>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={income.monthly.map(entry => ({ ...entry, label: monthLabel(entry.month) }))}>
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip formatter={(value) => [formatCurrency(Number(value), 'KES'), 'Net']} />
+                <Bar dataKey="net" fill="hsl(var(--primary))" />
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Payments</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    <TableHead className="text-right">Net Yield</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {income.holdings.map(line => {
+                    const value = holdingValue(line.symbol);
+                    return (
+                      <TableRow key={line.symbol}>
+                        <TableCell className="font-medium">{line.symbol}</TableCell>
+                        <TableCell>
+                          <div className="space-y-1">
+                            {line.payments.map(payment => (
+                              <div key={payment.exDate} className="flex items-center gap-2 text-sm">
+                                <span>
+                                  {formatCurrency(payment.amount, 'KES')} on {payment.shares.toLocaleString()} shares
+                                  {payment.paymentDate ? `, paid ${formatDate(payment.paymentDate)}` : `, ex ${formatDate(payment.exDate)}`}
+                                </span>
+                                {!payment.declared && <Badge variant="outline">Estimated</Badge>}
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(line.gross, 'KES')}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(line.net, 'KES')}</TableCell>
+                        <TableCell className="text-right">
+                          {value > 0 ? formatPercentage((line.net / value) * 100, 1) : '—'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DividendIncome;
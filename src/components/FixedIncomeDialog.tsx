@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ASSET_TYPE_LABELS, FIXED_INCOME_TYPES } from '@/ai/fixedIncome';
+import { FixedIncomeType } from '@/types';
+import { InstrumentData } from '@/services/portfolioService';
+
+const SYMBOL_HINTS: Record<FixedIncomeType, string> = {
+  'treasury-bill': 'e.g. TB364-2026-10',
+  'treasury-bond': 'e.g. FXD1/2023/005',
+  'money-market': 'e.g. CIC-MMF',
+  'fixed-deposit': 'e.g. KCB-FD-1'
+};
+
+// Bills and bonds are priced from a yield; the rest only need their rate
+const PRICED_TYPES: FixedIncomeType[] = ['treasury-bill', 'treasury-bond'];
+const MATURING_TYPES: FixedIncomeType[] = ['treasury-bill', 'treasury-bond', 'fixed-deposit'];
+
+interface FixedIncomeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Current terms when updating a holding, e.g. with a new yield
+  defaults?: Partial<InstrumentData> | null;
+  onSubmit: (data: InstrumentData) => Promise<void>;
+}
+
+// Rates are entered as percentages and sent as fractions
+const toPercent = (rate?: number) => (rate !== undefined ? String(Math.round(rate * 10000) / 100) : '');
+
+export const FixedIncomeDialog: React.FC<FixedIncomeDialogProps> = ({ open, onOpenChange, defaults, onSubmit }) => {
+  const [assetType, setAssetType] = useState<FixedIncomeType>('treasury-bill');
+  const [symbol, setSymbol] = useState('');
+  const [name, setName] = useState('');
+  const [issuer, setIssuer] = useState('');
+  const [yieldPercent, setYieldPercent] = useState('');
+  const [price, setPrice] = useState('');
+  const [couponPercent, setCouponPercent] = useState('');
+  const [maturityDate, setMaturityDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAssetType(defaults?.asset_type || 'treasury-bill');
+      setSymbol(defaults?.symbol || '');
+      setName(defaults?.name || '');
+      setIssuer(defaults?.issuer || '');
+      setYieldPercent(toPercent(defaults?.yield));
+      setPrice('');
+      setCouponPercent(toPercent(defaults?.coupon_rate));
+      setMaturityDate(defaults?.maturity_date || '');
+      setError(null);
+    }
+  }, [open, defaults]);
+
+  const isPriced = PRICED_TYPES.includes(assetType);
+  const isUpdate = !!defaults?.symbol;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!symbol.trim() || !name.trim()) {
+      setError('Symbol and name are required');
+      return;
+    }
+
+    const data: InstrumentData = {
+      symbol: symbol.trim().toUpperCase(),
+      asset_type: assetType,
+      name: name.trim(),
+      issuer: issuer.trim() || undefined
+    };
+
+    if (yieldPercent) {
+      data.yield = parseFloat(yieldPercent) / 100;
+    } else if (isPriced && parseFloat(price) > 0) {
+      data.price = parseFloat(price);
+    } else {
+      setError(isPriced ? 'Enter the yield, or the price per 100 you paid' : 'Enter the annual rate');
+      return;
+    }
+
+    if (assetType === 'treasury-bond') {
+      const coupon = parseFloat(couponPercent);
+      if (isNaN(coupon) || coupon < 0) {
+        setError('Coupon rate is required for bonds');
+        return;
+      }
+      data.coupon_rate = coupon / 100;
+    }
+
+    if (MATURING_TYPES.includes(assetType)) {
+      if (!maturityDate) {
+        setError('Maturity date is required');
+        return;
+      }
+      data.maturity_date = maturityDate;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save instrument');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isUpdate ? `Update ${defaults?.symbol}` : 'Add Fixed Income'}</DialogTitle>
+            <DialogDescription>
+              Bills and bonds are held in units of KES 100 face value and priced per 100. Fund balances
+              and deposits are held in shillings at a price of 1.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={assetType} onValueChange={(value) => setAssetType(value as FixedIncomeType)} disabled={isUpdate}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIXED_INCOME_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{ASSET_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="instrument-symbol">Symbol</Label>
+                <Input
+                  id="instrument-symbol"
+                  placeholder={SYMBOL_HINTS[assetType]}
+                  value={symbol}
+                  disabled={isUpdate}
+                  onChange={(e) => setSymbol(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="instrument-name">Name</Label>
+                <Input id="instrument-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="instrument-issuer">Issuer</Label>
+                <Input id="instrument-issuer" placeholder="Optional" value={issuer} onChange={(e) => setIssuer(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="instrument-yield">
+                  {isPriced ? 'Yield to Maturity (%)' : assetType === 'money-market' ? 'Annual Yield (%)' : 'Interest Rate (%)'}
+                </Label>
+                <Input id="instrument-yield" type="number" step="any" value={yieldPercent} onChange={(e) => setYieldPercent(e.target.value)} />
+              </div>
+              {isPriced && (
+                <div className="space-y-2">
+                  <Label htmlFor="instrument-price">Or Price Paid (per 100)</Label>
+                  <Input
+                    id="instrument-price"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={price}
+                    disabled={!!yieldPercent}
+                    onChange={(e) => setPrice(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {(assetType === 'treasury-bond' || MATURING_TYPES.includes(assetType)) && (
+              <div className="grid grid-cols-2 gap-4">
+                {assetType === 'treasury-bond' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="instrument-coupon">Coupon Rate (%)</Label>
+                    <Input id="instrument-coupon" type="number" min="0" step="any" value={couponPercent} onChange={(e) => setCouponPercent(e.target.value)} />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="instrument-maturity">Maturity Date</Label>
+                  <Input id="instrument-maturity" type="date" value={maturityDate} onChange={(e) => setMaturityDate(e.target.value)} />
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Terms'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FixedIncomeDialog;
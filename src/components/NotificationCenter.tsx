@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Bell, Check, CheckCheck, Settings, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import notificationService, { NotificationPreferences } from '@/services/notificationService';
+import { Notification } from '@/types';
+import { formatRelativeTime } from '@/lib/formatters';
+
+// How often the unread count is refreshed while the dashboard is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const PREFERENCE_LABELS: Record<keyof NotificationPreferences, string> = {
+  priceAlerts: 'Price alerts',
+  portfolioAlerts: 'Portfolio risk alerts',
+  marketNews: 'Market news',
+  email: 'Email delivery',
+  push: 'Push delivery',
+};
+
+const TYPE_COLORS: Record<Notification['type'], string> = {
+  info: 'bg-primary',
+  success: 'bg-success',
+  warning: 'bg-warning',
+  error: 'bg-destructive',
+};
+
+export const NotificationCenter: React.FC = () => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  }, [toast]);
+
+  const load = useCallback(async () => {
+    try {
+      const list = await notificationService.getNotifications({ limit: 30 });
+      setNotifications(list.notifications);
+      setUnread(list.unread);
+    } catch (error) {
+      // Polled in the background; the bell keeps its last state
+      console.error('❌ Error refreshing notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const openSettings = async () => {
+    setShowSettings(current => !current);
+    if (preferences) return;
+    try {
+      setPreferences(await notificationService.getPreferences());
+    } catch (error) {
+      showError(error, 'Failed to load notification preferences');
+    }
+  };
+
+  const handleToggleRead = async (notification: Notification) => {
+    try {
+      const updated = await notificationService.markRead(notification.id, !notification.read);
+      setNotifications(current => current.map(item => (item.id === updated.id ? updated : item)));
+      setUnread(current => Math.max(0, current + (updated.read ? -1 : 1)));
+    } catch (error) {
+      showError(error, 'Failed to update notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      setNotifications(current => current.map(item => ({ ...item, read: true })));
+      setUnread(0);
+    } catch (error) {
+      showError(error, 'Failed to mark notifications as read');
+    }
+  };
+
+  const handleDelete = async (notification: Notification) => {
+    try {
+      await notificationService.deleteNotification(notification.id);
+      setNotifications(current => current.filter(item => item.id !== notification.id));
+      if (!notification.read) setUnread(current => Math.max(0, current - 1));
+    } catch (error) {
+      showError(error, 'Failed to delete notification');
+    }
+  };
+
+  const handlePreference = async (key: keyof NotificationPreferences, value: boolean) => {
+    try {
+      setPreferences(await notificationService.updatePreferences({ [key]: value }));
+    } catch (error) {
+      showError(error, 'Failed to update notification preferences');
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unread} unread)`}>
+          <Bell className="w-4 h-4" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-[1.1rem] text-center">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3">
+          <span className="font-semibold">Notifications</span>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unread === 0} title="Mark all as read">
+              <CheckCheck className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={openSettings} title="Notification settings">
+              <Settings className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <Separator />
+
+        {showSettings && (
+          <>
+            <div className="px-4 py-3 space-y-3">
+              {preferences ? (
+                (Object.keys(PREFERENCE_LABELS) as (keyof NotificationPreferences)[]).map(key => (
+                  <div key={key} className="flex items-center justify-between">
+                    <Label htmlFor={`notify-${key}`} className="text-sm">{PREFERENCE_LABELS[key]}</Label>
+                    <Switch
+                      id={`notify-${key}`}
+                      checked={preferences[key]}
+                      onCheckedChange={checked => handlePreference(key, checked)}
+                    />
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">Loading preferences...</p>
+              )}
+            </div>
+            <Separator />
+          </>
+        )}
+
+        <ScrollArea className="h-80">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-center text-muted-foreground">You have no notifications.</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <div key={notification.id} className={`flex gap-3 px-4 py-3 ${notification.read ? 'opacity-60' : ''}`}>
+                  <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${notification.read ? 'bg-muted' : TYPE_COLORS[notification.type]}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {notification.title}
+                      {notification.occurrences > 1 && (
+                        <span className="ml-1 text-xs text-muted-foreground">×{notification.occurrences}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    <p className="mt-1 text-xs text-muted-foreground">{formatRelativeTime(notification.last_seen_at)}</p>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => handleToggleRead(notification)}
+                      title={notification.read ? 'Mark as unread' : 'Mark as read'}
+                    >
+                      <Check className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => handleDelete(notification)}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationCenter;
@@ -1,37 +1,52 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { TrendingUp, TrendingDown, Plus, Minus, Edit, Trash2 } from 'lucide-react';
+import { TrendingUp, TrendingDown, Plus, Minus, ArrowLeftRight, History, Landmark, Percent } from 'lucide-react';
+import { PositionAuditDialog } from '@/components/PositionAuditDialog';
 import { Portfolio, PortfolioHolding } from '@/types';
-import { formatCurrency, formatPercentage } from '@/lib/formatters';
+import { formatCurrency, formatDate, formatPercentage } from '@/lib/formatters';
+import { ASSET_TYPE_LABELS, isFixedIncome } from '@/ai/fixedIncome';
 
 interface PortfolioHoldingsProps {
   portfolio: Portfolio | null;
   onAddHolding?: () => void;
-  onEditHolding?: (holding: PortfolioHolding) => void;
-  onRemoveHolding?: (symbol: string) => void;
+  onTradeHolding?: (holding: PortfolioHolding) => void;
+  onSellHolding?: (holding: PortfolioHolding) => void;
+  onAddFixedIncome?: () => void;
+  // Update the terms of a bill, bond, fund or deposit, e.g. with a new yield
+  onEditInstrument?: (holding: PortfolioHolding) => void;
 }
 
 export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
   portfolio,
   onAddHolding,
-  onEditHolding,
-  onRemoveHolding
+  onTradeHolding,
+  onSellHolding,
+  onAddFixedIncome,
+  onEditInstrument
 }) => {
+  const [auditSymbol, setAuditSymbol] = useState<string | null>(null);
+
   if (!portfolio || !portfolio.holdings?.length) {
     return (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             Portfolio Holdings
-            <Button size="sm" onClick={onAddHolding}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Holding
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button size="sm" variant="outline" onClick={onAddFixedIncome}>
+                <Landmark className="h-4 w-4 mr-2" />
+                Add Fixed Income
+              </Button>
+              <Button size="sm" onClick={onAddHolding}>
+                <Plus className="h-4 w-4 mr-2" />
+                Record Transaction
+              </Button>
+            </div>
           </CardTitle>
-          <CardDescription>Your current investment positions</CardDescription>
+          <CardDescription>Positions derived from your transaction ledger</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="text-center py-8">
@@ -39,10 +54,10 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
               <Plus className="h-12 w-12 mx-auto mb-2" />
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Holdings Yet</h3>
-            <p className="text-gray-500 mb-4">Start building your portfolio by adding your first stock.</p>
+            <p className="text-gray-500 mb-4">Start building your portfolio by recording a deposit or your first purchase.</p>
             <Button onClick={onAddHolding}>
               <Plus className="h-4 w-4 mr-2" />
-              Add Your First Holding
+              Record Your First Transaction
             </Button>
           </div>
         </CardContent>
@@ -55,12 +70,18 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           Portfolio Holdings
-          <Button size="sm" onClick={onAddHolding}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Holding
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="outline" onClick={onAddFixedIncome}>
+              <Landmark className="h-4 w-4 mr-2" />
+              Add Fixed Income
+            </Button>
+            <Button size="sm" onClick={onAddHolding}>
+              <Plus className="h-4 w-4 mr-2" />
+              Record Transaction
+            </Button>
+          </div>
         </CardTitle>
-        <CardDescription>Your current investment positions</CardDescription>
+        <CardDescription>Positions derived from your transaction ledger</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto">
@@ -71,14 +92,16 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
                 <TableHead>Shares</TableHead>
                 <TableHead>Avg Price</TableHead>
                 <TableHead>Current Value</TableHead>
-                <TableHead>Gain/Loss</TableHead>
+                <TableHead>Unrealized</TableHead>
+                <TableHead>Realized</TableHead>
                 <TableHead>Performance</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {portfolio.holdings.map((holding) => {
-                const gainLoss = holding.current_value - (holding.shares * holding.avg_price);
+                const gainLoss = holding.unrealized_gain ?? holding.current_value - (holding.shares * holding.avg_price);
+                const realizedGain = holding.realized_gain || 0;
                 const gainPercentage = holding.gain_percentage || 
                   ((holding.current_value - (holding.shares * holding.avg_price)) / (holding.shares * holding.avg_price)) * 100;
 
@@ -87,17 +110,41 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
                     <TableCell className="font-medium">
                       <div>
                         <div className="font-semibold">{holding.symbol}</div>
-                        <div className="text-sm text-gray-500">NSE Listed</div>
+                        <div className="text-sm text-gray-500">
+                          {isFixedIncome(holding.asset_type) ? `${ASSET_TYPE_LABELS[holding.asset_type]} • ${holding.name}` : holding.sector || 'NSE Listed'}
+                        </div>
+                        {isFixedIncome(holding.asset_type) && (
+                          <div className="text-xs text-gray-500">
+                            {formatPercentage((holding.ytm ?? 0) * 100)} yield
+                            {holding.maturity_date && ` • ${holding.matured ? 'matured' : 'matures'} ${formatDate(holding.maturity_date)}`}
+                          </div>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>{holding.shares.toLocaleString()}</TableCell>
                     <TableCell>{formatCurrency(holding.avg_price, 'KES')}</TableCell>
-                    <TableCell>{formatCurrency(holding.current_value, 'KES')}</TableCell>
+                    <TableCell>
+                      {formatCurrency(holding.current_value, 'KES')}
+                      {!!holding.accrued_interest && (
+                        <div className="text-xs text-gray-500">incl. {formatCurrency(holding.accrued_interest, 'KES')} accrued</div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <div className={`font-medium ${gainLoss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                         {formatCurrency(gainLoss, 'KES')}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      <div className={`font-medium ${realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(realizedGain, 'KES')}
+                      </div>
+                      {!!holding.dividends && (
+                        <div className="text-xs text-gray-500">+{formatCurrency(holding.dividends, 'KES')} dividends</div>
+                      )}
+                      {!!holding.interest && (
+                        <div className="text-xs text-gray-500">+{formatCurrency(holding.interest, 'KES')} interest</div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <Badge 
@@ -122,16 +169,36 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => onEditHolding?.(holding)}
+                          title="Position history"
+                          onClick={() => setAuditSymbol(holding.symbol)}
+                        >
+                          <History className="h-3 w-3" />
+                        </Button>
+                        {isFixedIncome(holding.asset_type) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Update yield and terms"
+                            onClick={() => onEditInstrument?.(holding)}
+                          >
+                            <Percent className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Record a transaction"
+                          onClick={() => onTradeHolding?.(holding)}
                         >
-                          <Edit className="h-3 w-3" />
+                          <ArrowLeftRight className="h-3 w-3" />
                         </Button>
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => onRemoveHolding?.(holding.symbol)}
+                          title="Sell entire position"
+                          onClick={() => onSellHolding?.(holding)}
                         >
-                          <Trash2 className="h-3 w-3" />
+                          <Minus className="h-3 w-3" />
                         </Button>
                       </div>
                     </TableCell>
@@ -143,7 +210,7 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
         </div>
 
         {/* Portfolio Summary */}
-        <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-gray-50 rounded-lg">
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
           <div className="text-center">
             <div className="text-2xl font-bold text-gray-900">{portfolio.holdings.length}</div>
             <div className="text-sm text-gray-500">Total Holdings</div>
@@ -162,7 +229,19 @@ export const PortfolioHoldings: React.FC<PortfolioHoldingsProps> = ({
               {portfolio.total_gain >= 0 ? 'Total Gain' : 'Total Loss'}
             </div>
           </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-gray-900">
+              {formatCurrency((portfolio.realized_gain || 0) + (portfolio.dividend_income || 0) + (portfolio.interest_income || 0), 'KES')}
+            </div>
+            <div className="text-sm text-gray-500">Realized + Income</div>
+          </div>
         </div>
+
+        <PositionAuditDialog
+          portfolioId={portfolio.id}
+          symbol={auditSymbol}
+          onOpenChange={(open) => !open && setAuditSymbol(null)}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { Portfolio } from '@/types';
+
+interface PortfolioSelectorProps {
+  portfolios: Portfolio[];
+  selectedPortfolio: Portfolio | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type DialogMode = 'create' | 'rename' | null;
+
+export const PortfolioSelector: React.FC<PortfolioSelectorProps> = ({
+  portfolios,
+  selectedPortfolio,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openDialog = (mode: DialogMode) => {
+    setName(mode === 'rename' ? selectedPortfolio?.name || '' : '');
+    setError(null);
+    setDialogMode(mode);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Portfolio name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (dialogMode === 'rename' && selectedPortfolio) {
+        await onRename(selectedPortfolio.id, name.trim());
+      } else {
+        await onCreate(name.trim());
+      }
+      setDialogMode(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save portfolio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedPortfolio) return;
+    if (!window.confirm(`Delete "${selectedPortfolio.name}" and its entire transaction history?`)) return;
+    await onDelete(selectedPortfolio.id);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {portfolios.length > 0 && (
+        <Select value={selectedPortfolio?.id} onValueChange={onSelect}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Select portfolio" />
+          </SelectTrigger>
+          <SelectContent>
+            {portfolios.map(portfolio => (
+              <SelectItem key={portfolio.id} value={portfolio.id}>
+                {portfolio.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button size="sm" variant="outline" onClick={() => openDialog('create')}>
+        <Plus className="h-4 w-4 mr-1" />
+        New
+      </Button>
+      {selectedPortfolio && (
+        <>
+          <Button size="sm" variant="outline" onClick={() => openDialog('rename')}>
+            <Edit className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleDelete}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{dialogMode === 'rename' ? 'Rename Portfolio' : 'New Portfolio'}</DialogTitle>
+              <DialogDescription>
+                {dialogMode === 'rename' ? 'Choose a new name for this portfolio.' : 'Create a separate portfolio to track another set of positions.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="portfolio-name">Name</Label>
+              <Input
+                id="portfolio-name"
+                placeholder="e.g. Retirement"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogMode(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : dialogMode === 'rename' ? 'Rename' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PortfolioSelector;
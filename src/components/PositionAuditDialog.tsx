@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import portfolioService from '@/services/portfolioService';
+import { PositionAuditStep } from '@/types';
+import { formatCurrency } from '@/lib/formatters';
+
+interface PositionAuditDialogProps {
+  portfolioId: string;
+  symbol: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Step-by-step derivation of a position's shares, cost basis and realized gain from the ledger
+export const PositionAuditDialog: React.FC<PositionAuditDialogProps> = ({ portfolioId, symbol, onOpenChange }) => {
+  const [trail, setTrail] = useState<PositionAuditStep[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!symbol) return;
+
+    let cancelled = false;
+    setTrail([]);
+    setError(null);
+    portfolioService.getLedger(portfolioId, symbol)
+      .then(ledger => { if (!cancelled) setTrail(ledger.positions[0]?.trail || []); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load audit trail'); });
+
+    return () => { cancelled = true; };
+  }, [portfolioId, symbol]);
+
+  return (
+    <Dialog open={!!symbol} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{symbol} Position History</DialogTitle>
+          <DialogDescription>
+            How each ledger entry moved the share count and average cost. Reversed entries are excluded.
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Shares</TableHead>
+                  <TableHead className="text-right">Holding</TableHead>
+                  <TableHead className="text-right">Avg Cost</TableHead>
+                  <TableHead className="text-right">Cost Basis</TableHead>
+                  <TableHead className="text-right">Cash</TableHead>
+                  <TableHead className="text-right">Realized</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trail.map(step => (
+                  <TableRow key={step.transaction_id}>
+                    <TableCell>{new Date(step.date).toLocaleDateString()}</TableCell>
+                    <TableCell className="capitalize">{step.type}</TableCell>
+                    <TableCell className="text-right">
+                      {step.shares_delta > 0 ? '+' : ''}{step.shares_delta ? step.shares_delta.toLocaleString() : '—'}
+                      {step.fractional_shares ? (
+                        <span className="block text-xs text-muted-foreground">{step.fractional_shares} in cash</span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right">{step.shares_after.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(step.avg_cost_after, 'KES')}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(step.cost_basis_after, 'KES')}</TableCell>
+                    <TableCell className="text-right">{step.cash_delta ? formatCurrency(step.cash_delta, 'KES') : '—'}</TableCell>
+                    <TableCell className={`text-right ${step.realized_gain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {step.realized_gain ? formatCurrency(step.realized_gain, 'KES') : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PositionAuditDialog;
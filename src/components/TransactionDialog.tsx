@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatCurrency } from '@/lib/formatters';
+import { TransactionData } from '@/services/portfolioService';
+
+type EntryType = TransactionData['type'];
+
+const TYPE_LABELS: Record<EntryType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  dividend: 'Dividend',
+  interest: 'Interest / Coupon',
+  bonus: 'Bonus Issue',
+  rights: 'Rights Take-up',
+  split: 'Share Split',
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  fee: 'Fee / Charge'
+};
+
+const TRADE_TYPES: EntryType[] = ['buy', 'sell', 'rights'];
+const CASH_TYPES: EntryType[] = ['dividend', 'interest', 'deposit', 'withdrawal', 'fee'];
+const INCOME_TYPES: EntryType[] = ['dividend', 'interest'];
+const RATIO_TYPES: EntryType[] = ['bonus', 'split'];
+const SECURITY_TYPES: EntryType[] = ['buy', 'sell', 'dividend', 'interest', 'bonus', 'rights', 'split'];
+
+export interface TransactionDefaults {
+  type?: EntryType;
+  symbol?: string;
+  shares?: number;
+  price?: number;
+}
+
+interface TransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaults?: TransactionDefaults | null;
+  cashBalance: number;
+  onSubmit: (data: TransactionData) => Promise<void>;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const TransactionDialog: React.FC<TransactionDialogProps> = ({ open, onOpenChange, defaults, cashBalance, onSubmit }) => {
+  const [type, setType] = useState<EntryType>('buy');
+  const [date, setDate] = useState(today());
+  const [symbol, setSymbol] = useState('');
+  const [shares, setShares] = useState('');
+  const [price, setPrice] = useState('');
+  const [amount, setAmount] = useState('');
+  const [fees, setFees] = useState('');
+  const [taxWithheld, setTaxWithheld] = useState('');
+  const [ratioNumerator, setRatioNumerator] = useState('1');
+  const [ratioDenominator, setRatioDenominator] = useState('1');
+  const [note, setNote] = useState('');
+  const [autoDeposit, setAutoDeposit] = useState(true);
+  const [reinvest, setReinvest] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setType(defaults?.type || 'buy');
+      setDate(today());
+      setSymbol(defaults?.symbol || '');
+      setShares(defaults?.shares ? String(defaults.shares) : '');
+      setPrice(defaults?.price ? String(defaults.price) : '');
+      setAmount('');
+      setFees('');
+      setTaxWithheld('');
+      setRatioNumerator('1');
+      setRatioDenominator('1');
+      setNote('');
+      setAutoDeposit(true);
+      setReinvest(false);
+      setError(null);
+    }
+  }, [open, defaults]);
+
+  const isTrade = TRADE_TYPES.includes(type);
+  const isPurchase = type === 'buy' || type === 'rights';
+  const purchaseCost = (parseFloat(shares) || 0) * (parseFloat(price) || 0) + (parseFloat(fees) || 0);
+  const isCashShort = isPurchase && purchaseCost > cashBalance;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data: TransactionData = { type, date, note: note.trim() || undefined };
+
+    if (SECURITY_TYPES.includes(type)) {
+      if (!symbol.trim()) {
+        setError('Symbol is required');
+        return;
+      }
+      data.symbol = symbol.trim().toUpperCase();
+    }
+
+    if (isTrade) {
+      const parsedShares = parseFloat(shares);
+      const parsedPrice = parseFloat(price);
+      const parsedFees = fees ? parseFloat(fees) : 0;
+      if (isNaN(parsedShares) || parsedShares <= 0) {
+        setError('Shares must be greater than zero');
+        return;
+      }
+      if (isNaN(parsedPrice) || parsedPrice < 0) {
+        setError('Price must be zero or more');
+        return;
+      }
+      if (isNaN(parsedFees) || parsedFees < 0) {
+        setError('Fees must be zero or more');
+        return;
+      }
+      Object.assign(data, { shares: parsedShares, price: parsedPrice, fees: parsedFees });
+      if (isPurchase) data.auto_deposit = autoDeposit;
+    }
+
+    if (CASH_TYPES.includes(type)) {
+      const parsedAmount = parseFloat(amount);
+      if (isNaN(parsedAmount) || parsedAmount <= 0) {
+        setError('Amount must be greater than zero');
+        return;
+      }
+      data.amount = parsedAmount;
+      if (INCOME_TYPES.includes(type) && taxWithheld) data.tax_withheld = parseFloat(taxWithheld);
+      if (type === 'interest' && reinvest) data.reinvest = true;
+    }
+
+    if (RATIO_TYPES.includes(type)) {
+      const numerator = parseInt(ratioNumerator, 10);
+      const denominator = parseInt(ratioDenominator, 10);
+      if (!(numerator >= 1) || !(denominator >= 1)) {
+        setError('Ratio values must be positive whole numbers');
+        return;
+      }
+      Object.assign(data, { ratio_numerator: numerator, ratio_denominator: denominator });
+      if (price) {
+        const parsedPrice = parseFloat(price);
+        if (isNaN(parsedPrice) || parsedPrice < 0) {
+          setError('Cash in lieu price must be zero or more');
+          return;
+        }
+        data.price = parsedPrice;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record transaction');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Record Transaction</DialogTitle>
+            <DialogDescription>
+              Entries are permanent. Mistakes are corrected by reversing the entry from the transaction history.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as EntryType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as EntryType[]).map(key => (
+                      <SelectItem key={key} value={key}>{TYPE_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transaction-date">Date</Label>
+                <Input id="transaction-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+
+            {SECURITY_TYPES.includes(type) && (
+              <div className="space-y-2">
+                <Label htmlFor="transaction-symbol">Symbol</Label>
+                <Input
+                  id="transaction-symbol"
+                  placeholder="e.g. SCOM"
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value)}
+                />
+              </div>
+            )}
+
+            {isTrade && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="transaction-shares">Shares</Label>
+                  <Input id="transaction-shares" type="number" min="0" step="any" value={shares} onChange={(e) => setShares(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transaction-price">Price (KES)</Label>
+                  <Input id="transaction-price" type="number" min="0" step="any" value={price} onChange={(e) => setPrice(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transaction-fees">Fees (KES)</Label>
+                  <Input id="transaction-fees" type="number" min="0" step="any" value={fees} onChange={(e) => setFees(e.target.value)} />
+                </div>
+              </div>
+            )}
+
+            {CASH_TYPES.includes(type) && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="transaction-amount">{INCOME_TYPES.includes(type) ? 'Net Amount Received (KES)' : 'Amount (KES)'}</Label>
+                  <Input id="transaction-amount" type="number" min="0" step="any" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                </div>
+                {INCOME_TYPES.includes(type) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="transaction-tax">Tax Withheld (KES)</Label>
+                    <Input id="transaction-tax" type="number" min="0" step="any" value={taxWithheld} onChange={(e) => setTaxWithheld(e.target.value)} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {type === 'interest' && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="transaction-reinvest"
+                  checked={reinvest}
+                  onCheckedChange={(checked) => setReinvest(checked === true)}
+                />
+                <Label htmlFor="transaction-reinvest" className="text-sm font-normal">
+                  Reinvested in the money market fund rather than paid out
+                </Label>
+              </div>
+            )}
+
+            {RATIO_TYPES.includes(type) && (
+              <div className="space-y-2">
+                <Label>{type === 'bonus' ? 'Bonus Ratio (new shares : shares held)' : 'Split Ratio (new shares : old shares)'}</Label>
+                <div className="flex items-center gap-2">
+                  <Input type="number" min="1" step="1" value={ratioNumerator} onChange={(e) => setRatioNumerator(e.target.value)} />
+                  <span className="text-muted-foreground">:</span>
+                  <Input type="number" min="1" step="1" value={ratioDenominator} onChange={(e) => setRatioDenominator(e.target.value)} />
+                </div>
+                <Label htmlFor="transaction-in-lieu-price">Cash in Lieu Price (KES, for a fraction of a share)</Label>
+                <Input id="transaction-in-lieu-price" type="number" min="0" step="any" placeholder="Optional" value={price} onChange={(e) => setPrice(e.target.value)} />
+              </div>
+            )}
+
+            {isPurchase && isCashShort && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="transaction-auto-deposit"
+                  checked={autoDeposit}
+                  onCheckedChange={(checked) => setAutoDeposit(checked === true)}
+                />
+                <Label htmlFor="transaction-auto-deposit" className="text-sm font-normal">
+                  Record a deposit for the {formatCurrency(purchaseCost - cashBalance, 'KES')} shortfall
+                </Label>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="transaction-note">Note</Label>
+              <Input id="transaction-note" placeholder="Optional" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Record'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionDialog;
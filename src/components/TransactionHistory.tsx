@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Undo2 } from 'lucide-react';
+import portfolioService from '@/services/portfolioService';
+import { Portfolio, PortfolioTransaction } from '@/types';
+import { formatCurrency } from '@/lib/formatters';
+
+interface TransactionHistoryProps {
+  portfolio: Portfolio | null;
+  onReverse: (transaction: PortfolioTransaction) => Promise<void>;
+}
+
+// Human-readable summary of what an entry did
+const describeTransaction = (tx: PortfolioTransaction): string => {
+  switch (tx.type) {
+    case 'buy':
+    case 'sell':
+    case 'rights':
+      return `${tx.shares?.toLocaleString()} @ ${formatCurrency(tx.price || 0, 'KES')}${tx.fees ? ` + ${formatCurrency(tx.fees, 'KES')} fees` : ''}`;
+    case 'bonus':
+    case 'split':
+      return `${tx.ratio?.numerator}:${tx.ratio?.denominator}`;
+    case 'dividend':
+      return `${formatCurrency(tx.amount || 0, 'KES')} net${tx.tax_withheld ? ` (${formatCurrency(tx.tax_withheld, 'KES')} WHT)` : ''}`;
+    case 'interest':
+      return `${formatCurrency(tx.amount || 0, 'KES')} net${tx.tax_withheld ? ` (${formatCurrency(tx.tax_withheld, 'KES')} WHT)` : ''}${tx.reinvested ? ', reinvested' : ''}`;
+    case 'reversal':
+      return 'Cancels an earlier entry';
+    default:
+      return formatCurrency(tx.amount || 0, 'KES');
+  }
+};
+
+export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ portfolio, onReverse }) => {
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The portfolio object is replaced after every ledger mutation, so reload on change
+  useEffect(() => {
+    if (!portfolio) {
+      setTransactions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    portfolioService.getTransactions(portfolio.id)
+      .then(result => { if (!cancelled) setTransactions(result); })
+      .catch(() => { if (!cancelled) setTransactions([]); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [portfolio]);
+
+  const handleReverse = async (tx: PortfolioTransaction) => {
+    if (!window.confirm(`Reverse this ${tx.type}${tx.symbol ? ` of ${tx.symbol}` : ''}? The entry stays in the history, marked as reversed.`)) return;
+    await onReverse(tx);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transaction History</CardTitle>
+        <CardDescription>Every entry in this portfolio's ledger, newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading transactions...</p>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transactions recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...transactions].reverse().map(tx => {
+                  const isReversed = !!tx.reversed_by;
+                  return (
+                    <TableRow key={tx.id} className={isReversed ? 'text-muted-foreground line-through' : undefined}>
+                      <TableCell>{new Date(tx.date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={tx.type === 'reversal' ? 'destructive' : 'outline'} className="capitalize">
+                          {tx.type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{tx.symbol || '—'}</TableCell>
+                      <TableCell>{describeTransaction(tx)}</TableCell>
+                      <TableCell className="text-sm">{tx.note}</TableCell>
+                      <TableCell className="text-right">
+                        {tx.type !== 'reversal' && !isReversed && (
+                          <Button size="sm" variant="outline" onClick={() => handleReverse(tx)}>
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            Reverse
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransactionHistory;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock } from 'lucide-react';
+import marketService from '@/services/marketService';
+import { entitlement } from '@/ai/corporateActions';
+import { CorporateAction, PortfolioHolding } from '@/types';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+
+interface UpcomingCorporateActionsProps {
+  // Equity holdings; events are shown for these symbols only
+  holdings: PortfolioHolding[];
+}
+
+const ACTION_LABELS: Record<CorporateAction['type'], string> = {
+  dividend: 'Dividend',
+  bonus: 'Bonus Issue',
+  split: 'Split',
+  rights: 'Rights Issue'
+};
+
+// The terms of an action, e.g. "KES 1.50 per share" or "1:10"
+const describeTerms = (action: CorporateAction): string => {
+  if (action.type === 'dividend') return `${formatCurrency(action.amount || 0, 'KES')} per share`;
+  const ratio = `${action.ratio?.numerator}:${action.ratio?.denominator}`;
+  return action.type === 'rights' ? `${ratio} at ${formatCurrency(action.price || 0, 'KES')}` : ratio;
+};
+
+// What the current holding would receive if it is still held into the ex-date
+const describeEntitlement = (action: CorporateAction, shares: number): string => {
+  const { cash, shares: extra } = entitlement({
+    symbol: action.symbol,
+    type: action.type,
+    exDate: action.ex_date,
+    amount: action.amount ?? undefined,
+    ratio: action.ratio ?? undefined,
+    price: action.price ?? undefined
+  }, shares);
+  if (action.type === 'dividend') return `~${formatCurrency(cash, 'KES')} gross`;
+  if (action.type === 'rights') return `Up to ${extra.toLocaleString()} new shares`;
+  return `+${extra.toLocaleString()} shares`;
+};
+
+export const UpcomingCorporateActions: React.FC<UpcomingCorporateActionsProps> = ({ holdings }) => {
+  const [actions, setActions] = useState<CorporateAction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const symbolKey = holdings.map(h => h.symbol).sort().join(',');
+
+  useEffect(() => {
+    const symbols = symbolKey ? symbolKey.split(',') : [];
+    if (symbols.length === 0) {
+      setActions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    marketService.getUpcomingCorporateActions(symbols)
+      .then(result => { if (!cancelled) setActions(result); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [symbolKey]);
+
+  const sharesHeld = (symbol: string) => holdings.find(h => h.symbol === symbol)?.shares || 0;
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Upcoming Corporate Actions
+        </CardTitle>
+        <CardDescription>
+          Dividends, bonus issues, splits and rights issues for stocks you hold. Dividends, bonus
+          issues and splits are added to your ledger automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading corporate actions...</p>
+        ) : actions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No announced events for your holdings</p>
+        ) : (
+          <div className="space-y-3">
+            {actions.map(action => (
+              <div key={action.id} className="flex items-center justify-between gap-4 text-sm">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{action.symbol}</span>
+                    <Badge variant="outline">{ACTION_LABELS[action.type]}</Badge>
+                    <span className="text-muted-foreground">{describeTerms(action)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {action.ex_date >= today ? `Ex-date ${formatDate(action.ex_date)}` : `Went ex ${formatDate(action.ex_date)}`}
+                    {action.book_closure_date && ` • Books close ${formatDate(action.book_closure_date)}`}
+                    {action.payment_date && ` • Paid ${formatDate(action.payment_date)}`}
+                  </div>
+                </div>
+                <span className="font-medium whitespace-nowrap">{describeEntitlement(action, sharesHeld(action.symbol))}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UpcomingCorporateActions;
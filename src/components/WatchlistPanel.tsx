@@ -0,0 +1,406 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Bell, Eye, Plus, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import watchlistService, { AlertRule, Watchlist } from '@/services/watchlistService';
+import notificationService from '@/services/notificationService';
+import { NSEStock } from '@/services/marketService';
+import { ALERT_DIRECTIONS, ALERT_RULE_TYPES, THRESHOLD_RULE_TYPES } from '@/ai/alerts';
+import { AlertDirection, AlertRuleType } from '@/ai/types';
+import { Notification } from '@/types';
+import { formatCurrency, formatDate, formatPercentage } from '@/lib/formatters';
+
+interface WatchlistPanelProps {
+  // Latest quotes, for prices and the symbols that can be added
+  stocks: NSEStock[];
+}
+
+const RULE_LABELS: Record<AlertRuleType, string> = {
+  'price-cross': 'Price crosses',
+  'percent-move': 'Moves by %',
+  'volume-spike': 'Volume spike',
+  '52-week-high': 'New 52-week high',
+  '52-week-low': 'New 52-week low'
+};
+
+const THRESHOLD_PLACEHOLDERS: Partial<Record<AlertRuleType, string>> = {
+  'price-cross': 'Level (KES)',
+  'percent-move': 'Change (%)',
+  'volume-spike': 'x average volume'
+};
+
+const DIRECTION_LABELS: Record<AlertDirection, string> = {
+  up: 'Up',
+  down: 'Down',
+  either: 'Either way'
+};
+
+// A rule in words, e.g. "Crosses KES 25.00 upwards" or "Volume 3x average"
+const describeRule = (rule: AlertRule): string => {
+  const direction = rule.direction === 'either' ? '' : rule.direction === 'up' ? ' upwards' : ' downwards';
+  switch (rule.type) {
+    case 'price-cross': return `Crosses ${formatCurrency(rule.threshold || 0, 'KES')}${direction}`;
+    case 'percent-move': return `Moves ${rule.threshold}%${direction} on the day`;
+    case 'volume-spike': return `Volume ${rule.threshold}x average`;
+    default: return RULE_LABELS[rule.type];
+  }
+};
+
+interface RuleForm {
+  symbol: string;
+  type: AlertRuleType;
+  threshold: string;
+  direction: AlertDirection;
+}
+
+const EMPTY_RULE: RuleForm = { symbol: '', type: 'price-cross', threshold: '', direction: 'either' };
+
+export const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ stocks }) => {
+  const { toast } = useToast();
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [newListName, setNewListName] = useState('');
+  const [symbolToAdd, setSymbolToAdd] = useState('');
+  const [ruleForm, setRuleForm] = useState<RuleForm>(EMPTY_RULE);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const watchlist = watchlists.find(list => list.id === selectedId) ?? watchlists[0] ?? null;
+  const quotes = new Map(stocks.map(stock => [stock.symbol, stock]));
+  const needsThreshold = THRESHOLD_RULE_TYPES.includes(ruleForm.type);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  }, [toast]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [lists, alertRules, recent] = await Promise.all([
+        watchlistService.getWatchlists(),
+        watchlistService.getAlertRules(),
+        notificationService.getNotifications({ limit: 10, category: 'price-alert' })
+      ]);
+      setWatchlists(lists);
+      setRules(alertRules);
+      setNotifications(recent.notifications);
+    } catch (error) {
+      showError(error, 'Failed to load watchlists');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const replaceWatchlist = (updated: Watchlist) =>
+    setWatchlists(current => current.map(list => (list.id === updated.id ? updated : list)));
+
+  const handleCreateList = async () => {
+    try {
+      const created = await watchlistService.createWatchlist(newListName.trim());
+      setWatchlists(current => [...current, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(created.id);
+      setNewListName('');
+    } catch (error) {
+      showError(error, 'Failed to create watchlist');
+    }
+  };
+
+  const handleDeleteList = async () => {
+    if (!watchlist) return;
+    try {
+      await watchlistService.deleteWatchlist(watchlist.id);
+      setWatchlists(current => current.filter(list => list.id !== watchlist.id));
+      setSelectedId('');
+    } catch (error) {
+      showError(error, 'Failed to delete watchlist');
+    }
+  };
+
+  const updateSymbols = async (symbols: string[]) => {
+    if (!watchlist) return;
+    try {
+      replaceWatchlist(await watchlistService.updateWatchlist(watchlist.id, { symbols }));
+    } catch (error) {
+      showError(error, 'Failed to update watchlist');
+    }
+  };
+
+  const handleAddSymbol = async () => {
+    if (!watchlist || !symbolToAdd) return;
+    await updateSymbols([...watchlist.symbols, symbolToAdd]);
+    setRuleForm(current => ({ ...current, symbol: symbolToAdd }));
+    setSymbolToAdd('');
+  };
+
+  const handleCreateRule = async () => {
+    try {
+      const created = await watchlistService.createAlertRule({
+        symbol: ruleForm.symbol,
+        type: ruleForm.type,
+        threshold: needsThreshold ? Number(ruleForm.threshold) : undefined,
+        direction: ruleForm.direction
+      });
+      setRules(current => [...current, created]);
+      setRuleForm(current => ({ ...EMPTY_RULE, symbol: current.symbol }));
+      toast({ title: 'Alert added', description: `${created.symbol}: ${describeRule(created)}` });
+    } catch (error) {
+      showError(error, 'Failed to create alert');
+    }
+  };
+
+  const handleToggleRule = async (rule: AlertRule) => {
+    try {
+      const updated = await watchlistService.updateAlertRule(rule.id, { active: !rule.active });
+      setRules(current => current.map(existing => (existing.id === updated.id ? updated : existing)));
+    } catch (error) {
+      showError(error, 'Failed to update alert');
+    }
+  };
+
+  const handleDeleteRule = async (rule: AlertRule) => {
+    try {
+      await watchlistService.deleteAlertRule(rule.id);
+      setRules(current => current.filter(existing => existing.id !== rule.id));
+    } catch (error) {
+      showError(error, 'Failed to delete alert');
+    }
+  };
+
+  const ruleValid = ruleForm.symbol !== '' && (!needsThreshold || Number(ruleForm.threshold) > 0);
+  const addableStocks = stocks.filter(stock => !watchlist?.symbols.includes(stock.symbol));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Watchlists
+            </CardTitle>
+            <CardDescription>
+              Follow NSE stocks and get notified when an alert rule is met on the latest market snapshot.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              className="w-44"
+              placeholder="New watchlist"
+              value={newListName}
+              onChange={event => setNewListName(event.target.value)}
+            />
+            <Button size="sm" onClick={handleCreateList} disabled={!newListName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Create
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && watchlists.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading watchlists...</p>
+          ) : !watchlist ? (
+            <p className="text-sm text-muted-foreground">Create a watchlist to start following stocks.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={watchlist.id} onValueChange={setSelectedId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {watchlists.map(list => (
+                      <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={symbolToAdd} onValueChange={setSymbolToAdd}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Add a stock" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {addableStocks.map(stock => (
+                      <SelectItem key={stock.symbol} value={stock.symbol}>{stock.symbol} - {stock.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleAddSymbol} disabled={!symbolToAdd}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+                <Button variant="ghost" size="sm" className="ml-auto text-destructive" onClick={handleDeleteList}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete Watchlist
+                </Button>
+              </div>
+
+              {watchlist.symbols.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No stocks in {watchlist.name} yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Symbol</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Volume</TableHead>
+                        <TableHead>Alerts</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {watchlist.symbols.map(symbol => {
+                        const quote = quotes.get(symbol);
+                        const symbolRules = rules.filter(rule => rule.symbol === symbol);
+                        return (
+                          <TableRow key={symbol}>
+                            <TableCell>
+                              <div className="font-medium">{symbol}</div>
+                              <div className="text-xs text-muted-foreground">{quote?.name}</div>
+                            </TableCell>
+                            <TableCell className="text-right">{quote ? formatCurrency(quote.price, 'KES') : '—'}</TableCell>
+                            <TableCell className={`text-right ${(quote?.changePercent || 0) >= 0 ? 'text-success' : 'text-destructive'}`}>
+                              {quote ? `${quote.changePercent >= 0 ? '+' : ''}${formatPercentage(quote.changePercent)}` : '—'}
+                            </TableCell>
+                            <TableCell className="text-right">{quote?.volume ? quote.volume.toLocaleString() : '—'}</TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {symbolRules.map(rule => (
+                                  <div key={rule.id} className="flex items-center gap-2 text-sm">
+                                    <Switch checked={rule.active} onCheckedChange={() => handleToggleRule(rule)} />
+                                    <span className={rule.active ? '' : 'text-muted-foreground'}>{describeRule(rule)}</span>
+                                    {rule.last_triggered_at && (
+                                      <Badge variant="outline">Last {formatDate(rule.last_triggered_at)}</Badge>
+                                    )}
+                                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDeleteRule(rule)}>
+                                      <X className="h-3 w-3" />
+                                    </Button>
+                                  </div>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateSymbols(watchlist.symbols.filter(existing => existing !== symbol))}
+                              >
+                                Remove
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {watchlist.symbols.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+                  <span className="text-sm font-medium">New alert</span>
+                  <Select value={ruleForm.symbol} onValueChange={symbol => setRuleForm(current => ({ ...current, symbol }))}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue placeholder="Symbol" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {watchlist.symbols.map(symbol => (
+                        <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={ruleForm.type} onValueChange={type => setRuleForm(current => ({ ...current, type: type as AlertRuleType }))}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_RULE_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{RULE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {needsThreshold && (
+                    <Input
+                      className="w-36"
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder={THRESHOLD_PLACEHOLDERS[ruleForm.type]}
+                      value={ruleForm.threshold}
+                      onChange={event => setRuleForm(current => ({ ...current, threshold: event.target.value }))}
+                    />
+                  )}
+                  {(ruleForm.type === 'price-cross' || ruleForm.type === 'percent-move') && (
+                    <Select
+                      value={ruleForm.direction}
+                      onValueChange={direction => setRuleForm(current => ({ ...current, direction: direction as AlertDirection }))}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALERT_DIRECTIONS.map(direction => (
+                          <SelectItem key={direction} value={direction}>{DIRECTION_LABELS[direction]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button size="sm" onClick={handleCreateRule} disabled={!ruleValid}>
+                    <Bell className="h-4 w-4 mr-1" />
+                    Add Alert
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Recent Alerts
+          </CardTitle>
+          <CardDescription>Alerts raised by your rules on recent market snapshots</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground">None of your alerts has fired yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {notifications.map(notification => (
+                <div key={notification.id} className="border rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{notification.title}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDate(notification.timestamp, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{notification.message}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WatchlistPanel;
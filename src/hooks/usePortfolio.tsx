@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import portfolioService, { CreatePortfolioData, InstrumentData, TransactionData, UpdatePortfolioData } from '@/services/portfolioService';
+import { Portfolio } from '@/types';
+
+interface PortfolioState {
+  portfolios: Portfolio[];
+  selectedId: string | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function usePortfolio() {
+  const [state, setState] = useState<PortfolioState>({
+    portfolios: [],
+    selectedId: null,
+    isLoading: true,
+    error: null
+  });
+
+  const updateState = useCallback((updates: Partial<PortfolioState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  // Replace a single portfolio in the list with the version returned by the backend
+  const replacePortfolio = useCallback((portfolio: Portfolio) => {
+    setState(prev => ({
+      ...prev,
+      portfolios: prev.portfolios.map(p => p.id === portfolio.id ? portfolio : p)
+    }));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    updateState({ isLoading: true, error: null });
+    try {
+      const portfolios = await portfolioService.getPortfolios();
+      setState(prev => ({
+        ...prev,
+        portfolios,
+        selectedId: portfolios.some(p => p.id === prev.selectedId) ? prev.selectedId : portfolios[0]?.id ?? null,
+        isLoading: false
+      }));
+    } catch (error) {
+      updateState({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load portfolios'
+      });
+    }
+  }, [updateState]);
+
+  const selectPortfolio = useCallback((id: string) => {
+    updateState({ selectedId: id });
+  }, [updateState]);
+
+  const createPortfolio = useCallback(async (data: CreatePortfolioData) => {
+    const portfolio = await portfolioService.createPortfolio(data);
+    setState(prev => ({
+      ...prev,
+      portfolios: [...prev.portfolios, portfolio],
+      selectedId: portfolio.id
+    }));
+    return portfolio;
+  }, []);
+
+  const updatePortfolio = useCallback(async (id: string, data: UpdatePortfolioData) => {
+    const portfolio = await portfolioService.updatePortfolio(id, data);
+    replacePortfolio(portfolio);
+    return portfolio;
+  }, [replacePortfolio]);
+
+  const deletePortfolio = useCallback(async (id: string) => {
+    await portfolioService.deletePortfolio(id);
+    setState(prev => {
+      const portfolios = prev.portfolios.filter(p => p.id !== id);
+      return {
+        ...prev,
+        portfolios,
+        selectedId: prev.selectedId === id ? portfolios[0]?.id ?? null : prev.selectedId
+      };
+    });
+  }, []);
+
+  const recordTransaction = useCallback(async (portfolioId: string, data: TransactionData) => {
+    const portfolio = await portfolioService.recordTransaction(portfolioId, data);
+    replacePortfolio(portfolio);
+    return portfolio;
+  }, [replacePortfolio]);
+
+  const reverseTransaction = useCallback(async (portfolioId: string, transactionId: string, note?: string) => {
+    const portfolio = await portfolioService.reverseTransaction(portfolioId, transactionId, note);
+    replacePortfolio(portfolio);
+    return portfolio;
+  }, [replacePortfolio]);
+
+  // New terms re-value the holding, so the portfolio is fetched again
+  const saveInstrument = useCallback(async (portfolioId: string, data: InstrumentData) => {
+    const instrument = await portfolioService.saveInstrument(portfolioId, data);
+    replacePortfolio(await portfolioService.getPortfolio(portfolioId));
+    return instrument;
+  }, [replacePortfolio]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selectedPortfolio = state.portfolios.find(p => p.id === state.selectedId) || null;
+
+  return {
+    ...state,
+    selectedPortfolio,
+    refresh,
+    selectPortfolio,
+    createPortfolio,
+    updatePortfolio,
+    deletePortfolio,
+    recordTransaction,
+    reverseTransaction,
+    saveInstrument
+  };
+}
+
+export default usePortfolio;
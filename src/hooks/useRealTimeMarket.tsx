@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import marketService from '@/services/marketService';
+import marketService, { MarketSessionStatus, NSEStock } from '@/services/marketService';
 
 interface MarketDataState {
   stocks: any[];
@@ -7,21 +7,43 @@ interface MarketDataState {
   isLoading: boolean;
   error: string | null;
   lastUpdated: Date | null;
+  isStale: boolean;
+  // True while snapshots are pushed over the market stream, false while polling
   isRealTime: boolean;
+  // From the NSE trading calendar; null until loaded
+  marketStatus: MarketSessionStatus | null;
 }
 
+// The session state changes with the clock rather than with snapshots, so it is refreshed on its own
+const STATUS_REFRESH_MS = 60 * 1000;
+
 interface UseRealTimeMarketOptions {
-  refreshInterval?: number; // in milliseconds
+  refreshInterval?: number; // polling fallback, in milliseconds
   enableRealTime?: boolean;
   maxRetries?: number;
+  symbols?: string[]; // subscribe to these only; all stocks when omitted
 }
 
+// Apply a pushed diff to the current quotes, keeping their order and appending new symbols
+const mergeQuotes = (current: NSEStock[], changed: NSEStock[], removed: string[]): NSEStock[] => {
+  const updates = new Map(changed.map(stock => [stock.symbol, stock]));
+  const gone = new Set(removed);
+  const merged = current
+    .filter(stock => !gone.has(stock.symbol))
+    .map(stock => updates.get(stock.symbol) ?? stock);
+  const known = new Set(current.map(stock => stock.symbol));
+  return [...merged, ...changed.filter(stock => !known.has(stock.symbol))];
+};
+
 export const useRealTimeMarket = (options: UseRealTimeMarketOptions = {}) => {
   const {
     refreshInterval = 30000, // 30 seconds default
     enableRealTime = true,
-    maxRetries = 3
+    maxRetries = 3,
+    symbols
   } = options;
+  // Stable across renders for the same symbol set
+  const symbolKey = symbols ? [...symbols].sort().join(',') : '';
 
   const [state, setState] = useState<MarketDataState>({
     stocks: [],
@@ -29,10 +51,13 @@ export const useRealTimeMarket = (options: UseRealTimeMarketOptions = {}) => {
     isLoading: true,
     error: null,
     lastUpdated: null,
-    isRealTime: false
+    isStale: false,
+    isRealTime: false,
+    marketStatus: null
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   const retryCountRef = useRef(0);
   const isActiveRef = useRef(true);
 
@@ -49,20 +74,22 @@ export const useRealTimeMarket = (options: UseRealTimeMarketOptions = {}) => {
     }
 
     try {
-      const [stocks, marketSummary] = await Promise.all([
-        marketService.getNSEStocks(),
+      const [snapshot, marketSummary] = await Promise.all([
+        marketService.getNSESnapshot(),
         marketService.getMarketSummary()
       ]);
 
       if (!isActiveRef.current) return;
 
+      const subscribed = symbolKey ? new Set(symbolKey.split(',')) : null;
       updateState({
-        stocks,
+        stocks: subscribed ? snapshot.stocks.filter(stock => subscribed.has(stock.symbol)) : snapshot.stocks,
         marketSummary,
         isLoading: false,
         error: null,
-        lastUpdated: new Date(),
-        isRealTime: true // Always true since we're getting live data
+        // When the backend snapshot was taken, not when we polled it
+        lastUpdated: snapshot.asOf ? new Date(snapshot.asOf) : new Date(),
+        isStale: snapshot.stale
       });
 
       retryCountRef.current = 0; // Reset retry count on success
@@ -91,23 +118,71 @@ export const useRealTimeMarket = (options: UseRealTimeMarketOptions = {}) => {
         }, retryDelay);
       }
     }
-  }, [updateState, maxRetries]);
+  }, [updateState, maxRetries, symbolKey]);
 
-  const startRealTimeUpdates = useCallback(() => {
-    if (!enableRealTime || intervalRef.current) return;
+  const startPolling = useCallback(() => {
+    if (intervalRef.current) return;
 
     intervalRef.current = setInterval(() => {
       fetchMarketData(false);
     }, refreshInterval);
-  }, [enableRealTime, refreshInterval, fetchMarketData]);
+  }, [refreshInterval, fetchMarketData]);
 
-  const stopRealTimeUpdates = useCallback(() => {
+  const stopPolling = useCallback(() => {
     if (intervalRef.current) {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
   }, []);
 
+  // Subscribe to pushed snapshots, polling only while the stream is down or unsupported
+  const startRealTimeUpdates = useCallback(() => {
+    if (!enableRealTime || unsubscribeRef.current || intervalRef.current) return;
+
+    unsubscribeRef.current = marketService.subscribeToMarket(symbolKey ? symbolKey.split(',') : [], {
+      onSnapshot: snapshot => {
+        retryCountRef.current = 0;
+        updateState({
+          stocks: snapshot.stocks,
+          marketSummary: snapshot.marketSummary,
+          isLoading: false,
+          error: null,
+          lastUpdated: snapshot.asOf ? new Date(snapshot.asOf) : new Date(),
+          isStale: snapshot.stale
+        });
+      },
+      onDiff: diff => {
+        if (!isActiveRef.current) return;
+        setState(prev => ({
+          ...prev,
+          stocks: mergeQuotes(prev.stocks, diff.changed, diff.removed),
+          marketSummary: diff.marketSummary,
+          lastUpdated: diff.asOf ? new Date(diff.asOf) : new Date(),
+          isStale: diff.stale
+        }));
+      },
+      onConnectionChange: connected => {
+        updateState({ isRealTime: connected });
+        if (connected) {
+          stopPolling();
+        } else if (isActiveRef.current) {
+          startPolling();
+        }
+      }
+    });
+
+    if (!unsubscribeRef.current) {
+      startPolling();
+    }
+  }, [enableRealTime, symbolKey, updateState, startPolling, stopPolling]);
+
+  const stopRealTimeUpdates = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    stopPolling();
+    updateState({ isRealTime: false });
+  }, [stopPolling, updateState]);
+
   const refresh = useCallback(() => {
     retryCountRef.current = 0;
     fetchMarketData(true);
@@ -141,11 +216,23 @@ export const useRealTimeMarket = (options: UseRealTimeMarketOptions = {}) => {
     }
 
     return () => {
-      isActiveRef.current = false;
       stopRealTimeUpdates();
+      isActiveRef.current = false;
     };
   }, [fetchMarketData, startRealTimeUpdates, stopRealTimeUpdates, enableRealTime]);
 
+  // Keep the open/closed state current
+  useEffect(() => {
+    const loadStatus = async () => {
+      const marketStatus = await marketService.getMarketStatus();
+      if (marketStatus) updateState({ marketStatus });
+    };
+
+    loadStatus();
+    const interval = setInterval(loadStatus, STATUS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [updateState]);
+
   // Handle visibility change to pause/resume updates when tab is not active
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -173,11 +260,12 @@ export const useRealTimeMarket = (options: UseRealTimeMarketOptions = {}) => {
   };
 }
 
-// Utility hook for individual stock tracking
+// Utility hook for individual stock tracking, pushed over the market stream with polling as the fallback
 export function useStockData(symbol: string, refreshInterval: number = 30000) {
   const [stock, setStock] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isRealTime, setIsRealTime] = useState(false);
 
   const fetchStock = useCallback(async () => {
     try {
@@ -193,10 +281,41 @@ export function useStockData(symbol: string, refreshInterval: number = 30000) {
   }, [symbol]);
 
   useEffect(() => {
+    let interval: NodeJS.Timeout | null = null;
+    const startPolling = () => {
+      if (!interval) interval = setInterval(fetchStock, refreshInterval);
+    };
+    const stopPolling = () => {
+      if (interval) clearInterval(interval);
+      interval = null;
+    };
+
+    // The single-stock route adds fundamentals, so pushed quotes are merged into what it returned
+    const applyQuote = (quotes: NSEStock[]) => {
+      const quote = quotes.find(item => item.symbol === symbol.toUpperCase());
+      if (quote) setStock((current: NSEStock | null) => ({ ...current, ...quote }));
+    };
+
     fetchStock();
-    const interval = setInterval(fetchStock, refreshInterval);
-    return () => clearInterval(interval);
-  }, [fetchStock, refreshInterval]);
+    const unsubscribe = marketService.subscribeToMarket([symbol.toUpperCase()], {
+      onSnapshot: snapshot => applyQuote(snapshot.stocks),
+      onDiff: diff => applyQuote(diff.changed),
+      onConnectionChange: connected => {
+        setIsRealTime(connected);
+        if (connected) {
+          stopPolling();
+        } else {
+          startPolling();
+        }
+      }
+    });
+    if (!unsubscribe) startPolling();
+
+    return () => {
+      unsubscribe?.();
+      stopPolling();
+    };
+  }, [symbol, fetchStock, refreshInterval]);
 
-  return { stock, isLoading, error, refresh: fetchStock };
+  return { stock, isLoading, error, isRealTime, refresh: fetchStock };
 }
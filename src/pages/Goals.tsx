@@ -0,0 +1,416 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Area, ComposedChart, CartesianGrid, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Flag, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { formatCurrency, formatDate, formatLargeNumber, formatPercentage } from '@/lib/formatters';
+import { GOAL_PRIORITIES } from '@/ai/goalPlanning';
+import { GoalPriority, GoalProjection } from '@/ai/types';
+import portfolioService from '@/services/portfolioService';
+import goalService, { Goal, GoalProjectionResponse } from '@/services/goalService';
+import { Portfolio } from '@/types';
+
+const PRIORITY_STYLES: Record<GoalPriority, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+};
+
+interface GoalForm {
+  name: string;
+  target_amount: string;
+  target_date: string;
+  monthly_contribution: string;
+  priority: GoalPriority;
+}
+
+const EMPTY_FORM: GoalForm = { name: '', target_amount: '', target_date: '', monthly_contribution: '', priority: 'medium' };
+
+const probabilityStyle = (probability: number): string => {
+  if (probability >= 0.8) return 'text-success';
+  if (probability >= 0.5) return 'text-warning';
+  return 'text-destructive';
+};
+
+// Percentile bands as [low, high] pairs, which recharts draws as ranged areas
+const fanData = (goal: GoalProjection) => goal.fan.map(point => ({
+  date: point.date,
+  outer: [point.p5, point.p95],
+  inner: [point.p25, point.p75],
+  median: point.p50,
+}));
+
+const Goals = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [projection, setProjection] = useState<GoalProjectionResponse | null>(null);
+  const [projecting, setProjecting] = useState(false);
+  const [form, setForm] = useState<GoalForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const portfolioId = searchParams.get('portfolio') ?? portfolios[0]?.id ?? '';
+
+  useEffect(() => {
+    portfolioService.getPortfolios()
+      .then(setPortfolios)
+      .catch(error => console.error('Failed to load portfolios:', error));
+  }, []);
+
+  const loadGoals = useCallback(async () => {
+    if (!portfolioId) return;
+    setProjecting(true);
+    try {
+      const [portfolioGoals, portfolioProjection] = await Promise.all([
+        goalService.getGoals(portfolioId),
+        goalService.getProjection(portfolioId),
+      ]);
+      setGoals(portfolioGoals);
+      setProjection(portfolioProjection);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to project goals',
+        variant: 'destructive',
+      });
+    } finally {
+      setProjecting(false);
+    }
+  }, [portfolioId, toast]);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  const formValid = form.name.trim() !== '' && Number(form.target_amount) > 0 && form.target_date !== '' &&
+    (form.monthly_contribution === '' || Number(form.monthly_contribution) >= 0);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data = {
+        portfolio_id: portfolioId,
+        name: form.name.trim(),
+        target_amount: Number(form.target_amount),
+        target_date: form.target_date,
+        monthly_contribution: Number(form.monthly_contribution || 0),
+        priority: form.priority,
+      };
+      if (editingId) {
+        await goalService.updateGoal(editingId, data);
+      } else {
+        await goalService.createGoal(data);
+      }
+      toast({ title: editingId ? 'Goal updated' : 'Goal added', description: data.name });
+      resetForm();
+      await loadGoals();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save goal',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (goal: Goal) => {
+    setEditingId(goal.id);
+    setForm({
+      name: goal.name,
+      target_amount: String(goal.target_amount),
+      target_date: goal.target_date,
+      monthly_contribution: String(goal.monthly_contribution),
+      priority: goal.priority,
+    });
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    try {
+      await goalService.deleteGoal(goal.id);
+      if (editingId === goal.id) resetForm();
+      await loadGoals();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete goal',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const plan = projection?.plan;
+  const confidence = plan ? Math.round(plan.confidence * 100) : 80;
+  // Goals the projection left out because their date has passed
+  const unprojected = plan ? goals.filter(goal => !plan.goals.some(projected => projected.goalId === goal.id)) : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to dashboard
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Flag className="h-5 w-5 text-primary" />
+                  Financial goals
+                </CardTitle>
+                <CardDescription>
+                  Chances of reaching each goal from simulated returns of the portfolio that funds it
+                </CardDescription>
+              </div>
+              {portfolios.length > 0 && (
+                <Select value={portfolioId} onValueChange={id => { resetForm(); setSearchParams({ portfolio: id }); }}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Select portfolio" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {portfolios.map(portfolio => (
+                      <SelectItem key={portfolio.id} value={portfolio.id}>{portfolio.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </CardHeader>
+          {plan && (
+            <CardContent className="space-y-2 text-sm text-muted-foreground">
+              <p>
+                Starting from {formatCurrency(plan.startValue, 'KES')} in {projection.portfolioName}, assuming{' '}
+                {formatPercentage(plan.expectedReturn * 100, 1)} a year on average with{' '}
+                {formatPercentage(plan.volatility * 100, 1)} volatility over {plan.simulations.toLocaleString()} simulations.
+              </p>
+              {plan.warnings.map(warning => (
+                <p key={warning} className="text-warning">{warning}</p>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+
+        {portfolios.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Create a portfolio on the dashboard to plan goals against it.
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingId ? 'Edit goal' : 'Add a goal'}</CardTitle>
+              <CardDescription>
+                Higher-priority goals get first call on the portfolio's current value
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="goal-name">Name</Label>
+                  <Input
+                    id="goal-name"
+                    value={form.name}
+                    placeholder="e.g. Deposit for a house"
+                    onChange={event => setForm(current => ({ ...current, name: event.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="goal-target">Target (KES)</Label>
+                  <Input
+                    id="goal-target"
+                    type="number"
+                    min={0}
+                    value={form.target_amount}
+                    onChange={event => setForm(current => ({ ...current, target_amount: event.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="goal-date">Target date</Label>
+                  <Input
+                    id="goal-date"
+                    type="date"
+                    value={form.target_date}
+                    onChange={event => setForm(current => ({ ...current, target_date: event.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="goal-contribution">Monthly (KES)</Label>
+                  <Input
+                    id="goal-contribution"
+                    type="number"
+                    min={0}
+                    value={form.monthly_contribution}
+                    onChange={event => setForm(current => ({ ...current, monthly_contribution: event.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-col md:flex-row md:items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={form.priority} onValueChange={value => setForm(current => ({ ...current, priority: value as GoalPriority }))}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GOAL_PRIORITIES.map(priority => (
+                        <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleSave} disabled={!formValid || saving || !portfolioId}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {editingId ? 'Save changes' : 'Add goal'}
+                  </Button>
+                  {editingId && <Button variant="outline" onClick={resetForm}>Cancel</Button>}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {projecting && !plan && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Running simulations...
+          </div>
+        )}
+
+        {plan?.goals.map(projected => {
+          const goal = goals.find(candidate => candidate.id === projected.goalId);
+          return (
+            <Card key={projected.goalId}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {projected.name}
+                      <Badge className={PRIORITY_STYLES[projected.priority]}>{projected.priority}</Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      {formatCurrency(projected.targetAmount, 'KES')} by {formatDate(projected.targetDate)} •{' '}
+                      {formatCurrency(projected.monthlyContribution, 'KES')} a month
+                    </CardDescription>
+                  </div>
+                  {goal && (
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(goal)} aria-label="Edit goal">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(goal)} aria-label="Delete goal">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Chance of success</p>
+                    <p className={`text-2xl font-bold ${probabilityStyle(projected.probability)}`}>
+                      {formatPercentage(projected.probability * 100, 0)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Median outcome</p>
+                    <p className="text-lg font-semibold">{formatCurrency(projected.medianValue, 'KES')}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Set aside from portfolio</p>
+                    <p className="text-lg font-semibold">{formatCurrency(projected.allocatedValue, 'KES')}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Monthly for {confidence}% confidence</p>
+                    <p className="text-lg font-semibold">
+                      {projected.requiredContribution !== null ? formatCurrency(projected.requiredContribution, 'KES') : '—'}
+                    </p>
+                  </div>
+                </div>
+
+                {projected.fan.length > 1 && (
+                  <ResponsiveContainer width="100%" height={260}>
+                    <ComposedChart data={fanData(projected)}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tickFormatter={date => String(date).slice(0, 7)} minTickGap={24} />
+                      <YAxis tickFormatter={value => formatLargeNumber(Number(value))} width={60} />
+                      <Tooltip
+                        labelFormatter={date => formatDate(String(date))}
+                        formatter={(value, name) => [
+                          Array.isArray(value)
+                            ? value.map(bound => formatCurrency(Number(bound), 'KES')).join(' – ')
+                            : formatCurrency(Number(value), 'KES'),
+                          name,
+                        ]}
+                      />
+                      <Area dataKey="outer" name="5th–95th percentile" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.12} />
+                      <Area dataKey="inner" name="25th–75th percentile" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.25} />
+                      <Line dataKey="median" name="Median" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                      <ReferenceLine y={projected.targetAmount} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label="Target" />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {unprojected.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Past their target date</CardTitle>
+              <CardDescription>Move the date or remove these goals to plan them again</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {unprojected.map(goal => (
+                <div key={goal.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {goal.name} • {formatCurrency(goal.target_amount, 'KES')} by {formatDate(goal.target_date)}
+                  </span>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(goal)} aria-label="Edit goal">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(goal)} aria-label="Delete goal">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {plan && goals.length === 0 && (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              No goals for this portfolio yet.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Goals;
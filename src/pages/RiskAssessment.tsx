@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowRight, Loader2, Shield } from 'lucide-react';
+import { FINANCIAL_GOALS, RISK_CHOICE_QUESTIONS } from '@/ai/riskAssessment';
+import { RiskChoiceQuestionId } from '@/ai/types';
+import riskAssessmentService, { RiskAssessmentAnswers, RiskAssessmentRecord } from '@/services/riskAssessmentService';
+
+type ChoiceField = 'income_stability' | 'investment_experience' | 'drawdown_reaction' | 'return_preference' | 'loss_tolerance';
+
+const CHOICE_FIELDS: Record<RiskChoiceQuestionId, ChoiceField> = {
+  incomeStability: 'income_stability',
+  investmentExperience: 'investment_experience',
+  drawdownReaction: 'drawdown_reaction',
+  returnPreference: 'return_preference',
+  lossTolerance: 'loss_tolerance',
+};
+
+const STEPS: { title: string; description: string; questions: RiskChoiceQuestionId[] }[] = [
+  {
+    title: 'Your finances',
+    description: 'How much risk your finances can absorb',
+    questions: ['incomeStability'],
+  },
+  {
+    title: 'Goals and experience',
+    description: 'What you are investing for and what you have invested in',
+    questions: ['investmentExperience'],
+  },
+  {
+    title: 'Attitude to risk',
+    description: 'How you feel about losses and swings in value',
+    questions: ['drawdownReaction', 'returnPreference', 'lossTolerance'],
+  },
+];
+
+const PROFILE_STYLES: Record<string, string> = {
+  conservative: 'bg-blue-100 text-blue-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  aggressive: 'bg-red-100 text-red-800',
+};
+
+interface NumberFields {
+  investment_horizon: string;
+  monthly_income: string;
+  monthly_debt_payments: string;
+  emergency_fund_months: string;
+}
+
+const RiskAssessment = () => {
+  const navigate = useNavigate();
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState(0);
+  const [numbers, setNumbers] = useState<NumberFields>({
+    investment_horizon: '',
+    monthly_income: user?.monthlyIncome ? String(user.monthlyIncome) : '',
+    monthly_debt_payments: '',
+    emergency_fund_months: '',
+  });
+  const [choices, setChoices] = useState<Partial<Record<ChoiceField, string>>>({});
+  const [goals, setGoals] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<RiskAssessmentRecord | null>(null);
+  const [history, setHistory] = useState<RiskAssessmentRecord[]>([]);
+
+  useEffect(() => {
+    riskAssessmentService.getHistory()
+      .then(setHistory)
+      .catch(error => console.error('Failed to load risk assessment history:', error));
+  }, []);
+
+  const numberValid = (field: keyof NumberFields) =>
+    numbers[field].trim() !== '' && Number.isFinite(Number(numbers[field])) && Number(numbers[field]) >= 0;
+
+  const stepComplete = (index: number): boolean => {
+    const choicesAnswered = STEPS[index].questions.every(id => choices[CHOICE_FIELDS[id]]);
+    if (index === 0) {
+      return choicesAnswered && (Object.keys(numbers) as (keyof NumberFields)[]).every(numberValid);
+    }
+    return choicesAnswered;
+  };
+
+  const toggleGoal = (goal: string, checked: boolean) => {
+    setGoals(current => checked ? [...current, goal] : current.filter(value => value !== goal));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const answers: RiskAssessmentAnswers = {
+        investment_horizon: Number(numbers.investment_horizon),
+        monthly_income: Number(numbers.monthly_income),
+        monthly_debt_payments: Number(numbers.monthly_debt_payments),
+        emergency_fund_months: Number(numbers.emergency_fund_months),
+        financial_goals: goals,
+        ...(choices as Record<ChoiceField, string>),
+      };
+      const { assessment } = await riskAssessmentService.submitAssessment(answers);
+      refreshUser();
+      setResult(assessment);
+      setHistory(current => [assessment, ...current]);
+      toast({
+        title: 'Risk profile updated',
+        description: `Your recommendations now follow a ${assessment.risk_tolerance} profile.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit risk assessment',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const restart = () => {
+    setResult(null);
+    setStep(0);
+  };
+
+  const renderChoiceQuestion = (id: RiskChoiceQuestionId) => {
+    const field = CHOICE_FIELDS[id];
+    const question = RISK_CHOICE_QUESTIONS[id];
+    return (
+      <div key={id} className="space-y-3">
+        <Label className="text-base">{question.prompt}</Label>
+        <RadioGroup value={choices[field] ?? ''} onValueChange={value => setChoices(current => ({ ...current, [field]: value }))}>
+          {question.options.map(option => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.value} id={`${field}-${option.value}`} />
+              <Label htmlFor={`${field}-${option.value}`} className="font-normal">{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+    );
+  };
+
+  const renderNumberField = (field: keyof NumberFields, label: string, hint: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        type="number"
+        min={0}
+        value={numbers[field]}
+        onChange={event => setNumbers(current => ({ ...current, [field]: event.target.value }))}
+      />
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to dashboard
+        </Button>
+
+        {result ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-primary" />
+                Your risk profile
+              </CardTitle>
+              <CardDescription>
+                Recommendations and portfolio analysis now use this profile
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center gap-4">
+                <div className="text-4xl font-bold">{result.score}</div>
+                <div>
+                  <Badge className={PROFILE_STYLES[result.risk_tolerance]}>{result.risk_tolerance}</Badge>
+                  <p className="text-xs text-muted-foreground mt-1">Score out of 100</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span>Capacity for risk</span>
+                    <span>{result.assessment_data.capacityScore ?? '—'}</span>
+                  </div>
+                  <Progress value={result.assessment_data.capacityScore ?? 0} />
+                </div>
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span>Willingness to take risk</span>
+                    <span>{result.assessment_data.willingnessScore ?? '—'}</span>
+                  </div>
+                  <Progress value={result.assessment_data.willingnessScore ?? 0} />
+                </div>
+              </div>
+
+              {(result.assessment_data.constraints ?? []).length > 0 && (
+                <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                  {result.assessment_data.constraints!.map(constraint => (
+                    <li key={constraint}>{constraint}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={() => navigate('/dashboard')}>Go to dashboard</Button>
+                <Button variant="outline" onClick={restart}>Retake questionnaire</Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{STEPS[step].title}</CardTitle>
+              <CardDescription>
+                Step {step + 1} of {STEPS.length} • {STEPS[step].description}
+              </CardDescription>
+              <Progress value={((step + 1) / STEPS.length) * 100} className="mt-2" />
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {step === 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {renderNumberField('investment_horizon', 'Investment horizon (years)', 'When you expect to need most of this money')}
+                  {renderNumberField('emergency_fund_months', 'Emergency fund (months)', 'Months of essential expenses held in cash or a money market fund')}
+                  {renderNumberField('monthly_income', 'Monthly income (KES)', 'After tax, from all sources')}
+                  {renderNumberField('monthly_debt_payments', 'Monthly debt repayments (KES)', 'Loans, mortgages, credit cards and mobile loans')}
+                </div>
+              )}
+
+              {step === 1 && (
+                <div className="space-y-3">
+                  <Label className="text-base">What are you investing for?</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {FINANCIAL_GOALS.map(goal => (
+                      <div key={goal.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`goal-${goal.value}`}
+                          checked={goals.includes(goal.value)}
+                          onCheckedChange={checked => toggleGoal(goal.value, checked === true)}
+                        />
+                        <Label htmlFor={`goal-${goal.value}`} className="font-normal">{goal.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {STEPS[step].questions.map(renderChoiceQuestion)}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0 || submitting}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+                {step < STEPS.length - 1 ? (
+                  <Button onClick={() => setStep(step + 1)} disabled={!stepComplete(step)}>
+                    Next
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                ) : (
+                  <Button onClick={handleSubmit} disabled={!STEPS.every((_, index) => stepComplete(index)) || submitting}>
+                    {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    See my risk profile
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {history.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Past assessments</CardTitle>
+              <CardDescription>The latest sets the risk profile your recommendations use</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead>Profile</TableHead>
+                    <TableHead className="text-right">Horizon</TableHead>
+                    <TableHead className="text-right">Emergency fund</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(assessment => (
+                    <TableRow key={assessment.id}>
+                      <TableCell>{new Date(assessment.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">{assessment.score}</TableCell>
+                      <TableCell>
+                        <Badge className={PROFILE_STYLES[assessment.risk_tolerance]}>{assessment.risk_tolerance}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{assessment.investment_horizon} yrs</TableCell>
+                      <TableCell className="text-right">
+                        {assessment.emergency_fund_months !== null ? `${assessment.emergency_fund_months} months` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RiskAssessment;
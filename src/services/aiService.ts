@@ -0,0 +1,87 @@
+import axios from 'axios';
+import authService from '@/services/authService';
+import { AIAlert, AIModelPerformance, AIRecommendation, LocalOpportunity } from '@/ai/types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export interface InvestmentAdviceRequest {
+  portfolio_id?: string;
+  investment_amount?: number;
+  risk_tolerance?: 'conservative' | 'moderate' | 'aggressive';
+  time_horizon?: 'short' | 'medium' | 'long';
+}
+
+export interface InvestmentAdvice {
+  riskProfile: 'conservative' | 'moderate' | 'aggressive';
+  investmentAmount: number;
+  timeHorizon: 'short' | 'medium' | 'long';
+  recommendations: AIRecommendation[];
+  opportunities: LocalOpportunity[];
+}
+
+export interface ModelPerformanceFilter {
+  type?: AIRecommendation['type'];
+  risk_level?: AIRecommendation['riskLevel'];
+  sector?: string;
+}
+
+class AIService {
+  private authHeaders() {
+    const token = authService.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // Backend returns { success: false, error } or { success: false, errors: [{ msg }] }
+  private toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const message = data?.error || data?.errors?.[0]?.msg;
+      if (message) return new Error(message);
+    }
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  // Issued by the backend, which records each recommendation so its outcome can be scored
+  async getInvestmentAdvice(request: InvestmentAdviceRequest): Promise<InvestmentAdvice> {
+    try {
+      console.log('💡 Requesting investment advice...');
+      const response = await axios.post(`${API_BASE_URL}/ai/investment-advice`, request, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error requesting investment advice:', error);
+      throw this.toError(error, 'Failed to get investment advice');
+    }
+  }
+
+  // Assesses the portfolio on the backend, which stores its alerts; returns the stored alerts with their read state
+  async getRiskAlerts(portfolioId: string, lookbackDays?: number): Promise<AIAlert[]> {
+    try {
+      console.log('🔄 Fetching risk alerts...', portfolioId);
+      const response = await axios.post(
+        `${API_BASE_URL}/ai/risk-alerts`,
+        { portfolio_id: portfolioId, lookback_days: lookbackDays },
+        { headers: this.authHeaders() }
+      );
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching risk alerts:', error);
+      throw this.toError(error, 'Failed to fetch risk alerts');
+    }
+  }
+
+  async getModelPerformance(filter: ModelPerformanceFilter = {}): Promise<AIModelPerformance> {
+    try {
+      console.log('🔄 Fetching model performance...', filter);
+      const response = await axios.get(`${API_BASE_URL}/ai/model-performance`, {
+        params: filter,
+        headers: this.authHeaders(),
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error fetching model performance:', error);
+      throw this.toError(error, 'Failed to fetch model performance');
+    }
+  }
+}
+
+export default new AIService();
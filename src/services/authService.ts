@@ -13,8 +13,12 @@ export interface User {
   dateOfBirth?: string;
   investmentExperience: 'beginner' | 'intermediate' | 'advanced';
   riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  // Score (0-100) of the latest risk assessment, which set riskTolerance
+  riskScore?: number | null;
+  riskAssessedAt?: string | null;
   investmentGoals: string[];
   monthlyIncome?: number;
+  role?: 'user' | 'admin';
   createdAt: string;
   updatedAt: string;
 }
@@ -86,6 +90,11 @@ class AuthService {
     return userStr ? JSON.parse(userStr) : null;
   }
 
+  // Keep the stored user in step with profile changes made elsewhere (e.g. a risk assessment)
+  storeUser(user: User): void {
+    localStorage.setItem('user', JSON.stringify(user));
+  }
+
   getToken(): string | null {
     return localStorage.getItem('auth_token');
   }
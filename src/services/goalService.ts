@@ -0,0 +1,112 @@
+import axios from 'axios';
+import authService from '@/services/authService';
+import { GoalPlan, GoalPriority } from '@/ai/types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  portfolio_id: string;
+  name: string;
+  // KES
+  target_amount: number;
+  target_date: string;
+  monthly_contribution: number;
+  priority: GoalPriority;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GoalData {
+  portfolio_id: string;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  monthly_contribution?: number;
+  priority?: GoalPriority;
+}
+
+export interface GoalProjectionResponse {
+  portfolioId: string;
+  portfolioName: string;
+  plan: GoalPlan;
+}
+
+class GoalService {
+  private authHeaders() {
+    const token = authService.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // Backend returns { success: false, error } or { success: false, errors: [{ msg }] }
+  private toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const message = data?.error || data?.errors?.[0]?.msg;
+      if (message) return new Error(message);
+    }
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  async getGoals(portfolioId?: string): Promise<Goal[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/goals`, {
+        headers: this.authHeaders(),
+        params: portfolioId ? { portfolio_id: portfolioId } : undefined,
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching goals:', error);
+      throw this.toError(error, 'Failed to fetch goals');
+    }
+  }
+
+  async createGoal(data: GoalData): Promise<Goal> {
+    try {
+      console.log('🔄 Creating goal:', data.name);
+      const response = await axios.post(`${API_BASE_URL}/goals`, data, { headers: this.authHeaders() });
+      console.log('✅ Goal created');
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error creating goal:', error);
+      throw this.toError(error, 'Failed to create goal');
+    }
+  }
+
+  async updateGoal(id: string, data: Partial<GoalData>): Promise<Goal> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/goals/${id}`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error updating goal:', error);
+      throw this.toError(error, 'Failed to update goal');
+    }
+  }
+
+  async deleteGoal(id: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/goals/${id}`, { headers: this.authHeaders() });
+    } catch (error) {
+      console.error('❌ Error deleting goal:', error);
+      throw this.toError(error, 'Failed to delete goal');
+    }
+  }
+
+  // Monte Carlo projection of every goal the portfolio funds
+  async getProjection(portfolioId: string): Promise<GoalProjectionResponse> {
+    try {
+      console.log('🔄 Projecting goals for portfolio:', portfolioId);
+      const response = await axios.get(`${API_BASE_URL}/goals/projection`, {
+        headers: this.authHeaders(),
+        params: { portfolio_id: portfolioId },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error projecting goals:', error);
+      throw this.toError(error, 'Failed to project goals');
+    }
+  }
+}
+
+export default new GoalService();
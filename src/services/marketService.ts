@@ -1,5 +1,6 @@
 import axios from 'axios';
-import { MarketStock, MarketData, ApiResponse } from '@/types';
+import { MarketStock, MarketData, ApiResponse, TimeRange, CorporateAction, FundamentalRatios, StockDividends, MarketStatus } from '@/types';
+import { ListingSegment, NSESector } from '@/ai/types';
 
 const API_BASE_URL = 'http://localhost:5000/api';
 
@@ -10,9 +11,16 @@ export interface NSEStock {
   change: number;
   changePercent: number;
   volume: number;
+  // From the backend's symbol master; unset for symbols it does not list yet
   marketCap?: number;
-  sector?: string;
+  sector?: NSESector;
+  isin?: string;
+  segment?: ListingSegment;
+  sharesOutstanding?: number;
+  boardLot?: number;
   dataSource?: string;
+  // Single-stock responses only: ratios from the latest reported results, null when none are stored
+  fundamentals?: FundamentalRatios | null;
 }
 
 export interface HistoricalData {
@@ -25,6 +33,16 @@ export interface HistoricalData {
   adjustedClose?: number;
 }
 
+// Freshness of data served from the backend snapshot store
+export interface SnapshotMeta {
+  asOf: string | null;
+  stale: boolean;
+}
+
+export interface NSEStocksSnapshot extends SnapshotMeta {
+  stocks: NSEStock[];
+}
+
 export interface MarketSummary {
   index: string;
   value: number;
@@ -34,36 +52,156 @@ export interface MarketSummary {
   timestamp: string;
 }
 
+// Events of GET /market/stream; `marketSummary` carries the same fields as getMarketSummary
+export interface MarketStreamSnapshot extends SnapshotMeta {
+  stocks: NSEStock[];
+  marketSummary: MarketSummary;
+}
+
+export interface MarketStreamDiff extends SnapshotMeta {
+  // Quotes that are new or moved since the previous snapshot
+  changed: NSEStock[];
+  removed: string[];
+  marketSummary: MarketSummary;
+}
+
+export interface MarketStreamHandlers {
+  onSnapshot: (snapshot: MarketStreamSnapshot) => void;
+  onDiff: (diff: MarketStreamDiff) => void;
+  // Called with false when the connection drops; EventSource keeps retrying until unsubscribed
+  onConnectionChange: (connected: boolean) => void;
+}
+
+export interface MarketClosureDay {
+  date: string;
+  name: string;
+  // holiday: a Kenyan public holiday; closure: an ad-hoc closure recorded by an admin
+  source: 'holiday' | 'closure';
+}
+
+// NSE session state from the backend's trading calendar (Africa/Nairobi)
+export interface MarketSessionStatus {
+  status: MarketStatus;
+  isOpen: boolean;
+  timezone: string;
+  now: string;
+  session: { open: string; close: string } | null;
+  nextOpen: string;
+  lastClose: string;
+  closure: MarketClosureDay | null;
+  upcomingClosures: MarketClosureDay[];
+}
+
+// An NSE listing in the backend's symbol master
+export interface ListedSymbol {
+  symbol: string;
+  name: string;
+  sector: NSESector;
+  isin: string | null;
+  segment: ListingSegment;
+  shares_outstanding: number | null;
+  board_lot: number;
+  // At the latest price; null without shares outstanding or a quote
+  market_cap: number | null;
+}
+
+export interface SymbolMaster {
+  symbols: ListedSymbol[];
+  // Quoted symbols the master does not list yet
+  unclassified: string[];
+}
+
+export type MarketIndexCode = 'NASI' | 'NSE20' | 'NSE25';
+
+export interface MarketIndex {
+  index: MarketIndexCode;
+  name: string;
+  value: number;
+  change: number;
+  changePercent: number;
+  timestamp: string;
+}
+
+export interface IndexHistoryBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
 class MarketService {
-  // Get NSE stocks from backend only
-  async getNSEStocks(): Promise<NSEStock[]> {
+  // Get the latest stored NSE snapshot with its freshness metadata
+  async getNSESnapshot(): Promise<NSEStocksSnapshot> {
     try {
       console.log('🔄 Fetching NSE stocks from backend...');
       const response = await axios.get(`${API_BASE_URL}/market/nse/stocks`);
       
-      // Backend returns { success: true, data: [...], timestamp, count }
+      // Backend returns { success: true, data: [...], asOf, stale, count }
       const stocks = response.data.data || [];
       console.log(`📊 Retrieved ${stocks.length} NSE stocks from backend`);
       
       // Add dataSource for dashboard compatibility
       const stocksWithSource = stocks.map((stock: NSEStock) => ({
         ...stock,
-        dataSource: 'NSE Web Scraper (Live)'
+        dataSource: response.data.stale ? 'NSE Snapshot (Delayed)' : 'NSE Snapshot'
       }));
       
-      return stocksWithSource;
+      return {
+        stocks: stocksWithSource,
+        asOf: response.data.asOf || null,
+        stale: !!response.data.stale
+      };
     } catch (error) {
       console.error('❌ Error fetching NSE stocks:', error);
-      return [];
+      return { stocks: [], asOf: null, stale: false };
     }
   }
 
+  // Get NSE stocks from backend only
+  async getNSEStocks(): Promise<NSEStock[]> {
+    const snapshot = await this.getNSESnapshot();
+    return snapshot.stocks;
+  }
+
+  /**
+   * Subscribe to snapshot pushes for the given symbols (all when empty). Returns the
+   * unsubscribe function, or null when the browser has no EventSource.
+   */
+  subscribeToMarket(symbols: string[], handlers: MarketStreamHandlers): (() => void) | null {
+    if (typeof EventSource === 'undefined') return null;
+
+    const query = symbols.length > 0 ? `?symbols=${encodeURIComponent(symbols.join(','))}` : '';
+    const source = new EventSource(`${API_BASE_URL}/market/stream${query}`);
+    const withSource = (stocks: NSEStock[], stale: boolean) =>
+      stocks.map(stock => ({ ...stock, dataSource: stale ? 'NSE Snapshot (Delayed)' : 'NSE Snapshot' }));
+
+    source.onopen = () => {
+      console.log('✅ Market stream connected');
+      handlers.onConnectionChange(true);
+    };
+    source.onerror = () => {
+      console.warn('⚠️ Market stream disconnected');
+      handlers.onConnectionChange(false);
+    };
+    source.addEventListener('snapshot', event => {
+      const snapshot: MarketStreamSnapshot = JSON.parse((event as MessageEvent).data);
+      handlers.onSnapshot({ ...snapshot, stocks: withSource(snapshot.stocks, snapshot.stale) });
+    });
+    source.addEventListener('diff', event => {
+      const diff: MarketStreamDiff = JSON.parse((event as MessageEvent).data);
+      handlers.onDiff({ ...diff, changed: withSource(diff.changed, diff.stale) });
+    });
+
+    return () => source.close();
+  }
+
   // Get specific stock data from backend
   async getStock(symbol: string): Promise<NSEStock | null> {
     try {
       console.log(`🔄 Fetching stock data for ${symbol}...`);
       const response = await axios.get(`${API_BASE_URL}/market/stock/${symbol}`);
-      // Backend returns { success: true, data: {...}, timestamp }
+      // Backend returns { success: true, data: {...}, asOf, stale }
       return response.data.data || null;
     } catch (error) {
       console.error(`❌ Error fetching stock ${symbol}:`, error);
@@ -72,7 +210,7 @@ class MarketService {
   }
 
   // Get historical data from backend
-  async getHistoricalData(symbol: string, period: string = '1M'): Promise<HistoricalData[]> {
+  async getHistoricalData(symbol: string, period: TimeRange = '1M'): Promise<HistoricalData[]> {
     try {
       console.log(`🔄 Fetching historical data for ${symbol} (${period})...`);
       const response = await axios.get(`${API_BASE_URL}/market/stock/${symbol}/history`, {
@@ -91,7 +229,7 @@ class MarketService {
     try {
       console.log('🔄 Fetching market summary...');
       const response = await axios.get(`${API_BASE_URL}/market/summary`);
-      // Backend returns { success: true, data: {...}, timestamp, source }
+      // Backend returns { success: true, data: {...}, asOf, stale, source }
       return response.data.data || null;
     } catch (error) {
       console.error('❌ Error fetching market summary:', error);
@@ -99,12 +237,89 @@ class MarketService {
     }
   }
 
+  // Get whether the NSE is open, with the next open and upcoming holidays
+  async getMarketStatus(): Promise<MarketSessionStatus | null> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/market/status`);
+      return response.data.data || null;
+    } catch (error) {
+      console.error('❌ Error fetching market status:', error);
+      return null;
+    }
+  }
+
+  // Get the latest NASI, NSE 20 and NSE 25 levels from backend
+  async getIndices(): Promise<MarketIndex[]> {
+    try {
+      console.log('🔄 Fetching NSE indices...');
+      const response = await axios.get(`${API_BASE_URL}/market/indices`);
+      // Backend returns { success: true, data: [...], asOf, stale, count }
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching NSE indices:', error);
+      return [];
+    }
+  }
+
+  // Get stored history of an index level from backend
+  async getIndexHistory(index: MarketIndexCode, period: TimeRange = '1M'): Promise<IndexHistoryBar[]> {
+    try {
+      console.log(`🔄 Fetching ${index} history (${period})...`);
+      const response = await axios.get(`${API_BASE_URL}/market/indices/${index}/history`, {
+        params: { period }
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`❌ Error fetching ${index} history:`, error);
+      return [];
+    }
+  }
+
+  // Get a stock's dividends, bonus issues, splits and rights issues from backend
+  async getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+    try {
+      console.log(`🔄 Fetching corporate actions for ${symbol}...`);
+      const response = await axios.get(`${API_BASE_URL}/market/stock/${symbol}/corporate-actions`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error(`❌ Error fetching corporate actions for ${symbol}:`, error);
+      return [];
+    }
+  }
+
+  // Get a stock's dividend history and yields from backend
+  async getDividends(symbol: string): Promise<StockDividends | null> {
+    try {
+      console.log(`🔄 Fetching dividends for ${symbol}...`);
+      const response = await axios.get(`${API_BASE_URL}/market/stock/${symbol}/dividends`);
+      return response.data.data || null;
+    } catch (error) {
+      console.error(`❌ Error fetching dividends for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  // Get corporate actions still ahead for the given symbols from backend
+  async getUpcomingCorporateActions(symbols: string[]): Promise<CorporateAction[]> {
+    if (symbols.length === 0) return [];
+    try {
+      console.log('🔄 Fetching upcoming corporate actions...');
+      const response = await axios.get(`${API_BASE_URL}/market/corporate-actions/upcoming`, {
+        params: { symbols: symbols.join(',') }
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching upcoming corporate actions:', error);
+      return [];
+    }
+  }
+
   // Get top gainers from backend
   async getTopGainers(): Promise<NSEStock[]> {
     try {
       console.log('🔄 Fetching top gainers...');
       const response = await axios.get(`${API_BASE_URL}/market/gainers`);
-      // Backend returns { success: true, data: [...], timestamp, count }
+      // Backend returns { success: true, data: [...], asOf, stale, count }
       return response.data.data || [];
     } catch (error) {
       console.error('❌ Error fetching top gainers:', error);
@@ -117,7 +332,7 @@ class MarketService {
     try {
       console.log('🔄 Fetching top losers...');
       const response = await axios.get(`${API_BASE_URL}/market/losers`);
-      // Backend returns { success: true, data: [...], timestamp, count }
+      // Backend returns { success: true, data: [...], asOf, stale, count }
       return response.data.data || [];
     } catch (error) {
       console.error('❌ Error fetching top losers:', error);
@@ -130,7 +345,7 @@ class MarketService {
     try {
       console.log('🔄 Fetching most active stocks...');
       const response = await axios.get(`${API_BASE_URL}/market/active`);
-      // Backend returns { success: true, data: [...], timestamp, count }
+      // Backend returns { success: true, data: [...], asOf, stale, count }
       return response.data.data || [];
     } catch (error) {
       console.error('❌ Error fetching most active stocks:', error);
@@ -157,7 +372,7 @@ class MarketService {
   async getStocksBySector(sector: string): Promise<NSEStock[]> {
     try {
       console.log(`🔄 Fetching stocks for sector: ${sector}...`);
-      const response = await axios.get(`${API_BASE_URL}/market/sector/${sector}`);
+      const response = await axios.get(`${API_BASE_URL}/market/sector/${encodeURIComponent(sector)}`);
       // Backend returns { success: true, data: [...] }
       return response.data.data || [];
     } catch (error) {
@@ -166,6 +381,18 @@ class MarketService {
     }
   }
 
+  // Get the symbol master, optionally one sector or segment of it
+  async getSymbols(filters: { sector?: NSESector; segment?: ListingSegment } = {}): Promise<SymbolMaster> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/market/symbols`, { params: filters });
+      // Backend returns { success: true, data: [...], unclassified: [...], count }
+      return { symbols: response.data.data || [], unclassified: response.data.unclassified || [] };
+    } catch (error) {
+      console.error('❌ Error fetching symbol master:', error);
+      return { symbols: [], unclassified: [] };
+    }
+  }
+
   // Convert to MarketData format for compatibility
   convertToMarketData(nseStock: NSEStock): MarketData {
     return {
@@ -175,7 +402,11 @@ class MarketService {
       change_percent: nseStock.changePercent,
       volume: nseStock.volume,
       market_cap: nseStock.marketCap,
-      sector: nseStock.sector || 'Unknown'
+      sector: nseStock.sector,
+      isin: nseStock.isin,
+      segment: nseStock.segment,
+      shares_outstanding: nseStock.sharesOutstanding,
+      board_lot: nseStock.boardLot
     };
   }
 
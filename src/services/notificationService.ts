@@ -0,0 +1,106 @@
+import axios from 'axios';
+import authService from '@/services/authService';
+import { Notification, NotificationCategory, UserSettings } from '@/types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export type NotificationPreferences = UserSettings['notifications'];
+
+export interface NotificationQuery {
+  limit?: number;
+  unread?: boolean;
+  category?: NotificationCategory;
+}
+
+export interface NotificationList {
+  notifications: Notification[];
+  // Across all the user's notifications, not only those returned
+  unread: number;
+}
+
+class NotificationService {
+  private authHeaders() {
+    const token = authService.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // Backend returns { success: false, error } or { success: false, errors: [{ msg }] }
+  private toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const message = data?.error || data?.errors?.[0]?.msg;
+      if (message) return new Error(message);
+    }
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  // Latest notifications, newest first, with the number unread
+  async getNotifications({ limit, unread, category }: NotificationQuery = {}): Promise<NotificationList> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/notifications`, {
+        headers: this.authHeaders(),
+        params: { limit, unread: unread || undefined, category },
+      });
+      return { notifications: response.data.data || [], unread: response.data.unread ?? 0 };
+    } catch (error) {
+      console.error('❌ Error fetching notifications:', error);
+      throw this.toError(error, 'Failed to fetch notifications');
+    }
+  }
+
+  async markRead(notificationId: string, read = true): Promise<Notification> {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/notifications/${notificationId}/${read ? 'read' : 'unread'}`,
+        {},
+        { headers: this.authHeaders() }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error updating notification:', error);
+      throw this.toError(error, 'Failed to update notification');
+    }
+  }
+
+  async markAllRead(): Promise<number> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/notifications/read-all`, {}, { headers: this.authHeaders() });
+      return response.data.data?.updated ?? 0;
+    } catch (error) {
+      console.error('❌ Error marking notifications read:', error);
+      throw this.toError(error, 'Failed to mark notifications as read');
+    }
+  }
+
+  async deleteNotification(notificationId: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/notifications/${notificationId}`, { headers: this.authHeaders() });
+    } catch (error) {
+      console.error('❌ Error deleting notification:', error);
+      throw this.toError(error, 'Failed to delete notification');
+    }
+  }
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/notifications/preferences`, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error fetching notification preferences:', error);
+      throw this.toError(error, 'Failed to fetch notification preferences');
+    }
+  }
+
+  async updatePreferences(changes: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/notifications/preferences`, changes, { headers: this.authHeaders() });
+      console.log('✅ Notification preferences updated');
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error updating notification preferences:', error);
+      throw this.toError(error, 'Failed to update notification preferences');
+    }
+  }
+}
+
+export default new NotificationService();
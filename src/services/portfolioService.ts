@@ -0,0 +1,206 @@
+import axios from 'axios';
+import authService from '@/services/authService';
+import { FixedIncomeInstrument, FixedIncomeType, Portfolio, PortfolioIncome, PortfolioLedger, PortfolioTransaction, TransactionType } from '@/types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export interface CreatePortfolioData {
+  name: string;
+  cash_balance?: number;
+}
+
+export interface UpdatePortfolioData {
+  name: string;
+}
+
+export interface TransactionData {
+  type: Exclude<TransactionType, 'reversal'>;
+  date?: string;
+  symbol?: string;
+  shares?: number;
+  price?: number;
+  amount?: number;
+  fees?: number;
+  tax_withheld?: number;
+  // Money market fund interest credited as more units rather than cash
+  reinvest?: boolean;
+  ratio_numerator?: number;
+  ratio_denominator?: number;
+  note?: string;
+  // Record a matching deposit first when a purchase exceeds the cash balance
+  auto_deposit?: boolean;
+}
+
+// Rates are annual fractions; a bill or bond may give the price per 100 paid instead of a yield
+export interface InstrumentData {
+  symbol: string;
+  asset_type: FixedIncomeType;
+  name: string;
+  issuer?: string;
+  yield?: number;
+  price?: number;
+  price_date?: string;
+  coupon_rate?: number;
+  coupon_frequency?: number;
+  issue_date?: string;
+  maturity_date?: string;
+}
+
+class PortfolioService {
+  private authHeaders() {
+    const token = authService.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // Backend returns { success: false, error } or { success: false, errors: [{ msg }] }
+  private toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const message = data?.error || data?.errors?.[0]?.msg;
+      if (message) return new Error(message);
+    }
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  async getPortfolios(): Promise<Portfolio[]> {
+    try {
+      console.log('🔄 Fetching portfolios...');
+      const response = await axios.get(`${API_BASE_URL}/portfolio`, { headers: this.authHeaders() });
+      // Backend returns { success: true, data: [...] }
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching portfolios:', error);
+      throw this.toError(error, 'Failed to fetch portfolios');
+    }
+  }
+
+  async getPortfolio(id: string): Promise<Portfolio> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/portfolio/${id}`, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error(`❌ Error fetching portfolio ${id}:`, error);
+      throw this.toError(error, 'Failed to fetch portfolio');
+    }
+  }
+
+  async createPortfolio(data: CreatePortfolioData): Promise<Portfolio> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/portfolio`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error creating portfolio:', error);
+      throw this.toError(error, 'Failed to create portfolio');
+    }
+  }
+
+  async updatePortfolio(id: string, data: UpdatePortfolioData): Promise<Portfolio> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/portfolio/${id}`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error(`❌ Error updating portfolio ${id}:`, error);
+      throw this.toError(error, 'Failed to update portfolio');
+    }
+  }
+
+  async deletePortfolio(id: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/portfolio/${id}`, { headers: this.authHeaders() });
+    } catch (error) {
+      console.error(`❌ Error deleting portfolio ${id}:`, error);
+      throw this.toError(error, 'Failed to delete portfolio');
+    }
+  }
+
+  async getTransactions(portfolioId: string): Promise<PortfolioTransaction[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/portfolio/${portfolioId}/transactions`, { headers: this.authHeaders() });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching transactions:', error);
+      throw this.toError(error, 'Failed to fetch transactions');
+    }
+  }
+
+  async getLedger(portfolioId: string, symbol?: string): Promise<PortfolioLedger> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/portfolio/${portfolioId}/ledger`, {
+        headers: this.authHeaders(),
+        params: symbol ? { symbol } : undefined
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error fetching ledger:', error);
+      throw this.toError(error, 'Failed to fetch ledger');
+    }
+  }
+
+  // Ledger mutations return the re-derived, re-valued portfolio
+  async recordTransaction(portfolioId: string, data: TransactionData): Promise<Portfolio> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/portfolio/${portfolioId}/transactions`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error recording transaction:', error);
+      throw this.toError(error, 'Failed to record transaction');
+    }
+  }
+
+  async reverseTransaction(portfolioId: string, transactionId: string, note?: string): Promise<Portfolio> {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/portfolio/${portfolioId}/transactions/${transactionId}/reverse`,
+        { note },
+        { headers: this.authHeaders() }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error reversing transaction:', error);
+      throw this.toError(error, 'Failed to reverse transaction');
+    }
+  }
+
+  // Dividends expected over the next 12 months from the shares held, net of withholding tax
+  async getIncome(portfolioId: string): Promise<PortfolioIncome> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/portfolio/${portfolioId}/income`, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error fetching income projection:', error);
+      throw this.toError(error, 'Failed to fetch income projection');
+    }
+  }
+
+  async getInstruments(portfolioId: string): Promise<FixedIncomeInstrument[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/portfolio/${portfolioId}/instruments`, { headers: this.authHeaders() });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching instruments:', error);
+      throw this.toError(error, 'Failed to fetch instruments');
+    }
+  }
+
+  // Adds the terms, or updates them (e.g. a new yield) when the symbol is already registered
+  async saveInstrument(portfolioId: string, data: InstrumentData): Promise<FixedIncomeInstrument> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/portfolio/${portfolioId}/instruments`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error saving instrument:', error);
+      throw this.toError(error, 'Failed to save instrument');
+    }
+  }
+
+  async deleteInstrument(portfolioId: string, instrumentId: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/portfolio/${portfolioId}/instruments/${instrumentId}`, { headers: this.authHeaders() });
+    } catch (error) {
+      console.error('❌ Error deleting instrument:', error);
+      throw this.toError(error, 'Failed to delete instrument');
+    }
+  }
+}
+
+export default new PortfolioService();
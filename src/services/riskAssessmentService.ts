@@ -0,0 +1,84 @@
+import axios from 'axios';
+import authService, { User } from '@/services/authService';
+import { RiskProfile } from '@/ai/types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+// Questionnaire answers as the backend takes them; choice answers are option values
+export interface RiskAssessmentAnswers {
+  investment_horizon: number;
+  monthly_income: number;
+  monthly_debt_payments: number;
+  emergency_fund_months: number;
+  financial_goals: string[];
+  income_stability: string;
+  investment_experience: string;
+  drawdown_reaction: string;
+  return_preference: string;
+  loss_tolerance: string;
+}
+
+// Mirrors the `risk_assessments` table
+export interface RiskAssessmentRecord {
+  id: string;
+  user_id: string;
+  score: number;
+  risk_tolerance: RiskProfile;
+  investment_horizon: number;
+  debt_to_income_ratio: number | null;
+  emergency_fund_months: number | null;
+  financial_goals: string[];
+  assessment_data: {
+    questionnaireVersion?: number;
+    capacityScore?: number;
+    willingnessScore?: number;
+    constraints?: string[];
+    answers?: Record<string, unknown>;
+  };
+  created_at: string;
+  updated_at: string;
+}
+
+class RiskAssessmentService {
+  private authHeaders() {
+    const token = authService.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // Backend returns { success: false, error } or { success: false, errors: [{ msg }] }
+  private toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const message = data?.error || data?.errors?.[0]?.msg;
+      if (message) return new Error(message);
+    }
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  // Scores and stores the assessment; the returned user carries the new risk tolerance
+  async submitAssessment(answers: RiskAssessmentAnswers): Promise<{ assessment: RiskAssessmentRecord; user: User }> {
+    try {
+      console.log('🔄 Submitting risk assessment...');
+      const response = await axios.post(`${API_BASE_URL}/users/risk-assessments`, answers, { headers: this.authHeaders() });
+      const { assessment, user } = response.data.data;
+      authService.storeUser(user);
+      console.log('✅ Risk assessment saved:', assessment.risk_tolerance, assessment.score);
+      return { assessment, user };
+    } catch (error) {
+      console.error('❌ Error submitting risk assessment:', error);
+      throw this.toError(error, 'Failed to submit risk assessment');
+    }
+  }
+
+  async getHistory(): Promise<RiskAssessmentRecord[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/users/risk-assessments`, { headers: this.authHeaders() });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching risk assessments:', error);
+      throw this.toError(error, 'Failed to fetch risk assessments');
+    }
+  }
+}
+
+export default new RiskAssessmentService();
@@ -0,0 +1,140 @@
+import axios from 'axios';
+import authService from '@/services/authService';
+import { AlertDirection, AlertRuleType } from '@/ai/types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  type: AlertRuleType;
+  // KES for price-cross, % for percent-move, a multiple of average volume for volume-spike
+  threshold: number | null;
+  direction: AlertDirection;
+  active: boolean;
+  note: string | null;
+  last_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRuleData {
+  symbol: string;
+  type: AlertRuleType;
+  threshold?: number;
+  direction?: AlertDirection;
+  active?: boolean;
+  note?: string;
+}
+
+class WatchlistService {
+  private authHeaders() {
+    const token = authService.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // Backend returns { success: false, error } or { success: false, errors: [{ msg }] }
+  private toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      const message = data?.error || data?.errors?.[0]?.msg;
+      if (message) return new Error(message);
+    }
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  async getWatchlists(): Promise<Watchlist[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/watchlists`, { headers: this.authHeaders() });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching watchlists:', error);
+      throw this.toError(error, 'Failed to fetch watchlists');
+    }
+  }
+
+  async createWatchlist(name: string, symbols: string[] = []): Promise<Watchlist> {
+    try {
+      console.log('🔄 Creating watchlist:', name);
+      const response = await axios.post(`${API_BASE_URL}/watchlists`, { name, symbols }, { headers: this.authHeaders() });
+      console.log('✅ Watchlist created');
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error creating watchlist:', error);
+      throw this.toError(error, 'Failed to create watchlist');
+    }
+  }
+
+  async updateWatchlist(id: string, data: { name?: string; symbols?: string[] }): Promise<Watchlist> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/watchlists/${id}`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error updating watchlist:', error);
+      throw this.toError(error, 'Failed to update watchlist');
+    }
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/watchlists/${id}`, { headers: this.authHeaders() });
+    } catch (error) {
+      console.error('❌ Error deleting watchlist:', error);
+      throw this.toError(error, 'Failed to delete watchlist');
+    }
+  }
+
+  async getAlertRules(symbol?: string): Promise<AlertRule[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/alerts`, {
+        headers: this.authHeaders(),
+        params: symbol ? { symbol } : undefined,
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('❌ Error fetching alerts:', error);
+      throw this.toError(error, 'Failed to fetch alerts');
+    }
+  }
+
+  async createAlertRule(data: AlertRuleData): Promise<AlertRule> {
+    try {
+      console.log('🔄 Creating alert:', data.symbol, data.type);
+      const response = await axios.post(`${API_BASE_URL}/alerts`, data, { headers: this.authHeaders() });
+      console.log('✅ Alert created');
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error creating alert:', error);
+      throw this.toError(error, 'Failed to create alert');
+    }
+  }
+
+  async updateAlertRule(id: string, data: Partial<Omit<AlertRuleData, 'symbol' | 'type'>>): Promise<AlertRule> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/alerts/${id}`, data, { headers: this.authHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('❌ Error updating alert:', error);
+      throw this.toError(error, 'Failed to update alert');
+    }
+  }
+
+  async deleteAlertRule(id: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/alerts/${id}`, { headers: this.authHeaders() });
+    } catch (error) {
+      console.error('❌ Error deleting alert:', error);
+      throw this.toError(error, 'Failed to delete alert');
+    }
+  }
+}
+
+export default new WatchlistService();
@@ -20,16 +20,9 @@ export interface MarketStock {
   timestamp?: string;
 }
 
-export interface MarketData {
-  symbol: string;
-  company_name: string;
-  current_price: number;
-  change_percent: number;
-  volume?: number;
-  market_cap?: number;
-  sector?: string;
-  timestamp?: string;
-}
+// Engine input types are shared with the backend (shared/ai/types.ts)
+export type { MarketData, RiskMetrics } from './ai/types';
+import type { AIAlert, AssetType, CorporateActionType, CreditQuality, DividendIncomeProjection, DividendYield, FixedIncomeType } from './ai/types';
 
 export interface HistoricalDataPoint {
   date: string;
@@ -55,24 +48,173 @@ export interface MarketSummary {
 // ============================================
 
 export interface PortfolioHolding {
+  id?: string;
   symbol: string;
+  asset_type?: AssetType;
+  // Instrument name; NSE equities have none
+  name?: string;
+  // NSE sector of equities in the symbol master
+  sector?: string;
+  // Units of 100 face value for bills and bonds, shillings for funds and deposits
   shares: number;
   avg_price: number;
+  current_price?: number;
   current_value: number;
   gain_percentage?: number;
+  cost_basis?: number;
+  unrealized_gain?: number;
+  realized_gain?: number;
+  dividends?: number;
+  interest?: number;
+  // Fixed income only
+  ytm?: number;
+  coupon_rate?: number | null;
+  maturity_date?: string | null;
+  accrued_interest?: number;
+  modified_duration?: number;
+  credit_quality?: CreditQuality;
+  matured?: boolean;
 }
 
 export interface Portfolio {
   id: string;
   user_id: string;
+  name?: string;
   total_value: number;
   total_investment: number;
   total_gain: number;
   gain_percentage: number;
   cash_balance: number;
+  realized_gain?: number;
+  unrealized_gain?: number;
+  dividend_income?: number;
+  interest_income?: number;
+  fees_paid?: number;
+  net_contributions?: number;
   holdings: PortfolioHolding[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type TransactionType =
+  | 'buy'
+  | 'sell'
+  | 'dividend'
+  | 'interest'
+  | 'bonus'
+  | 'rights'
+  | 'split'
+  | 'deposit'
+  | 'withdrawal'
+  | 'fee'
+  | 'reversal';
+
+export interface PortfolioTransaction {
+  id: string;
+  portfolio_id: string;
+  type: TransactionType;
+  date: string;
+  symbol?: string;
+  shares?: number;
+  price?: number;
+  amount?: number;
+  fees: number;
+  tax_withheld?: number;
+  ratio?: { numerator: number; denominator: number };
+  reinvested?: boolean;
+  reverses?: string;
+  reversed_by?: string;
+  // Set when the entry was posted automatically from a corporate action
+  corporate_action_id?: string;
+  note?: string;
+  created_at: string;
+}
+
+export interface PositionAuditStep {
+  transaction_id: string;
+  date: string;
+  type: TransactionType;
+  shares_delta: number;
+  shares_after: number;
+  cost_basis_after: number;
+  avg_cost_after: number;
+  cash_delta: number;
+  realized_gain: number;
+  // bonus/split: the part of a share not credited, paid out as cash in lieu
+  fractional_shares?: number;
+}
+
+export interface CashAuditStep {
+  transaction_id: string;
+  date: string;
+  type: TransactionType;
+  symbol?: string;
+  cash_delta: number;
+  cash_after: number;
+}
+
+export interface PortfolioLedger {
+  cash_balance: number;
+  cash_trail: CashAuditStep[];
+  positions: {
+    symbol: string;
+    shares: number;
+    cost_basis: number;
+    realized_gain: number;
+    dividends: number;
+    interest: number;
+    trail: PositionAuditStep[];
+  }[];
 }
 
+// Terms of a Treasury bill or bond, money market fund or fixed deposit; rates are fractions
+export interface FixedIncomeInstrument {
+  id: string;
+  portfolio_id: string;
+  symbol: string;
+  asset_type: FixedIncomeType;
+  name: string;
+  issuer: string | null;
+  yield: number;
+  yield_updated_at: string;
+  coupon_rate: number | null;
+  coupon_frequency: number | null;
+  issue_date: string | null;
+  maturity_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A dividend, bonus issue, split or rights issue announced by an NSE issuer
+export interface CorporateAction {
+  id: string;
+  symbol: string;
+  type: CorporateActionType;
+  ex_date: string;
+  book_closure_date: string | null;
+  payment_date: string | null;
+  // dividend: KES per share before withholding tax
+  amount: number | null;
+  ratio: { numerator: number; denominator: number } | null;
+  // rights: subscription price per new share
+  price: number | null;
+  note: string | null;
+  applied_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A stock's dividend history, newest first, with its yields on the latest price
+export interface StockDividends {
+  symbol: string;
+  price: number | null;
+  yield: DividendYield;
+  history: CorporateAction[];
+}
+
+// Dividends a portfolio can expect over the next 12 months, and what it received over the last 12
+export type PortfolioIncome = DividendIncomeProjection & { receivedLast12Months: number };
+
 export interface PerformanceData {
   date?: string;
   month?: string;
@@ -102,8 +244,12 @@ export interface User {
   dateOfBirth?: string;
   investmentExperience?: 'beginner' | 'intermediate' | 'advanced';
   riskTolerance?: 'conservative' | 'moderate' | 'aggressive';
+  // Score (0-100) of the latest risk assessment, which set riskTolerance
+  riskScore?: number | null;
+  riskAssessedAt?: string | null;
   investmentGoals?: string[];
   monthlyIncome?: number;
+  role?: 'user' | 'admin';
   createdAt: string;
   updatedAt: string;
 }
@@ -169,25 +315,35 @@ export interface PerformanceMetrics {
   alpha: number;
 }
 
-export interface RiskMetrics {
-  valueAtRisk: number;
-  conditionalVaR: number;
-  standardDeviation: number;
-  downside_deviation: number;
-  trackingError: number;
-}
-
 // ============================================
 // Notification Types
 // ============================================
 
+// What raised a notification: a price alert rule, or an AI alert of the risk engine by its type
+export type NotificationCategory = 'price-alert' | 'risk' | 'opportunity' | 'rebalance' | 'market';
+
 export interface Notification {
   id: string;
+  category: NotificationCategory;
   type: 'info' | 'success' | 'warning' | 'error';
+  // Set on AI alerts
+  severity: AIAlert['severity'] | null;
+  action_required: boolean;
   title: string;
   message: string;
+  suggested_actions: string[];
+  affected_symbols: string[];
+  // With `symbol`, identifies the condition: a notification raised again while unread is bumped
+  rule: string;
+  symbol: string | null;
+  portfolio_id: string | null;
+  // Set on notifications raised by a price alert rule
+  alert_rule_id: string | null;
+  occurrences: number;
   timestamp: string;
+  last_seen_at: string;
   read: boolean;
+  read_at: string | null;
 }
 
 // ============================================
@@ -203,6 +359,8 @@ export interface UserSettings {
     push: boolean;
     priceAlerts: boolean;
     marketNews: boolean;
+    // Risk, opportunity and rebalancing alerts from the AI risk engine
+    portfolioAlerts: boolean;
   };
   privacy: {
     profileVisibility: 'public' | 'private';